@@ -1,7 +1,14 @@
 import { Outlet } from 'react-router-dom';
 import { NavigationMenu } from '@/components/NavigationMenu';
+import { GlobalShortcuts } from '@/components/GlobalShortcuts';
+import { UndoToast } from '@/components/UndoToast';
+import { useTaskSync } from '@/hooks/useTaskSync';
+import { useReminderSync } from '@/hooks/useReminderSync';
 
 export function AppLayout() {
+  useTaskSync();
+  useReminderSync();
+  
   return (
     <div className="h-screen flex">
       {/* デスクトップサイドバー */}
@@ -16,6 +23,9 @@ export function AppLayout() {
       <main className="flex-1 overflow-hidden">
         <Outlet />
       </main>
+
+      <GlobalShortcuts />
+      <UndoToast />
     </div>
   );
 }
\ No newline at end of file
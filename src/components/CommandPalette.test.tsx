@@ -0,0 +1,67 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { CommandPalette, type PaletteCommand } from './CommandPalette';
+
+describe('CommandPalette', () => {
+  const createCommands = () => {
+    const goHome = vi.fn();
+    const openTask = vi.fn();
+    const commands: PaletteCommand[] = [
+      { id: 'home', label: 'ホームに移動', group: '移動', shortcut: 'g h', run: goHome },
+      { id: 'settings', label: '設定に移動', group: '移動', run: vi.fn() },
+      { id: 'task', label: '歯医者の予約', group: 'タスク', searchOnly: true, run: openTask },
+    ];
+    return { commands, goHome, openTask };
+  };
+
+  it('should list commands and hide search-only entries until searching', () => {
+    const { commands } = createCommands();
+    render(<CommandPalette open onOpenChange={vi.fn()} commands={commands} />);
+
+    expect(screen.getAllByRole('option').map((option) => option.textContent)).toEqual([
+      'ホームに移動GH',
+      '設定に移動',
+    ]);
+
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: '歯医者' } });
+
+    expect(screen.getByRole('option', { name: '歯医者の予約' })).toBeInTheDocument();
+    expect(screen.getAllByRole('option')).toHaveLength(1);
+  });
+
+  it('should run the selected command with the keyboard and close', () => {
+    const { commands, openTask } = createCommands();
+    const onOpenChange = vi.fn();
+    render(<CommandPalette open onOpenChange={onOpenChange} commands={commands} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.change(input, { target: { value: '予約' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(openTask).toHaveBeenCalled();
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+
+  it('should move the selection with the arrow keys', () => {
+    const { commands } = createCommands();
+    render(<CommandPalette open onOpenChange={vi.fn()} commands={commands} />);
+    const input = screen.getByRole('combobox');
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(screen.getByRole('option', { name: '設定に移動' })).toHaveAttribute(
+      'aria-selected',
+      'true'
+    );
+
+    fireEvent.keyDown(input, { key: 'ArrowDown' });
+    expect(screen.getByRole('option', { selected: true })).toHaveTextContent('ホームに移動');
+  });
+
+  it('should start with the initial query', () => {
+    const { commands } = createCommands();
+    render(<CommandPalette open onOpenChange={vi.fn()} commands={commands} initialQuery="設定" />);
+
+    expect(screen.getByRole('combobox')).toHaveValue('設定');
+    expect(screen.getAllByRole('option')).toHaveLength(1);
+  });
+});
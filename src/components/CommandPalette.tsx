@@ -0,0 +1,141 @@
+import { useEffect, useId, useMemo, useState } from 'react';
+import { Search } from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { ShortcutKeys } from '@/components/ShortcutKeys';
+import { cn } from '@/lib/utils';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  // 割り当てられたショートカット
+  shortcut?: string;
+  // 検索語を入力したときのみ表示する (タスクなど)
+  searchOnly?: boolean;
+  run: () => void;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+  // 開いたときの検索語
+  initialQuery?: string;
+}
+
+// 検索時にのみ表示する候補の最大件数
+const MAX_SEARCH_RESULTS = 20;
+
+export function CommandPalette({
+  open,
+  onOpenChange,
+  commands,
+  initialQuery = '',
+}: CommandPaletteProps) {
+  const listId = useId();
+  const [query, setQuery] = useState(initialQuery);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (open) {
+      setQuery(initialQuery);
+      setActiveIndex(0);
+    }
+  }, [open, initialQuery]);
+
+  // 空白で区切ったすべての語を含む候補を表示する
+  const results = useMemo(() => {
+    const terms = query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    const matched = commands.filter(
+      (command) =>
+        (terms.length > 0 || !command.searchOnly) &&
+        terms.every((term) => command.label.toLowerCase().includes(term))
+    );
+    const searchOnly = matched.filter((command) => command.searchOnly);
+    return [
+      ...matched.filter((command) => !command.searchOnly),
+      ...searchOnly.slice(0, MAX_SEARCH_RESULTS),
+    ];
+  }, [commands, query]);
+
+  const run = (command: PaletteCommand) => {
+    onOpenChange(false);
+    command.run();
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const delta = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((index) => (index + delta + results.length) % results.length);
+    } else if (event.key === 'Enter' && !event.nativeEvent.isComposing) {
+      event.preventDefault();
+      const command = results[activeIndex];
+      if (command) run(command);
+    }
+  };
+
+  const optionId = (index: number) => `${listId}-${index}`;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="gap-0 p-0 sm:max-w-lg" aria-describedby={undefined}>
+        <DialogTitle className="sr-only">コマンドパレット</DialogTitle>
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="h-4 w-4 text-muted-foreground" />
+          <input
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="コマンドやタスクを検索"
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+            role="combobox"
+            aria-label="コマンドを検索"
+            aria-expanded
+            aria-controls={listId}
+            aria-activedescendant={results[activeIndex] ? optionId(activeIndex) : undefined}
+          />
+        </div>
+
+        <div id={listId} role="listbox" className="max-h-80 overflow-y-auto p-2">
+          {results.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">
+              該当するコマンドはありません
+            </p>
+          ) : (
+            results.map((command, index) => (
+              <div key={command.id}>
+                {command.group !== results[index - 1]?.group && (
+                  <div
+                    role="presentation"
+                    className="px-2 pb-1 pt-2 text-xs font-medium text-muted-foreground"
+                  >
+                    {command.group}
+                  </div>
+                )}
+                <div
+                  id={optionId(index)}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  onClick={() => run(command)}
+                  onMouseMove={() => setActiveIndex(index)}
+                  className={cn(
+                    'flex cursor-pointer items-center justify-between gap-2 rounded px-2 py-1.5 text-sm',
+                    index === activeIndex && 'bg-accent text-accent-foreground'
+                  )}
+                >
+                  <span className="truncate">{command.label}</span>
+                  {command.shortcut && <ShortcutKeys binding={command.shortcut} />}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,48 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+
+interface CompleteSubtasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 未完了のサブタスクの件数
+  openCount: number;
+  onSelect: (includeSubtasks: boolean) => void;
+}
+
+export function CompleteSubtasksDialog({
+  open,
+  onOpenChange,
+  openCount,
+  onSelect,
+}: CompleteSubtasksDialogProps) {
+  const select = (includeSubtasks: boolean) => {
+    onSelect(includeSubtasks);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>サブタスクの完了</DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          未完了のサブタスクが{openCount}件あります。一緒に完了にしますか？
+        </p>
+
+        <div className="flex flex-col gap-2 mt-2">
+          <Button type="button" onClick={() => select(true)}>
+            サブタスクもすべて完了
+          </Button>
+          <Button type="button" variant="outline" onClick={() => select(false)}>
+            このタスクのみ完了
+          </Button>
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Download } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  CSV_COLUMNS,
+  CSV_COLUMN_LABELS,
+  downloadCsv,
+  exportCsv,
+  type CsvColumn,
+} from '@/utils/csv';
+
+interface CsvExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function CsvExportDialog({ open, onOpenChange }: CsvExportDialogProps) {
+  const [columns, setColumns] = useState<CsvColumn[]>(CSV_COLUMNS);
+
+  const toggleColumn = (column: CsvColumn, checked: boolean) => {
+    // 選んだ項目も CSV_COLUMNS の順に並べる
+    setColumns(CSV_COLUMNS.filter((c) => (c === column ? checked : columns.includes(c))));
+  };
+
+  const handleExport = async () => {
+    try {
+      downloadCsv(await exportCsv(columns));
+      onOpenChange(false);
+    } catch (error) {
+      console.error('エクスポートエラー:', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>CSV のエクスポート</DialogTitle>
+          <DialogDescription>書き出す項目を選んでください</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {CSV_COLUMNS.map((column) => (
+            <label key={column} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={columns.includes(column)}
+                onCheckedChange={(checked) => toggleColumn(column, !!checked)}
+              />
+              {CSV_COLUMN_LABELS[column]}
+            </label>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+          <Button onClick={handleExport} disabled={columns.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            エクスポート
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
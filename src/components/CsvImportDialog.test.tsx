@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { db } from '@/db';
+import { CsvImportDialog } from './CsvImportDialog';
+
+describe('CsvImportDialog', () => {
+  const csv = '\uFEFFName,Due,メモ\r\n"牛乳, 卵を買う",2024-01-15 09:30,\r\n会議,2024-13-01,\r\n';
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  it('should guess the mapping and preview rows with validation errors', () => {
+    render(<CsvImportDialog open onOpenChange={vi.fn()} csv={csv} />);
+
+    expect(screen.getByRole('combobox', { name: 'Nameの項目' })).toHaveTextContent('タイトル');
+    expect(screen.getByRole('combobox', { name: 'Dueの項目' })).toHaveTextContent('期限');
+    expect(screen.getByRole('combobox', { name: 'メモの項目' })).toHaveTextContent('読み込まない');
+
+    expect(screen.getByText('牛乳, 卵を買う')).toBeInTheDocument();
+    expect(screen.getByText(/1件を読み込みます/)).toBeInTheDocument();
+    expect(screen.getByText('行 2: 期限を読み取れません: 2024-13-01')).toBeInTheDocument();
+  });
+
+  it('should require the title column before importing', () => {
+    render(<CsvImportDialog open onOpenChange={vi.fn()} csv={csv} />);
+
+    fireEvent.click(screen.getByRole('combobox', { name: 'Nameの項目' }));
+    fireEvent.click(screen.getByRole('option', { name: '読み込まない' }));
+
+    expect(screen.getByText('「タイトル」を割り当てる列を選んでください')).toBeInTheDocument();
+    expect(screen.getByText('インポート実行')).toBeDisabled();
+  });
+
+  it('should import only the valid rows', async () => {
+    const onOpenChange = vi.fn();
+    render(<CsvImportDialog open onOpenChange={onOpenChange} csv={csv} />);
+
+    fireEvent.click(screen.getByText('インポート実行'));
+
+    await waitFor(() => expect(onOpenChange).toHaveBeenCalledWith(false));
+    const tasks = await db.tasks.toArray();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({
+      title: '牛乳, 卵を買う',
+      dueAt: new Date(2024, 0, 15, 9, 30).getTime(),
+      status: 'pending',
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Save } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { recordHistory } from '@/store/useHistory';
+import {
+  CSV_COLUMNS,
+  CSV_COLUMN_LABELS,
+  CSV_STATUS_LABELS,
+  getCsvMappingErrors,
+  guessCsvMapping,
+  importCsvTasks,
+  parseCsv,
+  parseCsvTasks,
+  type CsvColumn,
+  type CsvMapping,
+} from '@/utils/csv';
+
+// Select は空の値を選べないため、読み込まない列はこの値で表す
+const SKIP_COLUMN = 'none';
+
+// 確認のために表示する行数
+const PREVIEW_ROWS = 5;
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // 読み込んだ CSV ファイルの内容 (1行目は見出し)
+  csv: string;
+}
+
+function formatDueAt(dueAt: number): string {
+  return new Date(dueAt).toLocaleString('ja-JP', {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function CsvImportDialog({ open, onOpenChange, csv }: CsvImportDialogProps) {
+  const parsed = useMemo(() => parseCsv(csv), [csv]);
+  const header = parsed[0];
+  const rows = useMemo(() => parsed.slice(1), [parsed]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessCsvMapping(header ?? []));
+  const [importing, setImporting] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  // ファイルが変わったら見出しから割り当てを推測し直す
+  useEffect(() => {
+    setMapping(guessCsvMapping(header ?? []));
+    setImportError(null);
+  }, [header]);
+
+  const mappingErrors = useMemo(() => getCsvMappingErrors(mapping), [mapping]);
+  const previewRows = useMemo(
+    () => (mappingErrors.length === 0 ? parseCsvTasks(rows, mapping) : []),
+    [rows, mapping, mappingErrors]
+  );
+  const validCount = previewRows.filter((row) => row.errors.length === 0).length;
+
+  const updateMapping = (index: number, value: string) => {
+    const next = [...mapping];
+    next[index] = value === SKIP_COLUMN ? null : (value as CsvColumn);
+    setMapping(next);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setImportError(null);
+
+    try {
+      await recordHistory('CSV をインポートしました', () => importCsvTasks(previewRows));
+      onOpenChange(false);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'インポートに失敗しました');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>CSV のインポート</DialogTitle>
+          <DialogDescription>
+            列ごとに読み込む項目を選んでください。タスクは既存のデータに追加します
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!header ? (
+            <p className="text-sm text-muted-foreground">CSV ファイルにデータがありません</p>
+          ) : (
+            <div className="space-y-2">
+              {header.map((name, index) => (
+                <div key={index} className="flex items-center justify-between gap-4">
+                  <span className="text-sm truncate">{name || `${index + 1}列目`}</span>
+                  <Select
+                    value={mapping[index] ?? SKIP_COLUMN}
+                    onValueChange={(value) => updateMapping(index, value)}
+                  >
+                    <SelectTrigger
+                      className="w-48"
+                      aria-label={`${name || `${index + 1}列目`}の項目`}
+                    >
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={SKIP_COLUMN}>読み込まない</SelectItem>
+                      {CSV_COLUMNS.map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {CSV_COLUMN_LABELS[column]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mappingErrors.length > 0 && header && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                {mappingErrors.map((error) => (
+                  <p key={error}>{error}</p>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {previewRows.length > 0 && (
+            <div>
+              <p className="text-sm font-medium mb-2">
+                プレビュー ({validCount}件を読み込みます
+                {validCount < previewRows.length &&
+                  `。${previewRows.length - validCount}件はエラーのため読み込みません`}
+                )
+              </p>
+              <div className="overflow-x-auto rounded-md border">
+                <table className="w-full text-sm">
+                  <thead className="bg-muted text-left">
+                    <tr>
+                      <th className="px-2 py-1 font-medium">行</th>
+                      <th className="px-2 py-1 font-medium">{CSV_COLUMN_LABELS.title}</th>
+                      <th className="px-2 py-1 font-medium">{CSV_COLUMN_LABELS.dueAt}</th>
+                      <th className="px-2 py-1 font-medium">{CSV_COLUMN_LABELS.category}</th>
+                      <th className="px-2 py-1 font-medium">{CSV_COLUMN_LABELS.status}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.slice(0, PREVIEW_ROWS).map(({ row, task, category, errors }) => (
+                      <tr
+                        key={row}
+                        className={errors.length > 0 ? 'border-t text-destructive' : 'border-t'}
+                      >
+                        <td className="px-2 py-1">{row}</td>
+                        <td className="px-2 py-1 whitespace-pre-line">{task.title}</td>
+                        <td className="px-2 py-1">
+                          {task.dueAt !== undefined && formatDueAt(task.dueAt)}
+                        </td>
+                        <td className="px-2 py-1">{category}</td>
+                        <td className="px-2 py-1">{CSV_STATUS_LABELS[task.status]}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          {validCount < previewRows.length && (
+            <ul className="text-sm text-destructive space-y-1">
+              {previewRows.flatMap(({ row, errors }) =>
+                errors.map((error) => <li key={`${row}:${error}`}>{`行 ${row}: ${error}`}</li>)
+              )}
+            </ul>
+          )}
+
+          {importError && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{importError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={importing}>
+            キャンセル
+          </Button>
+          <Button onClick={handleImport} disabled={importing || validCount === 0}>
+            {importing ? (
+              <>
+                <Save className="h-4 w-4 mr-2 animate-spin" />
+                インポート中...
+              </>
+            ) : (
+              'インポート実行'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
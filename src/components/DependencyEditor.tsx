@@ -0,0 +1,89 @@
+import { Link2, X } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { getBlockerCandidates, getBlockers } from '@/utils/dependencies';
+import type { Task } from '../db';
+
+interface DependencyEditorProps {
+  value: string[];
+  onChange: (blockedBy: string[]) => void;
+  // 編集中のタスクのID (新規作成の場合は undefined)
+  taskId?: string;
+  tasks: Task[];
+}
+
+export function DependencyEditor({ value, onChange, taskId, tasks }: DependencyEditorProps) {
+  const blockers = getBlockers({ blockedBy: value }, tasks);
+  // 循環する依存関係になるタスクは候補に出さない
+  const candidates = getBlockerCandidates(taskId, value, tasks);
+
+  return (
+    <div>
+      <Label className="flex items-center gap-2">
+        <Link2 className="h-4 w-4" />
+        ブロック元のタスク
+      </Label>
+
+      {blockers.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {blockers.map((blocker) => (
+            <li
+              key={blocker.id}
+              className="flex items-center justify-between rounded-md border px-3 py-1"
+            >
+              <span
+                className={cn(
+                  'text-sm',
+                  blocker.status !== 'pending' && 'line-through text-muted-foreground'
+                )}
+              >
+                {blocker.title}
+              </span>
+              <Button
+                type="button"
+                size="sm"
+                variant="ghost"
+                onClick={() => onChange(value.filter((id) => id !== blocker.id))}
+                aria-label={`「${blocker.title}」の依存関係を外す`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Select value="" onValueChange={(id) => onChange([...value, id])}>
+        <SelectTrigger
+          className="mt-2"
+          aria-label="ブロック元を追加"
+          disabled={candidates.length === 0}
+        >
+          <SelectValue
+            placeholder={
+              candidates.length === 0 ? '追加できるタスクがありません' : 'ブロック元を追加'
+            }
+          />
+        </SelectTrigger>
+        <SelectContent>
+          {candidates.map((candidate) => (
+            <SelectItem key={candidate.id} value={candidate.id!}>
+              {candidate.title}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="mt-1 text-xs text-muted-foreground">
+        ブロック元のタスクが完了するまで、今日のタスクでは薄く表示されます
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,227 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { CommandPalette, type PaletteCommand } from '@/components/CommandPalette';
+import { CompleteSubtasksDialog } from '@/components/CompleteSubtasksDialog';
+import { ShortcutHelp } from '@/components/ShortcutHelp';
+import { useShortcuts } from '@/hooks/useShortcuts';
+import { useSettings } from '@/store/useSettings';
+import { useTasks } from '@/store/useTasks';
+import { useCategories } from '@/store/useCategories';
+import { useHistory } from '@/store/useHistory';
+import { navigationItems } from '@/utils/navigation';
+import type { ShortcutNavigationState } from '@/utils/shortcuts';
+import { getOpenSubtasks } from '@/utils/subtasks';
+import type { Task } from '@/db';
+
+// カテゴリー変更の候補を絞り込む検索語
+const CHANGE_CATEGORY_QUERY = 'カテゴリーを変更';
+
+// フォーカス中のタスクカード (TaskCard の data-task-id) の ID
+function getFocusedTaskId(): string | undefined {
+  const element = document.activeElement?.closest<HTMLElement>('[data-task-id]');
+  return element?.dataset.taskId;
+}
+
+// 画面上のタスクカードのフォーカスを前後に移す
+function moveTaskFocus(delta: number) {
+  const cards = [...document.querySelectorAll<HTMLElement>('[data-task-id]')];
+  if (cards.length === 0) return;
+
+  const current = cards.findIndex((card) => card.contains(document.activeElement));
+  const next =
+    current === -1
+      ? delta > 0
+        ? 0
+        : cards.length - 1
+      : Math.min(Math.max(current + delta, 0), cards.length - 1);
+  cards[next].focus();
+}
+
+/**
+ * アプリ全体のキーボードショートカットとコマンドパレット・ショートカット一覧
+ */
+export function GlobalShortcuts() {
+  const navigate = useNavigate();
+  const { shortcuts, load: loadSettings } = useSettings();
+  // タスクの検索とカテゴリーの変更に使う (useTaskSync で常に最新の状態に保たれる)
+  const { tasks, update, toggleStatus } = useTasks();
+  const { categories } = useCategories();
+  const { undoStack, redoStack, undo, redo } = useHistory();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [paletteQuery, setPaletteQuery] = useState('');
+  const [helpOpen, setHelpOpen] = useState(false);
+  // パレットを開いたときにフォーカスしていたタスク
+  const [targetTaskId, setTargetTaskId] = useState<string>();
+  // 未完了のサブタスクがあるため、完了の範囲を確認中のタスク
+  const [completingTask, setCompletingTask] = useState<Task>();
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const openPalette = (query = '') => {
+    setTargetTaskId(getFocusedTaskId());
+    setPaletteQuery(query);
+    setPaletteOpen(true);
+  };
+
+  const navigateHome = (state: ShortcutNavigationState) => navigate('/', { state });
+
+  const completeTask = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task?.status !== 'pending') return;
+    // 未完了のサブタスクがある場合は一緒に完了にするか確認する
+    if (getOpenSubtasks(taskId, tasks).length > 0) {
+      setCompletingTask(task);
+      return;
+    }
+    toggleStatus(taskId);
+  };
+
+  const archiveTask = (taskId: string) => {
+    const task = tasks.find((t) => t.id === taskId);
+    if (task && task.status !== 'archived') update(taskId, { status: 'archived' });
+  };
+
+  const withFocusedTask = (action: (taskId: string) => void) => () => {
+    const taskId = getFocusedTaskId();
+    if (taskId) action(taskId);
+  };
+
+  useShortcuts(shortcuts, {
+    newTask: () => navigateHome({ newTask: true }),
+    commandPalette: () => (paletteOpen ? setPaletteOpen(false) : openPalette()),
+    showShortcuts: () => setHelpOpen(true),
+    undo,
+    redo,
+    ...Object.fromEntries(
+      navigationItems.map((item) => [item.shortcut, () => navigate(item.path)])
+    ),
+    nextTask: () => moveTaskFocus(1),
+    previousTask: () => moveTaskFocus(-1),
+    completeTask: withFocusedTask(completeTask),
+    archiveTask: withFocusedTask(archiveTask),
+    changeCategory: () => {
+      if (getFocusedTaskId()) openPalette(CHANGE_CATEGORY_QUERY);
+    },
+  });
+
+  const buildCommands = () => {
+    const result: PaletteCommand[] = navigationItems.map((item) => ({
+      id: `navigate:${item.path}`,
+      label: `${item.label}に移動`,
+      group: '移動',
+      shortcut: shortcuts[item.shortcut],
+      run: () => navigate(item.path),
+    }));
+
+    result.push(
+      {
+        id: 'newTask',
+        label: '新しいタスク',
+        group: '操作',
+        shortcut: shortcuts.newTask,
+        run: () => navigateHome({ newTask: true }),
+      },
+      {
+        id: 'showShortcuts',
+        label: 'ショートカット一覧',
+        group: '操作',
+        shortcut: shortcuts.showShortcuts,
+        run: () => setHelpOpen(true),
+      }
+    );
+
+    if (undoStack.length > 0) {
+      result.push({
+        id: 'undo',
+        label: '元に戻す',
+        group: '操作',
+        shortcut: shortcuts.undo,
+        run: undo,
+      });
+    }
+    if (redoStack.length > 0) {
+      result.push({
+        id: 'redo',
+        label: 'やり直す',
+        group: '操作',
+        shortcut: shortcuts.redo,
+        run: redo,
+      });
+    }
+
+    const target = tasks.find((task) => task.id === targetTaskId);
+    if (target) {
+      const group = `「${target.title}」`;
+      if (target.status === 'pending') {
+        result.push({
+          id: 'completeTask',
+          label: '完了にする',
+          group,
+          shortcut: shortcuts.completeTask,
+          run: () => completeTask(target.id!),
+        });
+      }
+      if (target.status !== 'archived') {
+        result.push({
+          id: 'archiveTask',
+          label: 'アーカイブする',
+          group,
+          shortcut: shortcuts.archiveTask,
+          run: () => archiveTask(target.id!),
+        });
+      }
+      categories
+        .filter((category) => category.id !== target.categoryId)
+        .forEach((category) =>
+          result.push({
+            id: `changeCategory:${category.id}`,
+            label: `${CHANGE_CATEGORY_QUERY}: ${category.name}`,
+            group,
+            run: () => update(target.id!, { categoryId: category.id }),
+          })
+        );
+      if (target.categoryId) {
+        result.push({
+          id: 'changeCategory:none',
+          label: `${CHANGE_CATEGORY_QUERY}: なし`,
+          group,
+          run: () => update(target.id!, { categoryId: undefined }),
+        });
+      }
+    }
+
+    tasks
+      .filter((task) => task.status !== 'archived')
+      .forEach((task) =>
+        result.push({
+          id: `task:${task.id}`,
+          label: task.title,
+          group: 'タスク',
+          searchOnly: true,
+          run: () => navigateHome({ focusTaskId: task.id }),
+        })
+      );
+
+    return result;
+  };
+
+  return (
+    <>
+      <CommandPalette
+        open={paletteOpen}
+        onOpenChange={setPaletteOpen}
+        commands={buildCommands()}
+        initialQuery={paletteQuery}
+      />
+      <ShortcutHelp open={helpOpen} onOpenChange={setHelpOpen} bindings={shortcuts} />
+      <CompleteSubtasksDialog
+        open={!!completingTask}
+        onOpenChange={(open) => !open && setCompletingTask(undefined)}
+        openCount={completingTask ? getOpenSubtasks(completingTask.id!, tasks).length : 0}
+        onSelect={(includeSubtasks) => toggleStatus(completingTask!.id!, { includeSubtasks })}
+      />
+    </>
+  );
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MarkdownView } from './MarkdownView';
+
+describe('MarkdownView', () => {
+  it('should render Markdown as elements', () => {
+    render(
+      <MarkdownView markdown={'## 手順\n\n1. [資料](https://example.com) を開く\n2. `npm ci`'} />
+    );
+
+    expect(screen.getByRole('heading', { level: 2, name: '手順' })).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')).toHaveLength(2);
+    expect(screen.getByRole('link', { name: '資料' })).toHaveAttribute(
+      'href',
+      'https://example.com'
+    );
+    expect(screen.getByText('npm ci').tagName).toBe('CODE');
+  });
+
+  it('should show raw HTML as text', () => {
+    const { container } = render(
+      <MarkdownView markdown={'<img src=x onerror="alert(1)"> [x](javascript:alert(1))'} />
+    );
+
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.queryByRole('link')).not.toBeInTheDocument();
+    expect(container).toHaveTextContent('<img src=x onerror="alert(1)">');
+  });
+});
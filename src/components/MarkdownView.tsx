@@ -0,0 +1,110 @@
+import { useMemo, type ReactNode } from 'react';
+import { cn } from '@/lib/utils';
+import { parseMarkdown, type MarkdownBlock, type MarkdownInline } from '@/utils/markdown';
+
+interface MarkdownViewProps {
+  markdown: string;
+  className?: string;
+}
+
+const HEADING_CLASSES = ['text-lg', 'text-base', 'text-sm', 'text-sm', 'text-sm', 'text-sm'];
+
+function renderInline(nodes: MarkdownInline[]): ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'break':
+        return <br key={index} />;
+      case 'code':
+        return (
+          <code key={index} className="rounded bg-muted px-1 font-mono text-[0.9em]">
+            {node.text}
+          </code>
+        );
+      case 'strong':
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case 'em':
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case 'del':
+        return <del key={index}>{renderInline(node.children)}</del>;
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary underline underline-offset-2"
+            // カードの中に表示してもタスクを開かないようにする
+            onClick={(e) => e.stopPropagation()}
+          >
+            {renderInline(node.children)}
+          </a>
+        );
+    }
+  });
+}
+
+function renderBlocks(blocks: MarkdownBlock[], tight = false): ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        // リストの項目の中の段落は <p> で囲まない
+        return tight ? (
+          <span key={index}>{renderInline(block.children)}</span>
+        ) : (
+          <p key={index}>{renderInline(block.children)}</p>
+        );
+      case 'heading': {
+        const Heading = `h${block.level}` as 'h1';
+        return (
+          <Heading key={index} className={cn('font-semibold', HEADING_CLASSES[block.level - 1])}>
+            {renderInline(block.children)}
+          </Heading>
+        );
+      }
+      case 'code':
+        return (
+          <pre
+            key={index}
+            className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs"
+            data-language={block.lang}
+          >
+            <code>{block.text}</code>
+          </pre>
+        );
+      case 'list': {
+        const List = block.ordered ? 'ol' : 'ul';
+        return (
+          <List
+            key={index}
+            start={block.start}
+            className={cn('space-y-1 pl-5', block.ordered ? 'list-decimal' : 'list-disc')}
+          >
+            {block.items.map((item, itemIndex) => (
+              <li key={itemIndex}>{renderBlocks(item, true)}</li>
+            ))}
+          </List>
+        );
+      }
+      case 'blockquote':
+        return (
+          <blockquote key={index} className="space-y-2 border-l-2 pl-3 text-muted-foreground">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+      case 'rule':
+        return <hr key={index} className="border-border" />;
+    }
+  });
+}
+
+// Markdown を React 要素として表示する (HTML は解釈せず文字として表示する)
+export function MarkdownView({ markdown, className }: MarkdownViewProps) {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+
+  return (
+    <div className={cn('space-y-2 break-words text-sm', className)}>{renderBlocks(blocks)}</div>
+  );
+}
@@ -1,19 +1,6 @@
 import { Link, useLocation } from 'react-router-dom';
-import { Home, FolderOpen, Archive, Settings } from 'lucide-react';
 import { cn } from '@/lib/utils';
-
-interface NavigationItem {
-  path: string;
-  label: string;
-  icon: React.ComponentType<{ className?: string }>;
-}
-
-const navigationItems: NavigationItem[] = [
-  { path: '/', label: 'ホーム', icon: Home },
-  { path: '/categories', label: 'カテゴリー', icon: FolderOpen },
-  { path: '/all', label: '全タスク', icon: Archive },
-  { path: '/settings', label: '設定', icon: Settings },
-];
+import { navigationItems } from '@/utils/navigation';
 
 interface NavigationMenuProps {
   onItemClick?: () => void;
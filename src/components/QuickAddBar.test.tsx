@@ -0,0 +1,60 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QuickAddBar } from './QuickAddBar';
+import type { Category } from '../db';
+
+describe('QuickAddBar', () => {
+  const categories: Category[] = [{ id: 'health', name: '健康', color: '#10B981', order: 0 }];
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should highlight recognised tokens before saving', () => {
+    render(<QuickAddBar categories={categories} onAdd={vi.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('クイック追加'), {
+      target: { value: '明日15時 歯医者 30分 #健康 毎週' },
+    });
+
+    const marks = screen.getByTestId('quick-add-highlight').querySelectorAll('mark');
+    expect([...marks].map((mark) => [mark.dataset.tokenType, mark.textContent])).toEqual([
+      ['date', '明日'],
+      ['time', '15時'],
+      ['duration', '30分'],
+      ['category', '#健康'],
+      ['repeat', '毎週'],
+    ]);
+    expect(screen.getByText('タイトル: 歯医者')).toBeInTheDocument();
+    expect(screen.getByText('カテゴリー: 健康')).toBeInTheDocument();
+  });
+
+  it('should add the parsed task and clear the input', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-10T12:00:00'));
+    const onAdd = vi.fn();
+    render(<QuickAddBar categories={categories} onAdd={onAdd} />);
+
+    const input = screen.getByLabelText('クイック追加');
+    fireEvent.change(input, { target: { value: '歯医者 明日15時 30分 #健康' } });
+    fireEvent.click(screen.getByRole('button', { name: '追加' }));
+
+    await waitFor(() => expect(input).toHaveValue(''));
+    expect(onAdd).toHaveBeenCalledWith({
+      title: '歯医者',
+      dueAt: new Date('2024-01-11T15:00:00').getTime(),
+      durationMin: 30,
+      categoryId: 'health',
+    });
+  });
+
+  it('should not add a task without a title', () => {
+    const onAdd = vi.fn();
+    render(<QuickAddBar categories={categories} onAdd={onAdd} />);
+
+    fireEvent.change(screen.getByLabelText('クイック追加'), { target: { value: '明日 30分' } });
+
+    expect(screen.getByRole('button', { name: '追加' })).toBeDisabled();
+    expect(screen.getByText('タイトル: (未入力)')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,126 @@
+import { useId, useMemo, useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { parseQuickAdd, type QuickAddTokenType } from '@/utils/quick-add';
+import type { Category, Task } from '../db';
+
+interface QuickAddBarProps {
+  categories: Category[];
+  onAdd: (taskData: Partial<Task>) => void | Promise<void>;
+}
+
+const TOKEN_LABELS: Record<QuickAddTokenType, string> = {
+  date: '日付',
+  time: '時刻',
+  duration: '所要時間',
+  category: 'カテゴリー',
+  repeat: '繰り返し',
+};
+
+const TOKEN_STYLES: Record<QuickAddTokenType, string> = {
+  date: 'bg-blue-100 text-blue-800',
+  time: 'bg-sky-100 text-sky-800',
+  duration: 'bg-amber-100 text-amber-800',
+  category: 'bg-emerald-100 text-emerald-800',
+  repeat: 'bg-purple-100 text-purple-800',
+};
+
+function formatDueAt(dueAt: number): string {
+  return new Date(dueAt).toLocaleString('ja-JP', {
+    month: 'long',
+    day: 'numeric',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+export function QuickAddBar({ categories, onAdd }: QuickAddBarProps) {
+  const previewId = useId();
+  const [value, setValue] = useState('');
+
+  const parsed = useMemo(() => parseQuickAdd(value, { categories }), [value, categories]);
+  const category = categories.find((c) => c.id === parsed.categoryId);
+
+  // 入力を認識した部分とそれ以外に分けて、認識した部分を強調表示する
+  const segments = useMemo(() => {
+    const result: { text: string; type?: QuickAddTokenType }[] = [];
+    let position = 0;
+    parsed.tokens.forEach((token) => {
+      if (token.start > position) {
+        result.push({ text: value.slice(position, token.start) });
+      }
+      result.push({ text: token.text, type: token.type });
+      position = token.end;
+    });
+    if (position < value.length) {
+      result.push({ text: value.slice(position) });
+    }
+    return result;
+  }, [parsed, value]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!parsed.title) return;
+
+    const { title, dueAt, durationMin, categoryId, repeatRule } = parsed;
+    await onAdd({
+      title,
+      ...(dueAt !== undefined && { dueAt }),
+      ...(durationMin !== undefined && { durationMin }),
+      ...(categoryId && { categoryId }),
+      ...(repeatRule && { repeatRule }),
+    });
+    setValue('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex gap-2">
+        <Input
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          placeholder="例: 明日15時 歯医者 30分 #健康 毎週"
+          aria-label="クイック追加"
+          aria-describedby={value ? previewId : undefined}
+        />
+        <Button type="submit" disabled={!parsed.title}>
+          <Plus className="h-4 w-4 mr-1" />
+          追加
+        </Button>
+      </div>
+
+      {value && (
+        <div id={previewId} className="space-y-1 text-sm">
+          <p className="whitespace-pre-wrap break-words" data-testid="quick-add-highlight">
+            {segments.map((segment, index) =>
+              segment.type ? (
+                <mark
+                  key={index}
+                  className={cn('rounded px-0.5', TOKEN_STYLES[segment.type])}
+                  title={TOKEN_LABELS[segment.type]}
+                  data-token-type={segment.type}
+                >
+                  {segment.text}
+                </mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )}
+          </p>
+          <div className="flex flex-wrap gap-x-3 gap-y-1 text-muted-foreground">
+            <span>タイトル: {parsed.title || '(未入力)'}</span>
+            {parsed.dueAt !== undefined && <span>期日: {formatDueAt(parsed.dueAt)}</span>}
+            {parsed.durationMin !== undefined && <span>所要時間: {parsed.durationMin}分</span>}
+            {category && <span>カテゴリー: {category.name}</span>}
+            {parsed.repeatRule && (
+              <span>繰り返し: {parsed.tokens.find((token) => token.type === 'repeat')?.text}</span>
+            )}
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,67 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import type { RecurrenceScope } from '../db';
+
+interface RecurrenceScopeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: 'edit' | 'delete';
+  onSelect: (scope: RecurrenceScope) => void;
+  // 繰り返しルールを変更した場合は「この回のみ」を選べない
+  allowThisOnly?: boolean;
+}
+
+const SCOPE_LABELS: Record<RecurrenceScope, string> = {
+  this: 'この回のみ',
+  following: 'この回以降',
+  all: 'すべての回',
+};
+
+export function RecurrenceScopeDialog({
+  open,
+  onOpenChange,
+  action,
+  onSelect,
+  allowThisOnly = true,
+}: RecurrenceScopeDialogProps) {
+  const scopes: RecurrenceScope[] = allowThisOnly
+    ? ['this', 'following', 'all']
+    : ['following', 'all'];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>
+            {action === 'edit' ? '繰り返しタスクの編集' : '繰り返しタスクの削除'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          {action === 'edit'
+            ? '変更を適用する範囲を選択してください。'
+            : '削除する範囲を選択してください。'}
+        </p>
+
+        <div className="flex flex-col gap-2 mt-2">
+          {scopes.map((scope) => (
+            <Button
+              key={scope}
+              type="button"
+              variant={action === 'delete' ? 'destructive' : 'outline'}
+              onClick={() => {
+                onSelect(scope);
+                onOpenChange(false);
+              }}
+            >
+              {SCOPE_LABELS[scope]}
+            </Button>
+          ))}
+          <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+            キャンセル
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
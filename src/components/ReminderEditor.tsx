@@ -0,0 +1,270 @@
+import { Bell, Plus, Trash2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { describeReminder } from '@/utils/reminders';
+import type { TaskReminder } from '../db';
+
+interface ReminderEditorProps {
+  value?: TaskReminder[];
+  onChange: (reminders: TaskReminder[] | undefined) => void;
+  defaultBeforeMin: number;
+  dueAt?: number;
+}
+
+type RelativeUnit = 'min' | 'hour' | 'day';
+
+const UNIT_MINUTES: Record<RelativeUnit, number> = {
+  min: 1,
+  hour: 60,
+  day: 24 * 60,
+};
+
+function getRelativeUnit(offsetMin: number): RelativeUnit {
+  if (offsetMin > 0 && offsetMin % UNIT_MINUTES.day === 0) return 'day';
+  if (offsetMin > 0 && offsetMin % UNIT_MINUTES.hour === 0) return 'hour';
+  return 'min';
+}
+
+function toDateTimeLocal(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+}
+
+export function ReminderEditor({ value, onChange, defaultBeforeMin, dueAt }: ReminderEditorProps) {
+  const reminders = value ?? [];
+
+  const addReminder = (reminder: TaskReminder) => {
+    onChange([...reminders, reminder]);
+  };
+
+  const updateReminder = (id: string, next: TaskReminder) => {
+    onChange(reminders.map(reminder => (reminder.id === id ? next : reminder)));
+  };
+
+  const removeReminder = (id: string) => {
+    onChange(reminders.filter(reminder => reminder.id !== id));
+  };
+
+  const changeType = (reminder: TaskReminder, type: TaskReminder['type']) => {
+    const { id } = reminder;
+    if (type === 'relative') {
+      updateReminder(id, { id, type, offsetMin: defaultBeforeMin });
+    } else if (type === 'timeOfDay') {
+      updateReminder(id, { id, type, daysBefore: 0, time: '08:00' });
+    } else {
+      updateReminder(id, { id, type, at: dueAt ?? Date.now() + 60 * 60 * 1000 });
+    }
+  };
+
+  // 未設定のタスクは設定画面の「期日の○分前」が適用される
+  if (value === undefined) {
+    return (
+      <div>
+        <Label className="flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          リマインダー
+        </Label>
+        <div className="mt-2 flex items-center justify-between rounded-md border px-3 py-2">
+          <span className="text-sm text-muted-foreground">
+            既定（期日の{defaultBeforeMin}分前）
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              onChange([{ id: crypto.randomUUID(), type: 'relative', offsetMin: defaultBeforeMin }])
+            }
+          >
+            カスタマイズ
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <Label className="flex items-center gap-2">
+          <Bell className="h-4 w-4" />
+          リマインダー
+        </Label>
+        <Button type="button" size="sm" variant="ghost" onClick={() => onChange(undefined)}>
+          既定に戻す
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        {reminders.length === 0 && (
+          <p className="text-sm text-muted-foreground">通知しません</p>
+        )}
+
+        {reminders.map((reminder) => (
+          <div
+            key={reminder.id}
+            className="flex items-center gap-2"
+            data-testid="reminder-row"
+            aria-label={describeReminder(reminder)}
+          >
+            <Select
+              value={reminder.type}
+              onValueChange={(type) => changeType(reminder, type as TaskReminder['type'])}
+            >
+              <SelectTrigger className="w-28" aria-label="リマインダーの種類">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relative">期日の前</SelectItem>
+                <SelectItem value="timeOfDay">時刻指定</SelectItem>
+                <SelectItem value="absolute">日時指定</SelectItem>
+              </SelectContent>
+            </Select>
+
+            {reminder.type === 'relative' && (() => {
+              const unit = getRelativeUnit(reminder.offsetMin);
+              return (
+                <>
+                  <Input
+                    type="number"
+                    min="0"
+                    value={reminder.offsetMin / UNIT_MINUTES[unit]}
+                    onChange={(e) =>
+                      updateReminder(reminder.id, {
+                        ...reminder,
+                        offsetMin: Math.max(0, parseInt(e.target.value) || 0) * UNIT_MINUTES[unit],
+                      })
+                    }
+                    className="w-20"
+                    aria-label="何前に通知するか"
+                  />
+                  <Select
+                    value={unit}
+                    onValueChange={(next) =>
+                      updateReminder(reminder.id, {
+                        ...reminder,
+                        offsetMin:
+                          (reminder.offsetMin / UNIT_MINUTES[unit]) *
+                          UNIT_MINUTES[next as RelativeUnit],
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-24" aria-label="単位">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="min">分前</SelectItem>
+                      <SelectItem value="hour">時間前</SelectItem>
+                      <SelectItem value="day">日前</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </>
+              );
+            })()}
+
+            {reminder.type === 'timeOfDay' && (
+              <>
+                <Input
+                  type="number"
+                  min="0"
+                  value={reminder.daysBefore}
+                  onChange={(e) =>
+                    updateReminder(reminder.id, {
+                      ...reminder,
+                      daysBefore: Math.max(0, parseInt(e.target.value) || 0),
+                    })
+                  }
+                  className="w-16"
+                  aria-label="何日前か"
+                />
+                <span className="text-sm text-muted-foreground whitespace-nowrap">日前</span>
+                <Input
+                  type="time"
+                  value={reminder.time}
+                  onChange={(e) => updateReminder(reminder.id, { ...reminder, time: e.target.value })}
+                  className="w-28"
+                  aria-label="通知時刻"
+                />
+              </>
+            )}
+
+            {reminder.type === 'absolute' && (
+              <Input
+                type="datetime-local"
+                value={toDateTimeLocal(reminder.at)}
+                onChange={(e) => {
+                  const at = new Date(e.target.value).getTime();
+                  if (!Number.isNaN(at)) {
+                    updateReminder(reminder.id, { ...reminder, at });
+                  }
+                }}
+                className="flex-1"
+                aria-label="通知日時"
+              />
+            )}
+
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => removeReminder(reminder.id)}
+              aria-label="リマインダーを削除"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="mt-2 flex flex-wrap gap-1">
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => addReminder({ id: crypto.randomUUID(), type: 'relative', offsetMin: 24 * 60 })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          1日前
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => addReminder({ id: crypto.randomUUID(), type: 'relative', offsetMin: 15 })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          15分前
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => addReminder({ id: crypto.randomUUID(), type: 'timeOfDay', daysBefore: 0, time: '08:00' })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          当日 08:00
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => addReminder({ id: crypto.randomUUID(), type: 'absolute', at: dueAt ?? Date.now() + 60 * 60 * 1000 })}
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          日時指定
+        </Button>
+      </div>
+    </div>
+  );
+}
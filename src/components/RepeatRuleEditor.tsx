@@ -0,0 +1,375 @@
+import { useMemo } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  BUSINESS_DAYS,
+  WEEKDAY_CODES,
+  WEEKDAY_LABELS,
+  buildRepeatRule,
+  getRepeatOccurrences,
+  getWeekdayCode,
+  isBusinessDays,
+  type RepeatEnd,
+  type RepeatFrequency,
+  type RepeatRuleDraft,
+  type WeekdayCode,
+} from '@/utils/repeat-rule';
+import type { RepeatMode } from '../db';
+
+interface RepeatRuleEditorProps {
+  value: RepeatRuleDraft;
+  onChange: (draft: RepeatRuleDraft) => void;
+  mode: RepeatMode;
+  onModeChange: (mode: RepeatMode) => void;
+  dueAt?: number;
+}
+
+// プレビューに表示する件数
+const PREVIEW_COUNT = 5;
+
+const INTERVAL_UNITS: Record<RepeatFrequency, string> = {
+  DAILY: '日ごと',
+  WEEKLY: '週ごと',
+  MONTHLY: 'ヶ月ごと',
+  YEARLY: '年ごと',
+};
+
+// 完了日からの繰り返しの説明に使う単位
+const COMPLETION_UNITS: Record<RepeatFrequency, string> = {
+  DAILY: '日',
+  WEEKLY: '週間',
+  MONTHLY: 'ヶ月',
+  YEARLY: '年',
+};
+
+const SET_POSITIONS = [
+  { value: '0', label: '毎週' },
+  { value: '1', label: '第1' },
+  { value: '2', label: '第2' },
+  { value: '3', label: '第3' },
+  { value: '4', label: '第4' },
+  { value: '-1', label: '最終' },
+];
+
+function toDateInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export function RepeatRuleEditor({
+  value,
+  onChange,
+  mode,
+  onModeChange,
+  dueAt,
+}: RepeatRuleEditorProps) {
+  const update = (changes: Partial<RepeatRuleDraft>) => onChange({ ...value, ...changes });
+
+  const dueDate = dueAt ? new Date(dueAt) : undefined;
+  const dueWeekday: WeekdayCode = dueDate ? WEEKDAY_CODES[(dueDate.getDay() + 6) % 7] : 'MO';
+  const monthlyMode = value.byWeekday.length > 0 ? 'weekday' : 'monthDay';
+
+  const preview = useMemo(() => {
+    if (!dueAt || mode === 'completion') return [];
+    return getRepeatOccurrences(buildRepeatRule(value, new Date(dueAt)), PREVIEW_COUNT);
+  }, [value, dueAt, mode]);
+
+  // 頻度を変えたら、その頻度で使わない指定はリセットする
+  const changeFrequency = (freq: RepeatFrequency) => {
+    update({
+      freq,
+      byWeekday: freq === 'WEEKLY' ? [dueWeekday] : [],
+      byMonthDay: [],
+      bySetPos: [],
+    });
+  };
+
+  const toggleWeekday = (code: WeekdayCode) => {
+    const selected = value.byWeekday.some((token) => getWeekdayCode(token) === code);
+    update({
+      byWeekday: selected
+        ? value.byWeekday.filter((token) => getWeekdayCode(token) !== code)
+        : WEEKDAY_CODES.filter(
+            (c) => c === code || value.byWeekday.some((token) => getWeekdayCode(token) === c)
+          ),
+    });
+  };
+
+  const toggleMonthDay = (day: number) => {
+    update({
+      byMonthDay: value.byMonthDay.includes(day)
+        ? value.byMonthDay.filter((d) => d !== day)
+        : [...value.byMonthDay, day].sort((a, b) => (a < 0 ? 32 : a) - (b < 0 ? 32 : b)),
+    });
+  };
+
+  const changeMonthlyMode = (mode: string) => {
+    if (mode === 'weekday') {
+      update({ byMonthDay: [], byWeekday: [dueWeekday], bySetPos: [1] });
+    } else {
+      update({ byWeekday: [], bySetPos: [], byMonthDay: [dueDate?.getDate() ?? 1] });
+    }
+  };
+
+  // 完了日からの繰り返しは間隔だけで決まるため、曜日・日付の指定と回数は使わない
+  const changeMode = (next: RepeatMode) => {
+    if (next === 'completion') {
+      update({
+        byWeekday: [],
+        byMonthDay: [],
+        bySetPos: [],
+        end: value.end === 'count' ? 'never' : value.end,
+      });
+    }
+    onModeChange(next);
+  };
+
+  const changeEnd = (end: RepeatEnd) => {
+    update({
+      end,
+      count: end === 'count' ? (value.count ?? 10) : value.count,
+    });
+  };
+
+  const weekdayButtons = (
+    <div className="flex flex-wrap gap-1" role="group" aria-label="曜日">
+      {WEEKDAY_CODES.map((code) => {
+        const selected = value.byWeekday.some((token) => getWeekdayCode(token) === code);
+        return (
+          <Button
+            key={code}
+            type="button"
+            size="sm"
+            variant={selected ? 'default' : 'outline'}
+            className="h-8 w-8 p-0"
+            aria-pressed={selected}
+            onClick={() => toggleWeekday(code)}
+          >
+            {WEEKDAY_LABELS[code]}
+          </Button>
+        );
+      })}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <Label htmlFor="repeatMode">次の期日</Label>
+        <Select value={mode} onValueChange={(next) => changeMode(next as RepeatMode)}>
+          <SelectTrigger id="repeatMode">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="schedule">予定日から繰り返す</SelectItem>
+            <SelectItem value="completion">完了した日から繰り返す</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === 'schedule' && (
+        <div className="flex flex-wrap gap-1">
+          <Button
+            type="button"
+            size="sm"
+            variant={isBusinessDays(value) ? 'default' : 'outline'}
+            onClick={() =>
+              update({
+                freq: 'WEEKLY',
+                interval: 1,
+                byWeekday: BUSINESS_DAYS,
+                byMonthDay: [],
+                bySetPos: [],
+              })
+            }
+          >
+            平日のみ
+          </Button>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="frequency">頻度</Label>
+          <Select
+            value={value.freq}
+            onValueChange={(freq) => changeFrequency(freq as RepeatFrequency)}
+          >
+            <SelectTrigger id="frequency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="DAILY">毎日</SelectItem>
+              <SelectItem value="WEEKLY">毎週</SelectItem>
+              <SelectItem value="MONTHLY">毎月</SelectItem>
+              <SelectItem value="YEARLY">毎年</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div>
+          <Label htmlFor="interval">間隔</Label>
+          <div className="flex items-center gap-2">
+            <Input
+              id="interval"
+              type="number"
+              value={value.interval}
+              onChange={(e) => update({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+              min="1"
+              max="99"
+            />
+            <span className="text-sm text-muted-foreground whitespace-nowrap">
+              {INTERVAL_UNITS[value.freq]}
+            </span>
+          </div>
+        </div>
+      </div>
+
+      {mode === 'schedule' && value.freq === 'WEEKLY' && (
+        <div>
+          <Label className="mb-1 block">曜日</Label>
+          {weekdayButtons}
+        </div>
+      )}
+
+      {mode === 'schedule' && value.freq === 'MONTHLY' && (
+        <div className="space-y-2">
+          <Select value={monthlyMode} onValueChange={changeMonthlyMode}>
+            <SelectTrigger aria-label="毎月の指定方法">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="monthDay">日付で指定</SelectItem>
+              <SelectItem value="weekday">曜日で指定</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {monthlyMode === 'monthDay' ? (
+            <div className="grid grid-cols-8 gap-1" role="group" aria-label="日付">
+              {[...Array.from({ length: 31 }, (_, i) => i + 1), -1].map((day) => {
+                const selected = value.byMonthDay.includes(day);
+                return (
+                  <Button
+                    key={day}
+                    type="button"
+                    size="sm"
+                    variant={selected ? 'default' : 'outline'}
+                    className={cn('h-8 p-0', day === -1 && 'col-span-2')}
+                    aria-pressed={selected}
+                    onClick={() => toggleMonthDay(day)}
+                  >
+                    {day === -1 ? '末日' : day}
+                  </Button>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Select
+                value={String(value.bySetPos[0] ?? 0)}
+                onValueChange={(pos) => update({ bySetPos: pos === '0' ? [] : [parseInt(pos)] })}
+              >
+                <SelectTrigger aria-label="第何週">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SET_POSITIONS.map((pos) => (
+                    <SelectItem key={pos.value} value={pos.value}>
+                      {pos.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {weekdayButtons}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div>
+        <Label htmlFor="repeatEnd">終了</Label>
+        <div className="flex items-center gap-2">
+          <Select value={value.end} onValueChange={(end) => changeEnd(end as RepeatEnd)}>
+            <SelectTrigger id="repeatEnd" className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">無期限</SelectItem>
+              <SelectItem value="until">終了日</SelectItem>
+              {mode === 'schedule' && <SelectItem value="count">回数</SelectItem>}
+            </SelectContent>
+          </Select>
+
+          {value.end === 'until' && (
+            <Input
+              id="repeatUntil"
+              type="date"
+              aria-label="終了日"
+              value={value.until ? toDateInput(value.until) : ''}
+              onChange={(e) =>
+                update({
+                  until: e.target.value
+                    ? new Date(`${e.target.value}T23:59:59.999`).getTime()
+                    : undefined,
+                })
+              }
+              min={dueAt ? toDateInput(dueAt) : undefined}
+            />
+          )}
+
+          {value.end === 'count' && (
+            <>
+              <Input
+                id="repeatCount"
+                type="number"
+                aria-label="回数"
+                value={value.count ?? ''}
+                onChange={(e) => update({ count: Math.max(1, parseInt(e.target.value) || 1) })}
+                min="1"
+                className="w-20"
+              />
+              <span className="text-sm text-muted-foreground">回</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div>
+        <Label className="mb-1 block">次の予定</Label>
+        {mode === 'completion' ? (
+          <p className="text-sm text-muted-foreground">
+            完了した日の{value.interval}
+            {COMPLETION_UNITS[value.freq]}後が次の期日になります
+          </p>
+        ) : dueAt ? (
+          <ul className="text-sm text-muted-foreground space-y-0.5" data-testid="repeat-preview">
+            {preview.map((date) => (
+              <li key={date.getTime()}>
+                {date.toLocaleString('ja-JP', {
+                  year: 'numeric',
+                  month: 'numeric',
+                  day: 'numeric',
+                  weekday: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">期日を設定すると次の予定が表示されます</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DEFAULT_SHORTCUTS,
+  SHORTCUT_DEFINITIONS,
+  findShortcutConflict,
+  normalizeShortcut,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '@/utils/shortcuts';
+
+interface ShortcutEditorProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+}
+
+export function ShortcutEditor({ bindings, onChange }: ShortcutEditorProps) {
+  // 入力途中の割り当てとエラー (確定するまで保存しない)
+  const [drafts, setDrafts] = useState<Partial<Record<ShortcutAction, string>>>({});
+  const [errors, setErrors] = useState<Partial<Record<ShortcutAction, string>>>({});
+
+  const setError = (action: ShortcutAction, error?: string) => {
+    setErrors((current) => ({ ...current, [action]: error }));
+  };
+
+  const commit = (action: ShortcutAction) => {
+    const draft = drafts[action];
+    if (draft === undefined) return;
+
+    const binding = normalizeShortcut(draft);
+    if (!binding) {
+      setError(action, 'キーの指定が正しくありません');
+      return;
+    }
+    const conflict = findShortcutConflict(bindings, action, binding);
+    if (conflict) {
+      const label = SHORTCUT_DEFINITIONS.find((d) => d.action === conflict)?.label;
+      setError(action, `「${label}」の割り当てと重なっています`);
+      return;
+    }
+
+    setError(action);
+    setDrafts((current) => ({ ...current, [action]: undefined }));
+    if (binding !== bindings[action]) {
+      onChange({ ...bindings, [action]: binding });
+    }
+  };
+
+  const reset = () => {
+    setDrafts({});
+    setErrors({});
+    onChange(DEFAULT_SHORTCUTS);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        修飾キーは + でつなぎ (例: mod+k)、続けて押すキーは空白で区切ります (例: g h)。mod は Ctrl
+        または ⌘ を表します
+      </p>
+      {SHORTCUT_DEFINITIONS.map((definition) => {
+        const { action } = definition;
+        const error = errors[action];
+        return (
+          <div key={action} className="space-y-1">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={`shortcut-${action}`}>{definition.label}</Label>
+              <Input
+                id={`shortcut-${action}`}
+                value={drafts[action] ?? bindings[action]}
+                onChange={(e) => setDrafts((current) => ({ ...current, [action]: e.target.value }))}
+                onBlur={() => commit(action)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commit(action);
+                }}
+                className="w-32 font-mono"
+                aria-invalid={!!error}
+              />
+            </div>
+            {error && <p className="text-right text-sm text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+      <Button variant="outline" size="sm" onClick={reset}>
+        <RotateCcw className="h-4 w-4 mr-2" />
+        既定に戻す
+      </Button>
+    </div>
+  );
+}
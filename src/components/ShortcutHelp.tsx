@@ -0,0 +1,46 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShortcutKeys } from '@/components/ShortcutKeys';
+import { SHORTCUT_DEFINITIONS, type ShortcutBindings } from '@/utils/shortcuts';
+
+interface ShortcutHelpProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  bindings: ShortcutBindings;
+}
+
+const GROUPS = [...new Set(SHORTCUT_DEFINITIONS.map((definition) => definition.group))];
+
+export function ShortcutHelp({ open, onOpenChange, bindings }: ShortcutHelpProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" aria-describedby={undefined}>
+        <DialogHeader>
+          <DialogTitle>キーボードショートカット</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          {GROUPS.map((group) => (
+            <section key={group}>
+              <h3 className="mb-1 text-sm font-medium text-muted-foreground">{group}</h3>
+              <dl className="space-y-1">
+                {SHORTCUT_DEFINITIONS.filter((definition) => definition.group === group).map(
+                  (definition) => (
+                    <div
+                      key={definition.action}
+                      className="flex items-center justify-between gap-4 text-sm"
+                    >
+                      <dt>{definition.label}</dt>
+                      <dd>
+                        <ShortcutKeys binding={bindings[definition.action]} />
+                      </dd>
+                    </div>
+                  )
+                )}
+              </dl>
+            </section>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">キー割り当ては設定画面で変更できます</p>
+      </DialogContent>
+    </Dialog>
+  );
+}
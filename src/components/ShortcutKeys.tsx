@@ -0,0 +1,28 @@
+import { cn } from '@/lib/utils';
+import { formatShortcut } from '@/utils/shortcuts';
+
+interface ShortcutKeysProps {
+  binding: string;
+  className?: string;
+}
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+export function ShortcutKeys({ binding, className }: ShortcutKeysProps) {
+  return (
+    <span className={cn('inline-flex items-center gap-1', className)}>
+      {formatShortcut(binding, isMac).map((keys, index) => (
+        <span key={index} className="inline-flex items-center gap-0.5">
+          {keys.map((key) => (
+            <kbd
+              key={key}
+              className="min-w-5 rounded border bg-muted px-1 text-center font-mono text-xs text-muted-foreground"
+            >
+              {key}
+            </kbd>
+          ))}
+        </span>
+      ))}
+    </span>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import { useState } from 'react';
+import { TagInput } from './TagInput';
+
+function ControlledTagInput({ initial = [] as string[], suggestions = [] as string[] }) {
+  const [tags, setTags] = useState(initial);
+  return <TagInput value={tags} onChange={setTags} suggestions={suggestions} />;
+}
+
+describe('TagInput', () => {
+  it('should add a normalized tag with Enter without submitting the form', () => {
+    const onSubmit = vi.fn((e: React.FormEvent) => e.preventDefault());
+    render(
+      <form onSubmit={onSubmit}>
+        <ControlledTagInput />
+      </form>
+    );
+
+    const input = screen.getByRole('combobox', { name: 'タグ' });
+    fireEvent.change(input, { target: { value: '#Waiting' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(screen.getByText('#waiting')).toBeInTheDocument();
+    expect(input).toHaveValue('');
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it('should suggest existing tags while typing', () => {
+    render(<ControlledTagInput suggestions={['phone', 'photo', 'work']} />);
+
+    const input = screen.getByRole('combobox', { name: 'タグ' });
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'ph' } });
+
+    const options = screen.getAllByRole('option');
+    expect(options.map((option) => option.textContent)).toEqual(['#phone', '#photo']);
+
+    fireEvent.click(options[1]);
+    expect(screen.getByText('#photo')).toBeInTheDocument();
+  });
+
+  it('should remove tags with the button or Backspace', () => {
+    render(<ControlledTagInput initial={['call', 'errand']} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'タグ「call」を外す' }));
+    expect(screen.queryByText('#call')).not.toBeInTheDocument();
+
+    fireEvent.keyDown(screen.getByRole('combobox', { name: 'タグ' }), { key: 'Backspace' });
+    expect(screen.queryByText('#errand')).not.toBeInTheDocument();
+  });
+});
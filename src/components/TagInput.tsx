@@ -0,0 +1,124 @@
+import { useId, useState } from 'react';
+import { Tag, X } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import { normalizeTag, suggestTags } from '@/utils/tags';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  // 入力候補のタグ (よく使う順)
+  suggestions: string[];
+}
+
+export function TagInput({ value, onChange, suggestions }: TagInputProps) {
+  const listboxId = useId();
+  const [query, setQuery] = useState('');
+  const [focused, setFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const candidates = focused ? suggestTags(query, suggestions, value) : [];
+  const open = candidates.length > 0;
+
+  const addTag = (input: string) => {
+    const tag = normalizeTag(input);
+    if (tag && !value.includes(tag)) {
+      onChange([...value, tag]);
+    }
+    setQuery('');
+    setActiveIndex(-1);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      if (!open) return;
+      e.preventDefault();
+      const delta = e.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex((activeIndex + delta + candidates.length) % candidates.length);
+    } else if (e.key === 'Enter' || e.key === ',') {
+      // フォームを送信せずにタグを追加する
+      if (!query.trim() && activeIndex === -1) return;
+      e.preventDefault();
+      addTag(activeIndex >= 0 ? candidates[activeIndex] : query);
+    } else if (e.key === 'Backspace' && !query && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === 'Escape' && open) {
+      e.preventDefault();
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div>
+      <Label htmlFor={`${listboxId}-input`} className="flex items-center gap-2">
+        <Tag className="h-4 w-4" />
+        タグ
+      </Label>
+      <div className="relative mt-2">
+        <div className="flex flex-wrap items-center gap-1 rounded-md border border-input px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring">
+          {value.map((tag) => (
+            <span
+              key={tag}
+              className="inline-flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-xs"
+            >
+              #{tag}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((t) => t !== tag))}
+                aria-label={`タグ「${tag}」を外す`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+          <input
+            id={`${listboxId}-input`}
+            role="combobox"
+            aria-expanded={open}
+            aria-controls={listboxId}
+            aria-autocomplete="list"
+            aria-activedescendant={activeIndex >= 0 ? `${listboxId}-${activeIndex}` : undefined}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(-1);
+            }}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setFocused(true)}
+            onBlur={() => {
+              setFocused(false);
+              if (query.trim()) addTag(query);
+            }}
+            placeholder={value.length === 0 ? '例: 連絡待ち, 電話, 外出' : ''}
+            className="min-w-24 flex-1 bg-transparent py-0.5 text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+
+        {open && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            className="absolute z-10 mt-1 max-h-48 w-full overflow-y-auto rounded-md border bg-popover p-1 shadow-md"
+          >
+            {candidates.map((tag, index) => (
+              <li
+                key={tag}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                className={cn(
+                  'cursor-pointer rounded-sm px-2 py-1 text-sm',
+                  index === activeIndex && 'bg-accent text-accent-foreground'
+                )}
+                // 入力欄のフォーカスを外さずに選択する
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => addTag(tag)}
+              >
+                #{tag}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, Repeat } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  getCalendarDays,
+  getCalendarEntries,
+  moveToDay,
+  shiftCalendarDate,
+  startOfDay,
+  type CalendarEntry,
+  type CalendarView,
+} from '@/utils/calendar';
+import type { Category, Task } from '../db';
+
+interface TaskCalendarProps {
+  tasks: Task[];
+  categories: Category[];
+  view: CalendarView;
+  date: number;
+  onDateChange: (date: number) => void;
+  onTaskClick: (task: Task) => void;
+  onTaskMove: (task: Task, dueAt: number) => void;
+}
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+// 月表示で1日に表示する件数 (超えた分は件数のみ表示)
+const MONTH_VISIBLE_ENTRIES = 3;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString('ja-JP', { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatDay(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('ja-JP', { month: 'long', day: 'numeric' });
+}
+
+function formatTitle(view: CalendarView, days: number[], date: number): string {
+  if (view === 'month') {
+    return new Date(date).toLocaleDateString('ja-JP', { year: 'numeric', month: 'long' });
+  }
+  return `${formatDay(days[0])} 〜 ${formatDay(days[days.length - 1])}`;
+}
+
+export function TaskCalendar({
+  tasks,
+  categories,
+  view,
+  date,
+  onDateChange,
+  onTaskClick,
+  onTaskMove,
+}: TaskCalendarProps) {
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const days = useMemo(() => getCalendarDays(view, date), [view, date]);
+  const entries = useMemo(() => getCalendarEntries(tasks, days), [tasks, days]);
+  const today = startOfDay(Date.now());
+  const month = new Date(date).getMonth();
+
+  const handleDrop = (event: React.DragEvent, day: number) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const task = tasks.find((t) => t.id === event.dataTransfer.getData('text/plain'));
+    if (!task?.dueAt) return;
+
+    const dueAt = moveToDay(task.dueAt, day);
+    if (dueAt !== task.dueAt) {
+      onTaskMove(task, dueAt);
+    }
+  };
+
+  const renderEntry = (entry: CalendarEntry) => {
+    const { task, dueAt, ghost } = entry;
+    const category = categories.find((c) => c.id === task.categoryId);
+
+    return (
+      <button
+        key={`${task.id}-${dueAt}`}
+        type="button"
+        draggable={!ghost}
+        onDragStart={(event) => {
+          event.dataTransfer.setData('text/plain', task.id!);
+          event.dataTransfer.effectAllowed = 'move';
+        }}
+        onClick={() => onTaskClick(task)}
+        className={cn(
+          'w-full truncate rounded px-1 py-0.5 text-left text-xs border-l-2',
+          ghost ? 'border border-dashed opacity-60' : 'bg-muted cursor-grab',
+          task.status === 'done' && 'line-through text-muted-foreground'
+        )}
+        style={{
+          borderLeftColor: category?.color,
+          backgroundColor: !ghost && category ? `${category.color}1A` : undefined,
+        }}
+        title={task.title}
+        aria-label={`${task.title}${ghost ? ' (繰り返しの予定)' : ''}`}
+        data-testid={ghost ? 'calendar-ghost' : 'calendar-task'}
+      >
+        {ghost && <Repeat className="mr-0.5 inline h-3 w-3" />}
+        <span className="mr-1 text-muted-foreground">{formatTime(dueAt)}</span>
+        {task.title}
+      </button>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">{formatTitle(view, days, date)}</h2>
+        <div className="flex gap-1">
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onDateChange(shiftCalendarDate(view, date, -1))}
+            aria-label={view === 'month' ? '前の月' : '前の週'}
+          >
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" onClick={() => onDateChange(Date.now())}>
+            今日
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => onDateChange(shiftCalendarDate(view, date, 1))}
+            aria-label={view === 'month' ? '次の月' : '次の週'}
+          >
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-7 border-t border-l">
+        {WEEKDAY_LABELS.map((label) => (
+          <div
+            key={label}
+            className="border-r border-b bg-muted/50 py-1 text-center text-xs font-medium"
+          >
+            {label}
+          </div>
+        ))}
+
+        {days.map((day) => {
+          const dayEntries = entries.get(day) ?? [];
+          const visible =
+            view === 'month' ? dayEntries.slice(0, MONTH_VISIBLE_ENTRIES) : dayEntries;
+          const hidden = dayEntries.length - visible.length;
+
+          return (
+            <div
+              key={day}
+              role="gridcell"
+              aria-label={formatDay(day)}
+              onDragOver={(event) => {
+                event.preventDefault();
+                setDropTarget(day);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(event) => handleDrop(event, day)}
+              className={cn(
+                'border-r border-b p-1 space-y-0.5',
+                view === 'month' ? 'min-h-24' : 'min-h-48',
+                view === 'month' && new Date(day).getMonth() !== month && 'bg-muted/30',
+                dropTarget === day && 'bg-primary/10'
+              )}
+            >
+              <div
+                className={cn(
+                  'text-xs',
+                  day === today &&
+                    'inline-flex h-5 w-5 items-center justify-center rounded-full bg-primary text-primary-foreground'
+                )}
+              >
+                {new Date(day).getDate()}
+              </div>
+              {visible.map(renderEntry)}
+              {hidden > 0 && <div className="text-xs text-muted-foreground">他{hidden}件</div>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
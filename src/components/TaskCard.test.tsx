@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { TaskCard } from './TaskCard';
 import type { Task } from '../db';
 import '@testing-library/jest-dom';
@@ -52,4 +52,75 @@ describe('TaskCard', () => {
     render(<TaskCard task={taskWithChecklist} onToggle={() => {}} />);
     expect(screen.getByText('2 / 3 完了')).toBeInTheDocument();
   });
+
+  it('should show the recurrence mode', () => {
+    const { rerender } = render(
+      <TaskCard task={{ ...mockTask, repeatRule: 'FREQ=DAILY' }} onToggle={() => {}} />
+    );
+    expect(screen.getByLabelText('繰り返しタスク')).toBeInTheDocument();
+
+    rerender(
+      <TaskCard
+        task={{ ...mockTask, repeatRule: 'FREQ=DAILY', repeatMode: 'completion' }}
+        onToggle={() => {}}
+      />
+    );
+    expect(screen.getByLabelText('完了日から繰り返すタスク')).toBeInTheDocument();
+  });
+
+  it('should flag tasks with a priority', () => {
+    const { rerender } = render(<TaskCard task={{ ...mockTask, priority: 2 }} onToggle={() => {}} />);
+    expect(screen.getByLabelText('優先度 P2')).toBeInTheDocument();
+
+    rerender(<TaskCard task={{ ...mockTask, priority: 4 }} onToggle={() => {}} />);
+    expect(screen.queryByLabelText(/優先度/)).not.toBeInTheDocument();
+  });
+
+  it('should show an excerpt of the notes without markup', () => {
+    render(<TaskCard task={{ ...mockTask, notes: '**至急** [資料](https://example.com)' }} onToggle={() => {}} />);
+
+    expect(screen.getByText('至急 資料')).toBeInTheDocument();
+  });
+
+  it('should show the tags of the task', () => {
+    render(<TaskCard task={{ ...mockTask, tags: ['連絡待ち', 'work'] }} onToggle={() => {}} />);
+
+    const tags = screen.getByRole('list', { name: 'タグ' });
+    expect(tags).toHaveTextContent('#連絡待ち');
+    expect(tags).toHaveTextContent('#work');
+  });
+
+  it('should show subtasks under the parent with the progress', () => {
+    const tasks: Task[] = [
+      mockTask,
+      { ...mockTask, id: '2', title: 'Subtask A', parentId: '1', status: 'done' },
+      { ...mockTask, id: '3', title: 'Subtask B', parentId: '1' },
+      { ...mockTask, id: '4', title: 'Nested', parentId: '3' },
+    ];
+    render(<TaskCard task={mockTask} onToggle={() => {}} allTasks={tasks} showSubtasks />);
+
+    expect(screen.getByText('サブタスク 1 / 3 完了')).toBeInTheDocument();
+    const group = screen.getByRole('group', { name: 'Test Taskのサブタスク' });
+    expect(group).toHaveTextContent('Subtask A');
+    expect(group).toHaveTextContent('Nested');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'サブタスクを折りたたむ' })[0]);
+    expect(screen.queryByText('Subtask A')).not.toBeInTheDocument();
+  });
+
+  it('should dim tasks until their blockers are done', () => {
+    const blocker: Task = { ...mockTask, id: '2', title: 'Blocker' };
+    const task: Task = { ...mockTask, blockedBy: ['2'] };
+    const { rerender } = render(
+      <TaskCard task={task} onToggle={() => {}} allTasks={[task, blocker]} />
+    );
+
+    expect(screen.getByLabelText('ブロック中: Blocker')).toBeInTheDocument();
+    expect(screen.getByText('Test Task').closest('[data-task-id]')).toHaveClass('opacity-60');
+
+    rerender(
+      <TaskCard task={task} onToggle={() => {}} allTasks={[task, { ...blocker, status: 'done' }]} />
+    );
+    expect(screen.queryByLabelText(/ブロック中/)).not.toBeInTheDocument();
+  });
 });
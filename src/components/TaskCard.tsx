@@ -1,73 +1,198 @@
-import { Check, Circle, Repeat } from 'lucide-react';
+import { useState } from 'react';
+import {
+  Check,
+  ChevronDown,
+  ChevronRight,
+  Circle,
+  Flag,
+  History,
+  ListTree,
+  Lock,
+  Repeat,
+} from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Checkbox } from '@/components/ui/checkbox';
 import { cn } from '@/lib/utils';
+import { markdownToPlainText } from '@/utils/markdown';
+import { DEFAULT_TASK_PRIORITY, PRIORITY_COLORS, getTaskPriority } from '@/utils/priority';
+import { getSubtaskProgress, getSubtasks } from '@/utils/subtasks';
+import { getOpenBlockers } from '@/utils/dependencies';
 import type { Task } from '../db';
 
 interface TaskCardProps {
   task: Task;
   onToggle: (id: string) => void;
   onClick?: (task: Task) => void;
+  // サブタスクの進捗の集計と、ブロック元の確認に使う全タスク
+  allTasks?: Task[];
+  // サブタスクを親の下に字下げして表示する
+  showSubtasks?: boolean;
 }
 
-export function TaskCard({ task, onToggle, onClick }: TaskCardProps) {
+export function TaskCard({ task, onToggle, onClick, allTasks, showSubtasks }: TaskCardProps) {
+  const [expanded, setExpanded] = useState(true);
   const isOverdue = task.dueAt && task.dueAt < Date.now() && task.status === 'pending';
+  const priority = getTaskPriority(task);
+  const progress = allTasks && task.id ? getSubtaskProgress(task.id, allTasks) : undefined;
+  const subtasks =
+    showSubtasks && allTasks && task.id
+      ? getSubtasks(task.id, allTasks).filter(subtask => subtask.status !== 'archived')
+      : [];
+  // 未完了のブロック元があるタスクは薄く表示する
+  const openBlockers =
+    allTasks && task.status === 'pending' ? getOpenBlockers(task, allTasks) : [];
   
   return (
-    <Card 
-      id={`task-${task.id}`}
-      className={cn(
-        'cursor-pointer transition-all hover:shadow-md',
-        task.status === 'done' && 'opacity-60'
-      )}
-      onClick={() => onClick?.(task)}
-    >
-      <CardContent className="flex items-center gap-3 p-4">
-        <Checkbox
-          checked={task.status === 'done'}
-          onCheckedChange={() => onToggle(task.id!)}
-          onClick={(e) => e.stopPropagation()}
-          className="h-5 w-5"
-        />
+    <div className="space-y-2">
+      <Card 
+        id={`task-${task.id}`}
+        // キーボードショートカットで操作する対象 (Tab や j / k でフォーカスする)
+        data-task-id={task.id}
+        tabIndex={0}
+        className={cn(
+          'cursor-pointer transition-all hover:shadow-md',
+          'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+          (task.status === 'done' || openBlockers.length > 0) && 'opacity-60'
+        )}
+        onClick={() => onClick?.(task)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter' && e.target === e.currentTarget) {
+            onClick?.(task);
+          }
+        }}
+      >
+        <CardContent className="flex items-center gap-3 p-4">
+          <Checkbox
+            checked={task.status === 'done'}
+            onCheckedChange={() => onToggle(task.id!)}
+            onClick={(e) => e.stopPropagation()}
+            className="h-5 w-5"
+          />
         
-        <div className="flex-1">
-          <div className="flex items-center gap-2">
-            <h3 className={cn(
-              'font-medium',
-              task.status === 'done' && 'line-through text-muted-foreground'
-            )}>
-              {task.title}
-            </h3>
-            {task.repeatRule && (
-              <Repeat className="h-4 w-4 text-muted-foreground" aria-label="繰り返しタスク" />
+          <div className="flex-1">
+            <div className="flex items-center gap-2">
+              <h3 className={cn(
+                'font-medium',
+                task.status === 'done' && 'line-through text-muted-foreground'
+              )}>
+                {task.title}
+              </h3>
+              {priority !== DEFAULT_TASK_PRIORITY && (
+                <Flag
+                  className={cn('h-4 w-4 fill-current', PRIORITY_COLORS[priority])}
+                  aria-label={`優先度 P${priority}`}
+                />
+              )}
+              {openBlockers.length > 0 && (
+                <Lock
+                  className="h-4 w-4 text-muted-foreground"
+                  aria-label={`ブロック中: ${openBlockers.map(blocker => blocker.title).join('、')}`}
+                />
+              )}
+              {task.repeatRule && task.repeatMode === 'completion' && (
+                <History className="h-4 w-4 text-muted-foreground" aria-label="完了日から繰り返すタスク" />
+              )}
+              {task.repeatRule && task.repeatMode !== 'completion' && (
+                <Repeat className="h-4 w-4 text-muted-foreground" aria-label="繰り返しタスク" />
+              )}
+            </div>
+          
+            {task.notes && (
+              <p className="text-sm text-muted-foreground line-clamp-1">
+                {markdownToPlainText(task.notes)}
+              </p>
             )}
-          </div>
           
-          {task.dueAt && (
-            <p className={cn(
-              'text-sm text-muted-foreground',
-              isOverdue && 'text-destructive'
-            )}>
-              期限: {new Date(task.dueAt).toLocaleDateString()}
-            </p>
-          )}
+            {task.tags && task.tags.length > 0 && (
+              <ul className="mt-1 flex flex-wrap gap-1" aria-label="タグ">
+                {task.tags.map((tag) => (
+                  <li key={tag} className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                    #{tag}
+                  </li>
+                ))}
+              </ul>
+            )}
           
-          {task.checklist && task.checklist.length > 0 && (
-            <div className="mt-2 text-sm text-muted-foreground">
-              {task.checklist.filter((item: any) => item.checked).length} / {task.checklist.length} 完了
-            </div>
+            {task.dueAt && (
+              <p className={cn(
+                'text-sm text-muted-foreground',
+                isOverdue && 'text-destructive'
+              )}>
+                期限: {new Date(task.dueAt).toLocaleDateString()}
+              </p>
+            )}
+          
+            {task.checklist && task.checklist.length > 0 && (
+              <div className="mt-2 text-sm text-muted-foreground">
+                {task.checklist.filter((item: any) => item.checked).length} / {task.checklist.length} 完了
+              </div>
+            )}
+          
+            {progress && progress.total > 0 && (
+              <div className="mt-2 flex items-center gap-2 text-sm text-muted-foreground">
+                <ListTree className="h-4 w-4" />
+                <span>サブタスク {progress.done} / {progress.total} 完了</span>
+                <div
+                  role="progressbar"
+                  aria-label="サブタスクの進捗"
+                  aria-valuemin={0}
+                  aria-valuemax={progress.total}
+                  aria-valuenow={progress.done}
+                  className="h-1.5 w-16 overflow-hidden rounded-full bg-muted"
+                >
+                  <div
+                    className="h-full bg-primary"
+                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        
+          {subtasks.length > 0 && (
+            <button
+              type="button"
+              className="rounded p-1 text-muted-foreground hover:bg-accent"
+              aria-expanded={expanded}
+              aria-label={expanded ? 'サブタスクを折りたたむ' : 'サブタスクを表示'}
+              onClick={(e) => {
+                e.stopPropagation();
+                setExpanded(!expanded);
+              }}
+            >
+              {expanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+            </button>
           )}
-        </div>
         
-        {task.status === 'done' ? (
-          <Check className="h-5 w-5 text-success" />
-        ) : (
-          <Circle className={cn(
-            'h-5 w-5',
-            isOverdue ? 'text-destructive' : 'text-muted-foreground'
-          )} />
-        )}
-      </CardContent>
-    </Card>
+          {task.status === 'done' ? (
+            <Check className="h-5 w-5 text-success" />
+          ) : (
+            <Circle className={cn(
+              'h-5 w-5',
+              isOverdue ? 'text-destructive' : 'text-muted-foreground'
+            )} />
+          )}
+        </CardContent>
+      </Card>
+    
+      {expanded && subtasks.length > 0 && (
+        <div
+          className="ml-6 space-y-2 border-l pl-3"
+          role="group"
+          aria-label={`${task.title}のサブタスク`}
+        >
+          {subtasks.map(subtask => (
+            <TaskCard
+              key={subtask.id}
+              task={subtask}
+              onToggle={onToggle}
+              onClick={onClick}
+              allTasks={allTasks}
+              showSubtasks
+            />
+          ))}
+        </div>
+      )}
+    </div>
   );
 }
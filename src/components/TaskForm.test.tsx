@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { db, type Task } from '@/db';
+import { useTasks } from '@/store/useTasks';
+import { TaskForm } from './TaskForm';
+
+describe('TaskForm', () => {
+  const start = new Date(2024, 0, 1, 9, 0).getTime();
+  const day = 24 * 60 * 60 * 1000;
+  const rule = 'RRULE:FREQ=DAILY;INTERVAL=1';
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    useTasks.setState({ tasks: [], error: null });
+  });
+
+  it('should update every occurrence of a series from the submitted form', async () => {
+    const series: Task[] = [0, 1, 2].map((n) => ({
+      id: `daily-${n}`,
+      title: '朝の散歩',
+      status: n === 0 ? 'done' : 'pending',
+      dueAt: start + n * day,
+      repeatRule: rule,
+      repeatParentId: n === 0 ? undefined : 'daily-0',
+      repeatCount: n,
+      createdAt: start,
+      updatedAt: start,
+    }));
+    await db.tasks.bulkAdd(series);
+    await useTasks.getState().load();
+
+    // フォームが渡す内容 (編集したタスクの id を含む) をそのまま系列の更新に使う
+    render(
+      <TaskForm
+        open
+        onOpenChange={() => {}}
+        task={series[1]}
+        onSubmit={(taskData, scope) =>
+          useTasks.getState().updateSeries(series[1].id!, taskData, scope!)
+        }
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText(/タイトル/), { target: { value: '夕方の散歩' } });
+    fireEvent.click(screen.getByRole('button', { name: '更新' }));
+    fireEvent.click(await screen.findByRole('button', { name: 'すべての回' }));
+
+    await waitFor(async () => {
+      const tasks = await db.tasks.orderBy('dueAt').toArray();
+      expect(tasks.map((task) => [task.id, task.title])).toEqual([
+        ['daily-0', '夕方の散歩'],
+        ['daily-1', '夕方の散歩'],
+        ['daily-2', '夕方の散歩'],
+      ]);
+    });
+    expect(useTasks.getState().error).toBeNull();
+  });
+});
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { Calendar, Clock, Plus, Trash2, Repeat } from 'lucide-react';
+import { Calendar, Clock, CornerDownRight, ListTree, Plus, Trash2, Repeat } from 'lucide-react';
 import { 
   Dialog, 
   DialogContent, 
@@ -8,6 +8,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -18,51 +19,110 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { RRule, type Frequency } from 'rrule';
-import type { Task } from '../db';
+import { DependencyEditor } from '@/components/DependencyEditor';
+import { MarkdownView } from '@/components/MarkdownView';
+import { ReminderEditor } from '@/components/ReminderEditor';
+import { RepeatRuleEditor } from '@/components/RepeatRuleEditor';
+import { RecurrenceScopeDialog } from '@/components/RecurrenceScopeDialog';
+import { TagInput } from '@/components/TagInput';
+import { useSettings } from '@/store/useSettings';
+import { useTasks } from '@/store/useTasks';
+import {
+  buildRepeatRule,
+  createRepeatRuleDraft,
+  getRepeatUntil,
+  isSameRepeatRule,
+  parseRepeatRule,
+  type RepeatRuleDraft,
+} from '@/utils/repeat-rule';
+import {
+  DEFAULT_TASK_PRIORITY,
+  PRIORITY_LABELS,
+  TASK_PRIORITIES,
+  getTaskPriority,
+} from '@/utils/priority';
+import { getTagCounts } from '@/utils/tags';
+import type {
+  ChecklistItem,
+  RecurrenceScope,
+  RepeatMode,
+  Task,
+  TaskPriority,
+  TaskReminder,
+} from '../db';
 
 interface TaskFormProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   task?: Task;
-  onSubmit: (task: Partial<Task>) => void;
-  onDelete?: (id: string) => void;
+  // 繰り返しタスクの場合は選択された範囲 (scope) も渡す
+  onSubmit: (task: Partial<Task>, scope?: RecurrenceScope) => void;
+  onDelete?: (id: string, scope?: RecurrenceScope) => void;
+  // 新規作成時の期日の初期値 (タイムラインの空き時間から作成する場合など)
+  defaultDueAt?: number;
+  // 親タスク (サブタスクを作成・編集する場合)
+  parentTask?: Task;
+  // 編集中のタスクにサブタスクを追加する
+  onAddSubtask?: (parent: Task) => void;
+  // チェックリストの項目をサブタスクにする (保存済みのタスクのみ)
+  onPromoteChecklistItem?: (item: ChecklistItem) => void;
+}
+
+// 日時を入力欄の形式 (ローカル時刻) に変換する
+function toDateInput(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 }
 
-export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskFormProps) {
+function toTimeInput(timestamp: number): string {
+  return new Date(timestamp).toTimeString().split(' ')[0].slice(0, 5);
+}
+
+export function TaskForm({
+  open,
+  onOpenChange,
+  task,
+  onSubmit,
+  onDelete,
+  defaultDueAt,
+  parentTask,
+  onAddSubtask,
+  onPromoteChecklistItem,
+}: TaskFormProps) {
+  const initialDueAt = task ? task.dueAt : defaultDueAt;
   const [title, setTitle] = useState(task?.title || '');
-  const [dueDate, setDueDate] = useState(
-    task?.dueAt ? new Date(task.dueAt).toISOString().split('T')[0] : ''
-  );
-  const [dueTime, setDueTime] = useState(
-    task?.dueAt ? new Date(task.dueAt).toTimeString().split(' ')[0].slice(0, 5) : ''
-  );
+  const [dueDate, setDueDate] = useState(initialDueAt ? toDateInput(initialDueAt) : '');
+  const [dueTime, setDueTime] = useState(initialDueAt ? toTimeInput(initialDueAt) : '');
   const [durationMin, setDurationMin] = useState(task?.durationMin?.toString() || '');
+  const [priority, setPriority] = useState<TaskPriority>(
+    task ? getTaskPriority(task) : DEFAULT_TASK_PRIORITY
+  );
+  const [notes, setNotes] = useState(task?.notes || '');
+  // メモのある既存タスクはプレビューから表示する
+  const [notesPreview, setNotesPreview] = useState(!!task?.notes);
   const [checklist, setChecklist] = useState(task?.checklist || []);
+  const [reminders, setReminders] = useState<TaskReminder[] | undefined>(task?.reminders);
+  const [blockedBy, setBlockedBy] = useState<string[]>(task?.blockedBy ?? []);
+  const [tags, setTags] = useState<string[]>(task?.tags ?? []);
+  const { notifyBeforeMin } = useSettings();
+  const { tasks } = useTasks();
   
   // 繰り返し設定のステート
   const [repeatEnabled, setRepeatEnabled] = useState(!!task?.repeatRule);
-  const [repeatFrequency, setRepeatFrequency] = useState<string>('DAILY');
-  const [repeatInterval, setRepeatInterval] = useState('1');
-  const [repeatUntil, setRepeatUntil] = useState(
-    task?.repeatUntil ? new Date(task.repeatUntil).toISOString().split('T')[0] : ''
+  const [initialRepeatDraft] = useState<RepeatRuleDraft>(
+    () => (task?.repeatRule && parseRepeatRule(task.repeatRule)) || createRepeatRuleDraft()
   );
-  
-  // 既存のタスクからRRULEを解析
-  useState(() => {
-    if (task?.repeatRule) {
-      try {
-        const rrule = RRule.fromString(task.repeatRule);
-        setRepeatFrequency(RRule.FREQUENCIES[rrule.options.freq]);
-        setRepeatInterval(rrule.options.interval?.toString() || '1');
-        if (rrule.options.until) {
-          setRepeatUntil(rrule.options.until.toISOString().split('T')[0]);
-        }
-      } catch (error) {
-        console.error('Failed to parse RRULE:', error);
-      }
-    }
-  });
+  const [repeatDraft, setRepeatDraft] = useState<RepeatRuleDraft>(initialRepeatDraft);
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(task?.repeatMode ?? 'schedule');
+
+  // 繰り返しタスクの編集・削除時に範囲を選択するダイアログ
+  const [scopeAction, setScopeAction] = useState<'edit' | 'delete' | null>(null);
+  const [pendingTaskData, setPendingTaskData] = useState<Partial<Task> | null>(null);
+  const isRecurring = !!task?.repeatRule;
+
+  // 入力中の期日 (リマインダーと繰り返しのプレビューに使用)
+  const formDueAt = dueDate ? new Date(`${dueDate}T${dueTime || '00:00'}`).getTime() : undefined;
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -79,38 +139,48 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
     let repeatRule: string | undefined;
     let repeatUntilTimestamp: number | undefined;
     if (repeatEnabled && dueAt) {
-      const freq = RRule[repeatFrequency as keyof typeof RRule] as Frequency;
-      const rruleOptions: any = {
-        freq,
-        interval: parseInt(repeatInterval) || 1,
-        dtstart: new Date(dueAt),
-      };
-      
-      if (repeatUntil) {
-        const untilDate = new Date(repeatUntil);
-        untilDate.setHours(23, 59, 59, 999);
-        rruleOptions.until = untilDate;
-        repeatUntilTimestamp = untilDate.getTime();
-      }
-      
-      const rrule = new RRule(rruleOptions);
-      repeatRule = rrule.toString();
+      repeatRule = buildRepeatRule(repeatDraft, new Date(dueAt));
+      repeatUntilTimestamp = getRepeatUntil(repeatDraft);
     }
 
     const taskData = {
       id: task?.id,
+      // 新規作成時のカテゴリーは親タスクから引き継ぐ
+      ...(parentTask && !task ? { parentId: parentTask.id, categoryId: parentTask.categoryId } : {}),
       title: title.trim(),
       dueAt,
       durationMin: durationMin ? parseInt(durationMin) : undefined,
+      priority,
+      notes: notes.trim() ? notes : undefined,
+      tags: tags.length > 0 ? tags : undefined,
       checklist: checklist.filter((item: any) => item.text.trim()),
       repeatRule,
       repeatUntil: repeatUntilTimestamp,
+      repeatMode: repeatRule && repeatMode === 'completion' ? repeatMode : undefined,
+      reminders,
+      blockedBy: blockedBy.length > 0 ? blockedBy : undefined,
     };
 
+    if (isRecurring) {
+      setPendingTaskData(taskData);
+      setScopeAction('edit');
+      return;
+    }
+
     onSubmit(taskData);
 
     onOpenChange(false);
   };
+
+  const handleScopeSelect = (scope: RecurrenceScope) => {
+    if (scopeAction === 'edit' && pendingTaskData) {
+      onSubmit(pendingTaskData, scope);
+    } else if (scopeAction === 'delete' && task?.id) {
+      onDelete?.(task.id, scope);
+    }
+    setPendingTaskData(null);
+    onOpenChange(false);
+  };
   
   const addChecklistItem = () => {
     setChecklist([
@@ -128,6 +198,11 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
   const removeChecklistItem = (id: string) => {
     setChecklist(checklist.filter((item: any) => item.id !== id));
   };
+  
+  const promoteChecklistItem = (item: ChecklistItem) => {
+    onPromoteChecklistItem?.(item);
+    removeChecklistItem(item.id);
+  };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -138,6 +213,13 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
           </DialogHeader>
           
           <div className="space-y-4 py-4">
+            {parentTask && (
+              <p className="flex items-center gap-1 text-sm text-muted-foreground">
+                <CornerDownRight className="h-4 w-4" />
+                {parentTask.title} のサブタスク
+              </p>
+            )}
+            
             <div>
               <Label htmlFor="title">タイトル</Label>
               <Input
@@ -179,18 +261,104 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
               </div>
             </div>
             
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="duration">所要時間（分）</Label>
+                <Input
+                  id="duration"
+                  type="number"
+                  value={durationMin}
+                  onChange={(e) => setDurationMin(e.target.value)}
+                  placeholder="60"
+                  min="1"
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="priority">優先度</Label>
+                <Select
+                  value={priority.toString()}
+                  onValueChange={(value) => setPriority(Number(value) as TaskPriority)}
+                >
+                  <SelectTrigger id="priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TASK_PRIORITIES.map((p) => (
+                      <SelectItem key={p} value={p.toString()}>
+                        {PRIORITY_LABELS[p]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            
             <div>
-              <Label htmlFor="duration">所要時間（分）</Label>
-              <Input
-                id="duration"
-                type="number"
-                value={durationMin}
-                onChange={(e) => setDurationMin(e.target.value)}
-                placeholder="60"
-                min="1"
-              />
+              <div className="flex items-center justify-between mb-2">
+                <Label htmlFor="notes">メモ</Label>
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={notesPreview ? 'ghost' : 'secondary'}
+                    onClick={() => setNotesPreview(false)}
+                    aria-pressed={!notesPreview}
+                  >
+                    編集
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={notesPreview ? 'secondary' : 'ghost'}
+                    onClick={() => setNotesPreview(true)}
+                    aria-pressed={notesPreview}
+                  >
+                    プレビュー
+                  </Button>
+                </div>
+              </div>
+              
+              {notesPreview ? (
+                notes.trim() ? (
+                  <MarkdownView
+                    markdown={notes}
+                    className="max-h-60 overflow-y-auto rounded-md border p-3"
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">メモはありません</p>
+                )
+              ) : (
+                <Textarea
+                  id="notes"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  placeholder="Markdown で入力できます (リンク・コード・リストなど)"
+                  rows={4}
+                />
+              )}
             </div>
             
+            <TagInput
+              value={tags}
+              onChange={setTags}
+              suggestions={getTagCounts(tasks).map(({ tag }) => tag)}
+            />
+            
+            <ReminderEditor
+              value={reminders}
+              onChange={setReminders}
+              defaultBeforeMin={notifyBeforeMin}
+              dueAt={formDueAt}
+            />
+            
+            <DependencyEditor
+              value={blockedBy}
+              onChange={setBlockedBy}
+              taskId={task?.id}
+              tasks={tasks}
+            />
+            
             <div>
               <div className="flex items-center space-x-2 mb-2">
                 <Checkbox
@@ -205,57 +373,14 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
               </div>
               
               {repeatEnabled && (
-                <div className="space-y-3 pl-6">
-                  <div className="grid grid-cols-2 gap-4">
-                    <div>
-                      <Label htmlFor="frequency">頻度</Label>
-                      <Select value={repeatFrequency} onValueChange={setRepeatFrequency}>
-                        <SelectTrigger id="frequency">
-                          <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="DAILY">毎日</SelectItem>
-                          <SelectItem value="WEEKLY">毎週</SelectItem>
-                          <SelectItem value="MONTHLY">毎月</SelectItem>
-                          <SelectItem value="YEARLY">毎年</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-                    
-                    <div>
-                      <Label htmlFor="interval">間隔</Label>
-                      <div className="flex items-center gap-2">
-                        <Input
-                          id="interval"
-                          type="number"
-                          value={repeatInterval}
-                          onChange={(e) => setRepeatInterval(e.target.value)}
-                          min="1"
-                          max="99"
-                        />
-                        <span className="text-sm text-muted-foreground">
-                          {repeatFrequency === 'DAILY' && '日ごと'}
-                          {repeatFrequency === 'WEEKLY' && '週ごと'}
-                          {repeatFrequency === 'MONTHLY' && 'ヶ月ごと'}
-                          {repeatFrequency === 'YEARLY' && '年ごと'}
-                        </span>
-                      </div>
-                    </div>
-                  </div>
-                  
-                  <div>
-                    <Label htmlFor="repeatUntil">終了日</Label>
-                    <Input
-                      id="repeatUntil"
-                      type="date"
-                      value={repeatUntil}
-                      onChange={(e) => setRepeatUntil(e.target.value)}
-                      min={dueDate}
-                    />
-                    <p className="text-xs text-muted-foreground mt-1">
-                      空欄の場合は無期限に繰り返します
-                    </p>
-                  </div>
+                <div className="pl-6">
+                  <RepeatRuleEditor
+                    value={repeatDraft}
+                    onChange={setRepeatDraft}
+                    mode={repeatMode}
+                    onModeChange={setRepeatMode}
+                    dueAt={formDueAt}
+                  />
                 </div>
               )}
             </div>
@@ -291,6 +416,17 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
                       placeholder="サブタスク"
                       className="flex-1"
                     />
+                    {task?.id && onPromoteChecklistItem && item.text.trim() && (
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => promoteChecklistItem(item)}
+                        aria-label={`「${item.text}」をサブタスクにする`}
+                      >
+                        <ListTree className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       type="button"
                       size="sm"
@@ -306,11 +442,26 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
           </div>
           
           <DialogFooter>
+            {task?.id && onAddSubtask && (
+              <Button
+                type="button"
+                variant="outline"
+                className="sm:mr-auto"
+                onClick={() => onAddSubtask(task)}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                サブタスクを追加
+              </Button>
+            )}
             {task && onDelete && (
               <Button
                 type="button"
                 variant="destructive"
                 onClick={() => {
+                  if (isRecurring) {
+                    setScopeAction('delete');
+                    return;
+                  }
                   onDelete(task.id!);
                   onOpenChange(false);
                 }}
@@ -323,6 +474,19 @@ export function TaskForm({ open, onOpenChange, task, onSubmit, onDelete }: TaskF
             </Button>
           </DialogFooter>
         </form>
+
+        <RecurrenceScopeDialog
+          open={scopeAction !== null}
+          onOpenChange={(open) => !open && setScopeAction(null)}
+          action={scopeAction ?? 'edit'}
+          onSelect={handleScopeSelect}
+          allowThisOnly={
+            scopeAction === 'delete' ||
+            (repeatEnabled &&
+              repeatMode === (task?.repeatMode ?? 'schedule') &&
+              isSameRepeatRule(initialRepeatDraft, repeatDraft))
+          }
+        />
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TimelineBar } from './TimelineBar';
+import type { Task } from '../db';
+
+describe('TimelineBar', () => {
+  const date = new Date('2024-01-10T00:00:00');
+  const at = (time: string) => new Date(`2024-01-10T${time}:00`).getTime();
+
+  const task: Task = {
+    id: '1',
+    title: 'Meeting',
+    status: 'pending',
+    dueAt: at('09:00'),
+    durationMin: 30,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  beforeEach(() => {
+    // jsdom は PointerEvent を実装していないため MouseEvent で代用する
+    vi.stubGlobal(
+      'PointerEvent',
+      class extends MouseEvent {
+        pointerId: number;
+        constructor(type: string, init: PointerEventInit = {}) {
+          super(type, init);
+          this.pointerId = init.pointerId ?? 0;
+        }
+      }
+    );
+    // 1px = 1分になるようにタイムラインの幅を固定する
+    vi.spyOn(HTMLElement.prototype, 'getBoundingClientRect').mockReturnValue({
+      left: 0,
+      width: 24 * 60,
+    } as DOMRect);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  it('should be read-only without handlers', () => {
+    render(<TimelineBar tasks={[task]} date={date} />);
+
+    expect(screen.queryByRole('button', { name: /Meeting/ })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: /にタスクを追加/ })).not.toBeInTheDocument();
+  });
+
+  it('should move a task by dragging with snapping', () => {
+    const onTaskChange = vi.fn();
+    render(<TimelineBar tasks={[task]} date={date} onTaskChange={onTaskChange} />);
+
+    const block = screen.getByRole('button', { name: 'Meeting 09:00〜 30分' });
+    fireEvent.pointerDown(block, { pointerId: 1, clientX: 540 });
+    fireEvent.pointerMove(block, { pointerId: 1, clientX: 595 });
+    fireEvent.pointerUp(block, { pointerId: 1, clientX: 595 });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, { dueAt: at('10:00') });
+  });
+
+  it('should snap to 5 minutes when selected', () => {
+    const onTaskChange = vi.fn();
+    render(<TimelineBar tasks={[task]} date={date} onTaskChange={onTaskChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '5分' }));
+    const block = screen.getByRole('button', { name: /Meeting/ });
+    fireEvent.pointerDown(block, { pointerId: 1, clientX: 540 });
+    fireEvent.pointerMove(block, { pointerId: 1, clientX: 592 });
+    fireEvent.pointerUp(block, { pointerId: 1 });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, { dueAt: at('09:50') });
+  });
+
+  it('should change the duration by dragging the edge', () => {
+    const onTaskChange = vi.fn();
+    render(<TimelineBar tasks={[task]} date={date} onTaskChange={onTaskChange} />);
+
+    const handle = screen.getByTestId('timeline-resize-handle');
+    fireEvent.pointerDown(handle, { pointerId: 1, clientX: 570 });
+    fireEvent.pointerMove(handle, { pointerId: 1, clientX: 600 });
+    fireEvent.pointerUp(handle, { pointerId: 1 });
+
+    expect(onTaskChange).toHaveBeenCalledWith(task, { durationMin: 60 });
+  });
+
+  it('should not change the task when it is not dragged', () => {
+    const onTaskChange = vi.fn();
+    render(<TimelineBar tasks={[task]} date={date} onTaskChange={onTaskChange} />);
+
+    const block = screen.getByRole('button', { name: /Meeting/ });
+    fireEvent.pointerDown(block, { pointerId: 1, clientX: 540 });
+    fireEvent.pointerUp(block, { pointerId: 1 });
+
+    expect(onTaskChange).not.toHaveBeenCalled();
+  });
+
+  it('should keep unaligned times when a task is only clicked', () => {
+    const onTaskChange = vi.fn();
+    const unaligned = { ...task, dueAt: at('10:07'), durationMin: 22 };
+    render(<TimelineBar tasks={[unaligned]} date={date} onTaskChange={onTaskChange} />);
+
+    const block = screen.getByRole('button', { name: /Meeting/ });
+    fireEvent.pointerDown(block, { pointerId: 1, clientX: 607 });
+    fireEvent.pointerUp(block, { pointerId: 1, clientX: 607 });
+
+    // 間隔に満たない動きも変更しない
+    fireEvent.pointerDown(block, { pointerId: 1, clientX: 607 });
+    fireEvent.pointerMove(block, { pointerId: 1, clientX: 610 });
+    fireEvent.pointerUp(block, { pointerId: 1, clientX: 610 });
+
+    const handle = screen.getByTestId('timeline-resize-handle');
+    fireEvent.pointerDown(handle, { pointerId: 1, clientX: 629 });
+    fireEvent.pointerUp(handle, { pointerId: 1, clientX: 629 });
+
+    expect(onTaskChange).not.toHaveBeenCalled();
+  });
+
+  it('should move and resize with the keyboard', () => {
+    const onTaskChange = vi.fn();
+    render(<TimelineBar tasks={[task]} date={date} onTaskChange={onTaskChange} />);
+
+    const block = screen.getByRole('button', { name: /Meeting/ });
+    fireEvent.keyDown(block, { key: 'ArrowRight' });
+    fireEvent.keyDown(block, { key: 'ArrowLeft', shiftKey: true });
+
+    expect(onTaskChange).toHaveBeenNthCalledWith(1, task, { dueAt: at('09:15') });
+    expect(onTaskChange).toHaveBeenNthCalledWith(2, task, { durationMin: 15 });
+  });
+
+  it('should create a task at the clicked empty slot', () => {
+    const onSlotClick = vi.fn();
+    render(<TimelineBar tasks={[]} date={date} onSlotClick={onSlotClick} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '14:00 にタスクを追加' }), {
+      detail: 1,
+      clientX: 14 * 60 + 37,
+    });
+    // キーボードで選んだ場合は正時
+    fireEvent.click(screen.getByRole('button', { name: '08:00 にタスクを追加' }), { detail: 0 });
+
+    expect(onSlotClick).toHaveBeenNthCalledWith(1, at('14:30'));
+    expect(onSlotClick).toHaveBeenNthCalledWith(2, at('08:00'));
+  });
+
+  it('should stack overlapping tasks into lanes and flag conflicts', () => {
+    const overlapping: Task = { ...task, id: '2', title: 'Lunch', dueAt: at('09:15') };
+    const later: Task = { ...task, id: '3', title: 'Review', dueAt: at('11:00') };
+    render(<TimelineBar tasks={[task, overlapping, later]} date={date} onTaskChange={vi.fn()} />);
+
+    const meeting = screen.getByRole('button', { name: 'Meeting 09:00〜 30分 時間超過' });
+    const lunch = screen.getByRole('button', { name: 'Lunch 09:15〜 30分 時間超過' });
+    const review = screen.getByRole('button', { name: 'Review 11:00〜 30分' });
+
+    expect(meeting).toHaveAttribute('data-lane', '0');
+    expect(lunch).toHaveAttribute('data-lane', '1');
+    expect(review).toHaveAttribute('data-lane', '0');
+    expect(screen.getAllByText('時間超過')).toHaveLength(2);
+  });
+});
@@ -1,34 +1,180 @@
-import { useMemo } from 'react';
+import { useId, useMemo, useRef, useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  DEFAULT_TIMELINE_DURATION,
+  MINUTES_PER_DAY,
+  TIMELINE_SNAP_STEPS,
+  layoutTimeline,
+  moveTimelineBlock,
+  positionToMinutes,
+  resizeTimelineBlock,
+  type TimelineSnapStep,
+} from '@/utils/timeline';
 import type { Task } from '../db';
 
 interface TimelineBarProps {
   tasks: Task[];
   date: Date;
+  // 指定した場合、ドラッグ・キー操作でタスクの時刻と長さを変更できる
+  onTaskChange?: (task: Task, updates: Pick<Task, 'dueAt' | 'durationMin'>) => void;
+  // 指定した場合、空き時間をクリックしてその時刻のタスクを作成できる
+  onSlotClick?: (dueAt: number) => void;
 }
 
-export function TimelineBar({ tasks, date }: TimelineBarProps) {
-  const { dayTasks, currentTimePosition } = useMemo(() => {
+interface DragState {
+  taskId: string;
+  mode: 'move' | 'resize';
+  startX: number;
+  deltaMin: number;
+}
+
+// レーン1段分の高さと間隔 (px)
+const LANE_HEIGHT = 32;
+const LANE_GAP = 4;
+// 時間軸の最小の高さ (px)
+const MIN_TRACK_HEIGHT = 80;
+
+function formatMinutes(minutes: number): string {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+}
+
+export function TimelineBar({ tasks, date, onTaskChange, onSlotClick }: TimelineBarProps) {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const hintId = useId();
+  const [snapStep, setSnapStep] = useState<TimelineSnapStep>(15);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const { dayStart, dayTasks, currentTimePosition, layout } = useMemo(() => {
     const startOfDay = new Date(date);
     startOfDay.setHours(0, 0, 0, 0);
     const endOfDay = new Date(date);
     endOfDay.setHours(23, 59, 59, 999);
-    
+
     const dayTasks = tasks
       .filter(task => task.dueAt && task.dueAt >= startOfDay.getTime() && task.dueAt <= endOfDay.getTime())
       .sort((a, b) => a.dueAt! - b.dueAt!);
-    
+
     const now = new Date();
     const currentTimePosition = ((now.getHours() * 60 + now.getMinutes()) / (24 * 60)) * 100;
-    
-    return { dayTasks, currentTimePosition };
+
+    // ドラッグ中もレーンが入れ替わらないよう、保存済みの時刻で配置する
+    const layout = layoutTimeline(
+      dayTasks.map(task => {
+        const taskTime = new Date(task.dueAt!);
+        return {
+          id: task.id!,
+          startMin: taskTime.getHours() * 60 + taskTime.getMinutes(),
+          durationMin: task.durationMin || DEFAULT_TIMELINE_DURATION,
+        };
+      })
+    );
+
+    return { dayStart: startOfDay.getTime(), dayTasks, currentTimePosition, layout };
   }, [tasks, date]);
-  
+
+  const placements = new Map(layout.placements.map(placement => [placement.id, placement]));
+  const lanesHeight = layout.laneCount * (LANE_HEIGHT + LANE_GAP) - LANE_GAP;
+  const trackHeight = Math.max(MIN_TRACK_HEIGHT, lanesHeight + 16);
+  const lanesTop = (trackHeight - lanesHeight) / 2;
+
   const hours = Array.from({ length: 24 }, (_, i) => i);
-  
+
+  const getStartMin = (task: Task) => {
+    const taskTime = new Date(task.dueAt!);
+    return taskTime.getHours() * 60 + taskTime.getMinutes();
+  };
+
+  // ドラッグ・キー操作の結果の開始時刻と長さ
+  const getBlock = (task: Task, mode?: DragState['mode'], deltaMin = 0) => {
+    const startMin = getStartMin(task);
+    const durationMin = task.durationMin || DEFAULT_TIMELINE_DURATION;
+    if (mode === 'move') {
+      return { startMin: moveTimelineBlock(startMin, durationMin, deltaMin, snapStep), durationMin };
+    }
+    if (mode === 'resize') {
+      return { startMin, durationMin: resizeTimelineBlock(startMin, durationMin, deltaMin, snapStep) };
+    }
+    return { startMin, durationMin };
+  };
+
+  const changeTask = (task: Task, mode: DragState['mode'], deltaMin: number) => {
+    const block = getBlock(task, mode, deltaMin);
+    if (mode === 'move') {
+      const dueAt = new Date(dayStart).setHours(0, block.startMin, 0, 0);
+      if (dueAt !== task.dueAt) onTaskChange?.(task, { dueAt });
+    } else if (block.durationMin !== (task.durationMin || DEFAULT_TIMELINE_DURATION)) {
+      onTaskChange?.(task, { durationMin: block.durationMin });
+    }
+  };
+
+  // マウス・タッチは Pointer Events でまとめて扱う
+  const startDrag = (event: React.PointerEvent, task: Task, mode: DragState['mode']) => {
+    if (!onTaskChange) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setDrag({ taskId: task.id!, mode, startX: event.clientX, deltaMin: 0 });
+  };
+
+  const moveDrag = (event: React.PointerEvent) => {
+    if (!drag) return;
+    const width = trackRef.current?.getBoundingClientRect().width ?? 0;
+    if (width <= 0) return;
+    setDrag({ ...drag, deltaMin: ((event.clientX - drag.startX) / width) * MINUTES_PER_DAY });
+  };
+
+  const endDrag = (task: Task) => {
+    if (!drag) return;
+    // クリック・タップや間隔に満たない動きでは、間隔に揃えた時刻で保存し直さない
+    if (Math.abs(drag.deltaMin) >= snapStep) {
+      changeTask(task, drag.mode, drag.deltaMin);
+    }
+    setDrag(null);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent, task: Task) => {
+    if (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight') return;
+    event.preventDefault();
+    const deltaMin = event.key === 'ArrowLeft' ? -snapStep : snapStep;
+    changeTask(task, event.shiftKey ? 'resize' : 'move', deltaMin);
+  };
+
+  // 空き時間のクリック位置を間隔に揃えた時刻にする (キーボード操作の場合は正時)
+  const handleSlotClick = (event: React.MouseEvent, hour: number) => {
+    let minutes = hour * 60;
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (event.detail > 0 && rect && rect.width > 0) {
+      minutes = positionToMinutes(event.clientX - rect.left, rect.width);
+      minutes = Math.min(Math.floor(minutes / snapStep) * snapStep, MINUTES_PER_DAY - snapStep);
+    }
+    onSlotClick?.(new Date(dayStart).setHours(0, minutes, 0, 0));
+  };
+
   return (
     <div className="relative bg-muted rounded-lg p-4">
+      {onTaskChange && (
+        <div className="flex items-center justify-end gap-1 mb-6" role="group" aria-label="時刻の間隔">
+          {TIMELINE_SNAP_STEPS.map((step) => (
+            <Button
+              key={step}
+              type="button"
+              size="sm"
+              variant={snapStep === step ? 'default' : 'outline'}
+              className="h-7 px-2 text-xs"
+              aria-pressed={snapStep === step}
+              onClick={() => setSnapStep(step)}
+            >
+              {step}分
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* 時間軸 */}
-      <div className="relative h-20">
+      <div ref={trackRef} className="relative" style={{ height: trackHeight }}>
         {hours.map((hour) => (
           <div
             key={hour}
@@ -40,40 +186,88 @@ export function TimelineBar({ tasks, date }: TimelineBarProps) {
             </span>
           </div>
         ))}
-        
+
+        {/* 空き時間 (クリックでタスクを作成) */}
+        {onSlotClick &&
+          hours.map((hour) => (
+            <button
+              key={hour}
+              type="button"
+              className="absolute top-0 h-full hover:bg-primary/5 focus-visible:bg-primary/10 focus-visible:outline-none"
+              style={{ left: `${(hour / 24) * 100}%`, width: `${100 / 24}%` }}
+              onClick={(event) => handleSlotClick(event, hour)}
+              aria-label={`${formatMinutes(hour * 60)} にタスクを追加`}
+            />
+          ))}
+
         {/* 現在時刻ライン */}
         {date.toDateString() === new Date().toDateString() && (
           <div
-            className="absolute top-0 h-full w-0.5 bg-primary"
+            className="pointer-events-none absolute top-0 h-full w-0.5 bg-primary"
             style={{ left: `${currentTimePosition}%` }}
           >
             <div className="absolute -top-1 -left-1 h-2 w-2 rounded-full bg-primary" />
           </div>
         )}
-        
+
         {/* タスク */}
         {dayTasks.map((task) => {
-          const taskTime = new Date(task.dueAt!);
-          const position = ((taskTime.getHours() * 60 + taskTime.getMinutes()) / (24 * 60)) * 100;
-          const duration = task.durationMin || 30;
-          const width = (duration / (24 * 60)) * 100;
-          
+          const dragging = drag?.taskId === task.id ? drag : undefined;
+          const { startMin, durationMin } = getBlock(task, dragging?.mode, dragging?.deltaMin);
+          const position = (startMin / MINUTES_PER_DAY) * 100;
+          const width = (durationMin / MINUTES_PER_DAY) * 100;
+          const placement = placements.get(task.id!);
+
           return (
             <div
               key={task.id}
-              className="absolute top-1/2 -translate-y-1/2 h-8 bg-primary/20 border border-primary rounded px-2 overflow-hidden"
+              className={cn(
+                'absolute h-8 bg-primary/20 border border-primary rounded px-2 overflow-hidden',
+                placement?.conflict && 'bg-destructive/20 border-destructive',
+                onTaskChange &&
+                  'z-10 cursor-grab touch-none select-none focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                dragging && 'cursor-grabbing shadow-md'
+              )}
               style={{
                 left: `${position}%`,
                 width: `${Math.max(width, 2)}%`,
+                top: lanesTop + (placement?.lane ?? 0) * (LANE_HEIGHT + LANE_GAP),
               }}
-              title={task.title}
+              title={placement?.conflict ? `${task.title} (時間超過)` : task.title}
+              data-lane={placement?.lane}
+              {...(onTaskChange && {
+                role: 'button',
+                tabIndex: 0,
+                'aria-label': `${task.title} ${formatMinutes(startMin)}〜 ${durationMin}分${
+                  placement?.conflict ? ' 時間超過' : ''
+                }`,
+                'aria-describedby': hintId,
+                onPointerDown: (event: React.PointerEvent) => startDrag(event, task, 'move'),
+                onPointerMove: moveDrag,
+                onPointerUp: () => endDrag(task),
+                onPointerCancel: () => setDrag(null),
+                onKeyDown: (event: React.KeyboardEvent) => handleKeyDown(event, task),
+              })}
             >
               <span className="text-xs font-medium truncate">{task.title}</span>
+              {onTaskChange && (
+                <div
+                  className="absolute right-0 top-0 h-full w-2 cursor-ew-resize bg-primary/40"
+                  onPointerDown={(event) => startDrag(event, task, 'resize')}
+                  data-testid="timeline-resize-handle"
+                />
+              )}
             </div>
           );
         })}
       </div>
-      
+
+      {onTaskChange && (
+        <p id={hintId} className="sr-only">
+          左右の矢印キーで時刻を、Shift キーを押しながら左右の矢印キーで長さを変更します
+        </p>
+      )}
+
       {/* 今日の予定 */}
       <div className="mt-6">
         <h3 className="font-medium mb-2">今日の予定</h3>
@@ -96,6 +290,12 @@ export function TimelineBar({ tasks, date }: TimelineBarProps) {
                       ({task.durationMin}分)
                     </span>
                   )}
+                  {placements.get(task.id!)?.conflict && (
+                    <span className="flex items-center gap-1 text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3" />
+                      時間超過
+                    </span>
+                  )}
                 </div>
               );
             })}
@@ -104,4 +304,4 @@ export function TimelineBar({ tasks, date }: TimelineBarProps) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { UndoToast } from './UndoToast';
+import { useHistory } from '@/store/useHistory';
+
+vi.mock('@/store/useHistory');
+
+const entry = { id: 1, label: '「買い物」を完了にしました', changes: [] };
+
+const mockUseHistory = {
+  notice: null,
+  error: null,
+  undo: vi.fn(),
+  redo: vi.fn(),
+  dismiss: vi.fn(),
+};
+
+describe('UndoToast', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should render nothing without a recent operation', () => {
+    vi.mocked(useHistory).mockReturnValue(mockUseHistory as any);
+    const { container } = render(<UndoToast />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should undo the recent operation', () => {
+    vi.mocked(useHistory).mockReturnValue({
+      ...mockUseHistory,
+      notice: { entry, undone: false },
+    } as any);
+    render(<UndoToast />);
+
+    expect(screen.getByText('「買い物」を完了にしました')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '元に戻す' }));
+
+    expect(mockUseHistory.undo).toHaveBeenCalled();
+  });
+
+  it('should redo an undone operation', () => {
+    vi.mocked(useHistory).mockReturnValue({
+      ...mockUseHistory,
+      notice: { entry, undone: true },
+    } as any);
+    render(<UndoToast />);
+
+    expect(screen.getByText('元に戻しました')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'やり直す' }));
+
+    expect(mockUseHistory.redo).toHaveBeenCalled();
+  });
+
+  it('should dismiss itself after a while', () => {
+    vi.useFakeTimers();
+    const dismiss = vi.fn();
+    vi.mocked(useHistory).mockReturnValue({
+      ...mockUseHistory,
+      notice: { entry, undone: false },
+      dismiss,
+    } as any);
+    render(<UndoToast />);
+
+    vi.advanceTimersByTime(10000);
+    expect(dismiss).toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,60 @@
+import { useEffect } from 'react';
+import { AlertCircle, RotateCcw, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { useHistory } from '@/store/useHistory';
+
+// トーストを表示しておく時間 (ミリ秒)
+const UNDO_TOAST_DURATION = 6000;
+
+/**
+ * 直前の操作と「元に戻す」ボタンを表示するトースト
+ */
+export function UndoToast() {
+  // 元に戻した変更は liveQuery で各画面に反映される
+  const { notice, error, undo, redo, dismiss } = useHistory();
+
+  useEffect(() => {
+    if (!notice && !error) return;
+    const timer = setTimeout(dismiss, UNDO_TOAST_DURATION);
+    return () => clearTimeout(timer);
+  }, [notice, error, dismiss]);
+
+  if (!notice && !error) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50" role="status">
+      <Card className="p-4 flex items-center gap-3 shadow-lg">
+        {notice ? (
+          <>
+            <div className="flex-1">
+              <p className="font-semibold">
+                {notice.undone ? '元に戻しました' : notice.entry.label}
+              </p>
+              {notice.undone && <p className="text-sm text-gray-600">{notice.entry.label}</p>}
+            </div>
+            {notice.undone ? (
+              <Button onClick={redo} variant="outline" size="sm">
+                <RotateCw className="h-4 w-4 mr-1" />
+                やり直す
+              </Button>
+            ) : (
+              <Button onClick={undo} variant="outline" size="sm">
+                <RotateCcw className="h-4 w-4 mr-1" />
+                元に戻す
+              </Button>
+            )}
+          </>
+        ) : (
+          <>
+            <AlertCircle className="h-5 w-5 text-red-500" />
+            <p className="flex-1">元に戻せませんでした: {error}</p>
+          </>
+        )}
+        <Button onClick={dismiss} variant="ghost" size="sm" aria-label="閉じる">
+          <X className="h-4 w-4" />
+        </Button>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import type { IndexableType, Table, Transaction } from 'dexie';
+import { createTabChannel, isTabMessage, type TabMessage } from '../utils/tabs';
+
+type TaskChangeListener = (taskIds: string[]) => void;
+
+const listeners = new Set<TaskChangeListener>();
+
+// トランザクションごとに変更されたタスクの ID (完了したときにまとめて知らせる)
+const pendingChanges = new WeakMap<Transaction, Set<string>>();
+
+// 他のタブ・Service Worker とのチャンネル (最初に使うときに開く)
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel = createTabChannel();
+    channel?.addEventListener('message', (event: MessageEvent) => {
+      if (isTabMessage(event.data)) {
+        notifyListeners(event.data.taskIds);
+      }
+    });
+  }
+  return channel;
+}
+
+function notifyListeners(taskIds: string[]) {
+  for (const listener of listeners) {
+    listener(taskIds);
+  }
+}
+
+function trackChange(transaction: Transaction, key: IndexableType | undefined) {
+  if (key === undefined) return;
+
+  let taskIds = pendingChanges.get(transaction);
+  if (!taskIds) {
+    const ids = new Set<string>();
+    taskIds = ids;
+    pendingChanges.set(transaction, ids);
+    transaction.on('complete', () => {
+      const message: TabMessage = { type: 'tasksChanged', taskIds: [...ids] };
+      notifyListeners(message.taskIds);
+      getChannel()?.postMessage(message);
+    });
+  }
+  taskIds.add(String(key));
+}
+
+/**
+ * タスクの変更を同じタブの購読者と他のタブに知らせるフックを登録する
+ * 変更はトランザクションが完了したときにまとめて知らせる
+ * @param table タスクのテーブル
+ */
+export function registerTaskChangeHooks(table: Table) {
+  table.hook('creating', (primKey, obj, transaction) => {
+    trackChange(transaction, primKey ?? obj.id);
+  });
+  table.hook('updating', (_modifications, primKey, _obj, transaction) => {
+    trackChange(transaction, primKey);
+  });
+  table.hook('deleting', (primKey, _obj, transaction) => {
+    trackChange(transaction, primKey);
+  });
+}
+
+/**
+ * このタブ・他のタブ・Service Worker でのタスクの変更を購読する
+ * @param listener 変更されたタスクの ID を受け取る
+ * @returns 購読を解除する関数
+ */
+export function onTasksChanged(listener: TaskChangeListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
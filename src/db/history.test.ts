@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from './index';
+import * as operations from './operations';
+import { applyChanges, captureChanges } from './history';
+import { importData } from '../utils/export-import';
+
+describe('History Operations', () => {
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.categories.clear();
+    await db.settings.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.categories.clear();
+    await db.settings.clear();
+  });
+
+  it('should not record changes outside of captureChanges', async () => {
+    await operations.createTask({ title: 'Task', status: 'pending' });
+
+    const { changes } = await captureChanges(async () => undefined);
+    expect(changes).toEqual([]);
+  });
+
+  it('should undo and redo created, updated and deleted rows', async () => {
+    const keptId = await operations.createTask({ title: 'Kept', status: 'pending' });
+    const removedId = await operations.createTask({ title: 'Removed', status: 'pending' });
+
+    const { result: createdId, changes } = await captureChanges(async () => {
+      await operations.updateTask(keptId, { title: 'Renamed', notes: undefined });
+      await db.tasks.delete(removedId);
+      return operations.createTask({ title: 'Created', status: 'pending' });
+    });
+    expect(changes).toHaveLength(3);
+
+    await applyChanges(changes, 'undo');
+    expect((await db.tasks.get(keptId))?.title).toBe('Kept');
+    expect(await db.tasks.get(removedId)).toBeDefined();
+    expect(await db.tasks.get(createdId)).toBeUndefined();
+
+    await applyChanges(changes, 'redo');
+    expect((await db.tasks.get(keptId))?.title).toBe('Renamed');
+    expect(await db.tasks.get(removedId)).toBeUndefined();
+    expect((await db.tasks.get(createdId))?.title).toBe('Created');
+  });
+
+  it('should keep the first state before and the last state after for each row', async () => {
+    const id = await operations.createTask({ title: 'First', status: 'pending' });
+
+    const { changes } = await captureChanges(async () => {
+      await db.tasks.update(id, { title: 'Second' });
+      await db.tasks.update(id, { title: 'Third', deletedAt: 1 });
+    });
+
+    expect(changes).toHaveLength(1);
+    expect(changes[0].before).toMatchObject({ title: 'First' });
+    expect(changes[0].after).toMatchObject({ title: 'Third', deletedAt: 1 });
+  });
+
+  it('should keep the changes of concurrent captures apart', async () => {
+    const [first, second] = await Promise.all([
+      captureChanges(async () => {
+        await operations.createTask({ title: 'First', status: 'pending' });
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        await operations.createTask({ title: 'First again', status: 'pending' });
+      }),
+      captureChanges(() => operations.createTask({ title: 'Second', status: 'pending' })),
+    ]);
+
+    expect(first.changes.map((change) => change.after)).toMatchObject([
+      { title: 'First' },
+      { title: 'First again' },
+    ]);
+    expect(second.changes.map((change) => change.after)).toMatchObject([{ title: 'Second' }]);
+  });
+
+  it('should undo an import that replaced all data', async () => {
+    await operations.createCategory({ name: 'Work', color: '#000000', order: 1 });
+    await operations.createTask({ title: 'Existing', status: 'pending' });
+    await db.settings.put({ key: 'theme', value: 'dark' });
+
+    const { changes } = await captureChanges(() =>
+      importData(
+        {
+          version: '1.0.0',
+          exportedAt: Date.now(),
+          data: {
+            tasks: [{ title: 'Imported', status: 'pending', createdAt: 1, updatedAt: 1 }],
+            categories: [],
+            settings: [],
+          },
+        },
+        'replace'
+      )
+    );
+
+    await applyChanges(changes, 'undo');
+
+    const tasks = await db.tasks.toArray();
+    expect(tasks.map((task) => task.title)).toEqual(['Existing']);
+    expect(await db.categories.count()).toBe(1);
+    expect((await db.settings.get('theme'))?.value).toBe('dark');
+  });
+});
@@ -0,0 +1,133 @@
+import Dexie, { type IndexableType, type Table } from 'dexie';
+import type { Category, Setting, Task } from './index';
+
+// 元に戻す対象のテーブル
+export type HistoryTableName = 'tasks' | 'categories' | 'settings';
+
+// 1行の変更 (before: 変更前の行 / after: 変更後の行。未設定は行がないことを表す)
+export interface RowChange {
+  table: HistoryTableName;
+  key: string;
+  before?: Task | Category | Setting;
+  after?: Task | Category | Setting;
+}
+
+// 記録中の操作の変更 (テーブルと主キーごとに最初の変更前と最後の変更後を持つ)
+let activeChanges: Map<string, RowChange> | null = null;
+
+// 記録中の操作と取り消し・やり直しを1つずつ順に実行するための待ち行列
+// 変更は記録中の操作に振り分けるため、同時に実行すると別の操作の変更が混ざってしまう
+let queue: Promise<unknown> = Promise.resolve();
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = queue.then(task);
+  // 失敗しても後に続く処理は実行する
+  queue = result.catch(() => undefined);
+  return result;
+}
+
+// 変更を記録するテーブル (データベースの初期化時に登録する)
+const historyTables = new Map<HistoryTableName, Table>();
+
+function trackChange(
+  table: HistoryTableName,
+  key: IndexableType,
+  before: RowChange['before'],
+  after: RowChange['after']
+) {
+  if (!activeChanges) return;
+
+  const id = `${table}:${String(key)}`;
+  const existing = activeChanges.get(id);
+  activeChanges.set(id, {
+    table,
+    key: String(key),
+    before: existing ? existing.before : before && Dexie.deepClone(before),
+    after: after && Dexie.deepClone(after),
+  });
+}
+
+/**
+ * テーブルの変更を記録するフックを登録する
+ * 記録中の操作 (captureChanges) がないときの変更は記録しない
+ * @param tables 記録するテーブル
+ */
+export function registerHistoryHooks(tables: Table[]) {
+  for (const table of tables) {
+    const name = table.name as HistoryTableName;
+    const keyPath = table.schema.primKey.keyPath as string;
+    historyTables.set(name, table);
+
+    table.hook('creating', (primKey, obj) => {
+      trackChange(name, primKey ?? Dexie.getByKeyPath(obj, keyPath), undefined, obj);
+    });
+    table.hook('updating', (modifications, primKey, obj) => {
+      const after = Dexie.deepClone(obj);
+      for (const [path, value] of Object.entries(modifications)) {
+        if (value === undefined) {
+          Dexie.delByKeyPath(after, path);
+        } else {
+          Dexie.setByKeyPath(after, path, value);
+        }
+      }
+      trackChange(name, primKey, obj, after);
+    });
+    table.hook('deleting', (primKey, obj) => {
+      trackChange(name, primKey, obj, undefined);
+    });
+  }
+}
+
+/**
+ * 処理の間に行われたテーブルの変更を記録する
+ * 同時に呼ばれた場合は前の処理が終わるまで待ち、処理ごとに別の変更として記録する
+ * 記録中の処理からは呼ばないこと (前の処理を待ち続けて終わらなくなる)
+ * @param callback 記録する処理
+ * @returns 処理の戻り値と変更された行
+ */
+export function captureChanges<T>(
+  callback: () => Promise<T>
+): Promise<{ result: T; changes: RowChange[] }> {
+  return enqueue(async () => {
+    const changes = new Map<string, RowChange>();
+    activeChanges = changes;
+    try {
+      const result = await callback();
+      // 作成して同じ処理の中で削除した行 (操作ロックなど) は除く
+      return {
+        result,
+        changes: [...changes.values()].filter((change) => change.before || change.after),
+      };
+    } finally {
+      activeChanges = null;
+    }
+  });
+}
+
+/**
+ * 記録した変更を取り消す・やり直す
+ * @param changes 変更された行
+ * @param direction undo: 変更前に戻す / redo: 変更後にする
+ */
+export async function applyChanges(
+  changes: RowChange[],
+  direction: 'undo' | 'redo'
+): Promise<void> {
+  const tables = [...historyTables.values()];
+  if (tables.length === 0) return;
+
+  // 記録中の操作の変更として記録されないように、操作が終わってから実行する
+  await enqueue(() =>
+    tables[0].db.transaction('rw', tables, async () => {
+      for (const change of changes) {
+        const table = historyTables.get(change.table)!;
+        const row = direction === 'undo' ? change.before : change.after;
+        if (row) {
+          await table.put(row);
+        } else {
+          await table.delete(change.key);
+        }
+      }
+    })
+  );
+}
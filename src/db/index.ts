@@ -1,4 +1,32 @@
 import Dexie, { type Table } from 'dexie';
+import { purgeExpiredTrash } from './operations';
+import { reclaimExpiredLocks } from './transaction';
+import { registerHistoryHooks } from './history';
+import { registerTaskChangeHooks } from './changes';
+
+// タスクごとのリマインダー定義
+export type TaskReminder =
+  | { id: string; type: 'relative'; offsetMin: number } // 期日の offsetMin 分前
+  | { id: string; type: 'timeOfDay'; daysBefore: number; time: string } // 期日の daysBefore 日前の HH:mm
+  | { id: string; type: 'absolute'; at: number }; // 特定の日時 (Unix ms)
+
+// 繰り返しタスクを編集・削除するときの範囲
+// this: この回のみ / following: この回以降 / all: すべての回
+export type RecurrenceScope = 'this' | 'following' | 'all';
+
+// 繰り返しの次の期日の決め方
+// schedule: 繰り返しルールの予定日 / completion: 完了した日時から
+export type RepeatMode = 'schedule' | 'completion';
+
+// 優先度 (1 が最も高い P1、4 は優先度なしの P4)
+export type TaskPriority = 1 | 2 | 3 | 4;
+
+// チェックリストの項目
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+}
 
 export interface Task {
   id?: string;
@@ -6,16 +34,20 @@ export interface Task {
   dueAt?: number;
   durationMin?: number;
   categoryId?: string;
+  priority?: TaskPriority; // 未設定の場合は P4
+  notes?: string; // メモ (Markdown)
   status: 'pending' | 'done' | 'archived';
-  checklist?: Array<{
-    id: string;
-    text: string;
-    checked: boolean;
-  }>;
+  checklist?: ChecklistItem[];
+  parentId?: string; // サブタスクの場合は親タスクのID
+  blockedBy?: string[]; // このタスクをブロックしているタスクのID (完了するまで着手できない)
+  tags?: string[]; // 自由につけられるタグ (正規化済みのタグ名)
   repeatRule?: string;
   repeatParentId?: string; // 繰り返し元のタスクID
   repeatCount?: number; // 何回目の繰り返しか
   repeatUntil?: number; // 繰り返しの終了日時
+  repeatMode?: RepeatMode; // 未設定の場合は schedule
+  reminders?: TaskReminder[]; // 未設定の場合は設定の notifyBeforeMin を使用
+  deletedAt?: number; // ゴミ箱に移動した日時 (未設定の場合は削除されていない)
   createdAt: number;
   updatedAt: number;
 }
@@ -25,6 +57,7 @@ export interface Category {
   name: string;
   color: string;
   order: number;
+  deletedAt?: number; // ゴミ箱に移動した日時 (未設定の場合は削除されていない)
 }
 
 export interface Setting {
@@ -32,10 +65,24 @@ export interface Setting {
   value: unknown;
 }
 
+export interface Reminder {
+  id: string; // `${taskId}:${reminderId}` (通知のタグにも使用)
+  taskId: string;
+  reminderId: string; // TaskReminder の ID
+  title: string;
+  dueAt?: number; // タスクの期日 (通知本文の算出に使用)
+  fireAt: number; // 通知を表示する時刻
+  baseFireAt?: number; // リマインダー定義から算出した時刻 (スヌーズ前)
+  snoozed?: boolean;
+  triggerScheduled?: boolean; // Notification Triggers で OS に予約済みか
+  createdAt: number;
+}
+
 export class TodoDB extends Dexie {
   tasks!: Table<Task>;
   categories!: Table<Category>;
   settings!: Table<Setting>;
+  reminders!: Table<Reminder>;
 
   constructor() {
     super('todo');
@@ -76,6 +123,93 @@ export class TodoDB extends Dexie {
       console.log('Upgraded database to version 4: Optimized indexes');
       // インデックス最適化のためのデータ移行は不要
     });
+    
+    // Version 5: Persistent reminders
+    this.version(5).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // リマインダーはアプリ起動時に既存タスクから再構築されるため移行は不要
+      console.log('Upgraded database to version 5: Persistent reminders');
+    });
+    
+    // Version 6: Task priority
+    this.version(6).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async (tx) => {
+      // 既存のタスクは優先度なし (P4) としてインデックスに載せる
+      await tx.table('tasks').toCollection().modify((task: Task) => {
+        if (task.priority === undefined) {
+          task.priority = 4;
+        }
+      });
+      console.log('Upgraded database to version 6: Task priority');
+    });
+    
+    // Version 7: Task notes
+    this.version(7).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // メモはインデックスに載せないため移行は不要 (未設定のタスクはメモなしとして読み込む)
+      console.log('Upgraded database to version 7: Task notes');
+    });
+    
+    // Version 8: Subtasks
+    this.version(8).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority, parentId',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // 既存のチェックリストはそのまま残し、サブタスクと併用する (項目ごとにサブタスクへ変換できる)
+      console.log('Upgraded database to version 8: Subtasks');
+    });
+    
+    // Version 9: Task dependencies
+    this.version(9).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority, parentId, *blockedBy',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // 依存関係の追加 (新しいフィールドのみのため移行は不要)
+      console.log('Upgraded database to version 9: Task dependencies');
+    });
+    
+    // Version 10: Task tags
+    this.version(10).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority, parentId, *blockedBy, *tags',
+      categories: 'id, order, name, color',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // タグの追加 (新しいフィールドのみのため移行は不要)
+      console.log('Upgraded database to version 10: Task tags');
+    });
+    
+    // Version 11: Trash (soft delete)
+    this.version(11).stores({
+      tasks: 'id, status, dueAt, categoryId, [status+dueAt], [categoryId+status], createdAt, repeatParentId, updatedAt, *checklist, priority, parentId, *blockedBy, *tags, deletedAt',
+      categories: 'id, order, name, color, deletedAt',
+      settings: 'key, value',
+      reminders: 'id, taskId, fireAt',
+    }).upgrade(async () => {
+      // 既存のデータは削除されていないため移行は不要 (deletedAt のないデータはゴミ箱に入らない)
+      console.log('Upgraded database to version 11: Trash');
+    });
+    
+    // 元に戻す・やり直すための変更の記録
+    registerHistoryHooks([this.tasks, this.categories, this.settings]);
+    // 他のタブ・Service Worker へのタスクの変更の通知
+    registerTaskChangeHooks(this.tasks);
   }
   
 }
@@ -91,6 +225,15 @@ export * from './transaction';
 // マイグレーション関数のエクスポート
 export * from './migration';
 
+// リマインダー関数のエクスポート
+export * from './reminders';
+
+// 変更履歴 (元に戻す・やり直す) 関数のエクスポート
+export * from './history';
+
+// タブ間の変更通知関数のエクスポート
+export * from './changes';
+
 // データベースの初期化とエラーハンドリング
 export async function initializeDB() {
   try {
@@ -104,6 +247,12 @@ export async function initializeDB() {
     // データベースの整合性チェック
     await checkDatabaseIntegrity();
     
+    // 保存期間を過ぎたゴミ箱のタスク・カテゴリを完全に削除
+    await purgeExpiredTrash();
+    
+    // 前回の起動中に解放されずに残った期限切れの操作ロックを回収
+    await reclaimExpiredLocks();
+    
     console.log('Database initialized successfully');
     return { success: true };
   } catch (error) {
@@ -22,7 +22,7 @@ describe('Database Migration', () => {
     
     // テスト実行時の最新バージョンであることを確認
     expect(version).toBeGreaterThan(0);
-    expect(version).toBeLessThanOrEqual(4); // 最新バージョンを更新したら変更
+    expect(version).toBeLessThanOrEqual(11); // 最新バージョンを更新したら変更
   });
 
   it('should record migration history', async () => {
@@ -106,6 +106,27 @@ async function migrateToVersion(
       case 4:
         await migrateToV4(db);
         break;
+      case 5:
+        await migrateToV5(db);
+        break;
+      case 6:
+        await migrateToV6(db);
+        break;
+      case 7:
+        await migrateToV7(db);
+        break;
+      case 8:
+        await migrateToV8(db);
+        break;
+      case 9:
+        await migrateToV9(db);
+        break;
+      case 10:
+        await migrateToV10(db);
+        break;
+      case 11:
+        await migrateToV11(db);
+        break;
       default:
         throw new Error(`Migration to version ${targetVersion} is not supported`);
     }
@@ -175,6 +196,79 @@ async function migrateToV4(db: TodoDB): Promise<void> {
   }
 }
 
+/**
+ * バージョン5へのマイグレーション実装
+ */
+async function migrateToV5(db: TodoDB): Promise<void> {
+  // リマインダーテーブルの追加
+  // 中身はアプリ起動時に rebuildReminders で既存タスクから生成される
+  const count = await db.reminders.count();
+  console.log(`Reminders table ready (${count} reminders)`);
+}
+
+/**
+ * バージョン6へのマイグレーション実装
+ */
+async function migrateToV6(db: TodoDB): Promise<void> {
+  // 優先度の追加: 未設定のタスクを優先度なし (P4) にする
+  await db.tasks.toCollection().modify(task => {
+    if (task.priority === undefined) {
+      task.priority = 4;
+    }
+  });
+}
+
+/**
+ * バージョン7へのマイグレーション実装
+ */
+async function migrateToV7(db: TodoDB): Promise<void> {
+  // メモの追加: 文字列以外のメモ (不正なデータ) を取り除く
+  await db.tasks.toCollection().modify(task => {
+    if (task.notes !== undefined && typeof task.notes !== 'string') {
+      delete task.notes;
+    }
+  });
+}
+
+/**
+ * バージョン8へのマイグレーション実装
+ */
+async function migrateToV8(db: TodoDB): Promise<void> {
+  // サブタスクの追加 (parentId インデックス)
+  // チェックリストはサブタスクと併用するため変換しない
+  const count = await db.tasks.where('parentId').above('').count();
+  console.log(`Subtasks ready (${count} subtasks)`);
+}
+
+/**
+ * バージョン9へのマイグレーション実装
+ */
+async function migrateToV9(db: TodoDB): Promise<void> {
+  // 依存関係の追加: 存在しないタスクへの依存関係を取り除く
+  const ids = new Set(await db.tasks.toCollection().primaryKeys());
+  await db.tasks.where('blockedBy').above('').modify(task => {
+    task.blockedBy = task.blockedBy?.filter(id => ids.has(id));
+  });
+}
+
+/**
+ * バージョン10へのマイグレーション実装
+ */
+async function migrateToV10(db: TodoDB): Promise<void> {
+  // タグの追加 (tags マルチエントリーインデックス)
+  const tags = await db.tasks.orderBy('tags').uniqueKeys();
+  console.log(`Tags ready (${tags.length} tags)`);
+}
+
+/**
+ * バージョン11へのマイグレーション実装
+ */
+async function migrateToV11(db: TodoDB): Promise<void> {
+  // ゴミ箱の追加 (deletedAt インデックス)
+  const count = await db.tasks.where('deletedAt').above(0).count();
+  console.log(`Trash ready (${count} trashed tasks)`);
+}
+
 /**
  * データベースのマイグレーション実行
  * 現在のバージョンからターゲットバージョンまで順次マイグレーション
@@ -184,7 +278,7 @@ export async function migrateDatabase(
   targetVersion?: number
 ): Promise<boolean> {
   // ターゲットバージョンが指定されていない場合は最新バージョンを使用
-  const latestVersion = 4; // 現在の最新バージョン
+  const latestVersion = 11; // 現在の最新バージョン
   const target = targetVersion || latestVersion;
   
   try {
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { db } from './index';
 import * as operations from './operations';
+import { withOperationLock } from './transaction';
 
 describe('DB Operations', () => {
   beforeEach(async () => {
@@ -11,6 +12,7 @@ describe('DB Operations', () => {
   });
 
   afterEach(async () => {
+    vi.useRealTimers();
     await db.tasks.clear();
     await db.categories.clear();
     await db.settings.clear();
@@ -67,9 +69,35 @@ describe('DB Operations', () => {
       const deleted = await operations.deleteTask(taskId);
       expect(deleted).toBe(true);
 
-      // タスクが削除されたか確認
+      // タスクが一覧から除かれ、ゴミ箱に入ったか確認
       const task = await operations.getTask(taskId);
       expect(task).toBeUndefined();
+      expect(await operations.getAllTasks()).toHaveLength(0);
+      expect((await operations.getTrashedTasks()).map(t => t.id)).toEqual([taskId]);
+    });
+
+    it('should remove links to a task only when it is deleted permanently', async () => {
+      const blockerId = await operations.createTask({ title: 'Blocker', status: 'pending' });
+      const otherId = await operations.createTask({ title: 'Other', status: 'pending' });
+      const blockedId = await operations.createTask({
+        title: 'Blocked',
+        status: 'pending',
+        blockedBy: [blockerId, otherId],
+      });
+      const subtaskId = await operations.createTask({
+        title: 'Subtask',
+        status: 'pending',
+        parentId: blockerId,
+      });
+
+      // ゴミ箱にある間は復元できるように参照を残す
+      await operations.deleteTask(blockerId);
+      expect((await operations.getTask(blockedId))?.blockedBy).toEqual([blockerId, otherId]);
+
+      await operations.deleteTaskPermanently(blockerId);
+
+      expect((await operations.getTask(blockedId))?.blockedBy).toEqual([otherId]);
+      expect((await operations.getTask(subtaskId))?.parentId).toBeUndefined();
     });
 
     it('should archive a task', async () => {
@@ -221,6 +249,231 @@ describe('DB Operations', () => {
       expect(childTasks.length).toBe(2);
       expect(childTasks.every(task => task.repeatParentId === parentId)).toBe(true);
     });
+
+    it('should complete a task and create the next recurrence', async () => {
+      // RRULE の起点は現在時刻になるため Date のみ固定する
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-01T09:00:00'));
+      const dueAt = Date.now();
+      const taskId = await operations.createTask({
+        title: 'Daily Task',
+        status: 'pending' as const,
+        dueAt,
+        repeatRule: 'FREQ=DAILY;INTERVAL=1',
+      });
+
+      const result = await operations.completeTask(taskId);
+
+      expect(result?.task.status).toBe('done');
+      expect(result?.nextTasks).toHaveLength(1);
+      expect(result?.nextTasks[0].dueAt).toBe(dueAt + 24 * 60 * 60 * 1000);
+      expect(result?.nextTasks[0].repeatParentId).toBe(taskId);
+      expect((await operations.getTask(taskId))?.status).toBe('done');
+      expect((await operations.getChildTasks(taskId)).length).toBe(1);
+    });
+
+    it('should not complete a task twice', async () => {
+      const taskId = await operations.createTask({
+        title: 'Done Task',
+        status: 'done' as const,
+      });
+
+      expect(await operations.completeTask(taskId)).toBeUndefined();
+    });
+
+    it('should roll back the completion when the next recurrence cannot be created', async () => {
+      const taskId = await operations.createTask({
+        title: 'Daily Task',
+        status: 'pending' as const,
+        dueAt: Date.now(),
+        repeatRule: 'FREQ=DAILY;INTERVAL=1',
+      });
+      const add = vi.spyOn(db.tasks, 'add').mockRejectedValueOnce(new Error('Add error'));
+
+      await expect(operations.completeTask(taskId)).rejects.toThrow('Add error');
+      add.mockRestore();
+
+      expect((await operations.getTask(taskId))?.status).toBe('pending');
+      expect(await operations.getChildTasks(taskId)).toHaveLength(0);
+    });
+
+    it('should wait for the recurrence lock of the series', async () => {
+      const taskId = await operations.createTask({
+        title: 'Daily Task',
+        status: 'pending' as const,
+        dueAt: Date.now(),
+        repeatRule: 'FREQ=DAILY;INTERVAL=1',
+      });
+
+      let completion: Promise<unknown> | undefined;
+      await withOperationLock(`recurrence:${taskId}`, async () => {
+        completion = operations.completeTask(taskId);
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        // ロックを持っている間に画面から完了にされた場合
+        await operations.updateTask(taskId, { status: 'done' });
+      });
+
+      expect(await completion).toBeUndefined();
+      expect(await operations.getChildTasks(taskId)).toHaveLength(0);
+    });
+  });
+
+  describe('Recurring Series Operations', () => {
+    const day = 24 * 60 * 60 * 1000;
+    const start = new Date('2024-01-01T09:00:00Z').getTime();
+    const rule = 'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;INTERVAL=1';
+
+    // 1日目 (完了) → 2日目 (完了) → 3日目 (未完了) の系列を作成
+    const createSeries = async () => {
+      const rootId = await operations.createTask({
+        title: 'Daily',
+        status: 'done' as const,
+        dueAt: start,
+        repeatRule: rule,
+      });
+      const secondId = await operations.createTask({
+        title: 'Daily',
+        status: 'done' as const,
+        dueAt: start + day,
+        repeatRule: rule,
+        repeatParentId: rootId,
+        repeatCount: 1,
+      });
+      const thirdId = await operations.createTask({
+        title: 'Daily',
+        status: 'pending' as const,
+        dueAt: start + 2 * day,
+        repeatRule: rule,
+        repeatParentId: rootId,
+        repeatCount: 2,
+      });
+      return { rootId, secondId, thirdId };
+    };
+
+    it('should get every task of a series in order', async () => {
+      const { rootId, secondId, thirdId } = await createSeries();
+
+      const series = await operations.getSeriesTasks((await operations.getTask(secondId))!);
+
+      expect(series.map(task => task.id)).toEqual([rootId, secondId, thirdId]);
+    });
+
+    it('should update only this occurrence and exclude a moved date', async () => {
+      const { rootId, thirdId } = await createSeries();
+
+      await operations.updateRecurringTask(
+        thirdId,
+        { title: 'Moved', dueAt: start + 2 * day + 60 * 60 * 1000, repeatRule: 'FREQ=WEEKLY' },
+        'this'
+      );
+
+      const third = await operations.getTask(thirdId);
+      expect(third?.title).toBe('Moved');
+      expect(third?.repeatRule).toContain('FREQ=DAILY');
+      expect(third?.repeatRule).toContain('EXDATE:20240103T090000Z');
+      expect((await operations.getTask(rootId))?.title).toBe('Daily');
+    });
+
+    it('should split the series when updating this and following occurrences', async () => {
+      const { rootId, secondId, thirdId } = await createSeries();
+      const weekly = 'DTSTART:20240102T090000Z\nRRULE:FREQ=WEEKLY;INTERVAL=1';
+
+      await operations.updateRecurringTask(
+        secondId,
+        { title: 'Weekly', dueAt: start + day, repeatRule: weekly },
+        'following'
+      );
+
+      const root = await operations.getTask(rootId);
+      const second = await operations.getTask(secondId);
+      const third = await operations.getTask(thirdId);
+      expect(root?.title).toBe('Daily');
+      expect(root?.repeatRule).toContain('UNTIL=20240102T085959Z');
+      expect(root?.repeatUntil).toBe(start + day - 1000);
+      expect(second?.repeatParentId).toBeUndefined();
+      expect(second?.repeatCount).toBe(0);
+      expect(second?.repeatRule).toBe(weekly);
+      expect(third?.title).toBe('Weekly');
+      expect(third?.repeatParentId).toBe(secondId);
+      expect(third?.repeatCount).toBe(1);
+      expect(third?.dueAt).toBe(start + 2 * day);
+    });
+
+    it('should shift every occurrence when updating the whole series', async () => {
+      const { rootId, thirdId } = await createSeries();
+      const hour = 60 * 60 * 1000;
+
+      const updated = await operations.updateRecurringTask(
+        thirdId,
+        { title: 'Renamed', dueAt: start + 2 * day + hour },
+        'all'
+      );
+
+      expect(updated).toHaveLength(3);
+      expect((await operations.getTask(rootId))?.title).toBe('Renamed');
+      expect((await operations.getTask(rootId))?.dueAt).toBe(start + hour);
+      expect((await operations.getTask(thirdId))?.repeatParentId).toBe(rootId);
+    });
+
+    it('should skip the latest occurrence and continue the series', async () => {
+      const { rootId, secondId, thirdId } = await createSeries();
+
+      const { deletedIds, nextTask } = await operations.deleteRecurringTask(thirdId, 'this');
+
+      expect(deletedIds).toEqual([thirdId]);
+      expect(await operations.getTask(thirdId)).toBeUndefined();
+      expect(nextTask?.dueAt).toBe(start + 3 * day);
+      expect(nextTask?.repeatParentId).toBe(rootId);
+      expect(nextTask?.repeatRule).toContain('EXDATE:20240103T090000Z');
+      expect((await operations.getTask(secondId))?.repeatRule).toContain('EXDATE:20240103T090000Z');
+    });
+
+    it('should stop the series when deleting this and following occurrences', async () => {
+      const { rootId, secondId, thirdId } = await createSeries();
+
+      const { deletedIds, nextTask } = await operations.deleteRecurringTask(secondId, 'following');
+
+      expect(deletedIds).toEqual([secondId, thirdId]);
+      expect(nextTask).toBeUndefined();
+      expect(await operations.getChildTasks(rootId)).toHaveLength(0);
+      expect((await operations.getTask(rootId))?.repeatRule).toContain('UNTIL=20240102T085959Z');
+    });
+
+    it('should delete every occurrence of the series', async () => {
+      const { thirdId } = await createSeries();
+
+      const { deletedIds } = await operations.deleteRecurringTask(thirdId, 'all');
+
+      expect(deletedIds).toHaveLength(3);
+      expect(await operations.getAllTasks()).toHaveLength(0);
+    });
+  });
+
+  describe('Tag Operations', () => {
+    it('should rename a tag on every task', async () => {
+      const firstId = await operations.createTask({ title: 'Call', status: 'pending', tags: ['call', 'work'] });
+      const secondId = await operations.createTask({ title: 'Phone', status: 'done', tags: ['call'] });
+      await operations.createTask({ title: 'Other', status: 'pending', tags: ['work'] });
+
+      const count = await operations.renameTag('call', '#Phone');
+
+      expect(count).toBe(2);
+      expect((await operations.getTask(firstId))?.tags).toEqual(['phone', 'work']);
+      expect((await operations.getTask(secondId))?.tags).toEqual(['phone']);
+      expect(await db.tasks.where('tags').equals('call').count()).toBe(0);
+    });
+
+    it('should merge into an existing tag without duplicates', async () => {
+      const id = await operations.createTask({ title: 'Both', status: 'pending', tags: ['waiting', 'wait'] });
+
+      await operations.renameTag('wait', 'waiting');
+
+      expect((await operations.getTask(id))?.tags).toEqual(['waiting']);
+    });
+
+    it('should reject an empty tag name', async () => {
+      await expect(operations.renameTag('call', ' # ')).rejects.toThrow('タグ名を入力してください');
+    });
   });
 
   describe('Category Operations', () => {
@@ -374,6 +627,100 @@ describe('DB Operations', () => {
     });
   });
 
+  describe('Trash Operations', () => {
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    it('should exclude trashed tasks from every query', async () => {
+      const categoryId = await operations.createCategory({ name: 'Work', color: '#ff0000', order: 1 });
+      const keptId = await operations.createTask({ title: 'Kept', status: 'pending', categoryId });
+      const trashedId = await operations.createTask({
+        title: 'Trashed',
+        status: 'pending',
+        categoryId,
+        dueAt: Date.now() + DAY_MS,
+      });
+
+      await operations.deleteTask(trashedId);
+
+      expect((await operations.getTasksByStatus('pending')).map(t => t.id)).toEqual([keptId]);
+      expect((await operations.getTasksByCategory(categoryId)).map(t => t.id)).toEqual([keptId]);
+      expect(await operations.getUpcomingTasks()).toHaveLength(0);
+      expect(await operations.updateTask(trashedId, { title: 'Edited' })).toBe(false);
+      expect(await operations.deleteTask(trashedId)).toBe(false);
+    });
+
+    it('should restore a trashed task with its links', async () => {
+      const parentId = await operations.createTask({ title: 'Parent', status: 'pending' });
+      const childId = await operations.createTask({ title: 'Child', status: 'pending', parentId });
+
+      await operations.deleteTask(parentId);
+      expect(await operations.restoreTask(parentId)).toBe(true);
+
+      expect(await operations.getTask(parentId)).not.toHaveProperty('deletedAt');
+      expect((await operations.getTask(childId))?.parentId).toBe(parentId);
+      expect(await operations.getTrashedTasks()).toHaveLength(0);
+    });
+
+    it('should keep the category of tasks while the category is in the trash', async () => {
+      const categoryId = await operations.createCategory({ name: 'Errands', color: '#ff0000', order: 1 });
+      const taskId = await operations.createTask({ title: 'Shop', status: 'pending', categoryId });
+
+      await operations.deleteCategory(categoryId);
+      expect(await operations.getAllCategories()).toHaveLength(0);
+      expect((await operations.getTask(taskId))?.categoryId).toBe(categoryId);
+
+      await operations.restoreCategory(categoryId);
+      expect((await operations.getAllCategories()).map(c => c.id)).toEqual([categoryId]);
+
+      await operations.deleteCategory(categoryId);
+      await operations.deleteCategoryPermanently(categoryId);
+      expect((await operations.getTask(taskId))?.categoryId).toBeUndefined();
+      expect(await db.categories.get(categoryId)).toBeUndefined();
+    });
+
+    it('should not restore a category when the name is taken', async () => {
+      const categoryId = await operations.createCategory({ name: 'Home', color: '#ff0000', order: 1 });
+      await operations.deleteCategory(categoryId);
+
+      // ゴミ箱のカテゴリと同じ名前でも作成できる
+      await operations.createCategory({ name: 'Home', color: '#00ff00', order: 2 });
+
+      await expect(operations.restoreCategory(categoryId)).rejects.toThrow(
+        '同じ名前のカテゴリー「Home」があるため復元できません'
+      );
+    });
+
+    it('should purge only the trash older than the retention period', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-03-01T00:00:00Z'));
+      await operations.setSetting('trashRetentionDays', 7);
+
+      const oldId = await operations.createTask({ title: 'Old', status: 'pending' });
+      const categoryId = await operations.createCategory({ name: 'Old', color: '#ff0000', order: 1 });
+      await operations.deleteTask(oldId);
+      await operations.deleteCategory(categoryId);
+
+      vi.setSystemTime(new Date('2024-03-05T00:00:00Z'));
+      const recentId = await operations.createTask({ title: 'Recent', status: 'pending' });
+      await operations.deleteTask(recentId);
+
+      const purged = await operations.purgeExpiredTrash(new Date('2024-03-09T00:00:00Z').getTime());
+
+      expect(purged).toEqual({ tasks: 1, categories: 1 });
+      expect((await operations.getTrashedTasks()).map(t => t.id)).toEqual([recentId]);
+      expect(await operations.getTrashedCategories()).toHaveLength(0);
+    });
+
+    it('should empty the trash', async () => {
+      const taskId = await operations.createTask({ title: 'Trashed', status: 'pending' });
+      await operations.createTask({ title: 'Kept', status: 'pending' });
+      await operations.deleteTask(taskId);
+
+      expect(await operations.emptyTrash()).toEqual({ tasks: 1, categories: 0 });
+      expect(await db.tasks.count()).toBe(1);
+    });
+  });
+
   describe('Setting Operations', () => {
     it('should set and get a setting', async () => {
       // 設定を保存
@@ -1,22 +1,33 @@
-import { db, type Task, type Category } from './index';
+import { db, type Task, type Category, type RecurrenceScope } from './index';
+import { withOperationLock } from './transaction';
+import {
+  DEFAULT_MISSED_RECURRENCE_POLICY,
+  isLatestInSeries,
+  planNextRecurrences,
+  type MissedRecurrencePolicy,
+} from '../utils/recurrence';
+import { addRepeatExdate, endRepeatRuleBefore } from '../utils/repeat-rule';
+import { normalizeTag, renameTagInList } from '../utils/tags';
+import { getTrashPurgeCutoff, isTrashed, resolveTrashRetentionDays } from '../utils/trash';
 
 // --------- Task操作関数 ---------
 
 /**
- * タスクを取得する
+ * タスクを取得する (ゴミ箱のタスクは除く)
  * @param id タスクID
  * @returns タスクオブジェクトまたはundefined
  */
 export async function getTask(id: string): Promise<Task | undefined> {
-  return db.tasks.get(id);
+  const task = await db.tasks.get(id);
+  return task && !isTrashed(task) ? task : undefined;
 }
 
 /**
- * すべてのタスクを取得する
+ * すべてのタスクを取得する (ゴミ箱のタスクは除く)
  * @returns タスクの配列
  */
 export async function getAllTasks(): Promise<Task[]> {
-  return db.tasks.toArray();
+  return db.tasks.filter(task => !isTrashed(task)).toArray();
 }
 
 /**
@@ -27,7 +38,11 @@ export async function getAllTasks(): Promise<Task[]> {
 export async function getTasksByStatus(
   status: Task['status']
 ): Promise<Task[]> {
-  return db.tasks.where('status').equals(status).toArray();
+  return db.tasks
+    .where('status')
+    .equals(status)
+    .and(task => !isTrashed(task))
+    .toArray();
 }
 
 /**
@@ -47,7 +62,7 @@ export async function getUpcomingTasks(
   const tasksWithDueDate = await db.tasks
     .where('status')
     .equals(status)
-    .and(task => !!task.dueAt)
+    .and(task => !!task.dueAt && !isTrashed(task))
     .toArray();
   
   // 現在時刻との比較方法を選択
@@ -70,9 +85,14 @@ export async function getTasksByCategory(
     return db.tasks
       .where('[categoryId+status]')
       .equals([categoryId, status])
+      .and(task => !isTrashed(task))
       .toArray();
   }
-  return db.tasks.where('categoryId').equals(categoryId).toArray();
+  return db.tasks
+    .where('categoryId')
+    .equals(categoryId)
+    .and(task => !isTrashed(task))
+    .toArray();
 }
 
 /**
@@ -81,7 +101,11 @@ export async function getTasksByCategory(
  * @returns 子タスクの配列
  */
 export async function getChildTasks(parentId: string): Promise<Task[]> {
-  return db.tasks.where('repeatParentId').equals(parentId).toArray();
+  return db.tasks
+    .where('repeatParentId')
+    .equals(parentId)
+    .and(task => !isTrashed(task))
+    .toArray();
 }
 
 /**
@@ -115,7 +139,7 @@ export async function updateTask(
   id: string,
   updates: Partial<Omit<Task, 'id' | 'createdAt'>>
 ): Promise<boolean> {
-  const task = await db.tasks.get(id);
+  const task = await getTask(id);
   if (!task) return false;
   
   const updatedTask = {
@@ -128,18 +152,73 @@ export async function updateTask(
 }
 
 /**
- * タスクを削除する
+ * タスクをゴミ箱に移動する
+ * 依存関係やサブタスクの親の参照は復元できるように残し、完全に削除するときに外す
  * @param id タスクID
  * @returns 削除が成功したかどうか
  */
 export async function deleteTask(id: string): Promise<boolean> {
-  const task = await db.tasks.get(id);
+  const task = await getTask(id);
   if (!task) return false;
   
-  await db.tasks.delete(id);
+  await db.tasks.update(id, { deletedAt: Date.now() });
   return true;
 }
 
+/**
+ * 完全に削除するタスクへの参照を外す
+ * 依存関係 (blockedBy) から取り除き、サブタスクは親のないタスクとして残す
+ * トランザクション内から呼び出す
+ * @param ids 削除するタスクIDの配列
+ */
+export async function removeTaskReferences(ids: string[]): Promise<void> {
+  if (ids.length === 0) return;
+  const deleted = new Set(ids);
+
+  await db.tasks.where('blockedBy').anyOf(ids).modify(task => {
+    task.blockedBy = task.blockedBy!.filter(id => !deleted.has(id));
+  });
+  await db.tasks.where('parentId').anyOf(ids).modify(task => {
+    delete task.parentId;
+  });
+}
+
+/**
+ * タスクを完了にし、繰り返しルールがあれば次のタスクを作成する
+ * UI を介さずに完了させる場合 (通知アクションなど) に使用する
+ * @param id タスクID
+ * @returns 完了したタスクと作成された次のタスク。未完了のタスクが見つからない場合はundefined
+ */
+export async function completeTask(
+  id: string
+): Promise<{ task: Task; nextTasks: Task[] } | undefined> {
+  const policy = await getMissedRecurrencePolicy();
+  const task = await getTask(id);
+  if (!task || task.status !== 'pending') return undefined;
+
+  // 画面 (useTasks) から同時に完了にしても次の回が重複しないように、同じ系列のロックを取得する
+  return withOperationLock(`recurrence:${task.repeatParentId || task.id}`, () =>
+    db.transaction('rw', db.tasks, async () => {
+      // ロックを待つ間に完了にされていることがあるため、最新の状態で確かめる
+      const current = await getTask(id);
+      if (!current || current.status !== 'pending') return undefined;
+
+      await updateTask(id, { status: 'done' });
+
+      // 次の回を作成できない場合は、完了も含めてトランザクションごと取り消す
+      const nextTasks: Task[] = [];
+      if (current.repeatRule && isLatestInSeries(current, await getSeriesTasks(current))) {
+        for (const draft of planNextRecurrences(current, { policy })) {
+          const nextId = await createTask({ ...draft, title: current.title, status: 'pending' });
+          nextTasks.push((await db.tasks.get(nextId))!);
+        }
+      }
+
+      return { task: { ...current, status: 'done' }, nextTasks };
+    })
+  );
+}
+
 /**
  * タスクをアーカイブする
  * @param id タスクID
@@ -149,23 +228,247 @@ export async function archiveTask(id: string): Promise<boolean> {
   return updateTask(id, { status: 'archived' });
 }
 
+// --------- 繰り返しタスクの系列操作 ---------
+
+/**
+ * 繰り返しタスクの系列 (繰り返し元と派生したすべてのタスク) を取得する
+ * @param task 系列に含まれるタスク
+ * @returns 繰り返し回数の順に並べたタスクの配列
+ */
+export async function getSeriesTasks(task: Task): Promise<Task[]> {
+  const rootId = task.repeatParentId || task.id;
+  if (!rootId) return [task];
+
+  const root = await getTask(rootId);
+  const children = await getChildTasks(rootId);
+  return [...(root ? [root] : []), ...children].sort(
+    (a, b) => (a.repeatCount || 0) - (b.repeatCount || 0)
+  );
+}
+
+// 系列を指定した回より前と、範囲に含まれる回に分ける
+function splitSeries(series: Task[], task: Task, scope: RecurrenceScope) {
+  const position = task.repeatCount || 0;
+  const earlier =
+    scope === 'all' ? [] : series.filter(t => (t.repeatCount || 0) < position);
+  const targets = series.filter(t => !earlier.includes(t));
+  return { earlier, targets, position };
+}
+
+// 指定した日時より前で系列の繰り返しを終了する
+async function endSeriesBefore(tasks: Task[], before: number): Promise<void> {
+  for (const task of tasks) {
+    if (!task.repeatRule) continue;
+    await updateTask(task.id!, {
+      repeatRule: endRepeatRuleBefore(task.repeatRule, before),
+      repeatUntil: before - 1000,
+    });
+  }
+}
+
+// 系列の各回の繰り返しルールに除外日 (EXDATE) を追加する
+async function excludeSeriesDate(tasks: Task[], date: number): Promise<void> {
+  for (const task of tasks) {
+    if (!task.repeatRule) continue;
+    await updateTask(task.id!, { repeatRule: addRepeatExdate(task.repeatRule, date) });
+  }
+}
+
+/**
+ * 繰り返しタスクを範囲を指定して更新する
+ * この回以降を変更した場合は、それより前の回の繰り返しを終了して新しい系列に切り離す
+ * @param id 編集したタスクID
+ * @param updates 更新するフィールド (ID・作成日時・系列の中の位置は変更しない)
+ * @param scope 更新する範囲
+ * @returns 更新したタスクの配列
+ */
+export async function updateRecurringTask(
+  id: string,
+  updates: Partial<Task>,
+  scope: RecurrenceScope
+): Promise<Task[]> {
+  // フォームは編集したタスクの ID も渡すため、回ごとに異なる項目は他の回に広げない
+  const fields: Partial<Task> = { ...updates };
+  delete fields.id;
+  delete fields.createdAt;
+  delete fields.repeatParentId;
+  delete fields.repeatCount;
+
+  return db.transaction('rw', db.tasks, async () => {
+    const task = await getTask(id);
+    if (!task) return [];
+
+    const series = await getSeriesTasks(task);
+
+    if (scope === 'this') {
+      // この回のみの変更では系列の繰り返しルールは変えない
+      const changes = { ...fields };
+      delete changes.repeatRule;
+      delete changes.repeatUntil;
+      delete changes.repeatMode;
+      await updateTask(id, changes);
+
+      // 日付を移動した場合は元の日付を除外し、次の回で同じ日付が作られないようにする
+      if (task.repeatRule && task.dueAt && 'dueAt' in changes && changes.dueAt !== task.dueAt) {
+        await excludeSeriesDate(series, task.dueAt);
+      }
+      return [(await db.tasks.get(id))!];
+    }
+
+    const { earlier, targets, position } = splitSeries(series, task, scope);
+    const splitting = earlier.length > 0;
+    const shift =
+      fields.dueAt !== undefined && task.dueAt !== undefined ? fields.dueAt - task.dueAt : 0;
+
+    if (splitting && task.dueAt) {
+      await endSeriesBefore(earlier, task.dueAt);
+    }
+
+    for (const target of targets) {
+      const changes: Partial<Task> = { ...fields };
+
+      if (target.id === id) {
+        if (splitting) {
+          // この回を新しい系列の繰り返し元にする
+          changes.repeatParentId = undefined;
+          changes.repeatCount = 0;
+        }
+      } else {
+        // 他の回は期日を同じだけずらし、チェックリストの完了状態はそのまま残す
+        if ('dueAt' in fields && target.dueAt !== undefined) {
+          changes.dueAt = target.dueAt + shift;
+        }
+        if ('checklist' in fields) {
+          changes.checklist = fields.checklist?.map(item => ({
+            ...item,
+            checked: target.checklist?.find(current => current.id === item.id)?.checked ?? false,
+          }));
+        }
+        if (splitting) {
+          changes.repeatParentId = id;
+          changes.repeatCount = (target.repeatCount || 0) - position;
+        }
+      }
+
+      await updateTask(target.id!, changes);
+    }
+
+    const updated = await db.tasks.bulkGet(targets.map(target => target.id!));
+    return updated.filter((t): t is Task => !!t);
+  });
+}
+
+/**
+ * 繰り返しタスクを範囲を指定してゴミ箱に移動する
+ * この回のみを削除した場合は日付を除外日として記録し、最新の回であれば次の回を作成する
+ * @param id 削除するタスクID
+ * @param scope 削除する範囲
+ * @returns 削除したタスクIDと、系列を続けるために作成した次のタスク
+ */
+export async function deleteRecurringTask(
+  id: string,
+  scope: RecurrenceScope
+): Promise<{ deletedIds: string[]; nextTask?: Task }> {
+  return db.transaction('rw', db.tasks, async () => {
+    const task = await getTask(id);
+    if (!task) return { deletedIds: [] };
+
+    const series = await getSeriesTasks(task);
+
+    if (scope === 'this') {
+      const rest = series.filter(t => t.id !== id);
+      let nextTask: Task | undefined;
+
+      if (task.repeatRule && task.dueAt) {
+        await excludeSeriesDate(rest, task.dueAt);
+
+        if (isLatestInSeries(task, rest) && task.status === 'pending') {
+          const [draft] = planNextRecurrences(
+            { ...task, repeatRule: addRepeatExdate(task.repeatRule, task.dueAt) },
+            // 削除した回の次の予定から続ける
+            { completedAt: task.dueAt, policy: 'skip' }
+          );
+          if (draft) {
+            const nextId = await createTask({ ...draft, title: task.title, status: 'pending' });
+            nextTask = await db.tasks.get(nextId);
+          }
+        }
+      }
+
+      await db.tasks.update(id, { deletedAt: Date.now() });
+      return { deletedIds: [id], nextTask };
+    }
+
+    const { earlier, targets } = splitSeries(series, task, scope);
+    if (earlier.length > 0 && task.dueAt) {
+      await endSeriesBefore(earlier, task.dueAt);
+    }
+
+    const deletedIds = targets.map(target => target.id!);
+    await db.tasks.where('id').anyOf(deletedIds).modify({ deletedAt: Date.now() });
+    return { deletedIds };
+  });
+}
+
+// --------- タグ操作関数 ---------
+
+/**
+ * すべてのタスクでタグの名前を変更する
+ * 変更後のタグがすでにあるタスクでは1つにまとめる (タグの統合)
+ * @param from 変更前のタグ
+ * @param to 変更後のタグ
+ * @returns 変更したタスクの数
+ */
+export async function renameTag(from: string, to: string): Promise<number> {
+  const target = normalizeTag(to);
+  if (!target) {
+    throw new Error('タグ名を入力してください');
+  }
+  if (target === from) return 0;
+
+  return db.transaction('rw', db.tasks, async () => {
+    const now = Date.now();
+    // ゴミ箱のタスクも、復元したときに同じタグになるよう変更する
+    return db.tasks
+      .where('tags')
+      .equals(from)
+      .modify(task => {
+        task.tags = renameTagInList(task.tags ?? [], from, target);
+        task.updatedAt = now;
+      });
+  });
+}
+
 // --------- Category操作関数 ---------
 
 /**
- * カテゴリを取得する
+ * カテゴリを取得する (ゴミ箱のカテゴリは除く)
  * @param id カテゴリID
  * @returns カテゴリオブジェクトまたはundefined
  */
 export async function getCategory(id: string): Promise<Category | undefined> {
-  return db.categories.get(id);
+  const category = await db.categories.get(id);
+  return category && !isTrashed(category) ? category : undefined;
 }
 
 /**
- * すべてのカテゴリを順序付きで取得する
+ * すべてのカテゴリを順序付きで取得する (ゴミ箱のカテゴリは除く)
  * @returns カテゴリの配列
  */
 export async function getAllCategories(): Promise<Category[]> {
-  return db.categories.orderBy('order').toArray();
+  return db.categories
+    .orderBy('order')
+    .filter(category => !isTrashed(category))
+    .toArray();
+}
+
+// 同じ名前のカテゴリを探す (ゴミ箱のカテゴリは除く)
+async function findCategoryByName(name: string): Promise<Category | undefined> {
+  return db.categories
+    .where('name')
+    .equals(name)
+    .filter(category => !isTrashed(category))
+    .first();
 }
 
 /**
@@ -179,10 +482,7 @@ export async function createCategory(
   const id = category.id || crypto.randomUUID();
   
   // 同じ名前のカテゴリがないか確認
-  const existingCategory = await db.categories
-    .where('name')
-    .equals(category.name)
-    .first();
+  const existingCategory = await findCategoryByName(category.name);
     
   if (existingCategory) {
     throw new Error(`Category with name "${category.name}" already exists`);
@@ -215,15 +515,12 @@ export async function updateCategory(
   id: string,
   updates: Partial<Omit<Category, 'id'>>
 ): Promise<boolean> {
-  const category = await db.categories.get(id);
+  const category = await getCategory(id);
   if (!category) return false;
   
   // 名前を変更する場合、重複チェック
   if (updates.name && updates.name !== category.name) {
-    const existingCategory = await db.categories
-      .where('name')
-      .equals(updates.name)
-      .first();
+    const existingCategory = await findCategoryByName(updates.name);
       
     if (existingCategory) {
       throw new Error(`Category with name "${updates.name}" already exists`);
@@ -235,7 +532,8 @@ export async function updateCategory(
 }
 
 /**
- * カテゴリを削除する
+ * カテゴリをゴミ箱に移動する
+ * 再割り当て先がない場合、タスクのカテゴリは復元できるように残し、完全に削除するときに外す
  * @param id カテゴリID
  * @param reassignTasksTo 関連タスクの再割り当て先カテゴリID
  * @returns 削除が成功したかどうか
@@ -245,7 +543,7 @@ export async function deleteCategory(
   reassignTasksTo?: string
 ): Promise<boolean> {
   // デフォルトカテゴリは削除不可
-  const category = await db.categories.get(id);
+  const category = await getCategory(id);
   if (!category || category.name === 'Default') {
     return false;
   }
@@ -256,7 +554,7 @@ export async function deleteCategory(
       // カテゴリに関連するタスクを更新
       if (reassignTasksTo) {
         // 再割り当て先カテゴリが存在するか確認
-        const targetCategory = await db.categories.get(reassignTasksTo);
+        const targetCategory = await getCategory(reassignTasksTo);
         if (!targetCategory) {
           throw new Error('Target category for reassignment does not exist');
         }
@@ -266,16 +564,10 @@ export async function deleteCategory(
           .where('categoryId')
           .equals(id)
           .modify({ categoryId: reassignTasksTo });
-      } else {
-        // カテゴリを未分類に
-        await db.tasks
-          .where('categoryId')
-          .equals(id)
-          .modify({ categoryId: undefined });
       }
       
-      // カテゴリ削除
-      await db.categories.delete(id);
+      // カテゴリをゴミ箱に移動
+      await db.categories.update(id, { deletedAt: Date.now() });
     });
     
     return true;
@@ -305,6 +597,139 @@ export async function updateCategoryOrder(orderedIds: string[]): Promise<boolean
   }
 }
 
+// --------- ゴミ箱操作関数 ---------
+
+/**
+ * ゴミ箱のタスクを取得する
+ * @returns ゴミ箱に移動した日時の新しい順のタスク配列
+ */
+export async function getTrashedTasks(): Promise<Task[]> {
+  return db.tasks.orderBy('deletedAt').reverse().toArray();
+}
+
+/**
+ * ゴミ箱のカテゴリを取得する
+ * @returns ゴミ箱に移動した日時の新しい順のカテゴリ配列
+ */
+export async function getTrashedCategories(): Promise<Category[]> {
+  return db.categories.orderBy('deletedAt').reverse().toArray();
+}
+
+/**
+ * ゴミ箱のタスクを元に戻す
+ * @param id タスクID
+ * @returns 復元が成功したかどうか
+ */
+export async function restoreTask(id: string): Promise<boolean> {
+  const now = Date.now();
+  const count = await db.tasks
+    .where('id')
+    .equals(id)
+    .and(isTrashed)
+    .modify(task => {
+      delete task.deletedAt;
+      task.updatedAt = now;
+    });
+  return count > 0;
+}
+
+/**
+ * ゴミ箱のカテゴリを元に戻す
+ * 同じ名前のカテゴリがすでにある場合は復元できない
+ * @param id カテゴリID
+ * @returns 復元が成功したかどうか
+ */
+export async function restoreCategory(id: string): Promise<boolean> {
+  return db.transaction('rw', db.categories, async () => {
+    const category = await db.categories.get(id);
+    if (!category || !isTrashed(category)) return false;
+
+    if (await findCategoryByName(category.name)) {
+      throw new Error(`同じ名前のカテゴリー「${category.name}」があるため復元できません`);
+    }
+
+    await db.categories.where('id').equals(id).modify(target => {
+      delete target.deletedAt;
+    });
+    return true;
+  });
+}
+
+/**
+ * タスクを完全に削除する
+ * @param id タスクID
+ * @returns 削除が成功したかどうか
+ */
+export async function deleteTaskPermanently(id: string): Promise<boolean> {
+  return db.transaction('rw', db.tasks, async () => {
+    const task = await db.tasks.get(id);
+    if (!task) return false;
+
+    await removeTaskReferences([id]);
+    await db.tasks.delete(id);
+    return true;
+  });
+}
+
+/**
+ * カテゴリを完全に削除する (カテゴリのタスクは未分類にする)
+ * @param id カテゴリID
+ * @returns 削除が成功したかどうか
+ */
+export async function deleteCategoryPermanently(id: string): Promise<boolean> {
+  return db.transaction('rw', [db.categories, db.tasks], async () => {
+    const category = await db.categories.get(id);
+    if (!category) return false;
+
+    await db.tasks.where('categoryId').equals(id).modify({ categoryId: undefined });
+    await db.categories.delete(id);
+    return true;
+  });
+}
+
+// 指定した日時以前にゴミ箱に移動したタスクとカテゴリを完全に削除する
+async function purgeTrashBefore(
+  before: number
+): Promise<{ tasks: number; categories: number }> {
+  return db.transaction('rw', [db.categories, db.tasks], async () => {
+    const taskIds = (await db.tasks.where('deletedAt').belowOrEqual(before).primaryKeys()) as string[];
+    const categoryIds = (await db.categories
+      .where('deletedAt')
+      .belowOrEqual(before)
+      .primaryKeys()) as string[];
+
+    await removeTaskReferences(taskIds);
+    await db.tasks.bulkDelete(taskIds);
+
+    if (categoryIds.length > 0) {
+      await db.tasks.where('categoryId').anyOf(categoryIds).modify({ categoryId: undefined });
+      await db.categories.bulkDelete(categoryIds);
+    }
+
+    return { tasks: taskIds.length, categories: categoryIds.length };
+  });
+}
+
+/**
+ * ゴミ箱を空にする
+ * @returns 完全に削除したタスクとカテゴリの数
+ */
+export async function emptyTrash(): Promise<{ tasks: number; categories: number }> {
+  return purgeTrashBefore(Infinity);
+}
+
+/**
+ * 保存期間を過ぎたゴミ箱のタスクとカテゴリを完全に削除する
+ * @param now 現在時刻 (テスト用)
+ * @returns 完全に削除したタスクとカテゴリの数
+ */
+export async function purgeExpiredTrash(
+  now: number = Date.now()
+): Promise<{ tasks: number; categories: number }> {
+  const retentionDays = await getTrashRetentionDays();
+  return purgeTrashBefore(getTrashPurgeCutoff(retentionDays, now));
+}
+
 // --------- Setting操作関数 ---------
 
 /**
@@ -317,6 +742,25 @@ export async function getSetting<T>(key: string): Promise<T | undefined> {
   return setting?.value as T | undefined;
 }
 
+/**
+ * 期日を過ぎてから完了した繰り返しタスクの扱いを取得する
+ * @returns 設定値。未設定の場合は既定値
+ */
+export async function getMissedRecurrencePolicy(): Promise<MissedRecurrencePolicy> {
+  return (
+    (await getSetting<MissedRecurrencePolicy>('missedRecurrencePolicy')) ??
+    DEFAULT_MISSED_RECURRENCE_POLICY
+  );
+}
+
+/**
+ * ゴミ箱に入れたものを完全に削除するまでの日数を取得する
+ * @returns 設定値。未設定の場合は既定値
+ */
+export async function getTrashRetentionDays(): Promise<number> {
+  return resolveTrashRetentionDays(await getSetting<number>('trashRetentionDays'));
+}
+
 /**
  * 設定を保存する
  * @param key 設定キー
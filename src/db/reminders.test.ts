@@ -0,0 +1,229 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from './index';
+import type { Task } from './index';
+import * as reminders from './reminders';
+import { saveTask } from '@/test/factories';
+
+describe('Reminder Operations', () => {
+  const now = new Date('2024-01-01T09:00:00').getTime();
+  const minutes = (n: number) => n * 60 * 1000;
+
+  const createTask = (overrides: Partial<Task> = {}): Promise<Task> =>
+    saveTask({
+      title: 'Reminder Task',
+      dueAt: now + minutes(60),
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.reminders.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.reminders.clear();
+  });
+
+  it('should persist the default reminder before the due date', async () => {
+    const task = await createTask();
+
+    const scheduled = await reminders.scheduleTaskReminders(task, 15, now);
+
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0]).toMatchObject({
+      id: `${task.id}:default`,
+      reminderId: 'default',
+      fireAt: task.dueAt! - minutes(15),
+      dueAt: task.dueAt,
+    });
+  });
+
+  it('should persist one row per task reminder keyed by reminder id', async () => {
+    const task = await createTask({
+      dueAt: now + minutes(24 * 60 * 2),
+      reminders: [
+        { id: 'day', type: 'relative', offsetMin: 24 * 60 },
+        { id: 'soon', type: 'relative', offsetMin: 15 },
+        { id: 'once', type: 'absolute', at: now + minutes(30) },
+      ],
+    });
+
+    const scheduled = await reminders.scheduleTaskReminders(task, 15, now);
+
+    expect(scheduled.map(r => r.id)).toEqual([
+      `${task.id}:once`,
+      `${task.id}:day`,
+      `${task.id}:soon`,
+    ]);
+  });
+
+  it('should cancel only the reminders removed from the task', async () => {
+    const task = await createTask({
+      reminders: [
+        { id: 'a', type: 'relative', offsetMin: 30 },
+        { id: 'b', type: 'relative', offsetMin: 15 },
+      ],
+    });
+    await reminders.scheduleTaskReminders(task, 15, now);
+
+    const scheduled = await reminders.scheduleTaskReminders(
+      { ...task, reminders: [{ id: 'b', type: 'relative', offsetMin: 10 }] },
+      15,
+      now
+    );
+
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].id).toBe(`${task.id}:b`);
+    expect(scheduled[0].fireAt).toBe(task.dueAt! - minutes(10));
+  });
+
+  it('should schedule absolute reminders for tasks without a due date', async () => {
+    const task = await createTask({
+      dueAt: undefined,
+      reminders: [{ id: 'once', type: 'absolute', at: now + minutes(5) }],
+    });
+
+    const scheduled = await reminders.scheduleTaskReminders(task, 15, now);
+
+    expect(scheduled).toHaveLength(1);
+    expect(scheduled[0].fireAt).toBe(now + minutes(5));
+  });
+
+  it('should not persist a reminder whose time has passed', async () => {
+    const task = await createTask({ dueAt: now + minutes(10) });
+
+    const scheduled = await reminders.scheduleTaskReminders(task, 15, now);
+
+    expect(scheduled).toHaveLength(0);
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should snooze a single reminder relative to the current time', async () => {
+    const task = await createTask({
+      reminders: [
+        { id: 'a', type: 'relative', offsetMin: 30 },
+        { id: 'b', type: 'relative', offsetMin: 15 },
+      ],
+    });
+    await reminders.scheduleTaskReminders(task, 15, now);
+
+    const snoozed = await reminders.snoozeReminder(task, `${task.id}:a`, 5, now);
+
+    expect(snoozed).toMatchObject({ reminderId: 'a', fireAt: now + minutes(5), snoozed: true });
+    expect((await db.reminders.get(`${task.id}:b`))?.fireAt).toBe(task.dueAt! - minutes(15));
+  });
+
+  it('should cancel reminders for a task', async () => {
+    const task = await createTask();
+    await reminders.scheduleTaskReminders(task, 15, now);
+
+    const cancelled = await reminders.cancelTaskReminders(task.id!);
+
+    expect(cancelled).toEqual([`${task.id}:default`]);
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should return due and next reminders', async () => {
+    const missed = await createTask({ dueAt: now + minutes(20) });
+    const upcoming = await createTask({ dueAt: now + minutes(120) });
+    await reminders.scheduleTaskReminders(missed, 15, now);
+    await reminders.scheduleTaskReminders(upcoming, 15, now);
+
+    const later = now + minutes(30);
+    const due = await reminders.getDueReminders(later);
+    const next = await reminders.getNextReminder(later);
+
+    expect(due.map(r => r.taskId)).toEqual([missed.id]);
+    expect(next?.taskId).toBe(upcoming.id);
+  });
+
+  describe('rebuildReminders', () => {
+    it('should create reminders for pending tasks with a future reminder time', async () => {
+      const task = await createTask();
+      await createTask({ dueAt: undefined });
+      await createTask({ status: 'done' });
+
+      const count = await reminders.rebuildReminders(15, now);
+
+      expect(count).toBe(1);
+      const stored = await reminders.getPendingReminders();
+      expect(stored[0].taskId).toBe(task.id);
+    });
+
+    it('should remove reminders of completed or deleted tasks', async () => {
+      const done = await createTask();
+      const deleted = await createTask();
+      await reminders.scheduleTaskReminders(done, 15, now);
+      await reminders.scheduleTaskReminders(deleted, 15, now);
+
+      await db.tasks.update(done.id!, { status: 'done' });
+      await db.tasks.delete(deleted.id!);
+
+      expect(await reminders.rebuildReminders(15, now)).toBe(0);
+    });
+
+    it('should keep snoozed reminders and follow due date changes', async () => {
+      const snoozed = await createTask({ dueAt: now });
+      const moved = await createTask();
+      await reminders.snoozeReminder(snoozed, undefined, 5, now);
+      await reminders.scheduleTaskReminders(moved, 15, now);
+      await db.tasks.update(moved.id!, { dueAt: moved.dueAt! + minutes(60) });
+
+      await reminders.rebuildReminders(15, now);
+
+      expect((await db.reminders.get(`${snoozed.id}:snooze`))?.fireAt).toBe(now + minutes(5));
+      expect((await db.reminders.get(`${moved.id}:default`))?.fireAt).toBe(
+        moved.dueAt! + minutes(45)
+      );
+    });
+
+    it('should follow changes to the default offset', async () => {
+      const task = await createTask();
+      await reminders.scheduleTaskReminders(task, 15, now);
+
+      await reminders.rebuildReminders(30, now);
+
+      expect((await db.reminders.get(`${task.id}:default`))?.fireAt).toBe(
+        task.dueAt! - minutes(30)
+      );
+    });
+
+    it('should not recreate reminders that have already fired', async () => {
+      await createTask({ dueAt: now + minutes(5) });
+
+      expect(await reminders.rebuildReminders(15, now)).toBe(0);
+    });
+  });
+
+  describe('syncTaskReminders', () => {
+    it('should reschedule only the given tasks', async () => {
+      const changed = await createTask();
+      const untouched = await createTask();
+
+      expect(await reminders.syncTaskReminders([changed.id!], 15, now)).toEqual([]);
+
+      expect(await reminders.getTaskReminders(changed.id!)).toHaveLength(1);
+      expect(await reminders.getTaskReminders(untouched.id!)).toHaveLength(0);
+    });
+
+    it('should return the removed reminders of completed or deleted tasks', async () => {
+      const done = await createTask();
+      const deleted = await createTask();
+      await reminders.scheduleTaskReminders(done, 15, now);
+      await reminders.scheduleTaskReminders(deleted, 15, now);
+
+      await db.tasks.update(done.id!, { status: 'done' });
+      await db.tasks.delete(deleted.id!);
+
+      expect(await reminders.syncTaskReminders([done.id!, deleted.id!], 15, now)).toEqual([
+        `${done.id}:default`,
+        `${deleted.id}:default`,
+      ]);
+      expect(await db.reminders.count()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import { db, type Task, type Reminder } from './index';
+import { resolveTaskReminders, type ResolvedReminder } from '../utils/reminders';
+import { isTrashed } from '../utils/trash';
+
+// --------- Reminder操作関数 ---------
+// Service Worker はアイドル時に終了されるため、通知の予約状態はメモリではなく
+// IndexedDB に保存し、SW の起動・アプリ起動のたびにここから復元する
+
+export const DEFAULT_NOTIFY_BEFORE_MIN = 15;
+export const DEFAULT_SNOOZE_MIN = 5;
+
+/**
+ * 通知に関する設定を取得する
+ * Service Worker からストアを介さずに参照するために使用する
+ * @returns 事前通知とスヌーズの分数
+ */
+export async function getReminderSettings(): Promise<{
+  notifyBeforeMin: number;
+  snoozeMin: number;
+}> {
+  const [notifyBeforeMin, snoozeMin] = await db.settings.bulkGet(['notifyBeforeMin', 'snoozeMin']);
+  return {
+    notifyBeforeMin: (notifyBeforeMin?.value as number) || DEFAULT_NOTIFY_BEFORE_MIN,
+    snoozeMin: (snoozeMin?.value as number) || DEFAULT_SNOOZE_MIN,
+  };
+}
+
+/**
+ * 通知 (リマインダー行) のIDを組み立てる
+ * @param taskId タスクID
+ * @param reminderId リマインダー定義のID
+ * @returns `${taskId}:${reminderId}`
+ */
+export function getReminderKey(taskId: string, reminderId: string): string {
+  return `${taskId}:${reminderId}`;
+}
+
+function createReminder(task: Task, resolved: ResolvedReminder, now: number): Reminder {
+  return {
+    id: getReminderKey(task.id!, resolved.reminderId),
+    taskId: task.id!,
+    reminderId: resolved.reminderId,
+    title: task.title,
+    dueAt: task.dueAt,
+    fireAt: resolved.fireAt,
+    baseFireAt: resolved.fireAt,
+    createdAt: now,
+  };
+}
+
+/**
+ * 1つのタスクのリマインダー行を定義に合わせて更新する
+ * 定義が変わっていない行はそのまま残し、不要になった行は削除する
+ */
+async function reconcileTaskReminders(
+  task: Task,
+  existing: Reminder[],
+  defaultBeforeMin: number,
+  now: number,
+  keepSnoozed: boolean
+): Promise<void> {
+  const desired = resolveTaskReminders(task, defaultBeforeMin);
+  const existingById = new Map(existing.map(reminder => [reminder.id, reminder]));
+  const desiredIds = new Set<string>();
+
+  for (const resolved of desired) {
+    const id = getReminderKey(task.id!, resolved.reminderId);
+    const current = existingById.get(id);
+    desiredIds.add(id);
+
+    if (current) {
+      const unchanged =
+        current.baseFireAt === resolved.fireAt &&
+        current.title === task.title &&
+        current.dueAt === task.dueAt;
+      // スヌーズ中の行は定義が変わらない限り残す
+      if (unchanged && (keepSnoozed || !current.snoozed)) continue;
+      await db.reminders.put(createReminder(task, resolved, now));
+    } else if (resolved.fireAt > now) {
+      // 過去の通知時刻は発火済みとみなして作り直さない
+      await db.reminders.put(createReminder(task, resolved, now));
+    }
+  }
+
+  const staleIds = existing
+    .filter(reminder => !desiredIds.has(reminder.id))
+    .filter(reminder => !(keepSnoozed && reminder.snoozed))
+    .map(reminder => reminder.id);
+  await db.reminders.bulkDelete(staleIds);
+}
+
+/**
+ * タスクのリマインダーをすべて予約し直す
+ * @param task 対象タスク
+ * @param defaultBeforeMin reminders 未設定時に使う期日前の分数
+ * @param now 現在時刻 (テスト用)
+ * @returns 予約中のリマインダーの配列
+ */
+export async function scheduleTaskReminders(
+  task: Task,
+  defaultBeforeMin: number,
+  now: number = Date.now()
+): Promise<Reminder[]> {
+  if (!task.id) return [];
+
+  return db.transaction('rw', db.reminders, async () => {
+    const existing = await db.reminders.where('taskId').equals(task.id!).toArray();
+    await reconcileTaskReminders(task, existing, defaultBeforeMin, now, false);
+    return getTaskReminders(task.id!);
+  });
+}
+
+/**
+ * リマインダーを現在時刻から指定分後に再設定する
+ * @param task 対象タスク
+ * @param reminderId 通知のID (getReminderKey の値)。省略時はスヌーズ専用の行を作成
+ * @param snoozeMin スヌーズ時間 (分)
+ * @param now 現在時刻 (テスト用)
+ * @returns 保存したリマインダー
+ */
+export async function snoozeReminder(
+  task: Task,
+  reminderId: string | undefined,
+  snoozeMin: number,
+  now: number = Date.now()
+): Promise<Reminder | undefined> {
+  if (!task.id) return undefined;
+
+  const id = reminderId ?? getReminderKey(task.id, 'snooze');
+  const current = await db.reminders.get(id);
+  const reminder: Reminder = {
+    id,
+    taskId: task.id,
+    reminderId: current?.reminderId ?? id.slice(task.id.length + 1),
+    title: task.title,
+    dueAt: task.dueAt,
+    fireAt: now + snoozeMin * 60 * 1000,
+    baseFireAt: current?.baseFireAt,
+    snoozed: true,
+    createdAt: now,
+  };
+
+  await db.reminders.put(reminder);
+  return reminder;
+}
+
+/**
+ * 1つのリマインダーを削除する
+ * @param id 通知のID (getReminderKey の値)
+ */
+export async function cancelReminder(id: string): Promise<void> {
+  await db.reminders.delete(id);
+}
+
+/**
+ * タスクのリマインダーをすべて削除する
+ * @param taskId タスクID
+ * @returns 削除したリマインダーのID配列
+ */
+export async function cancelTaskReminders(taskId: string): Promise<string[]> {
+  const reminders = await db.reminders.where('taskId').equals(taskId).toArray();
+  const ids = reminders.map(reminder => reminder.id);
+  await db.reminders.bulkDelete(ids);
+  return ids;
+}
+
+/**
+ * タスクの予約中のリマインダーを取得する
+ * @param taskId タスクID
+ * @returns 通知時刻順のリマインダーの配列
+ */
+export async function getTaskReminders(taskId: string): Promise<Reminder[]> {
+  return db.reminders.where('taskId').equals(taskId).sortBy('fireAt');
+}
+
+/**
+ * 予約中のリマインダーを通知時刻順に取得する
+ * @returns リマインダーの配列
+ */
+export async function getPendingReminders(): Promise<Reminder[]> {
+  return db.reminders.orderBy('fireAt').toArray();
+}
+
+/**
+ * 通知時刻を過ぎたリマインダーを取得する
+ * SW が終了していた間に発火しそこねたものも含まれる
+ * @param now 現在時刻 (テスト用)
+ * @returns リマインダーの配列
+ */
+export async function getDueReminders(now: number = Date.now()): Promise<Reminder[]> {
+  return db.reminders.where('fireAt').belowOrEqual(now).sortBy('fireAt');
+}
+
+/**
+ * 次に発火するリマインダーを取得する
+ * @param now 現在時刻 (テスト用)
+ * @returns リマインダーまたはundefined
+ */
+export async function getNextReminder(now: number = Date.now()): Promise<Reminder | undefined> {
+  return db.reminders.where('fireAt').above(now).first();
+}
+
+/**
+ * 発火済みのリマインダーを削除する
+ * @param ids リマインダーIDの配列
+ */
+export async function removeReminders(ids: string[]): Promise<void> {
+  await db.reminders.bulkDelete(ids);
+}
+
+/**
+ * Notification Triggers で OS に予約済みであることを記録する
+ * @param id リマインダーID
+ */
+export async function markReminderTriggerScheduled(id: string): Promise<void> {
+  await db.reminders.update(id, { triggerScheduled: true });
+}
+
+/**
+ * 現在のタスクからリマインダーを再構築する
+ * 未完了タスクに不足しているリマインダーを作成し、
+ * 完了・削除 (ゴミ箱に移動) されたタスクや削除された定義のリマインダーを取り除く
+ * @param defaultBeforeMin reminders 未設定時に使う期日前の分数
+ * @param now 現在時刻 (テスト用)
+ * @returns 再構築後のリマインダー数
+ */
+export async function rebuildReminders(
+  defaultBeforeMin: number,
+  now: number = Date.now()
+): Promise<number> {
+  return db.transaction('rw', db.tasks, db.reminders, async () => {
+    const tasks = await db.tasks
+      .where('status')
+      .equals('pending')
+      .and(task => !isTrashed(task))
+      .toArray();
+    const tasksById = new Map(tasks.map(task => [task.id!, task]));
+
+    // 対象外になったタスクのリマインダーを削除
+    const reminders = await db.reminders.toArray();
+    const staleIds = reminders
+      .filter(reminder => !tasksById.has(reminder.taskId))
+      .map(reminder => reminder.id);
+    await db.reminders.bulkDelete(staleIds);
+
+    const remindersByTask = new Map<string, Reminder[]>();
+    for (const reminder of reminders) {
+      if (!tasksById.has(reminder.taskId)) continue;
+      const list = remindersByTask.get(reminder.taskId) ?? [];
+      list.push(reminder);
+      remindersByTask.set(reminder.taskId, list);
+    }
+
+    for (const task of tasks) {
+      await reconcileTaskReminders(
+        task,
+        remindersByTask.get(task.id!) ?? [],
+        defaultBeforeMin,
+        now,
+        true
+      );
+    }
+
+    return db.reminders.count();
+  });
+}
+
+/**
+ * 指定したタスクのリマインダーだけを現在のタスクに合わせて更新する
+ * 他のタブ・Service Worker で変更されたタスクを代表のタブが予約し直すときに使用する
+ * @param taskIds 変更されたタスクのID配列
+ * @param defaultBeforeMin reminders 未設定時に使う期日前の分数
+ * @param now 現在時刻 (テスト用)
+ * @returns 削除したリマインダーのID配列
+ */
+export async function syncTaskReminders(
+  taskIds: string[],
+  defaultBeforeMin: number,
+  now: number = Date.now()
+): Promise<string[]> {
+  return db.transaction('rw', db.tasks, db.reminders, async () => {
+    const removedIds: string[] = [];
+
+    for (const taskId of taskIds) {
+      const task = await db.tasks.get(taskId);
+      const existing = await db.reminders.where('taskId').equals(taskId).toArray();
+
+      if (task && task.status === 'pending' && !isTrashed(task)) {
+        await reconcileTaskReminders(task, existing, defaultBeforeMin, now, true);
+        const remaining = new Set(
+          (await db.reminders.where('taskId').equals(taskId).primaryKeys()) as string[]
+        );
+        removedIds.push(...existing.filter(({ id }) => !remaining.has(id)).map(({ id }) => id));
+      } else {
+        // 完了・削除 (ゴミ箱に移動) されたタスクのリマインダーは取り除く
+        await db.reminders.bulkDelete(existing.map(({ id }) => id));
+        removedIds.push(...existing.map(({ id }) => id));
+      }
+    }
+
+    return removedIds;
+  });
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { db } from './index';
 import * as operations from './operations';
 import * as transaction from './transaction';
@@ -125,6 +125,24 @@ describe('Transaction Operations', () => {
     expect(remainingTasks[0].title).toBe('Task Not Deleted');
   });
   
+  it('should keep links to batch deleted tasks until they are deleted permanently', async () => {
+    const ids = [
+      await operations.createTask({ title: 'Blocker 1', status: 'pending' as const }),
+      await operations.createTask({ title: 'Blocker 2', status: 'pending' as const }),
+    ];
+    const blockedId = await operations.createTask({
+      title: 'Blocked',
+      status: 'pending' as const,
+      blockedBy: ids,
+    });
+    
+    await transaction.batchDeleteTasks(ids);
+    expect((await operations.getTask(blockedId))?.blockedBy).toEqual(ids);
+    
+    await operations.emptyTrash();
+    expect((await operations.getTask(blockedId))?.blockedBy).toEqual([]);
+  });
+  
   it('should acquire and release operation lock', async () => {
     let lockAcquired = false;
     
@@ -158,6 +176,90 @@ describe('Transaction Operations', () => {
     expect(result).toBe('Lock acquired after release');
   });
   
+  it('should use the Web Locks API for operation locks when available', async () => {
+    const request = vi.fn(
+      (_name: string, _options: LockOptions, callback: () => Promise<unknown>) => callback()
+    );
+    Object.defineProperty(navigator, 'locks', { configurable: true, value: { request } });
+
+    try {
+      const result = await transaction.withOperationLock('web-lock', async () => {
+        // settings テーブルにはロックの行を作らない
+        expect(await db.settings.get('lock:web-lock')).toBeUndefined();
+        return 'Locked by Web Locks';
+      });
+
+      expect(result).toBe('Locked by Web Locks');
+      expect(request).toHaveBeenCalledWith(
+        'todo-claude:lock:web-lock',
+        expect.anything(),
+        expect.any(Function)
+      );
+    } finally {
+      delete (navigator as { locks?: LockManager }).locks;
+    }
+  });
+  
+  it('should reclaim an expired lock left by another owner', async () => {
+    const now = Date.now();
+    await db.settings.put({
+      key: 'lock:stale-lock',
+      value: { owner: 'crashed-tab', acquiredAt: now - 60000, expiresAt: now - 30000 },
+    });
+    
+    const result = await transaction.withOperationLock('stale-lock', async () => {
+      const lock = await db.settings.get('lock:stale-lock');
+      expect((lock?.value as transaction.OperationLock).owner).toBe(transaction.LOCK_OWNER_ID);
+      return 'Reclaimed';
+    });
+    
+    expect(result).toBe('Reclaimed');
+    expect(await db.settings.get('lock:stale-lock')).toBeUndefined();
+  });
+  
+  it('should give up after the timeout without releasing a lock held by another owner', async () => {
+    const now = Date.now();
+    await db.settings.put({
+      key: 'lock:held-lock',
+      value: { owner: 'other-tab', acquiredAt: now, expiresAt: now + 60000 },
+    });
+    const retryDelay = vi.fn((attempt: number) => 10 * (attempt + 1));
+    const callback = vi.fn(async () => 'Should not run');
+    
+    await expect(
+      transaction.withOperationLock('held-lock', callback, { timeout: 100, retryDelay })
+    ).rejects.toThrow('Failed to acquire operation lock: held-lock');
+    
+    expect(callback).not.toHaveBeenCalled();
+    expect(retryDelay).toHaveBeenCalledWith(0);
+    expect(retryDelay).toHaveBeenCalledWith(1);
+    expect((await db.settings.get('lock:held-lock'))?.value).toMatchObject({ owner: 'other-tab' });
+  });
+  
+  it('should list held locks and reclaim the expired ones', async () => {
+    const now = Date.now();
+    await db.settings.bulkPut([
+      { key: 'lock:active', value: { owner: 'tab-a', acquiredAt: now, expiresAt: now + 1000 } },
+      { key: 'lock:expired', value: { owner: 'tab-b', acquiredAt: now - 2000, expiresAt: now - 1000 } },
+      { key: 'lock:legacy', value: now - transaction.DEFAULT_LOCK_TTL - 1000 },
+      { key: 'theme', value: 'dark' },
+    ]);
+    
+    const held = await transaction.getHeldLocks(now);
+    expect(held.map(lock => [lock.lockId, lock.owner, lock.expired])).toEqual([
+      ['active', 'tab-a', false],
+      ['expired', 'tab-b', true],
+      ['legacy', undefined, true],
+    ]);
+    
+    // ロックの行は書き出さない
+    const exported = await transaction.exportAllData();
+    expect(exported.settings.map(setting => setting.key)).toEqual(['theme']);
+    
+    expect(await transaction.reclaimExpiredLocks(now)).toEqual(['expired', 'legacy']);
+    expect((await transaction.getHeldLocks(now)).map(lock => lock.lockId)).toEqual(['active']);
+  });
+  
   it('should export and import all data', async () => {
     // テストデータの作成
     const categoryId = await operations.createCategory({
@@ -1,6 +1,7 @@
 import { db } from './index';
 import type { Table } from 'dexie';
 import type { Task, Category, Setting } from './index';
+import { isTrashed } from '../utils/trash';
 
 /**
  * 読み取り/書き込みトランザクションを実行する
@@ -104,9 +105,9 @@ export async function batchUpdateTasks(
     // トランザクション内で各タスクを更新
     for (const id of taskIds) {
       try {
-        // タスクが存在するかチェック
+        // タスクが存在するかチェック (ゴミ箱のタスクは更新しない)
         const exists = await db.tasks.get(id);
-        if (exists) {
+        if (exists && !isTrashed(exists)) {
           await db.tasks.update(id, { ...updates, updatedAt: Date.now() });
           updatedCount++;
         }
@@ -122,7 +123,7 @@ export async function batchUpdateTasks(
 }
 
 /**
- * 複数のタスクを一度に削除するバッチ操作
+ * 複数のタスクを一度にゴミ箱に移動するバッチ操作
  * @param taskIds 削除するタスクIDの配列
  * @returns 削除されたタスク数
  */
@@ -130,78 +131,235 @@ export async function batchDeleteTasks(taskIds: string[]): Promise<number> {
   if (taskIds.length === 0) return 0;
   
   return executeTransaction([db.tasks], async () => {
-    // タスクの存在確認
-    const existingTasks = await db.tasks
+    // 存在するタスクのみをゴミ箱に移動 (依存関係・サブタスクの親の参照は完全に削除するときに外す)
+    return db.tasks
       .where('id')
       .anyOf(taskIds)
-      .toArray();
-    
-    const existingIds = existingTasks.map(task => task.id!);
-    
-    // 存在するタスクのみを削除
-    await db.tasks.bulkDelete(existingIds);
-    
-    return existingIds.length;
+      .and(task => !isTrashed(task))
+      .modify({ deletedAt: Date.now() });
   });
 }
 
+// settings テーブルに保存するロックの行のキーの接頭辞
+export const LOCK_KEY_PREFIX = 'lock:';
+
+// Web Locks API のロック名の接頭辞
+const WEB_LOCK_PREFIX = 'todo-claude:lock:';
+
+// ロックの有効期間の既定値 (この時間を過ぎた行は保持者が落ちたとみなして回収する)
+export const DEFAULT_LOCK_TTL = 30 * 1000;
+
+// ロックの取得を待つ時間の既定値
+export const DEFAULT_LOCK_TIMEOUT = 5 * 1000;
+
+// このタブ・Service Worker のロックの保持者ID
+export const LOCK_OWNER_ID = crypto.randomUUID();
+
+// settings テーブルに保存するロックの値
+export interface OperationLock {
+  owner: string;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+// 保持中のロック (診断用)
+export interface HeldLock {
+  lockId: string;
+  // web-locks: Web Locks API / settings: settings テーブルの行
+  source: 'web-locks' | 'settings';
+  owner?: string;
+  acquiredAt?: number;
+  expiresAt?: number;
+  expired: boolean;
+}
+
+export interface OperationLockOptions {
+  // settings テーブルの行の有効期間 (ミリ秒)
+  ttl?: number;
+  // ロックの取得を待つ時間 (ミリ秒)。過ぎるとエラーになる
+  timeout?: number;
+  // settings テーブルの行を取得し直すまでの待ち時間 (attempt: 何回目の再試行か)
+  retryDelay?: number | ((attempt: number) => number);
+}
+
+/**
+ * settings の行がロックかどうか
+ * @param setting 設定の行
+ */
+export function isLockSetting(setting: Setting): boolean {
+  return setting.key.startsWith(LOCK_KEY_PREFIX);
+}
+
+// 保存されたロックの値を読む (以前の形式は取得時刻の数値だけを保存していた)
+function parseLock(value: unknown, ttl: number): OperationLock {
+  if (typeof value === 'number') {
+    return { owner: '', acquiredAt: value, expiresAt: value + ttl };
+  }
+  return value as OperationLock;
+}
+
+function getRetryDelay(retryDelay: OperationLockOptions['retryDelay'], attempt: number): number {
+  return typeof retryDelay === 'function' ? retryDelay(attempt) : (retryDelay ?? 50);
+}
+
 /**
  * データベース操作で冪等性（べきとうせい）を確保するためのロックを取得する
- * 同じIDに対する操作が同時に実行されることを防ぐ
+ * 同じIDに対する操作が、他のタブや Service Worker を含めて同時に実行されることを防ぐ
+ * Web Locks API を使えない環境では settings テーブルの行をロックに使う
  * @param lockId ロックの一意のID
  * @param callback ロック取得後に実行するコールバック関数
+ * @param options 有効期間・待ち時間
  * @returns コールバック関数の戻り値
  */
 export async function withOperationLock<T>(
   lockId: string,
-  callback: () => Promise<T>
+  callback: () => Promise<T>,
+  options: OperationLockOptions = {}
 ): Promise<T> {
-  const lockKey = `lock:${lockId}`;
-  
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return withWebLock(lockId, callback, options.timeout ?? DEFAULT_LOCK_TIMEOUT);
+  }
+  return withSettingsLock(lockId, callback, options);
+}
+
+/**
+ * Web Locks API でロックを取得する
+ * ロックを保持したタブが閉じた場合もブラウザが解放する
+ */
+async function withWebLock<T>(
+  lockId: string,
+  callback: () => Promise<T>,
+  timeout: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeout);
+
   try {
-    // ロックを取得
-    const acquireLock = async (): Promise<boolean> => {
-      try {
-        await db.settings.add({ key: lockKey, value: Date.now() });
-        return true;
-      } catch (error) {
-        // ロックが既に存在する場合
-        return false;
-      }
-    };
-    
-    // 最大10回ロック取得を試みる
-    let locked = false;
-    for (let i = 0; i < 10; i++) {
-      locked = await acquireLock();
-      if (locked) break;
-      
-      // ロックが取れなかった場合は少し待ってリトライ
-      await new Promise(resolve => setTimeout(resolve, 50));
-      
-      // 1秒以上経過したロックは強制解放
-      const lock = await db.settings.get(lockKey);
-      if (lock && (Date.now() - (lock.value as number)) > 1000) {
-        await db.settings.delete(lockKey);
+    return await navigator.locks.request(
+      `${WEB_LOCK_PREFIX}${lockId}`,
+      { signal: controller.signal },
+      () => {
+        clearTimeout(timer);
+        return callback();
       }
+    );
+  } catch (error) {
+    if (controller.signal.aborted && (error as Error).name === 'AbortError') {
+      throw new Error(`Failed to acquire operation lock: ${lockId}`);
     }
-    
-    if (!locked) {
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * settings テーブルの行を使ってロックを取得する (Web Locks API を使えない環境向け)
+ * 行には保持者と有効期限を保存し、期限を過ぎた行は他の保持者が回収できる
+ */
+async function withSettingsLock<T>(
+  lockId: string,
+  callback: () => Promise<T>,
+  { ttl = DEFAULT_LOCK_TTL, timeout = DEFAULT_LOCK_TIMEOUT, retryDelay }: OperationLockOptions
+): Promise<T> {
+  const lockKey = `${LOCK_KEY_PREFIX}${lockId}`;
+
+  // 行がないか期限切れの場合だけ、自分を保持者として書き込む
+  const acquireLock = () =>
+    db.transaction('rw', db.settings, async () => {
+      const current = await db.settings.get(lockKey);
+      const now = Date.now();
+      if (current && parseLock(current.value, ttl).expiresAt > now) {
+        return false;
+      }
+      const lock: OperationLock = { owner: LOCK_OWNER_ID, acquiredAt: now, expiresAt: now + ttl };
+      await db.settings.put({ key: lockKey, value: lock });
+      return true;
+    });
+
+  const deadline = Date.now() + timeout;
+  for (let attempt = 0; !(await acquireLock()); attempt++) {
+    const delay = getRetryDelay(retryDelay, attempt);
+    if (Date.now() + delay > deadline) {
       throw new Error(`Failed to acquire operation lock: ${lockId}`);
     }
-    
-    // ロックを取得できたらコールバックを実行
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  try {
     return await callback();
   } finally {
-    // 処理完了後に必ずロックを解放
+    // 自分が保持している場合だけ解放する (期限切れで回収された後の行は消さない)
     try {
-      await db.settings.delete(lockKey);
+      await db.transaction('rw', db.settings, async () => {
+        const current = await db.settings.get(lockKey);
+        if (current && parseLock(current.value, ttl).owner === LOCK_OWNER_ID) {
+          await db.settings.delete(lockKey);
+        }
+      });
     } catch (error) {
       console.error(`Failed to release operation lock ${lockId}:`, error);
     }
   }
 }
 
+/**
+ * 有効期限を過ぎたロックの行を削除する
+ * 保持したままタブが落ちた場合などに残った行を回収する
+ * @param now 現在時刻 (テスト用)
+ * @returns 削除したロックのID配列
+ */
+export async function reclaimExpiredLocks(now: number = Date.now()): Promise<string[]> {
+  return db.transaction('rw', db.settings, async () => {
+    const expired = (await getLockSettings()).filter(
+      setting => parseLock(setting.value, DEFAULT_LOCK_TTL).expiresAt <= now
+    );
+    await db.settings.bulkDelete(expired.map(setting => setting.key));
+    return expired.map(setting => setting.key.slice(LOCK_KEY_PREFIX.length));
+  });
+}
+
+/**
+ * 保持中のロックを取得する (診断用)
+ * Web Locks API のロックと settings テーブルの行の両方を返す
+ * @param now 現在時刻 (テスト用)
+ * @returns 保持中のロックの配列
+ */
+export async function getHeldLocks(now: number = Date.now()): Promise<HeldLock[]> {
+  const held: HeldLock[] = [];
+
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    const snapshot = await navigator.locks.query();
+    for (const lock of snapshot.held ?? []) {
+      if (!lock.name?.startsWith(WEB_LOCK_PREFIX)) continue;
+      held.push({
+        lockId: lock.name.slice(WEB_LOCK_PREFIX.length),
+        source: 'web-locks',
+        owner: lock.clientId,
+        expired: false,
+      });
+    }
+  }
+
+  for (const setting of await getLockSettings()) {
+    const lock = parseLock(setting.value, DEFAULT_LOCK_TTL);
+    held.push({
+      lockId: setting.key.slice(LOCK_KEY_PREFIX.length),
+      source: 'settings',
+      owner: lock.owner || undefined,
+      acquiredAt: lock.acquiredAt,
+      expiresAt: lock.expiresAt,
+      expired: lock.expiresAt <= now,
+    });
+  }
+
+  return held;
+}
+
+function getLockSettings(): Promise<Setting[]> {
+  return db.settings.where('key').startsWith(LOCK_KEY_PREFIX).toArray();
+}
+
 /**
  * データエクスポート用のトランザクション
  * すべてのデータを一貫性のある状態で取得する
@@ -214,7 +372,8 @@ export async function exportAllData(): Promise<{
   return executeReadOnlyTransaction([db.tasks, db.categories, db.settings], async () => {
     const tasks = await db.tasks.toArray();
     const categories = await db.categories.toArray();
-    const settings = await db.settings.toArray();
+    // 操作ロックの行は書き出さない
+    const settings = (await db.settings.toArray()).filter(setting => !isLockSetting(setting));
     
     return { tasks, categories, settings };
   });
@@ -1,7 +1,9 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { renderHook, act } from '@testing-library/react';
+import { renderHook, act, waitFor } from '@testing-library/react';
 import { useNotifications } from './useNotifications';
 import { useServiceWorker } from './useServiceWorker';
+import { useTabs } from '../store/useTabs';
+import { db } from '../db';
 
 // Mock dependencies
 vi.mock('./useServiceWorker');
@@ -19,7 +21,12 @@ describe('useNotifications', () => {
     requestPermission: vi.fn(() => Promise.resolve('granted' as NotificationPermission)),
   };
 
-  beforeEach(() => {
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.reminders.clear();
+    useTabs.setState({ isLeader: true });
+
     // Mock Notification API
     Object.defineProperty(global, 'Notification', {
       writable: true,
@@ -45,8 +52,11 @@ describe('useNotifications', () => {
     });
   });
 
-  afterEach(() => {
+  afterEach(async () => {
     vi.clearAllMocks();
+    mockNotification.permission = 'default';
+    await db.tasks.clear();
+    await db.reminders.clear();
   });
 
   it('should initialize with current notification permission', () => {
@@ -65,7 +75,7 @@ describe('useNotifications', () => {
     expect(mockNotification.requestPermission).toHaveBeenCalled();
   });
 
-  it('should schedule notification for task with due date', () => {
+  it('should schedule notification for task with due date', async () => {
     // Set permission to granted before creating the hook
     mockNotification.permission = 'granted';
     
@@ -95,19 +105,142 @@ describe('useNotifications', () => {
       updatedAt: Date.now(),
     };
 
-    result.current.scheduleNotification(mockTask);
+    await act(async () => {
+      await result.current.scheduleNotification(mockTask);
+    });
+
+    // リマインダーは IndexedDB に保存され、SW には再同期のみ依頼する
+    const reminder = await db.reminders.get(`${mockTask.id}:default`);
+    expect(reminder).toMatchObject({
+      taskId: mockTask.id,
+      title: mockTask.title,
+      dueAt: mockTask.dueAt,
+      fireAt: mockTask.dueAt - (15 * 60 * 1000), // 15 minutes before due
+    });
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'SYNC_REMINDERS' });
+  });
+
+  it('should schedule and cancel each task reminder separately', async () => {
+    mockNotification.permission = 'granted';
+
+    const mockPostMessage = vi.fn();
+    vi.mocked(useServiceWorker).mockReturnValue({
+      registration: { active: { postMessage: mockPostMessage } as any } as ServiceWorkerRegistration,
+      isOffline: false,
+      needRefresh: false,
+      offlineReady: false,
+      reloadPage: vi.fn(),
+    });
+
+    const { result } = renderHook(() => useNotifications());
+    const mockTask = {
+      id: 'multi-task',
+      title: 'Multi Reminder Task',
+      dueAt: Date.now() + 2 * 24 * 60 * 60 * 1000,
+      status: 'pending' as const,
+      reminders: [
+        { id: 'day', type: 'relative' as const, offsetMin: 24 * 60 },
+        { id: 'soon', type: 'relative' as const, offsetMin: 15 },
+      ],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
 
+    await act(async () => {
+      await result.current.scheduleNotification(mockTask);
+    });
+    expect(await db.reminders.where('taskId').equals('multi-task').count()).toBe(2);
+
+    await act(async () => {
+      await result.current.scheduleNotification({ ...mockTask, reminders: [mockTask.reminders[1]] });
+    });
+
+    expect(await db.reminders.get('multi-task:day')).toBeUndefined();
+    expect(await db.reminders.get('multi-task:soon')).toBeDefined();
     expect(mockPostMessage).toHaveBeenCalledWith({
-      type: 'SCHEDULE_NOTIFICATION',
-      payload: {
-        taskId: mockTask.id,
-        title: mockTask.title,
-        dueAt: mockTask.dueAt - (15 * 60 * 1000), // 15 minutes before due
-      },
+      type: 'CANCEL_NOTIFICATION',
+      reminderIds: ['multi-task:day'],
     });
   });
 
-  it('should cancel notification for task', () => {
+  it('should persist reminders even without an active service worker', async () => {
+    mockNotification.permission = 'granted';
+
+    const { result } = renderHook(() => useNotifications());
+    const mockTask = {
+      id: 'no-sw-task',
+      title: 'Test Task',
+      dueAt: Date.now() + 30 * 60 * 1000,
+      status: 'pending' as const,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    await act(async () => {
+      await result.current.scheduleNotification(mockTask);
+    });
+
+    expect(await db.reminders.get(`${mockTask.id}:default`)).toBeDefined();
+  });
+
+  it('should rebuild reminders from tasks when the app opens', async () => {
+    mockNotification.permission = 'granted';
+    const now = Date.now();
+    await db.tasks.add({
+      id: 'existing-task',
+      title: 'Existing Task',
+      dueAt: now + 60 * 60 * 1000,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const mockPostMessage = vi.fn();
+    const mockRegister = vi.fn(() => Promise.resolve());
+    vi.mocked(useServiceWorker).mockReturnValue({
+      registration: {
+        active: { postMessage: mockPostMessage } as any,
+        periodicSync: { register: mockRegister },
+      } as any,
+      isOffline: false,
+      needRefresh: false,
+      offlineReady: false,
+      reloadPage: vi.fn(),
+    });
+
+    renderHook(() => useNotifications());
+
+    await waitFor(() => {
+      expect(mockPostMessage).toHaveBeenCalledWith({ type: 'SYNC_REMINDERS' });
+    });
+    expect(await db.reminders.get('existing-task:default')).toBeDefined();
+    expect(mockRegister).toHaveBeenCalledWith('reminders', { minInterval: 15 * 60 * 1000 });
+  });
+
+  it('should leave reminders to the leader tab', async () => {
+    mockNotification.permission = 'granted';
+    useTabs.setState({ isLeader: false });
+    const now = Date.now();
+    const task = {
+      id: 'follower-task',
+      title: 'Follower Task',
+      dueAt: now + 60 * 60 * 1000,
+      status: 'pending' as const,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.tasks.add(task);
+
+    const { result } = renderHook(() => useNotifications());
+
+    await act(async () => {
+      await result.current.scheduleNotification(task);
+    });
+
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should cancel notification for task', async () => {
     const mockPostMessage = vi.fn();
     vi.mocked(useServiceWorker).mockReturnValue({
       registration: {
@@ -123,15 +256,29 @@ describe('useNotifications', () => {
 
     const { result } = renderHook(() => useNotifications());
     
-    result.current.cancelNotification('test-task');
+    await db.reminders.put({
+      id: 'test-task:default',
+      taskId: 'test-task',
+      reminderId: 'default',
+      title: 'Test Task',
+      dueAt: Date.now() + 60 * 60 * 1000,
+      fireAt: Date.now() + 45 * 60 * 1000,
+      createdAt: Date.now(),
+    });
+
+    await act(async () => {
+      await result.current.cancelNotification('test-task');
+    });
+
+    expect(await db.reminders.get('test-task:default')).toBeUndefined();
 
     expect(mockPostMessage).toHaveBeenCalledWith({
       type: 'CANCEL_NOTIFICATION',
-      taskId: 'test-task',
+      reminderIds: ['test-task:default'],
     });
   });
 
-  it('should snooze notification for task', () => {
+  it('should snooze notification for task', async () => {
     const mockPostMessage = vi.fn();
     vi.mocked(useServiceWorker).mockReturnValue({
       registration: {
@@ -155,15 +302,13 @@ describe('useNotifications', () => {
       updatedAt: Date.now(),
     };
 
-    result.current.snoozeNotification(mockTask);
-
-    expect(mockPostMessage).toHaveBeenCalledWith({
-      type: 'SCHEDULE_NOTIFICATION',
-      payload: {
-        taskId: mockTask.id,
-        title: mockTask.title,
-        dueAt: expect.any(Number), // Now + 5 minutes
-      },
+    await act(async () => {
+      await result.current.snoozeNotification(mockTask, 'test-task:default');
     });
+
+    const reminder = await db.reminders.get('test-task:default');
+    expect(reminder?.fireAt).toBeGreaterThan(Date.now() + 4 * 60 * 1000); // Now + 5 minutes
+    expect(reminder?.fireAt).toBeLessThanOrEqual(Date.now() + 5 * 60 * 1000);
+    expect(mockPostMessage).toHaveBeenCalledWith({ type: 'SYNC_REMINDERS' });
   });
 });
\ No newline at end of file
@@ -1,12 +1,27 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useServiceWorker } from './useServiceWorker';
 import { useSettings } from '../store/useSettings';
+import { useTabs } from '../store/useTabs';
+import {
+  cancelTaskReminders,
+  getTaskReminders,
+  rebuildReminders,
+  scheduleTaskReminders,
+  snoozeReminder,
+} from '../db';
 import type { Task } from '../db';
+import { REMINDER_SYNC_TAG } from '../sw/reminder-scheduler';
+import type { ExtendedServiceWorkerRegistration } from '../sw/service-worker';
+
+// Periodic Background Sync の最小間隔 (ブラウザ側でさらに間引かれる)
+const REMINDER_SYNC_INTERVAL = 15 * 60 * 1000;
 
 export function useNotifications() {
   const [permission, setPermission] = useState<NotificationPermission>('default');
   const { registration } = useServiceWorker();
   const { notifyBeforeMin, snoozeMin } = useSettings();
+  // リマインダーの予約は代表のタブだけが行う (他のタブの変更は useReminderSync が反映する)
+  const isLeader = useTabs((state) => state.isLeader);
 
   useEffect(() => {
     if ('Notification' in window) {
@@ -23,52 +38,65 @@ export function useNotifications() {
     return 'denied';
   };
 
-  const scheduleNotification = (task: Task) => {
-    if (!registration?.active || permission !== 'granted' || !task.dueAt) {
+  // リマインダーは IndexedDB に保存し、SW には再同期だけを依頼する
+  const syncServiceWorker = useCallback(() => {
+    registration?.active?.postMessage({ type: 'SYNC_REMINDERS' });
+  }, [registration]);
+
+  // アプリ起動時 (代表のタブになったとき) に既存タスクからリマインダーを再構築
+  useEffect(() => {
+    if (permission !== 'granted' || !isLeader) return;
+
+    const restore = async () => {
+      try {
+        await rebuildReminders(notifyBeforeMin);
+        syncServiceWorker();
+        await (registration as ExtendedServiceWorkerRegistration | null)?.periodicSync?.register(
+          REMINDER_SYNC_TAG,
+          { minInterval: REMINDER_SYNC_INTERVAL }
+        );
+      } catch (error) {
+        // Periodic Background Sync はインストール済み PWA でのみ許可される
+        console.warn('Failed to restore reminders:', error);
+      }
+    };
+
+    restore();
+  }, [permission, isLeader, notifyBeforeMin, registration, syncServiceWorker]);
+
+  // タスクの各リマインダーを個別に予約し、不要になったものは取り消す
+  const scheduleNotification = async (task: Task) => {
+    if (permission !== 'granted' || !isLeader || !task.id) {
       return;
     }
 
-    const notificationTime = task.dueAt - (notifyBeforeMin * 60 * 1000);
-    
-    if (notificationTime > Date.now()) {
-      registration.active.postMessage({
-        type: 'SCHEDULE_NOTIFICATION',
-        payload: {
-          taskId: task.id,
-          title: task.title,
-          dueAt: notificationTime,
-        },
-      });
+    const existing = await getTaskReminders(task.id);
+    const scheduled = await scheduleTaskReminders(task, notifyBeforeMin);
+    const removed = existing
+      .filter(reminder => !scheduled.some(({ id }) => id === reminder.id))
+      .map(reminder => reminder.id);
+
+    if (removed.length > 0) {
+      registration?.active?.postMessage({ type: 'CANCEL_NOTIFICATION', reminderIds: removed });
     }
+    syncServiceWorker();
   };
 
-  const cancelNotification = (taskId: string) => {
-    if (!registration?.active) {
-      return;
-    }
+  const cancelNotification = async (taskId: string) => {
+    if (!isLeader) return;
+
+    const reminderIds = await cancelTaskReminders(taskId);
 
-    registration.active.postMessage({
+    registration?.active?.postMessage({
       type: 'CANCEL_NOTIFICATION',
-      taskId,
+      reminderIds,
     });
   };
 
-  const snoozeNotification = (task: Task) => {
-    if (!registration?.active || !task.dueAt) {
-      return;
-    }
-
+  const snoozeNotification = async (task: Task, reminderId?: string) => {
     // Reschedule notification for snoozeMin minutes from now
-    const snoozeTime = Date.now() + (snoozeMin * 60 * 1000);
-    
-    registration.active.postMessage({
-      type: 'SCHEDULE_NOTIFICATION',
-      payload: {
-        taskId: task.id,
-        title: task.title,
-        dueAt: snoozeTime,
-      },
-    });
+    await snoozeReminder(task, reminderId, snoozeMin);
+    syncServiceWorker();
   };
 
   // Listen for messages from service worker
@@ -78,13 +106,8 @@ export function useNotifications() {
     const handleMessage = (event: MessageEvent) => {
       const { type, taskId } = event.data;
       
-      if (type === 'COMPLETE_TASK') {
-        // This will be handled by the main app
-        window.dispatchEvent(new CustomEvent('completeTask', { detail: { taskId } }));
-      } else if (type === 'SNOOZE_TASK') {
-        // This will be handled by the main app
-        window.dispatchEvent(new CustomEvent('snoozeTask', { detail: { taskId } }));
-      } else if (type === 'FOCUS_TASK') {
+      // 完了・スヌーズは Service Worker 内で処理される (useTaskSync が再読み込みする)
+      if (type === 'FOCUS_TASK') {
         // This will be handled by the main app
         window.dispatchEvent(new CustomEvent('focusTask', { detail: { taskId } }));
       }
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { useReminderSync } from './useReminderSync';
+import { useTabs } from '../store/useTabs';
+import { db } from '../db';
+
+describe('useReminderSync', () => {
+  const postMessage = vi.fn();
+
+  const addTask = (id: string) => {
+    const now = Date.now();
+    return db.tasks.add({
+      id,
+      title: 'Task',
+      dueAt: now + 60 * 60 * 1000,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+    });
+  };
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.reminders.clear();
+
+    Object.defineProperty(global, 'Notification', {
+      writable: true,
+      value: { permission: 'granted' },
+    });
+    Object.defineProperty(navigator, 'serviceWorker', {
+      writable: true,
+      value: { controller: { postMessage } },
+    });
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    useTabs.setState({ isLeader: false });
+    await db.tasks.clear();
+    await db.reminders.clear();
+  });
+
+  it('should schedule reminders of changed tasks in the leader tab', async () => {
+    useTabs.setState({ isLeader: true });
+    renderHook(() => useReminderSync());
+
+    await addTask('changed-task');
+
+    await waitFor(() => {
+      expect(postMessage).toHaveBeenCalledWith({ type: 'SYNC_REMINDERS' });
+    });
+    expect(await db.reminders.get('changed-task:default')).toBeDefined();
+
+    await db.tasks.update('changed-task', { status: 'done' });
+
+    await waitFor(() => {
+      expect(postMessage).toHaveBeenCalledWith({
+        type: 'CANCEL_NOTIFICATION',
+        reminderIds: ['changed-task:default'],
+      });
+    });
+  });
+
+  it('should not schedule reminders in other tabs', async () => {
+    renderHook(() => useReminderSync());
+
+    await addTask('follower-task');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(await db.reminders.count()).toBe(0);
+    expect(postMessage).not.toHaveBeenCalled();
+  });
+});
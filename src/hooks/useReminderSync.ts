@@ -0,0 +1,32 @@
+import { useEffect } from 'react';
+import { useTabs } from '../store/useTabs';
+import { useSettings } from '../store/useSettings';
+import { onTasksChanged, syncTaskReminders } from '../db';
+
+/**
+ * 代表のタブで、変更されたタスクのリマインダーを予約し直す
+ * このタブ・他のタブ・Service Worker のどこで変更されても、予約するのは代表のタブだけにする
+ */
+export function useReminderSync() {
+  const isLeader = useTabs((state) => state.isLeader);
+  const notifyBeforeMin = useSettings((state) => state.notifyBeforeMin);
+
+  useEffect(() => {
+    if (!isLeader) return;
+
+    return onTasksChanged(async (taskIds) => {
+      if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+      try {
+        const reminderIds = await syncTaskReminders(taskIds, notifyBeforeMin);
+        const controller = navigator.serviceWorker?.controller;
+        if (reminderIds.length > 0) {
+          controller?.postMessage({ type: 'CANCEL_NOTIFICATION', reminderIds });
+        }
+        controller?.postMessage({ type: 'SYNC_REMINDERS' });
+      } catch (error) {
+        console.error('Failed to sync reminders:', error);
+      }
+    });
+  }, [isLeader, notifyBeforeMin]);
+}
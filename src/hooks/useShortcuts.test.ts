@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { renderHook, fireEvent } from '@testing-library/react';
+import { useShortcuts } from './useShortcuts';
+import { DEFAULT_SHORTCUTS, SHORTCUT_SEQUENCE_TIMEOUT } from '../utils/shortcuts';
+
+describe('useShortcuts', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  it('should run the handler of a single-key shortcut', () => {
+    const newTask = vi.fn();
+    renderHook(() => useShortcuts(DEFAULT_SHORTCUTS, { newTask }));
+
+    fireEvent.keyDown(document.body, { key: 'n' });
+
+    expect(newTask).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run sequences typed within the timeout', () => {
+    vi.useFakeTimers();
+    const goHome = vi.fn();
+    const goSettings = vi.fn();
+    renderHook(() => useShortcuts(DEFAULT_SHORTCUTS, { goHome, goSettings }));
+
+    fireEvent.keyDown(document.body, { key: 'g' });
+    fireEvent.keyDown(document.body, { key: 'h' });
+    expect(goHome).toHaveBeenCalledTimes(1);
+
+    fireEvent.keyDown(document.body, { key: 'g' });
+    vi.advanceTimersByTime(SHORTCUT_SEQUENCE_TIMEOUT);
+    fireEvent.keyDown(document.body, { key: 's' });
+    expect(goSettings).not.toHaveBeenCalled();
+  });
+
+  it('should only accept shortcuts with modifiers while typing', () => {
+    const newTask = vi.fn();
+    const commandPalette = vi.fn();
+    renderHook(() => useShortcuts(DEFAULT_SHORTCUTS, { newTask, commandPalette }));
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    fireEvent.keyDown(input, { key: 'n' });
+    fireEvent.keyDown(input, { key: 'k', ctrlKey: true });
+
+    expect(newTask).not.toHaveBeenCalled();
+    expect(commandPalette).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave undo and redo to the browser while typing', () => {
+    const undo = vi.fn();
+    const redo = vi.fn();
+    renderHook(() => useShortcuts(DEFAULT_SHORTCUTS, { undo, redo }));
+    const input = document.createElement('input');
+    document.body.appendChild(input);
+
+    fireEvent.keyDown(input, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(document.body, { key: 'z', ctrlKey: true });
+    fireEvent.keyDown(document.body, { key: 'Z', ctrlKey: true, shiftKey: true });
+
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).toHaveBeenCalledTimes(1);
+  });
+
+  it('should use the latest bindings', () => {
+    const newTask = vi.fn();
+    const { rerender } = renderHook(({ bindings }) => useShortcuts(bindings, { newTask }), {
+      initialProps: { bindings: DEFAULT_SHORTCUTS },
+    });
+
+    rerender({ bindings: { ...DEFAULT_SHORTCUTS, newTask: 'mod+n' } });
+    fireEvent.keyDown(document.body, { key: 'n' });
+    fireEvent.keyDown(document.body, { key: 'n', metaKey: true });
+
+    expect(newTask).toHaveBeenCalledTimes(1);
+  });
+});
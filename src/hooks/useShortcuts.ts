@@ -0,0 +1,77 @@
+import { useEffect, useRef } from 'react';
+import {
+  SHORTCUT_SEQUENCE_TIMEOUT,
+  TEXT_EDITING_ACTIONS,
+  getKeyStroke,
+  isEditableTarget,
+  matchShortcut,
+  type ShortcutAction,
+  type ShortcutBindings,
+} from '../utils/shortcuts';
+
+export type ShortcutHandlers = Partial<Record<ShortcutAction, () => void>>;
+
+/**
+ * ウィンドウ全体のキーボードショートカットを登録する
+ * 文字入力中やダイアログ内では、修飾キー (Ctrl / ⌘) を伴うショートカットのみ受け付ける
+ * (元に戻す・やり直すはブラウザの文字の取り消しを優先して受け付けない)
+ * @param bindings キー割り当て
+ * @param handlers 操作ごとの処理
+ */
+export function useShortcuts(bindings: ShortcutBindings, handlers: ShortcutHandlers) {
+  // 描画のたびに登録し直さないよう、最新の処理を参照で持つ
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    let strokes: string[] = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const reset = () => {
+      strokes = [];
+      clearTimeout(timer);
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.defaultPrevented || event.isComposing) return;
+
+      const stroke = getKeyStroke(event);
+      if (!stroke) return;
+      const editable = isEditableTarget(event.target);
+      if (editable && !stroke.startsWith('mod+')) {
+        reset();
+        return;
+      }
+
+      let result = matchShortcut(bindings, [...strokes, stroke]);
+      // 途中まで一致していた打鍵が続かなかった場合は、今回の打鍵だけで探し直す
+      if (!result && strokes.length > 0) {
+        result = matchShortcut(bindings, [stroke]);
+        strokes = [];
+      }
+
+      if (result === 'partial') {
+        event.preventDefault();
+        strokes.push(stroke);
+        clearTimeout(timer);
+        timer = setTimeout(reset, SHORTCUT_SEQUENCE_TIMEOUT);
+        return;
+      }
+
+      reset();
+      if (editable && result && TEXT_EDITING_ACTIONS.includes(result)) return;
+      const handler = result && handlersRef.current[result];
+      if (handler) {
+        event.preventDefault();
+        handler();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      reset();
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [bindings]);
+}
@@ -0,0 +1,46 @@
+import { useEffect } from 'react';
+import { useTasks } from '../store/useTasks';
+import { useCategories } from '../store/useCategories';
+import { useSettings } from '../store/useSettings';
+import { useTabs } from '../store/useTabs';
+
+/**
+ * データベースの変更をストアに反映する
+ * 他の画面・タブや Service Worker の書き込みも Dexie の liveQuery で受け取る
+ * あわせて、通知の予約を担当する代表のタブの選出に参加する
+ */
+export function useTaskSync() {
+  const load = useTasks((state) => state.load);
+  const subscribeTasks = useTasks((state) => state.subscribe);
+  const subscribeCategories = useCategories((state) => state.subscribe);
+  const subscribeSettings = useSettings((state) => state.subscribe);
+  const startTabs = useTabs((state) => state.start);
+
+  useEffect(() => {
+    const unsubscribes = [subscribeTasks(), subscribeCategories(), subscribeSettings()];
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [subscribeTasks, subscribeCategories, subscribeSettings]);
+
+  useEffect(() => startTabs(), [startTabs]);
+
+  // 通知アクション (完了・スヌーズ) の書き込みは SW から知らせを受けても読み直す
+  // (BroadcastChannel を使えず、liveQuery に変更が届かない環境向け)
+  useEffect(() => {
+    if (!navigator.serviceWorker) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === 'TASKS_CHANGED') {
+        load();
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+
+    return () => {
+      navigator.serviceWorker.removeEventListener('message', handleMessage);
+    };
+  }, [load]);
+}
@@ -1,14 +1,16 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, within } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { AllTasksPage } from './AllTasksPage';
 import { useTasks } from '@/store/useTasks';
 import { useCategories } from '@/store/useCategories';
+import { useNotifications } from '@/hooks/useNotifications';
 import type { Task, Category } from '@/db';
 
 // Mock dependencies
 vi.mock('@/store/useTasks');
 vi.mock('@/store/useCategories');
+vi.mock('@/hooks/useNotifications');
 
 const mockTasks: Task[] = [
   {
@@ -24,6 +26,7 @@ const mockTasks: Task[] = [
     id: '2',
     title: 'Done Task',
     status: 'done',
+    priority: 1,
     createdAt: new Date('2023-01-02').getTime(),
     updatedAt: new Date('2023-01-02').getTime(),
     categoryId: 'cat-2',
@@ -32,6 +35,8 @@ const mockTasks: Task[] = [
     id: '3',
     title: 'Archived Task',
     status: 'archived',
+    priority: 3,
+    notes: '請求書は **経理** に提出する',
     createdAt: new Date('2023-01-03').getTime(),
     updatedAt: new Date('2023-01-03').getTime(),
   },
@@ -48,7 +53,15 @@ const mockUseTasks = {
   load: vi.fn(),
   update: vi.fn(),
   remove: vi.fn(),
+  updateMany: vi.fn(),
+  removeMany: vi.fn(),
   toggleStatus: vi.fn(),
+  updateSeries: vi.fn(),
+};
+
+const mockUseNotifications = {
+  scheduleNotification: vi.fn(),
+  cancelNotification: vi.fn(),
 };
 
 const mockUseCategories = {
@@ -65,6 +78,11 @@ describe('AllTasksPage', () => {
     vi.clearAllMocks();
     vi.mocked(useTasks).mockReturnValue(mockUseTasks as any);
     vi.mocked(useCategories).mockReturnValue(mockUseCategories as any);
+    vi.mocked(useNotifications).mockReturnValue(mockUseNotifications as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
   });
 
   it('should render page and load data', () => {
@@ -126,6 +144,42 @@ describe('AllTasksPage', () => {
     expect(screen.queryByText('Archived Task')).not.toBeInTheDocument();
   });
 
+  it('should search tasks by notes', () => {
+    renderWithRouter(<AllTasksPage />);
+    
+    fireEvent.change(screen.getByPlaceholderText('タスクを検索...'), { target: { value: '経理' } });
+    
+    expect(screen.queryByText('Pending Task')).not.toBeInTheDocument();
+    expect(screen.getByText('Archived Task')).toBeInTheDocument();
+  });
+
+  it('should filter tasks by tags with AND or OR', () => {
+    vi.mocked(useTasks).mockReturnValue({
+      ...mockUseTasks,
+      tasks: [
+        { ...mockTasks[0], tags: ['call', 'waiting'] },
+        { ...mockTasks[1], tags: ['call'] },
+        { ...mockTasks[2], tags: ['errand'] },
+      ],
+    } as any);
+    renderWithRouter(<AllTasksPage />);
+    
+    fireEvent.click(screen.getByRole('button', { name: '#call (2)' }));
+    fireEvent.click(screen.getByRole('button', { name: '#waiting (1)' }));
+    
+    expect(screen.getByRole('button', { name: '#call (2)' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('Pending Task')).toBeInTheDocument();
+    expect(screen.queryByText('Done Task')).not.toBeInTheDocument();
+    expect(screen.queryByText('Archived Task')).not.toBeInTheDocument();
+    
+    fireEvent.click(screen.getByRole('combobox', { name: 'タグの条件' }));
+    fireEvent.click(screen.getByRole('option', { name: 'いずれかを含む (OR)' }));
+    
+    expect(screen.getByText('Pending Task')).toBeInTheDocument();
+    expect(screen.getByText('Done Task')).toBeInTheDocument();
+    expect(screen.queryByText('Archived Task')).not.toBeInTheDocument();
+  });
+
   it('should sort tasks', () => {
     renderWithRouter(<AllTasksPage />);
     
@@ -144,6 +198,34 @@ describe('AllTasksPage', () => {
     expect(allTasks[2]).toHaveTextContent('Archived Task'); // A comes first in reverse
   });
 
+  it('should filter tasks by priority', () => {
+    renderWithRouter(<AllTasksPage />);
+    
+    const priorityLabel = screen.getByText('優先度');
+    fireEvent.click(priorityLabel.nextElementSibling!);
+    fireEvent.click(screen.getByRole('option', { name: 'P1 (最優先)' }));
+    
+    expect(screen.getByText('Done Task')).toBeInTheDocument();
+    expect(screen.queryByText('Pending Task')).not.toBeInTheDocument();
+    expect(screen.queryByText('Archived Task')).not.toBeInTheDocument();
+  });
+
+  it('should sort tasks by priority with the highest first', () => {
+    renderWithRouter(<AllTasksPage />);
+    
+    fireEvent.click(screen.getByText('並び順').nextElementSibling!);
+    fireEvent.click(screen.getByRole('option', { name: '優先度' }));
+    
+    // 優先度が未設定のタスクは P4 として扱う
+    const allTasks = Array.from(document.querySelectorAll('[id^="task-"]'));
+    expect(allTasks.map(task => task.querySelector('h3')?.textContent)).toEqual([
+      'Done Task',
+      'Archived Task',
+      'Pending Task',
+    ]);
+    expect(screen.getByLabelText('優先度 P1')).toBeInTheDocument();
+  });
+
   it('should toggle sort order', () => {
     renderWithRouter(<AllTasksPage />);
     
@@ -186,9 +268,7 @@ describe('AllTasksPage', () => {
     fireEvent.click(archiveButton);
     
     await waitFor(() => {
-      expect(mockUseTasks.update).toHaveBeenCalled();
-      const calledArgs = mockUseTasks.update.mock.calls[0];
-      expect(calledArgs[1]).toEqual({ status: 'archived' });
+      expect(mockUseTasks.updateMany).toHaveBeenCalledWith([expect.any(String)], { status: 'archived' });
     });
   });
 
@@ -204,10 +284,10 @@ describe('AllTasksPage', () => {
     const deleteButton = screen.getByText('削除');
     fireEvent.click(deleteButton);
     
-    expect(confirmSpy).toHaveBeenCalledWith('1件のタスクを削除しますか？この操作は取り消せません。');
+    expect(confirmSpy).toHaveBeenCalledWith('1件のタスクをゴミ箱に移動しますか？');
     
     await waitFor(() => {
-      expect(mockUseTasks.remove).toHaveBeenCalled();
+      expect(mockUseTasks.removeMany).toHaveBeenCalledWith([expect.any(String)]);
     });
     
     confirmSpy.mockRestore();
@@ -226,7 +306,7 @@ describe('AllTasksPage', () => {
     fireEvent.click(deleteButton);
     
     expect(confirmSpy).toHaveBeenCalled();
-    expect(mockUseTasks.remove).not.toHaveBeenCalled();
+    expect(mockUseTasks.removeMany).not.toHaveBeenCalled();
     
     confirmSpy.mockRestore();
   });
@@ -240,6 +320,38 @@ describe('AllTasksPage', () => {
     expect(screen.getByRole('dialog')).toBeInTheDocument();
   });
 
+  it('should reset the task form when opening another task', async () => {
+    renderWithRouter(<AllTasksPage />);
+
+    fireEvent.click(screen.getByText('Pending Task'));
+    expect(screen.getByDisplayValue('Pending Task')).toBeInTheDocument();
+
+    fireEvent.keyDown(screen.getByRole('dialog'), { key: 'Escape' });
+    await waitFor(() => expect(screen.queryByRole('dialog')).not.toBeInTheDocument());
+
+    fireEvent.click(screen.getByText('Done Task'));
+    expect(screen.getByDisplayValue('Done Task')).toBeInTheDocument();
+  });
+
+  it('should offer to complete open subtasks with the parent', () => {
+    const subtask: Task = { ...mockTasks[0], id: '4', title: 'Subtask', parentId: '1' };
+    vi.mocked(useTasks).mockReturnValue({
+      ...mockUseTasks,
+      tasks: [...mockTasks, subtask],
+    } as any);
+    renderWithRouter(<AllTasksPage />);
+    
+    const card = screen.getByText('Pending Task').closest<HTMLElement>('[data-task-id]')!;
+    fireEvent.click(within(card).getByRole('checkbox'));
+    
+    expect(mockUseTasks.toggleStatus).not.toHaveBeenCalled();
+    expect(screen.getByText('未完了のサブタスクが1件あります。一緒に完了にしますか？')).toBeInTheDocument();
+    
+    fireEvent.click(screen.getByRole('button', { name: 'サブタスクもすべて完了' }));
+    
+    expect(mockUseTasks.toggleStatus).toHaveBeenCalledWith('1', { includeSubtasks: true });
+  });
+
   it('should show loading state', () => {
     vi.mocked(useTasks).mockReturnValue({
       ...mockUseTasks,
@@ -265,6 +377,47 @@ describe('AllTasksPage', () => {
     expect(screen.getByText('条件に一致するタスクがありません')).toBeInTheDocument();
   });
 
+  it('should show tasks on the month calendar', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2023-01-15T12:00:00'));
+
+    renderWithRouter(<AllTasksPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: '月' }));
+
+    expect(screen.getByText('2023年1月')).toBeInTheDocument();
+    expect(screen.getByRole('gridcell', { name: '1月10日' })).toHaveTextContent('Pending Task');
+    // 期日のないタスクは表示しない
+    expect(screen.queryByText('Done Task')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: '次の月' }));
+
+    expect(screen.getByText('2023年2月')).toBeInTheDocument();
+  });
+
+  it('should move a task to another day by dragging on the week calendar', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2023-01-10T12:00:00'));
+
+    renderWithRouter(<AllTasksPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: '週' }));
+    fireEvent.dragStart(screen.getByRole('button', { name: 'Pending Task' }), {
+      dataTransfer: { setData: vi.fn() },
+    });
+    fireEvent.drop(screen.getByRole('gridcell', { name: '1月12日' }), {
+      dataTransfer: { getData: () => '1' },
+    });
+
+    const dueAt = new Date('2023-01-12').getTime();
+    await waitFor(() => {
+      expect(mockUseTasks.update).toHaveBeenCalledWith('1', { dueAt });
+      expect(mockUseNotifications.scheduleNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ id: '1', dueAt })
+      );
+    });
+  });
+
   it('should show empty state without search', () => {
     vi.mocked(useTasks).mockReturnValue({
       ...mockUseTasks,
@@ -1,8 +1,10 @@
 import { useEffect, useState } from 'react';
-import { Archive, Search, SortAsc, Trash2 } from 'lucide-react';
+import { Archive, CalendarDays, CalendarRange, List, Search, SortAsc, Tag, Trash2 } from 'lucide-react';
 import { Navbar } from '@/components/Navbar';
 import { TaskCard } from '@/components/TaskCard';
 import { TaskForm } from '@/components/TaskForm';
+import { CompleteSubtasksDialog } from '@/components/CompleteSubtasksDialog';
+import { TaskCalendar } from '@/components/TaskCalendar';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -16,29 +18,73 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useTasks } from '@/store/useTasks';
 import { useCategories } from '@/store/useCategories';
-import type { Task } from '@/db';
+import { useNotifications } from '@/hooks/useNotifications';
+import type { RecurrenceScope, Task } from '@/db';
+import type { CalendarView } from '@/utils/calendar';
+import { PRIORITY_LABELS, TASK_PRIORITIES, compareTaskPriority, getTaskPriority } from '@/utils/priority';
+import { getOpenSubtasks } from '@/utils/subtasks';
+import { getTagCounts, matchesTagFilter, type TagMatchMode } from '@/utils/tags';
 
 type FilterStatus = 'all' | 'pending' | 'done' | 'archived';
-type SortBy = 'createdAt' | 'dueAt' | 'title' | 'status';
+type SortBy = 'createdAt' | 'dueAt' | 'title' | 'status' | 'priority';
+type ViewMode = 'list' | CalendarView;
+
+const VIEW_MODES: {
+  value: ViewMode;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+}[] = [
+  { value: 'list', label: 'リスト', icon: List },
+  { value: 'month', label: '月', icon: CalendarDays },
+  { value: 'week', label: '週', icon: CalendarRange },
+];
 
 export function AllTasksPage() {
-  const { tasks, loading, load, update, remove, toggleStatus } = useTasks();
+  const {
+    tasks,
+    loading,
+    load,
+    update,
+    remove,
+    updateMany,
+    removeMany,
+    toggleStatus,
+    updateSeries,
+    removeSeries,
+    promoteChecklistItem,
+  } = useTasks();
   const { categories, load: loadCategories } = useCategories();
+  const { scheduleNotification, cancelNotification } = useNotifications();
   
+  const [viewMode, setViewMode] = useState<ViewMode>('list');
+  const [calendarDate, setCalendarDate] = useState(() => Date.now());
   const [searchQuery, setSearchQuery] = useState('');
   const [filterStatus, setFilterStatus] = useState<FilterStatus>('all');
   const [filterCategory, setFilterCategory] = useState<string>('all');
+  const [filterPriority, setFilterPriority] = useState<string>('all');
+  const [filterTags, setFilterTags] = useState<string[]>([]);
+  const [tagMode, setTagMode] = useState<TagMatchMode>('and');
   const [sortBy, setSortBy] = useState<SortBy>('createdAt');
   const [sortAsc, setSortAsc] = useState(false);
   const [selectedTasks, setSelectedTasks] = useState<Set<string>>(new Set());
   const [editingTask, setEditingTask] = useState<Task | undefined>();
   const [taskFormOpen, setTaskFormOpen] = useState(false);
+  // 開くたびにフォームの入力内容を初期化する
+  const [formKey, setFormKey] = useState(0);
+  // 未完了のサブタスクがあるため、完了の範囲を確認中のタスク
+  const [completingTask, setCompletingTask] = useState<Task | undefined>();
   
   useEffect(() => {
     load();
     loadCategories();
   }, [load, loadCategories]);
   
+  const tagCounts = getTagCounts(tasks);
+  
+  const toggleFilterTag = (tag: string) => {
+    setFilterTags(filterTags.includes(tag) ? filterTags.filter(t => t !== tag) : [...filterTags, tag]);
+  };
+  
   // フィルタリングとソート
   const filteredAndSortedTasks = tasks
     .filter(task => {
@@ -52,11 +98,23 @@ export function AllTasksPage() {
         return false;
       }
       
+      // 優先度フィルター
+      if (filterPriority !== 'all' && getTaskPriority(task) !== Number(filterPriority)) {
+        return false;
+      }
+      
+      // タグフィルター
+      if (!matchesTagFilter(task, filterTags, tagMode)) {
+        return false;
+      }
+      
       // 検索フィルター
       if (searchQuery) {
         const query = searchQuery.toLowerCase();
         return (
           task.title.toLowerCase().includes(query) ||
+          task.notes?.toLowerCase().includes(query) ||
+          task.tags?.some(tag => tag.includes(query.replace(/^#/, ''))) ||
           task.checklist?.some(item => item.text.toLowerCase().includes(query))
         );
       }
@@ -76,6 +134,10 @@ export function AllTasksPage() {
         case 'status':
           compareValue = a.status.localeCompare(b.status);
           break;
+        case 'priority':
+          // 降順で優先度の高い (P1) タスクが先になるようにする
+          compareValue = compareTaskPriority(b, a);
+          break;
         case 'createdAt':
         default:
           compareValue = a.createdAt - b.createdAt;
@@ -107,35 +169,64 @@ export function AllTasksPage() {
   
   // 一括アーカイブ
   const archiveSelected = async () => {
-    for (const taskId of selectedTasks) {
-      await update(taskId, { status: 'archived' });
-    }
+    await updateMany([...selectedTasks], { status: 'archived' });
     setSelectedTasks(new Set());
   };
   
   // 一括削除
   const deleteSelected = async () => {
-    if (!confirm(`${selectedTasks.size}件のタスクを削除しますか？この操作は取り消せません。`)) {
+    if (!confirm(`${selectedTasks.size}件のタスクをゴミ箱に移動しますか？`)) {
       return;
     }
     
-    for (const taskId of selectedTasks) {
-      await remove(taskId);
-    }
+    await removeMany([...selectedTasks]);
     setSelectedTasks(new Set());
   };
   
+  // 未完了のサブタスクがある場合は一緒に完了にするか確認する
+  const handleToggle = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (task?.status === 'pending' && getOpenSubtasks(id, tasks).length > 0) {
+      setCompletingTask(task);
+      return;
+    }
+    toggleStatus(id);
+  };
+  
   const openTaskForm = (task?: Task) => {
     setEditingTask(task);
+    setFormKey(key => key + 1);
     setTaskFormOpen(true);
   };
   
-  const handleTaskSubmit = async (taskData: Partial<Task>) => {
-    if (editingTask?.id) {
+  const handleTaskSubmit = async (taskData: Partial<Task>, scope?: RecurrenceScope) => {
+    if (editingTask?.id && scope) {
+      await updateSeries(editingTask.id, taskData, scope);
+    } else if (editingTask?.id) {
       await update(editingTask.id, taskData);
     }
   };
   
+  // カレンダーでドラッグしたタスクの期日を変更し、通知を再設定する
+  const moveTask = async (task: Task, dueAt: number) => {
+    let movedTasks: Task[];
+    if (task.repeatRule) {
+      // 繰り返しタスクはこの回のみ移動し、元の日付を繰り返しから除外する
+      movedTasks = await updateSeries(task.id!, { dueAt }, 'this');
+    } else {
+      await update(task.id!, { dueAt });
+      movedTasks = [{ ...task, dueAt }];
+    }
+
+    movedTasks.forEach(movedTask => {
+      if (movedTask.status === 'pending') {
+        scheduleNotification(movedTask);
+      } else {
+        cancelNotification(movedTask.id!);
+      }
+    });
+  };
+  
   if (loading) {
     return <div className="flex h-screen items-center justify-center">読み込み中...</div>;
   }
@@ -147,7 +238,23 @@ export function AllTasksPage() {
       <div className="flex-1 overflow-y-auto">
         <div className="container max-w-6xl mx-auto p-4">
           <div className="mb-6">
-            <h1 className="text-2xl font-bold mb-4">全タスク</h1>
+            <div className="flex items-center justify-between mb-4">
+              <h1 className="text-2xl font-bold">全タスク</h1>
+              <div className="flex gap-1" role="group" aria-label="表示切り替え">
+                {VIEW_MODES.map(({ value, label, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    variant={viewMode === value ? 'default' : 'outline'}
+                    size="sm"
+                    aria-pressed={viewMode === value}
+                    onClick={() => setViewMode(value)}
+                  >
+                    <Icon className="h-4 w-4 mr-1" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+            </div>
             
             {/* フィルター・検索部分 */}
             <Card>
@@ -167,7 +274,7 @@ export function AllTasksPage() {
                 </div>
                 
                 {/* フィルターとソート */}
-                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                   {/* ステータスフィルター */}
                   <div>
                     <label className="text-sm font-medium mb-1 block">ステータス</label>
@@ -202,6 +309,24 @@ export function AllTasksPage() {
                     </Select>
                   </div>
                   
+                  {/* 優先度フィルター */}
+                  <div>
+                    <label className="text-sm font-medium mb-1 block">優先度</label>
+                    <Select value={filterPriority} onValueChange={setFilterPriority}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">すべて</SelectItem>
+                        {TASK_PRIORITIES.map(priority => (
+                          <SelectItem key={priority} value={priority.toString()}>
+                            {PRIORITY_LABELS[priority]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  
                   {/* ソート */}
                   <div>
                     <label className="text-sm font-medium mb-1 block">並び順</label>
@@ -214,6 +339,7 @@ export function AllTasksPage() {
                         <SelectItem value="dueAt">期限</SelectItem>
                         <SelectItem value="title">タイトル</SelectItem>
                         <SelectItem value="status">ステータス</SelectItem>
+                        <SelectItem value="priority">優先度</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
@@ -230,6 +356,35 @@ export function AllTasksPage() {
                     </Button>
                   </div>
                 </div>
+                
+                {/* タグフィルター */}
+                {tagCounts.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Tag className="h-4 w-4 text-muted-foreground" />
+                    <div className="flex flex-wrap gap-1" role="group" aria-label="タグで絞り込む">
+                      {tagCounts.map(({ tag, count }) => (
+                        <Button
+                          key={tag}
+                          variant={filterTags.includes(tag) ? 'default' : 'outline'}
+                          size="sm"
+                          aria-pressed={filterTags.includes(tag)}
+                          onClick={() => toggleFilterTag(tag)}
+                        >
+                          #{tag} ({count})
+                        </Button>
+                      ))}
+                    </div>
+                    <Select value={tagMode} onValueChange={(v) => setTagMode(v as TagMatchMode)}>
+                      <SelectTrigger className="w-44" aria-label="タグの条件">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="and">すべて含む (AND)</SelectItem>
+                        <SelectItem value="or">いずれかを含む (OR)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -261,60 +416,87 @@ export function AllTasksPage() {
             </div>
           )}
           
-          {/* タスク一覧 */}
-          <div className="space-y-3">
-            {/* 全選択チェックボックス */}
-            {filteredAndSortedTasks.length > 0 && (
-              <div className="flex items-center gap-3 p-4 border rounded-lg">
-                <Checkbox
-                  checked={selectedTasks.size === filteredAndSortedTasks.length && filteredAndSortedTasks.length > 0}
-                  onCheckedChange={toggleSelectAll}
-                />
-                <span className="text-sm font-medium">すべて選択</span>
-                <span className="text-sm text-muted-foreground">
-                  ({filteredAndSortedTasks.length}件のタスク)
-                </span>
-              </div>
-            )}
+          {/* カレンダー・タスク一覧 */}
+          {viewMode !== 'list' ? (
+            <TaskCalendar
+              tasks={filteredAndSortedTasks}
+              categories={categories}
+              view={viewMode}
+              date={calendarDate}
+              onDateChange={setCalendarDate}
+              onTaskClick={openTaskForm}
+              onTaskMove={moveTask}
+            />
+          ) : (
+            <div className="space-y-3">
+              {/* 全選択チェックボックス */}
+              {filteredAndSortedTasks.length > 0 && (
+                <div className="flex items-center gap-3 p-4 border rounded-lg">
+                  <Checkbox
+                    checked={selectedTasks.size === filteredAndSortedTasks.length && filteredAndSortedTasks.length > 0}
+                    onCheckedChange={toggleSelectAll}
+                  />
+                  <span className="text-sm font-medium">すべて選択</span>
+                  <span className="text-sm text-muted-foreground">
+                    ({filteredAndSortedTasks.length}件のタスク)
+                  </span>
+                </div>
+              )}
             
-            {/* タスク一覧 */}
-            {filteredAndSortedTasks.map(task => (
-              <div key={task.id} className="flex items-center gap-3">
-                <Checkbox
-                  checked={selectedTasks.has(task.id!)}
-                  onCheckedChange={() => toggleTaskSelection(task.id!)}
-                />
-                <div className="flex-1">
-                  <TaskCard
-                    task={task}
-                    onToggle={toggleStatus}
-                    onClick={() => openTaskForm(task)}
+              {/* タスク一覧 */}
+              {filteredAndSortedTasks.map(task => (
+                <div key={task.id} className="flex items-center gap-3">
+                  <Checkbox
+                    checked={selectedTasks.has(task.id!)}
+                    onCheckedChange={() => toggleTaskSelection(task.id!)}
                   />
+                  <div className="flex-1">
+                    <TaskCard
+                      task={task}
+                      onToggle={handleToggle}
+                      onClick={() => openTaskForm(task)}
+                      allTasks={tasks}
+                    />
+                  </div>
                 </div>
-              </div>
-            ))}
+              ))}
             
-            {/* 空状態 */}
-            {filteredAndSortedTasks.length === 0 && (
-              <div className="text-center py-12">
-                <p className="text-muted-foreground">
-                  {searchQuery || filterStatus !== 'all' || filterCategory !== 'all'
-                    ? '条件に一致するタスクがありません'
-                    : 'タスクがありません'}
-                </p>
-              </div>
-            )}
-          </div>
+              {/* 空状態 */}
+              {filteredAndSortedTasks.length === 0 && (
+                <div className="text-center py-12">
+                  <p className="text-muted-foreground">
+                    {searchQuery || filterStatus !== 'all' || filterCategory !== 'all' || filterTags.length > 0
+                      ? '条件に一致するタスクがありません'
+                      : 'タスクがありません'}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
       
       {/* タスク編集フォーム */}
       <TaskForm
+        key={`${editingTask?.id ?? 'new'}:${formKey}`}
         open={taskFormOpen}
         onOpenChange={setTaskFormOpen}
         task={editingTask}
+        parentTask={tasks.find(t => editingTask?.parentId && t.id === editingTask.parentId)}
         onSubmit={handleTaskSubmit}
-        onDelete={editingTask?.id ? () => remove(editingTask.id!) : undefined}
+        onDelete={
+          editingTask?.id
+            ? (id, scope) => (scope ? removeSeries(id, scope) : remove(id))
+            : undefined
+        }
+        onPromoteChecklistItem={item => editingTask?.id && promoteChecklistItem(editingTask.id, item)}
+      />
+      
+      <CompleteSubtasksDialog
+        open={!!completingTask}
+        onOpenChange={open => !open && setCompletingTask(undefined)}
+        openCount={completingTask ? getOpenSubtasks(completingTask.id!, tasks).length : 0}
+        onSelect={includeSubtasks => toggleStatus(completingTask!.id!, { includeSubtasks })}
       />
     </div>
   );
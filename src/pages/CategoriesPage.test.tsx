@@ -3,9 +3,11 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { CategoriesPage } from './CategoriesPage';
 import { useCategories } from '@/store/useCategories';
+import { useTasks } from '@/store/useTasks';
 
 // Mock dependencies
 vi.mock('@/store/useCategories');
+vi.mock('@/store/useTasks');
 
 const mockUseCategories = {
   categories: [
@@ -20,6 +22,15 @@ const mockUseCategories = {
   reorder: vi.fn(),
 };
 
+const mockUseTasks = {
+  tasks: [
+    { id: 't1', title: '電話する', status: 'pending', createdAt: 0, updatedAt: 0, tags: ['call', 'waiting'] },
+    { id: 't2', title: '返事を待つ', status: 'pending', createdAt: 0, updatedAt: 0, tags: ['waiting'] },
+  ],
+  load: vi.fn(),
+  renameTag: vi.fn(),
+};
+
 const renderWithRouter = (component: React.ReactElement) => {
   return render(component, { wrapper: BrowserRouter });
 };
@@ -28,6 +39,7 @@ describe('CategoriesPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(useCategories).mockReturnValue(mockUseCategories);
+    vi.mocked(useTasks).mockReturnValue(mockUseTasks as any);
   });
 
   it('should render categories list', () => {
@@ -146,4 +158,39 @@ describe('CategoriesPage', () => {
     
     expect(screen.getByText('カテゴリーがありません。「新しいカテゴリー」ボタンから追加してください。')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('should list tags with the number of tasks', () => {
+    renderWithRouter(<CategoriesPage />);
+
+    expect(mockUseTasks.load).toHaveBeenCalled();
+    expect(screen.getByText('#waiting')).toBeInTheDocument();
+    expect(screen.getByText('2件')).toBeInTheDocument();
+    expect(screen.getByText('#call')).toBeInTheDocument();
+  });
+
+  it('should rename a tag', async () => {
+    renderWithRouter(<CategoriesPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'タグ「call」の名前を変更' }));
+    fireEvent.change(screen.getByLabelText('新しいタグ名'), { target: { value: '#Phone' } });
+    fireEvent.click(screen.getByRole('button', { name: '変更' }));
+
+    await waitFor(() => {
+      expect(mockUseTasks.renameTag).toHaveBeenCalledWith('call', 'phone');
+    });
+  });
+
+  it('should merge into an existing tag', async () => {
+    renderWithRouter(<CategoriesPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'タグ「call」の名前を変更' }));
+    fireEvent.change(screen.getByLabelText('新しいタグ名'), { target: { value: 'waiting' } });
+
+    expect(screen.getByText(/「#waiting」はすでにあるため/)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '統合' }));
+
+    await waitFor(() => {
+      expect(mockUseTasks.renameTag).toHaveBeenCalledWith('call', 'waiting');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
-import { Plus, Pencil, Trash2, GripVertical } from 'lucide-react';
+import { Plus, Pencil, Trash2, GripVertical, Tag } from 'lucide-react';
 import { useCategories } from '@/store/useCategories';
+import { useTasks } from '@/store/useTasks';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
@@ -9,6 +10,7 @@ import { Label } from '@/components/ui/label';
 import { CategoryBadge } from '@/components/CategoryBadge';
 import { Navbar } from '@/components/Navbar';
 import type { Category } from '@/db';
+import { getTagCounts, normalizeTag } from '@/utils/tags';
 
 export function CategoriesPage() {
   const { categories, loading, load, add, update, remove, reorder } = useCategories();
@@ -19,10 +21,23 @@ export function CategoriesPage() {
     name: '',
     color: '#6366F1',
   });
+  const { tasks, load: loadTasks, renameTag } = useTasks();
+  // 名前を変更中のタグと、入力中の新しいタグ名
+  const [renamingTag, setRenamingTag] = useState<string | null>(null);
+  const [tagName, setTagName] = useState('');
 
   useEffect(() => {
     load();
-  }, [load]);
+    loadTasks();
+  }, [load, loadTasks]);
+
+  const tagCounts = getTagCounts(tasks);
+  const normalizedTagName = normalizeTag(tagName);
+  // 変更後のタグがすでにある場合はタグを統合する
+  const mergeTarget =
+    normalizedTagName !== renamingTag && tagCounts.some(({ tag }) => tag === normalizedTagName)
+      ? normalizedTagName
+      : null;
 
   const handleCreate = () => {
     setEditingCategory(null);
@@ -60,6 +75,19 @@ export function CategoriesPage() {
     setDeleteConfirm(null);
   };
 
+  const handleRenameTag = (tag: string) => {
+    setRenamingTag(tag);
+    setTagName(tag);
+  };
+
+  const handleTagSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!renamingTag || !normalizedTagName) return;
+
+    await renameTag(renamingTag, normalizedTagName);
+    setRenamingTag(null);
+  };
+
   const handleDragStart = (e: React.DragEvent, index: number) => {
     e.dataTransfer.setData('dragIndex', index.toString());
   };
@@ -145,6 +173,31 @@ export function CategoriesPage() {
               </div>
             )}
           </div>
+
+          <h2 className="text-xl font-bold mt-10 mb-4">タグ</h2>
+          {tagCounts.length > 0 ? (
+            <ul className="space-y-2">
+              {tagCounts.map(({ tag, count }) => (
+                <li key={tag} className="flex items-center gap-3 rounded-md border px-4 py-2">
+                  <Tag className="h-4 w-4 text-muted-foreground" />
+                  <span className="flex-1">#{tag}</span>
+                  <span className="text-sm text-muted-foreground">{count}件</span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRenameTag(tag)}
+                    aria-label={`タグ「${tag}」の名前を変更`}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="text-center py-8 text-gray-500">
+              タグがありません。タスクの編集画面からタグを追加できます。
+            </div>
+          )}
         </div>
       </div>
 
@@ -204,6 +257,41 @@ export function CategoriesPage() {
         </DialogContent>
       </Dialog>
 
+      {/* タグ名の変更ダイアログ */}
+      <Dialog open={!!renamingTag} onOpenChange={(open) => !open && setRenamingTag(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>タグ名を変更</DialogTitle>
+          </DialogHeader>
+
+          <form onSubmit={handleTagSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="tag-name">新しいタグ名</Label>
+              <Input
+                id="tag-name"
+                value={tagName}
+                onChange={(e) => setTagName(e.target.value)}
+                required
+              />
+              {mergeTarget && (
+                <p className="mt-2 text-sm text-muted-foreground">
+                  「#{mergeTarget}」はすでにあるため、「#{renamingTag}」と統合されます。
+                </p>
+              )}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setRenamingTag(null)}>
+                キャンセル
+              </Button>
+              <Button type="submit" disabled={!normalizedTagName}>
+                {mergeTarget ? '統合' : '変更'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
       {/* 削除確認ダイアログ */}
       <Dialog open={!!deleteConfirm} onOpenChange={() => setDeleteConfirm(null)}>
         <DialogContent>
@@ -212,8 +300,8 @@ export function CategoriesPage() {
           </DialogHeader>
           
           <p className="text-sm text-gray-600">
-            このカテゴリーを使用しているタスクからカテゴリーが削除されます。
-            この操作は取り消せません。
+            カテゴリーはゴミ箱に移動し、保存期間が過ぎると完全に削除されます。
+            ゴミ箱から復元すると、タスクのカテゴリーも元に戻ります。
           </p>
 
           <div className="flex justify-end gap-2 mt-4">
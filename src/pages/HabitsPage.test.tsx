@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { HabitsPage } from './HabitsPage';
+import { useTasks } from '@/store/useTasks';
+import { useCategories } from '@/store/useCategories';
+import type { Task } from '@/db';
+
+// Mock dependencies
+vi.mock('@/store/useTasks');
+vi.mock('@/store/useCategories');
+
+const day = 24 * 60 * 60 * 1000;
+const now = new Date('2024-01-10T12:00:00Z').getTime();
+const start = new Date('2024-01-06T12:00:00Z').getTime();
+
+// 1/6〜1/8 は完了、1/9 は未完了、1/10 は今日
+const mockTasks: Task[] = [0, 1, 2, 3, 4].map((n) => ({
+  id: n === 0 ? 'root' : `task-${n}`,
+  title: 'Morning Run',
+  status: n < 3 ? 'done' : 'pending',
+  dueAt: start + n * day,
+  repeatRule: 'DTSTART:20240106T120000Z\nRRULE:FREQ=DAILY',
+  repeatParentId: n === 0 ? undefined : 'root',
+  repeatCount: n,
+  categoryId: 'cat-1',
+  createdAt: start,
+  updatedAt: start,
+}));
+
+const mockUseTasks = {
+  tasks: [
+    ...mockTasks,
+    { id: 'single', title: 'One-off Task', status: 'done', createdAt: now, updatedAt: now },
+  ],
+  loading: false,
+  load: vi.fn(),
+};
+
+const mockUseCategories = {
+  categories: [{ id: 'cat-1', name: '健康', color: '#10B981', order: 1 }],
+  load: vi.fn(),
+};
+
+const renderWithRouter = (component: React.ReactElement) => {
+  return render(component, { wrapper: BrowserRouter });
+};
+
+describe('HabitsPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    vi.mocked(useTasks).mockReturnValue(mockUseTasks as any);
+    vi.mocked(useCategories).mockReturnValue(mockUseCategories as any);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should render page and load data', () => {
+    renderWithRouter(<HabitsPage />);
+
+    expect(screen.getByRole('heading', { name: '習慣' })).toBeInTheDocument();
+    expect(mockUseTasks.load).toHaveBeenCalled();
+    expect(mockUseCategories.load).toHaveBeenCalled();
+  });
+
+  it('should show streaks and completion rate per recurring series', () => {
+    renderWithRouter(<HabitsPage />);
+
+    expect(screen.getAllByTestId('habit-card')).toHaveLength(1);
+    expect(screen.getByText('Morning Run')).toBeInTheDocument();
+    expect(screen.queryByText('One-off Task')).not.toBeInTheDocument();
+    expect(screen.getByLabelText('現在の連続')).toHaveTextContent('0回');
+    expect(screen.getByLabelText('最長の連続')).toHaveTextContent('3回');
+    expect(screen.getByLabelText('達成率')).toHaveTextContent('75%');
+  });
+
+  it('should mark missed days in the completion calendar', () => {
+    renderWithRouter(<HabitsPage />);
+
+    expect(screen.getAllByLabelText(/: 達成$/)).toHaveLength(3);
+    expect(screen.getAllByLabelText(/: 未達成/)).toHaveLength(1);
+  });
+
+  it('should show an empty message without recurring tasks', () => {
+    vi.mocked(useTasks).mockReturnValue({ ...mockUseTasks, tasks: [] } as any);
+
+    renderWithRouter(<HabitsPage />);
+
+    expect(screen.getByText('繰り返しタスクがありません')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,160 @@
+import { useEffect, useMemo } from 'react';
+import { Flame, Trophy, Target } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { cn } from '@/lib/utils';
+import { useTasks } from '@/store/useTasks';
+import { useCategories } from '@/store/useCategories';
+import { getHabitHeatmap, getHabitSeries, type HabitHeatmapDay } from '@/utils/habits';
+
+const WEEKDAY_LABELS = ['日', '月', '火', '水', '木', '金', '土'];
+
+function formatDay(date: number): string {
+  return new Date(date).toLocaleDateString('ja-JP', {
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+  });
+}
+
+// ヒートマップの1日分の色と説明
+function getDayStyle(day: HabitHeatmapDay): { className: string; label: string } {
+  if (day.total === 0) {
+    return { className: 'bg-muted', label: `${formatDay(day.date)}: 予定なし` };
+  }
+  if (day.missed > 0) {
+    return {
+      className: 'bg-red-500/80',
+      label: `${formatDay(day.date)}: 未達成 (${day.done}/${day.total})`,
+    };
+  }
+  if (day.done === day.total) {
+    return { className: 'bg-emerald-500', label: `${formatDay(day.date)}: 達成` };
+  }
+  return {
+    className: day.done > 0 ? 'bg-emerald-500/50' : 'bg-muted ring-1 ring-inset ring-border',
+    label: `${formatDay(day.date)}: 予定 (${day.done}/${day.total})`,
+  };
+}
+
+export function HabitsPage() {
+  const { tasks, loading, load } = useTasks();
+  const { categories, load: loadCategories } = useCategories();
+
+  useEffect(() => {
+    load();
+    loadCategories();
+  }, [load, loadCategories]);
+
+  const habits = useMemo(() => getHabitSeries(tasks), [tasks]);
+
+  if (loading) {
+    return <div className="flex h-screen items-center justify-center">読み込み中...</div>;
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <Navbar />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-4xl mx-auto p-4">
+          <h1 className="text-2xl font-bold mb-6">習慣</h1>
+
+          {habits.length === 0 ? (
+            <div className="text-center py-12 text-muted-foreground">
+              繰り返しタスクがありません
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {habits.map((habit) => {
+                const category = categories.find((c) => c.id === habit.categoryId);
+                const heatmap = getHabitHeatmap(habit.occurrences);
+
+                return (
+                  <Card key={habit.seriesId} data-testid="habit-card">
+                    <CardHeader>
+                      <CardTitle className="text-lg flex items-center gap-2">
+                        {category && (
+                          <span
+                            className="h-2 w-2 rounded-full"
+                            style={{ backgroundColor: category.color }}
+                          />
+                        )}
+                        {habit.title}
+                      </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      {/* 連続記録・達成率 */}
+                      <div className="grid grid-cols-3 gap-4 text-center">
+                        <div>
+                          <div className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                            <Flame className="h-4 w-4" />
+                            現在の連続
+                          </div>
+                          <div className="text-xl font-semibold" aria-label="現在の連続">
+                            {habit.currentStreak}回
+                          </div>
+                        </div>
+                        <div>
+                          <div className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                            <Trophy className="h-4 w-4" />
+                            最長の連続
+                          </div>
+                          <div className="text-xl font-semibold" aria-label="最長の連続">
+                            {habit.longestStreak}回
+                          </div>
+                        </div>
+                        <div>
+                          <div className="flex items-center justify-center gap-1 text-sm text-muted-foreground">
+                            <Target className="h-4 w-4" />
+                            達成率
+                          </div>
+                          <div className="text-xl font-semibold" aria-label="達成率">
+                            {Math.round(habit.completionRate * 100)}%
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {habit.doneCount}/{habit.doneCount + habit.missedCount}回
+                          </div>
+                        </div>
+                      </div>
+
+                      {/* 完了カレンダー */}
+                      <div className="flex gap-1 overflow-x-auto">
+                        <div className="grid grid-rows-7 gap-1 text-[10px] text-muted-foreground">
+                          {WEEKDAY_LABELS.map((label) => (
+                            <div key={label} className="h-3 leading-3">
+                              {label}
+                            </div>
+                          ))}
+                        </div>
+                        {heatmap.map((week) => (
+                          <div key={week[0].date} className="grid grid-rows-7 gap-1">
+                            {week.map((day) => {
+                              const { className, label } = getDayStyle(day);
+                              return (
+                                <div
+                                  key={day.date}
+                                  className={cn(
+                                    'h-3 w-3 rounded-sm',
+                                    className,
+                                    day.future && 'opacity-40'
+                                  )}
+                                  title={label}
+                                  aria-label={label}
+                                />
+                              );
+                            })}
+                          </div>
+                        ))}
+                      </div>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
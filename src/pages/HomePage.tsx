@@ -1,26 +1,68 @@
 import { useEffect, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { Plus, Bell } from 'lucide-react';
 import { Navbar } from '@/components/Navbar';
 import { TaskCard } from '@/components/TaskCard';
 import { TaskForm } from '@/components/TaskForm';
+import { CompleteSubtasksDialog } from '@/components/CompleteSubtasksDialog';
+import { QuickAddBar } from '@/components/QuickAddBar';
 import { TimelineBar } from '@/components/TimelineBar';
 import { CategoryBadge } from '@/components/CategoryBadge';
 import { ServiceWorkerUpdate } from '@/components/ServiceWorkerUpdate';
 import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { useTasks } from '../store/useTasks';
 import { useCategories } from '../store/useCategories';
-import type { Task } from '../db';
+import type { RecurrenceScope, Task } from '../db';
 import { useNotifications } from '../hooks/useNotifications';
 import { useServiceWorker } from '../hooks/useServiceWorker';
+import type { ShortcutNavigationState } from '../utils/shortcuts';
+import {
+  PRIORITY_LABELS,
+  TASK_PRIORITIES,
+  compareTaskPriority,
+  getTaskPriority,
+} from '../utils/priority';
+import { getOpenSubtasks, getTopLevelTasks } from '../utils/subtasks';
+
+type SortBy = 'dueAt' | 'priority';
 
 export function HomePage() {
-  const { tasks, loading, load, add, update, remove, toggleStatus } = useTasks();
+  const {
+    tasks,
+    loading,
+    load,
+    add,
+    update,
+    remove,
+    toggleStatus,
+    updateSeries,
+    removeSeries,
+    promoteChecklistItem,
+  } = useTasks();
   const { categories, load: loadCategories } = useCategories();
-  const { permission, requestPermission, scheduleNotification, cancelNotification, snoozeNotification } = useNotifications();
+  const { permission, requestPermission, scheduleNotification, cancelNotification } = useNotifications();
   const { isOffline } = useServiceWorker();
+  const location = useLocation();
+  const navigate = useNavigate();
   const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [filterPriority, setFilterPriority] = useState<string>('all');
+  const [sortBy, setSortBy] = useState<SortBy>('dueAt');
   const [taskFormOpen, setTaskFormOpen] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | undefined>();
+  const [defaultDueAt, setDefaultDueAt] = useState<number | undefined>();
+  // サブタスクを新規作成するときの親タスク
+  const [newSubtaskParent, setNewSubtaskParent] = useState<Task | undefined>();
+  // 未完了のサブタスクがあるため、完了の範囲を確認中のタスク
+  const [completingTask, setCompletingTask] = useState<Task | undefined>();
+  // 開くたびにフォームの入力内容を初期化する
+  const [formKey, setFormKey] = useState(0);
   const [selectedDate] = useState(new Date());
   
   useEffect(() => {
@@ -30,19 +72,6 @@ export function HomePage() {
   
   // Handle service worker messages
   useEffect(() => {
-    const handleCompleteTask = async (event: CustomEvent) => {
-      const { taskId } = event.detail;
-      await toggleStatus(taskId);
-    };
-
-    const handleSnoozeTask = async (event: CustomEvent) => {
-      const { taskId } = event.detail;
-      const task = tasks.find(t => t.id === taskId);
-      if (task) {
-        snoozeNotification(task);
-      }
-    };
-    
     const handleFocusTask = (event: CustomEvent) => {
       const { taskId } = event.detail;
       const task = tasks.find(t => t.id === taskId);
@@ -61,54 +90,95 @@ export function HomePage() {
       }
     };
 
-    window.addEventListener('completeTask', handleCompleteTask as any);
-    window.addEventListener('snoozeTask', handleSnoozeTask as any);
     window.addEventListener('focusTask', handleFocusTask as any);
 
     return () => {
-      window.removeEventListener('completeTask', handleCompleteTask as any);
-      window.removeEventListener('snoozeTask', handleSnoozeTask as any);
       window.removeEventListener('focusTask', handleFocusTask as any);
     };
-  }, [tasks, toggleStatus]);
+  }, [tasks]);
+  
+  // ショートカット・コマンドパレットからの指示 (新規作成・タスクを開く)
+  useEffect(() => {
+    const state = location.state as ShortcutNavigationState | null;
+    if (!state) return;
+    if (state.focusTaskId) {
+      // タスクの読み込みを待ってから開く
+      if (!tasks.some(task => task.id === state.focusTaskId)) return;
+      window.dispatchEvent(new CustomEvent('focusTask', { detail: { taskId: state.focusTaskId } }));
+    } else if (state.newTask) {
+      openTaskForm();
+    }
+    navigate(location.pathname, { replace: true, state: null });
+  }, [location, tasks, navigate]);
   
   const todayStart = new Date();
   todayStart.setHours(0, 0, 0, 0);
   const todayEnd = new Date();
   todayEnd.setHours(23, 59, 59, 999);
   
-  const todayTasks = tasks.filter((task: any) => {
+  const matchesFilters = (task: Task) => {
     if (selectedCategory && task.categoryId !== selectedCategory) {
       return false;
     }
-    if (!task.dueAt) return false;
-    return task.dueAt >= todayStart.getTime() && task.dueAt <= todayEnd.getTime();
-  });
+    return filterPriority === 'all' || getTaskPriority(task) === Number(filterPriority);
+  };
   
-  const noDueTasks = tasks.filter((task: any) => {
-    if (selectedCategory && task.categoryId !== selectedCategory) {
-      return false;
+  // 期日順・優先度順 (同じ場合はもう一方の順) に並べる
+  const compareTasks = (a: Task, b: Task) => {
+    const byDueAt = (a.dueAt ?? 0) - (b.dueAt ?? 0);
+    return sortBy === 'priority'
+      ? compareTaskPriority(a, b) || byDueAt
+      : byDueAt || compareTaskPriority(a, b);
+  };
+  
+  const todayTasks = tasks
+    .filter((task: any) => {
+      if (!matchesFilters(task)) return false;
+      if (!task.dueAt) return false;
+      return task.dueAt >= todayStart.getTime() && task.dueAt <= todayEnd.getTime();
+    })
+    .sort(compareTasks);
+  
+  const noDueTasks = tasks
+    .filter((task: any) => matchesFilters(task) && !task.dueAt)
+    .sort(compareTasks);
+  
+  // 未完了のサブタスクがある場合は一緒に完了にするか確認する
+  const handleToggle = (id: string) => {
+    const task = tasks.find(t => t.id === id);
+    if (task?.status === 'pending' && getOpenSubtasks(id, tasks).length > 0) {
+      setCompletingTask(task);
+      return;
     }
-    return !task.dueAt;
-  });
+    toggleStatus(id);
+  };
   
   const handleAddTask = async (taskData: Partial<Task>) => {
     const taskId = await add({
       ...taskData,
-      categoryId: selectedCategory || undefined,
+      categoryId: taskData.categoryId || selectedCategory || undefined,
     });
 
-    if (taskId && taskData.dueAt) {
+    if (taskId && (taskData.dueAt || taskData.reminders?.length)) {
       const newTask = { ...taskData, id: taskId } as Task;
       scheduleNotification(newTask);
     }
   };
   
-  const handleEditTask = async (taskData: Partial<Task>) => {
-    if (editingTask?.id) {
+  const handleEditTask = async (taskData: Partial<Task>, scope?: RecurrenceScope) => {
+    if (editingTask?.id && scope) {
+      const updatedTasks = await updateSeries(editingTask.id, taskData, scope);
+      updatedTasks.forEach(updatedTask => {
+        if (updatedTask.status === 'pending' && (updatedTask.dueAt || updatedTask.reminders?.length)) {
+          scheduleNotification(updatedTask);
+        } else {
+          cancelNotification(updatedTask.id!);
+        }
+      });
+    } else if (editingTask?.id) {
       await update(editingTask.id, taskData);
-      if (taskData.dueAt) {
-        const updatedTask = { ...editingTask, ...taskData } as Task;
+      const updatedTask = { ...editingTask, ...taskData } as Task;
+      if (updatedTask.dueAt || updatedTask.reminders?.length) {
         scheduleNotification(updatedTask);
       } else {
         cancelNotification(editingTask.id);
@@ -116,13 +186,47 @@ export function HomePage() {
     }
   };
   
-  const handleDeleteTask = async (id: string) => {
+  const handleDeleteTask = async (id: string, scope?: RecurrenceScope) => {
+    if (scope) {
+      const { deletedIds, nextTask } = await removeSeries(id, scope);
+      deletedIds.forEach(deletedId => cancelNotification(deletedId));
+      if (nextTask) {
+        scheduleNotification(nextTask);
+      }
+      return;
+    }
     await remove(id);
     cancelNotification(id);
   };
   
-  const openTaskForm = (task?: Task) => {
+  // タイムラインで変更した時刻・長さを保存し、通知を再設定する
+  const handleTimelineChange = async (
+    task: Task,
+    updates: Pick<Task, 'dueAt' | 'durationMin'>
+  ) => {
+    let updatedTasks: Task[];
+    if (task.repeatRule) {
+      // 繰り返しタスクはこの回のみ変更する
+      updatedTasks = await updateSeries(task.id!, updates, 'this');
+    } else {
+      await update(task.id!, updates);
+      updatedTasks = [{ ...task, ...updates }];
+    }
+
+    updatedTasks.forEach(updatedTask => {
+      if (updatedTask.status === 'pending') {
+        scheduleNotification(updatedTask);
+      } else {
+        cancelNotification(updatedTask.id!);
+      }
+    });
+  };
+  
+  const openTaskForm = (task?: Task, dueAt?: number, parent?: Task) => {
     setEditingTask(task);
+    setDefaultDueAt(dueAt);
+    setNewSubtaskParent(parent);
+    setFormKey(key => key + 1);
     setTaskFormOpen(true);
   };
   
@@ -159,7 +263,7 @@ export function HomePage() {
                       // Schedule notifications for existing tasks
                       const notificationCount = tasks.filter(task => task.dueAt && task.status === 'pending').length;
                       tasks.forEach(task => {
-                        if (task.dueAt && task.status === 'pending') {
+                        if ((task.dueAt || task.reminders?.length) && task.status === 'pending') {
                           scheduleNotification(task);
                         }
                       });
@@ -197,24 +301,62 @@ export function HomePage() {
             ))}
           </div>
           
+          {/* クイック追加 */}
+          <div className="mb-6">
+            <QuickAddBar categories={categories} onAdd={handleAddTask} />
+          </div>
+          
           {/* タイムライン */}
           <div className="mb-8">
-            <TimelineBar tasks={todayTasks} date={selectedDate} />
+            <TimelineBar
+              tasks={todayTasks}
+              date={selectedDate}
+              onTaskChange={handleTimelineChange}
+              onSlotClick={dueAt => openTaskForm(undefined, dueAt)}
+            />
           </div>
           
           {/* 今日のタスク */}
           <div className="mb-8">
-            <h2 className="mb-4 text-xl font-semibold">今日のタスク</h2>
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-xl font-semibold">今日のタスク</h2>
+              <div className="flex gap-2">
+                <Select value={filterPriority} onValueChange={setFilterPriority}>
+                  <SelectTrigger className="w-40" aria-label="優先度で絞り込み">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">すべての優先度</SelectItem>
+                    {TASK_PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority.toString()}>
+                        {PRIORITY_LABELS[priority]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortBy)}>
+                  <SelectTrigger className="w-32" aria-label="並び順">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="dueAt">期日順</SelectItem>
+                    <SelectItem value="priority">優先度順</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
             {todayTasks.length === 0 ? (
               <p className="text-muted-foreground">今日のタスクはありません</p>
             ) : (
               <div className="space-y-3">
-                {todayTasks.map((task: any) => (
+                {getTopLevelTasks(todayTasks, tasks).map((task: any) => (
                   <TaskCard
                     key={task.id}
                     task={task}
-                    onToggle={toggleStatus}
+                    onToggle={handleToggle}
                     onClick={openTaskForm}
+                    allTasks={tasks}
+                    showSubtasks
                   />
                 ))}
               </div>
@@ -228,12 +370,14 @@ export function HomePage() {
               <p className="text-muted-foreground">期限なしのタスクはありません</p>
             ) : (
               <div className="space-y-3">
-                {noDueTasks.map((task: any) => (
+                {getTopLevelTasks(noDueTasks, tasks).map((task: any) => (
                   <TaskCard
                     key={task.id}
                     task={task}
-                    onToggle={toggleStatus}
+                    onToggle={handleToggle}
                     onClick={openTaskForm}
+                    allTasks={tasks}
+                    showSubtasks
                   />
                 ))}
               </div>
@@ -253,11 +397,25 @@ export function HomePage() {
       
       {/* タスクフォーム */}
       <TaskForm
+        key={formKey}
         open={taskFormOpen}
         onOpenChange={setTaskFormOpen}
         task={editingTask}
+        defaultDueAt={defaultDueAt}
+        parentTask={
+          newSubtaskParent ?? tasks.find(t => editingTask?.parentId && t.id === editingTask.parentId)
+        }
         onSubmit={editingTask ? handleEditTask : handleAddTask}
         onDelete={handleDeleteTask}
+        onAddSubtask={parent => openTaskForm(undefined, undefined, parent)}
+        onPromoteChecklistItem={item => editingTask?.id && promoteChecklistItem(editingTask.id, item)}
+      />
+      
+      <CompleteSubtasksDialog
+        open={!!completingTask}
+        onOpenChange={open => !open && setCompletingTask(undefined)}
+        openCount={completingTask ? getOpenSubtasks(completingTask.id!, tasks).length : 0}
+        onSelect={includeSubtasks => toggleStatus(completingTask!.id!, { includeSubtasks })}
       />
       
       {/* Service Worker更新通知 */}
@@ -3,27 +3,22 @@ import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
 import { SettingsPage } from './SettingsPage';
 import { useSettings } from '@/store/useSettings';
-import { useTasks } from '@/store/useTasks';
-import { useCategories } from '@/store/useCategories';
 import * as exportImport from '@/utils/export-import';
+import * as ical from '@/utils/ical';
+import { DEFAULT_SHORTCUTS } from '@/utils/shortcuts';
 
 // Mock dependencies
 vi.mock('@/store/useSettings');
-vi.mock('@/store/useTasks');
-vi.mock('@/store/useCategories');
 vi.mock('@/utils/export-import');
+vi.mock('@/utils/ical');
 
 const mockUseSettings = {
-  settings: { snoozeDuration: 10 },
-  updateSetting: vi.fn(),
-};
-
-const mockUseTasks = {
-  load: vi.fn(),
-};
-
-const mockUseCategories = {
+  snoozeMin: 10,
+  missedRecurrencePolicy: 'skip' as const,
+  shortcuts: DEFAULT_SHORTCUTS,
+  trashRetentionDays: 30,
   load: vi.fn(),
+  updateSetting: vi.fn(),
 };
 
 const renderWithRouter = (component: React.ReactElement) => {
@@ -34,8 +29,6 @@ describe('SettingsPage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     vi.mocked(useSettings).mockReturnValue(mockUseSettings);
-    vi.mocked(useTasks).mockReturnValue(mockUseTasks as any);
-    vi.mocked(useCategories).mockReturnValue(mockUseCategories as any);
   });
 
   it('should render settings page with sections', () => {
@@ -46,6 +39,14 @@ describe('SettingsPage', () => {
     expect(screen.getByText('データ管理')).toBeInTheDocument();
   });
 
+  it('should load settings and show the missed recurrence policy', () => {
+    renderWithRouter(<SettingsPage />);
+
+    expect(mockUseSettings.load).toHaveBeenCalled();
+    expect(screen.getByText('繰り返し設定')).toBeInTheDocument();
+    expect(screen.getByLabelText('過ぎた回')).toHaveTextContent('次の予定から再開する');
+  });
+
   it('should display and update snooze duration', () => {
     renderWithRouter(<SettingsPage />);
     
@@ -54,7 +55,37 @@ describe('SettingsPage', () => {
     
     fireEvent.change(input, { target: { value: '15' } });
     
-    expect(mockUseSettings.updateSetting).toHaveBeenCalledWith('snoozeDuration', 15);
+    expect(mockUseSettings.updateSetting).toHaveBeenCalledWith('snoozeMin', 15);
+  });
+
+  it('should display and update the trash retention period', () => {
+    renderWithRouter(<SettingsPage />);
+
+    const input = screen.getByLabelText('保存期間（日）');
+    expect(input).toHaveValue(30);
+
+    fireEvent.change(input, { target: { value: '7' } });
+
+    expect(mockUseSettings.updateSetting).toHaveBeenCalledWith('trashRetentionDays', 7);
+  });
+
+  it('should save edited shortcuts and reject conflicts', () => {
+    renderWithRouter(<SettingsPage />);
+
+    const input = screen.getByLabelText('新しいタスク');
+    expect(input).toHaveValue('n');
+
+    fireEvent.change(input, { target: { value: 'x' } });
+    fireEvent.blur(input);
+    expect(screen.getByText('「選択中のタスクを完了」の割り当てと重なっています')).toBeInTheDocument();
+    expect(mockUseSettings.updateSetting).not.toHaveBeenCalled();
+
+    fireEvent.change(input, { target: { value: 'Ctrl+N' } });
+    fireEvent.blur(input);
+    expect(mockUseSettings.updateSetting).toHaveBeenCalledWith('shortcuts', {
+      ...DEFAULT_SHORTCUTS,
+      newTask: 'mod+n',
+    });
   });
 
   it('should handle export', async () => {
@@ -125,9 +156,67 @@ describe('SettingsPage', () => {
     await waitFor(() => {
       expect(exportImport.readFile).toHaveBeenCalledWith(file);
       expect(exportImport.importData).toHaveBeenCalledWith({ test: "data" }, 'replace');
-      expect(mockUseTasks.load).toHaveBeenCalled();
-      expect(mockUseCategories.load).toHaveBeenCalled();
+      expect(screen.queryByText('データのインポート')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should import an iCalendar file by merging tasks by UID', async () => {
+    renderWithRouter(<SettingsPage />);
+    
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    const file = new File(['BEGIN:VCALENDAR'], 'tasks.ics', { type: 'text/calendar' });
+    
+    vi.mocked(exportImport.readFile).mockResolvedValue('BEGIN:VCALENDAR');
+    vi.mocked(ical.importICalendar).mockResolvedValue({ added: 1, updated: 0 });
+    
+    Object.defineProperty(fileInput, 'files', {
+      value: [file],
+      writable: false,
+    });
+    
+    fireEvent.change(fileInput);
+    
+    // .ics ではインポートモードを選ばない
+    expect(screen.queryByText('マージ（既存のデータに追加）')).not.toBeInTheDocument();
+    fireEvent.click(screen.getByText('インポート実行'));
+    
+    await waitFor(() => {
+      expect(ical.importICalendar).toHaveBeenCalledWith('BEGIN:VCALENDAR');
+      expect(exportImport.importData).not.toHaveBeenCalled();
+      expect(screen.queryByText('データのインポート')).not.toBeInTheDocument();
+    });
+  });
+
+  it('should open the column mapping dialog for a CSV file', async () => {
+    renderWithRouter(<SettingsPage />);
+    
+    const fileInput = document.querySelector('input[type="file"]') as HTMLInputElement;
+    const file = new File(['タイトル,期限'], 'tasks.csv', { type: 'text/csv' });
+    
+    vi.mocked(exportImport.readFile).mockResolvedValue('タイトル,期限\r\n買い物,2024-01-15\r\n');
+    
+    Object.defineProperty(fileInput, 'files', {
+      value: [file],
+      writable: false,
     });
+    
+    fireEvent.change(fileInput);
+    
+    // CSV はインポートモードの代わりに列の割り当てを選ぶ
+    expect(await screen.findByText('CSV のインポート')).toBeInTheDocument();
+    expect(screen.queryByText('データのインポート')).not.toBeInTheDocument();
+    expect(screen.getByRole('combobox', { name: 'タイトルの項目' })).toHaveTextContent('タイトル');
+    expect(screen.getByText('買い物')).toBeInTheDocument();
+  });
+
+  it('should open the CSV export dialog with all columns selected', () => {
+    renderWithRouter(<SettingsPage />);
+    
+    fireEvent.click(screen.getByText('CSV'));
+    
+    expect(screen.getByText('CSV のエクスポート')).toBeInTheDocument();
+    expect(screen.getAllByRole('checkbox')).toHaveLength(7);
+    screen.getAllByRole('checkbox').forEach((checkbox) => expect(checkbox).toBeChecked());
   });
 
   it('should handle import error', async () => {
@@ -1,10 +1,17 @@
-import { useState, useRef } from 'react';
-import { Download, Upload, Save, AlertCircle } from 'lucide-react';
+import { useState, useRef, useEffect } from 'react';
+import { Download, Upload, Save, AlertCircle, CalendarDays, Sheet } from 'lucide-react';
 import { Navbar } from '@/components/Navbar';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
 import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Dialog,
   DialogContent,
@@ -14,22 +21,52 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ShortcutEditor } from '@/components/ShortcutEditor';
+import { CsvExportDialog } from '@/components/CsvExportDialog';
+import { CsvImportDialog } from '@/components/CsvImportDialog';
 import { useSettings } from '@/store/useSettings';
 import { exportData, downloadJSON, readFile, importData } from '@/utils/export-import';
-import { useTasks } from '@/store/useTasks';
-import { useCategories } from '@/store/useCategories';
+import {
+  downloadICalendar,
+  exportICalendar,
+  importICalendar,
+  type ICalComponent,
+} from '@/utils/ical';
+import { recordHistory } from '@/store/useHistory';
+import type { MissedRecurrencePolicy } from '@/utils/recurrence';
+import { MAX_TRASH_RETENTION_DAYS, MIN_TRASH_RETENTION_DAYS } from '@/utils/trash';
+
+const MISSED_RECURRENCE_POLICIES: { value: MissedRecurrencePolicy; label: string }[] = [
+  { value: 'skip', label: '次の予定から再開する' },
+  { value: 'catchUp', label: '過ぎた回もすべて作成する' },
+  { value: 'rollUp', label: '過ぎた回を1つにまとめる' },
+];
 
 export function SettingsPage() {
-  const { settings, updateSetting } = useSettings();
-  const { load: loadTasks } = useTasks();
-  const { load: loadCategories } = useCategories();
+  const {
+    snoozeMin,
+    missedRecurrencePolicy,
+    shortcuts,
+    trashRetentionDays,
+    load: loadSettings,
+    updateSetting,
+  } = useSettings();
   
   const [importMode, setImportMode] = useState<'replace' | 'merge'>('replace');
   const [importDialogOpen, setImportDialogOpen] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [importing, setImporting] = useState(false);
+  const [csvExportOpen, setCsvExportOpen] = useState(false);
+  // 読み込んだ CSV ファイルの内容 (列の割り当てのダイアログを開く)
+  const [csvText, setCsvText] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
   const [importError, setImportError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  // .ics ファイルは UID でタスクを統合するため、インポートモードを選ばない
+  const isICalendar = !!selectedFile?.name.toLowerCase().endsWith('.ics');
   
   // エクスポート処理
   const handleExport = async () => {
@@ -41,16 +78,41 @@ export function SettingsPage() {
     }
   };
   
+  // iCalendar エクスポート処理
+  const handleExportICalendar = async (component: ICalComponent) => {
+    try {
+      downloadICalendar(await exportICalendar(component));
+    } catch (error) {
+      console.error('エクスポートエラー:', error);
+    }
+  };
+  
   // ファイル選択処理
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
+    if (file?.name.toLowerCase().endsWith('.csv')) {
+      try {
+        setCsvText(await readFile(file));
+      } catch (error) {
+        console.error('ファイル読み込みエラー:', error);
+      }
+    } else if (file) {
       setSelectedFile(file);
       setImportDialogOpen(true);
       setImportError(null);
     }
   };
   
+  // CSV のインポートダイアログを閉じる
+  const handleCsvImportOpenChange = (open: boolean) => {
+    if (open) return;
+    setCsvText(null);
+    // 同じファイルをもう一度選べるようにファイル入力をリセット
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+  
   // インポート処理
   const handleImport = async () => {
     if (!selectedFile) return;
@@ -60,13 +122,14 @@ export function SettingsPage() {
     
     try {
       const content = await readFile(selectedFile);
-      const data = JSON.parse(content);
-      
-      await importData(data, importMode);
       
-      // データを再読み込み
-      await loadTasks();
-      await loadCategories();
+      // 置き換えたデータも元に戻せるように記録する (画面には liveQuery で反映される)
+      if (isICalendar) {
+        await recordHistory('iCalendar をインポートしました', () => importICalendar(content));
+      } else {
+        const data = JSON.parse(content);
+        await recordHistory('データをインポートしました', () => importData(data, importMode));
+      }
       
       setImportDialogOpen(false);
       setSelectedFile(null);
@@ -102,8 +165,8 @@ export function SettingsPage() {
                 <Input
                   id="snooze-duration"
                   type="number"
-                  value={settings.snoozeDuration || 10}
-                  onChange={(e) => updateSetting('snoozeDuration', parseInt(e.target.value))}
+                  value={snoozeMin}
+                  onChange={(e) => updateSetting('snoozeMin', parseInt(e.target.value))}
                   className="w-24"
                   min="1"
                   max="60"
@@ -112,6 +175,70 @@ export function SettingsPage() {
             </CardContent>
           </Card>
           
+          {/* 繰り返し設定 */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>繰り返し設定</CardTitle>
+              <CardDescription>期日を過ぎてから繰り返しタスクを完了した場合の扱い</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <Label htmlFor="missed-recurrence-policy">過ぎた回</Label>
+                <Select
+                  value={missedRecurrencePolicy}
+                  onValueChange={(value) => updateSetting('missedRecurrencePolicy', value)}
+                >
+                  <SelectTrigger id="missed-recurrence-policy" className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MISSED_RECURRENCE_POLICIES.map((policy) => (
+                      <SelectItem key={policy.value} value={policy.value}>
+                        {policy.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* ゴミ箱 */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>ゴミ箱</CardTitle>
+              <CardDescription>削除したタスクとカテゴリーは、この日数が過ぎると完全に削除されます</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="trash-retention-days">保存期間（日）</Label>
+                <Input
+                  id="trash-retention-days"
+                  type="number"
+                  value={trashRetentionDays}
+                  onChange={(e) => updateSetting('trashRetentionDays', parseInt(e.target.value))}
+                  className="w-24"
+                  min={MIN_TRASH_RETENTION_DAYS}
+                  max={MAX_TRASH_RETENTION_DAYS}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* キーボードショートカット */}
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>キーボードショートカット</CardTitle>
+              <CardDescription>? キーで一覧を、Ctrl / ⌘ + K でコマンドパレットを開きます</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ShortcutEditor
+                bindings={shortcuts}
+                onChange={(bindings) => updateSetting('shortcuts', bindings)}
+              />
+            </CardContent>
+          </Card>
+
           {/* データ管理 */}
           <Card>
             <CardHeader>
@@ -122,18 +249,34 @@ export function SettingsPage() {
               <div>
                 <h3 className="font-medium mb-2">エクスポート</h3>
                 <p className="text-sm text-muted-foreground mb-3">
-                  全てのタスク、カテゴリー、設定をJSONファイルとしてダウンロードします
+                  全てのタスク、カテゴリー、設定をJSONファイルとしてダウンロードします。
+                  iCalendar (.ics) は Thunderbird や Apple カレンダーで開けます (予定としては期日のある未完了のタスクのみ)。
+                  CSV は書き出す項目を選んで Excel やスプレッドシートで開けます
                 </p>
-                <Button onClick={handleExport}>
-                  <Download className="h-4 w-4 mr-2" />
-                  データをエクスポート
-                </Button>
+                <div className="flex flex-wrap gap-2">
+                  <Button onClick={handleExport}>
+                    <Download className="h-4 w-4 mr-2" />
+                    データをエクスポート
+                  </Button>
+                  <Button variant="outline" onClick={() => handleExportICalendar('VTODO')}>
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    iCalendar (タスク)
+                  </Button>
+                  <Button variant="outline" onClick={() => handleExportICalendar('VEVENT')}>
+                    <CalendarDays className="h-4 w-4 mr-2" />
+                    iCalendar (予定)
+                  </Button>
+                  <Button variant="outline" onClick={() => setCsvExportOpen(true)}>
+                    <Sheet className="h-4 w-4 mr-2" />
+                    CSV
+                  </Button>
+                </div>
               </div>
               
               <div>
                 <h3 className="font-medium mb-2">インポート</h3>
                 <p className="text-sm text-muted-foreground mb-3">
-                  JSONファイルからデータを読み込んで復元します
+                  JSONファイルからデータを読み込んで復元します。iCalendar (.ics) のタスク・予定や、列を割り当てて CSV のタスクも読み込めます
                 </p>
                 <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
                   <Upload className="h-4 w-4 mr-2" />
@@ -142,7 +285,7 @@ export function SettingsPage() {
                 <input
                   ref={fileInputRef}
                   type="file"
-                  accept=".json"
+                  accept=".json,.ics,.csv"
                   onChange={handleFileSelect}
                   className="hidden"
                 />
@@ -163,29 +306,35 @@ export function SettingsPage() {
           </DialogHeader>
           
           <div className="space-y-4">
-            <div>
-              <p className="text-sm font-medium mb-2">インポートモード</p>
-              <div className="space-y-2">
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="radio"
-                    value="replace"
-                    checked={importMode === 'replace'}
-                    onChange={(e) => setImportMode(e.target.value as 'replace' | 'merge')}
-                  />
-                  <span>置き換え（既存のデータを全て削除して入れ替え）</span>
-                </label>
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="radio"
-                    value="merge"
-                    checked={importMode === 'merge'}
-                    onChange={(e) => setImportMode(e.target.value as 'replace' | 'merge')}
-                  />
-                  <span>マージ（既存のデータに追加）</span>
-                </label>
+            {isICalendar ? (
+              <p className="text-sm text-muted-foreground">
+                UID が同じタスクは更新し、それ以外のタスクは追加します
+              </p>
+            ) : (
+              <div>
+                <p className="text-sm font-medium mb-2">インポートモード</p>
+                <div className="space-y-2">
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      value="replace"
+                      checked={importMode === 'replace'}
+                      onChange={(e) => setImportMode(e.target.value as 'replace' | 'merge')}
+                    />
+                    <span>置き換え（既存のデータを全て削除して入れ替え）</span>
+                  </label>
+                  <label className="flex items-center space-x-2">
+                    <input
+                      type="radio"
+                      value="merge"
+                      checked={importMode === 'merge'}
+                      onChange={(e) => setImportMode(e.target.value as 'replace' | 'merge')}
+                    />
+                    <span>マージ（既存のデータに追加）</span>
+                  </label>
+                </div>
               </div>
-            </div>
+            )}
             
             {importError && (
               <Alert variant="destructive">
@@ -216,6 +365,11 @@ export function SettingsPage() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+      
+      <CsvExportDialog open={csvExportOpen} onOpenChange={setCsvExportOpen} />
+      {csvText !== null && (
+        <CsvImportDialog open onOpenChange={handleCsvImportOpenChange} csv={csvText} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { BrowserRouter } from 'react-router-dom';
+import { TrashPage } from './TrashPage';
+import { useTrash } from '@/store/useTrash';
+import { useSettings } from '@/store/useSettings';
+
+// Mock dependencies
+vi.mock('@/store/useTrash');
+vi.mock('@/store/useSettings');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mockUseTrash = {
+  tasks: [
+    {
+      id: 't1',
+      title: '古い資料を整理',
+      status: 'pending',
+      createdAt: 0,
+      updatedAt: 0,
+      deletedAt: Date.now() - 2 * DAY_MS,
+    },
+  ],
+  categories: [
+    { id: 'c1', name: '旧プロジェクト', color: '#6366F1', order: 1, deletedAt: Date.now() },
+  ],
+  loading: false,
+  error: null as string | null,
+  load: vi.fn(),
+  subscribe: vi.fn(() => vi.fn()),
+  restoreTask: vi.fn(),
+  restoreCategory: vi.fn(),
+  deleteTask: vi.fn(),
+  deleteCategory: vi.fn(),
+  empty: vi.fn(),
+};
+
+const mockUseSettings = { trashRetentionDays: 30, load: vi.fn() };
+
+const renderWithRouter = (component: React.ReactElement) => {
+  return render(component, { wrapper: BrowserRouter });
+};
+
+describe('TrashPage', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useTrash).mockReturnValue(mockUseTrash as any);
+    vi.mocked(useSettings).mockReturnValue(mockUseSettings as any);
+  });
+
+  it('should list trashed tasks and categories with the days left', () => {
+    renderWithRouter(<TrashPage />);
+
+    expect(mockUseTrash.load).toHaveBeenCalled();
+    expect(screen.getByText('古い資料を整理')).toBeInTheDocument();
+    expect(screen.getByText('旧プロジェクト')).toBeInTheDocument();
+    expect(screen.getByText(/あと28日で完全に削除/)).toBeInTheDocument();
+    expect(
+      screen.getByText('削除したタスクとカテゴリーは30日後に完全に削除されます')
+    ).toBeInTheDocument();
+  });
+
+  it('should restore a task', async () => {
+    renderWithRouter(<TrashPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: '「古い資料を整理」を復元' }));
+
+    await waitFor(() => {
+      expect(mockUseTrash.restoreTask).toHaveBeenCalledWith('t1');
+    });
+  });
+
+  it('should delete a category permanently after confirmation', async () => {
+    renderWithRouter(<TrashPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: '「旧プロジェクト」を完全に削除' }));
+    expect(screen.getByText('完全に削除しますか？')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: '完全に削除' }));
+
+    await waitFor(() => {
+      expect(mockUseTrash.deleteCategory).toHaveBeenCalledWith('c1');
+    });
+  });
+
+  it('should empty the trash after confirmation', async () => {
+    renderWithRouter(<TrashPage />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'ゴミ箱を空にする' }));
+    fireEvent.click(screen.getByRole('button', { name: '完全に削除' }));
+
+    await waitFor(() => {
+      expect(mockUseTrash.empty).toHaveBeenCalled();
+    });
+  });
+
+  it('should show the empty state', () => {
+    vi.mocked(useTrash).mockReturnValue({ ...mockUseTrash, tasks: [], categories: [] } as any);
+    renderWithRouter(<TrashPage />);
+
+    expect(screen.getByText('ゴミ箱は空です')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'ゴミ箱を空にする' })).toBeDisabled();
+  });
+});
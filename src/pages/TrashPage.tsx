@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { AlertCircle, RotateCcw, Trash2 } from 'lucide-react';
+import { Navbar } from '@/components/Navbar';
+import { CategoryBadge } from '@/components/CategoryBadge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useTrash } from '@/store/useTrash';
+import { useSettings } from '@/store/useSettings';
+import { getDaysUntilPurge } from '@/utils/trash';
+
+// 完全に削除する前に確認する対象 (all: ゴミ箱を空にする)
+type DeleteTarget = { type: 'task' | 'category'; id: string; name: string } | 'all';
+
+export function TrashPage() {
+  const {
+    tasks,
+    categories,
+    loading,
+    error,
+    load,
+    subscribe,
+    restoreTask,
+    restoreCategory,
+    deleteTask,
+    deleteCategory,
+    empty,
+  } = useTrash();
+  const { trashRetentionDays, load: loadSettings } = useSettings();
+  const [deleteTarget, setDeleteTarget] = useState<DeleteTarget | null>(null);
+
+  useEffect(() => {
+    load();
+    loadSettings();
+  }, [load, loadSettings]);
+
+  // 他の画面での削除・元に戻す操作も一覧に反映する
+  useEffect(() => subscribe(), [subscribe]);
+
+  const isEmpty = tasks.length === 0 && categories.length === 0;
+
+  const handleDelete = async () => {
+    if (deleteTarget === 'all') {
+      await empty();
+    } else if (deleteTarget?.type === 'task') {
+      await deleteTask(deleteTarget.id);
+    } else if (deleteTarget?.type === 'category') {
+      await deleteCategory(deleteTarget.id);
+    }
+    setDeleteTarget(null);
+  };
+
+  const renderDeletedAt = (deletedAt: number) => (
+    <p className="text-sm text-muted-foreground">
+      {new Date(deletedAt).toLocaleDateString()}に削除・あと
+      {getDaysUntilPurge(deletedAt, trashRetentionDays)}日で完全に削除
+    </p>
+  );
+
+  const renderActions = (type: 'task' | 'category', id: string, name: string) => (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => (type === 'task' ? restoreTask(id) : restoreCategory(id))}
+        aria-label={`「${name}」を復元`}
+      >
+        <RotateCcw className="h-4 w-4 mr-1" />
+        復元
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setDeleteTarget({ type, id, name })}
+        aria-label={`「${name}」を完全に削除`}
+      >
+        <Trash2 className="h-4 w-4 text-red-500" />
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return <div className="flex h-screen items-center justify-center">読み込み中...</div>;
+  }
+
+  return (
+    <div className="h-screen flex flex-col bg-background">
+      <Navbar />
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="container max-w-4xl mx-auto p-4">
+          <div className="flex items-center justify-between mb-2">
+            <h1 className="text-2xl font-bold">ゴミ箱</h1>
+            <Button variant="destructive" onClick={() => setDeleteTarget('all')} disabled={isEmpty}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              ゴミ箱を空にする
+            </Button>
+          </div>
+          <p className="text-sm text-muted-foreground mb-6">
+            削除したタスクとカテゴリーは{trashRetentionDays}日後に完全に削除されます
+          </p>
+
+          {error && (
+            <Alert variant="destructive" className="mb-4">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {isEmpty ? (
+            <div className="text-center py-12 text-gray-500">ゴミ箱は空です</div>
+          ) : (
+            <div className="space-y-6">
+              {tasks.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">タスク ({tasks.length}件)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y">
+                      {tasks.map((task) => (
+                        <li key={task.id} className="flex items-center gap-4 py-3">
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium truncate">{task.title}</p>
+                            {renderDeletedAt(task.deletedAt!)}
+                          </div>
+                          {renderActions('task', task.id!, task.title)}
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+
+              {categories.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-lg">カテゴリー ({categories.length}件)</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y">
+                      {categories.map((category) => (
+                        <li key={category.id} className="flex items-center gap-4 py-3">
+                          <div className="flex-1 min-w-0">
+                            <CategoryBadge category={category} />
+                            {renderDeletedAt(category.deletedAt!)}
+                          </div>
+                          {renderActions('category', category.id!, category.name)}
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* 完全に削除する前の確認ダイアログ */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {deleteTarget === 'all' ? 'ゴミ箱を空にしますか？' : '完全に削除しますか？'}
+            </DialogTitle>
+            <DialogDescription>
+              {deleteTarget === 'all'
+                ? 'ゴミ箱のタスクとカテゴリーをすべて完全に削除します。'
+                : `「${deleteTarget?.name}」を完全に削除します。`}
+              この操作は取り消せません。
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              キャンセル
+            </Button>
+            <Button variant="destructive" onClick={handleDelete}>
+              完全に削除
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
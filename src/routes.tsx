@@ -3,7 +3,9 @@ import { AppLayout } from '@/components/AppLayout';
 import { HomePage } from '@/pages/HomePage';
 import { CategoriesPage } from '@/pages/CategoriesPage';
 import { AllTasksPage } from '@/pages/AllTasksPage';
+import { HabitsPage } from '@/pages/HabitsPage';
 import { SettingsPage } from '@/pages/SettingsPage';
+import { TrashPage } from '@/pages/TrashPage';
 
 export function AppRoutes() {
   return (
@@ -12,6 +14,8 @@ export function AppRoutes() {
         <Route path="/" element={<HomePage />} />
         <Route path="/categories" element={<CategoriesPage />} />
         <Route path="/all" element={<AllTasksPage />} />
+        <Route path="/habits" element={<HabitsPage />} />
+        <Route path="/trash" element={<TrashPage />} />
         <Route path="/settings" element={<SettingsPage />} />
       </Route>
     </Routes>
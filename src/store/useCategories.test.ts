@@ -116,9 +116,9 @@ describe('useCategories Store', () => {
       expect(result.current.categories).toHaveLength(0);
     });
 
-    // Verify in database
+    // Verify in database (moved to the trash)
     const dbCategory = await db.categories.get(categoryId!);
-    expect(dbCategory).toBeUndefined();
+    expect(dbCategory?.deletedAt).toEqual(expect.any(Number));
   });
 
   it('should reorder categories', async () => {
@@ -234,9 +234,9 @@ describe('useCategories Store', () => {
 
     expect(categoryId).toBeDefined();
 
-    // Mock DB delete to throw an error
-    const originalDelete = db.categories.delete;
-    db.categories.delete = vi.fn().mockRejectedValue(new Error('Delete error'));
+    // Mock DB update (move to the trash) to throw an error
+    const originalUpdate = db.categories.update;
+    db.categories.update = vi.fn().mockRejectedValue(new Error('Delete error'));
 
     await waitFor(async () => {
       await result.current.remove(categoryId!);
@@ -245,7 +245,7 @@ describe('useCategories Store', () => {
     expect(result.current.error).toBe('Delete error');
 
     // Restore original function
-    db.categories.delete = originalDelete;
+    db.categories.update = originalUpdate;
   });
 
   it('should handle errors when loading categories', async () => {
@@ -300,4 +300,17 @@ describe('useCategories Store', () => {
     // Restore original function
     db.transaction = originalTransaction;
   });
-});
\ No newline at end of file
+
+  it('should follow changes written outside the store', async () => {
+    const unsubscribe = useCategories.getState().subscribe();
+
+    await db.categories.add({ id: 'outside', name: 'Outside', color: '#000000', order: 1 });
+    await waitFor(() => {
+      expect(useCategories.getState().categories.map(category => category.name)).toEqual([
+        'Outside',
+      ]);
+    });
+
+    unsubscribe();
+  });
+});
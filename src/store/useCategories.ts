@@ -1,18 +1,33 @@
 import { create } from 'zustand';
+import { liveQuery } from 'dexie';
 import { db } from '../db';
 import type { Category } from '../db';
+import { excludeTrashed } from '../utils/trash';
+import { recordHistory } from './useHistory';
 
 interface CategoryStore {
   categories: Category[];
   loading: boolean;
   error: string | null;
   load: () => Promise<void>;
+  // データベースの変更を購読してカテゴリーを更新する (戻り値で購読を解除)
+  subscribe: () => () => void;
   add: (category: Partial<Category>) => Promise<string | undefined>;
   update: (id: string, updates: Partial<Category>) => Promise<void>;
   remove: (id: string) => Promise<void>;
   reorder: (categories: Category[]) => Promise<void>;
 }
 
+// ゴミ箱のカテゴリーを除いて表示順に読み込む
+async function loadActiveCategories(): Promise<Category[]> {
+  return excludeTrashed(await db.categories.orderBy('order').toArray());
+}
+
+// 元に戻すトーストに表示するカテゴリー名
+function getCategoryLabel(categories: Category[], id: string): string {
+  return `カテゴリー「${categories.find(category => category.id === id)?.name ?? ''}」`;
+}
+
 export const useCategories = create<CategoryStore>((set, get) => ({
   categories: [],
   loading: false,
@@ -21,14 +36,22 @@ export const useCategories = create<CategoryStore>((set, get) => ({
   load: async () => {
     set({ loading: true, error: null });
     try {
-      const categories = await db.categories.orderBy('order').toArray();
+      const categories = await loadActiveCategories();
       set({ categories, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
     }
   },
   
-  add: async (draft) => {
+  subscribe: () => {
+    const subscription = liveQuery(loadActiveCategories).subscribe({
+      next: (categories) => set({ categories, loading: false }),
+      error: (error) => set({ error: (error as Error).message, loading: false }),
+    });
+    return () => subscription.unsubscribe();
+  },
+  
+  add: (draft) => recordHistory(`カテゴリー「${draft.name || ''}」を追加しました`, async () => {
     try {
       const id = crypto.randomUUID();
       const maxOrder = Math.max(...get().categories.map(c => c.order), 0);
@@ -47,9 +70,9 @@ export const useCategories = create<CategoryStore>((set, get) => ({
       set({ error: (error as Error).message });
       return undefined;
     }
-  },
+  }),
   
-  update: async (id, updates) => {
+  update: (id, updates) => recordHistory(`${getCategoryLabel(get().categories, id)}を変更しました`, async () => {
     try {
       await db.categories.update(id, updates);
       
@@ -63,18 +86,19 @@ export const useCategories = create<CategoryStore>((set, get) => ({
     } catch (error) {
       set({ error: (error as Error).message });
     }
-  },
+  }),
   
-  remove: async (id) => {
+  remove: (id) => recordHistory(`${getCategoryLabel(get().categories, id)}をゴミ箱に移動しました`, async () => {
     try {
-      await db.categories.delete(id);
+      // ゴミ箱に移動する (タスクのカテゴリは復元できるように残す)
+      await db.categories.update(id, { deletedAt: Date.now() });
       set({ categories: get().categories.filter(category => category.id !== id) });
     } catch (error) {
       set({ error: (error as Error).message });
     }
-  },
+  }),
   
-  reorder: async (categories) => {
+  reorder: (categories) => recordHistory('カテゴリーを並び替えました', async () => {
     try {
       const updates = categories.map((cat, index) => ({ 
         ...cat, 
@@ -92,5 +116,5 @@ export const useCategories = create<CategoryStore>((set, get) => ({
     } catch (error) {
       set({ error: (error as Error).message });
     }
-  },
+  }),
 }));
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useHistory } from './useHistory';
+import { useTasks } from './useTasks';
+import { useCategories } from './useCategories';
+import { db } from '../db';
+
+describe('useHistory Store', () => {
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.categories.clear();
+    useHistory.setState({ undoStack: [], redoStack: [], notice: null, error: null });
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.categories.clear();
+    useTasks.setState({ tasks: [] });
+    useCategories.setState({ categories: [] });
+  });
+
+  it('should record a task mutation and undo and redo it', async () => {
+    const { result } = renderHook(() => useTasks());
+    let taskId: string | undefined;
+    await act(async () => {
+      taskId = await result.current.add({ title: '買い物' });
+    });
+
+    await act(async () => {
+      await result.current.update(taskId!, { title: '夕飯の買い物' });
+    });
+
+    expect(useHistory.getState().undoStack).toHaveLength(2);
+    expect(useHistory.getState().notice?.entry.label).toBe('「買い物」を更新しました');
+
+    await act(async () => {
+      expect(await useHistory.getState().undo()).toBe(true);
+    });
+    expect((await db.tasks.get(taskId!))?.title).toBe('買い物');
+    expect(useHistory.getState().notice?.undone).toBe(true);
+
+    await act(async () => {
+      await useHistory.getState().redo();
+    });
+    expect((await db.tasks.get(taskId!))?.title).toBe('夕飯の買い物');
+  });
+
+  it('should remove the next occurrence when undoing the completion of a recurring task', async () => {
+    const now = Date.now();
+    await db.tasks.add({
+      id: 'daily',
+      title: '毎日のタスク',
+      status: 'pending',
+      dueAt: now,
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const { result } = renderHook(() => useTasks());
+    await act(async () => {
+      await result.current.load();
+    });
+    await act(async () => {
+      await result.current.toggleStatus('daily');
+    });
+
+    expect(await db.tasks.count()).toBe(2);
+    expect(useHistory.getState().undoStack).toHaveLength(1);
+    expect(useHistory.getState().notice?.entry.label).toBe('「毎日のタスク」を完了にしました');
+
+    await act(async () => {
+      await useHistory.getState().undo();
+    });
+
+    const tasks = await db.tasks.toArray();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].status).toBe('pending');
+  });
+
+  it('should undo a batch operation as a single entry', async () => {
+    const now = Date.now();
+    await db.tasks.bulkAdd([
+      { id: 'a', title: 'A', status: 'pending', createdAt: now, updatedAt: now },
+      { id: 'b', title: 'B', status: 'pending', createdAt: now, updatedAt: now },
+    ]);
+
+    await act(async () => {
+      await useTasks.getState().updateMany(['a', 'b'], { status: 'archived' });
+    });
+    expect(useHistory.getState().undoStack).toHaveLength(1);
+    expect(useHistory.getState().notice?.entry.label).toBe('2件のタスクをアーカイブしました');
+
+    await act(async () => {
+      await useHistory.getState().undo();
+    });
+    const tasks = await db.tasks.toArray();
+    expect(tasks.every((task) => task.status === 'pending')).toBe(true);
+  });
+
+  it('should restore a category moved to the trash', async () => {
+    const { result } = renderHook(() => useCategories());
+    let categoryId: string | undefined;
+    await act(async () => {
+      categoryId = await result.current.add({ name: '仕事' });
+    });
+    await act(async () => {
+      await result.current.remove(categoryId!);
+    });
+    expect((await db.categories.get(categoryId!))?.deletedAt).toBeDefined();
+
+    await act(async () => {
+      await useHistory.getState().undo();
+    });
+    expect((await db.categories.get(categoryId!))?.deletedAt).toBeUndefined();
+  });
+
+  it('should record concurrent operations as separate entries', async () => {
+    await act(async () => {
+      await Promise.all([
+        useTasks.getState().add({ title: 'A' }),
+        useCategories.getState().add({ name: '仕事' }),
+      ]);
+    });
+
+    const { undoStack } = useHistory.getState();
+    expect(undoStack.map((entry) => entry.label)).toEqual([
+      '「A」を追加しました',
+      'カテゴリー「仕事」を追加しました',
+    ]);
+    expect(undoStack.map((entry) => entry.changes.map((change) => change.table))).toEqual([
+      ['tasks'],
+      ['categories'],
+    ]);
+
+    await act(async () => {
+      await useHistory.getState().undo();
+    });
+    expect(await db.categories.count()).toBe(0);
+    expect(await db.tasks.count()).toBe(1);
+  });
+
+  it('should clear the redo stack when a new operation is recorded', async () => {
+    await act(async () => {
+      await useTasks.getState().add({ title: 'A' });
+      await useHistory.getState().undo();
+    });
+    expect(useHistory.getState().redoStack).toHaveLength(1);
+
+    await act(async () => {
+      await useTasks.getState().add({ title: 'B' });
+    });
+    expect(useHistory.getState().redoStack).toHaveLength(0);
+    expect(await useHistory.getState().redo()).toBe(false);
+  });
+});
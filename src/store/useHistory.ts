@@ -0,0 +1,101 @@
+import { create } from 'zustand';
+import { applyChanges, captureChanges, type RowChange } from '../db/history';
+
+// 元に戻せる操作の数
+export const MAX_HISTORY = 50;
+
+export interface HistoryEntry {
+  id: number;
+  label: string; // トーストに表示する操作の説明 (例: 「買い物」を完了にしました)
+  changes: RowChange[];
+}
+
+interface HistoryStore {
+  undoStack: HistoryEntry[];
+  redoStack: HistoryEntry[];
+  // トーストに表示する直前の操作 (undone: 元に戻した操作)
+  notice: { entry: HistoryEntry; undone: boolean } | null;
+  error: string | null;
+  // 処理の間のタスク・カテゴリー・設定の変更を1つの操作として記録する
+  record: <T>(label: string, callback: () => Promise<T>) => Promise<T>;
+  // 元に戻した・やり直した場合は true
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+  dismiss: () => void;
+}
+
+let nextEntryId = 1;
+
+export const useHistory = create<HistoryStore>((set, get) => ({
+  undoStack: [],
+  redoStack: [],
+  notice: null,
+  error: null,
+
+  record: async (label, callback) => {
+    const { result, changes } = await captureChanges(callback);
+    // 何も変更しなかった場合は記録しない
+    if (changes.length > 0) {
+      const entry = { id: nextEntryId++, label, changes };
+      set({
+        undoStack: [...get().undoStack, entry].slice(-MAX_HISTORY),
+        redoStack: [],
+        notice: { entry, undone: false },
+        error: null,
+      });
+    }
+    return result;
+  },
+
+  undo: async () => {
+    const { undoStack, redoStack } = get();
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return false;
+
+    try {
+      await applyChanges(entry.changes, 'undo');
+      set({
+        undoStack: undoStack.slice(0, -1),
+        redoStack: [...redoStack, entry],
+        notice: { entry, undone: true },
+        error: null,
+      });
+      return true;
+    } catch (error) {
+      set({ error: (error as Error).message, notice: null });
+      return false;
+    }
+  },
+
+  redo: async () => {
+    const { undoStack, redoStack } = get();
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return false;
+
+    try {
+      await applyChanges(entry.changes, 'redo');
+      set({
+        undoStack: [...undoStack, entry],
+        redoStack: redoStack.slice(0, -1),
+        notice: { entry, undone: false },
+        error: null,
+      });
+      return true;
+    } catch (error) {
+      set({ error: (error as Error).message, notice: null });
+      return false;
+    }
+  },
+
+  dismiss: () => set({ notice: null, error: null }),
+}));
+
+/**
+ * 元に戻せるように処理の変更を記録する
+ * @param label トーストに表示する操作の説明
+ * @param callback 記録する処理
+ * @returns 処理の戻り値
+ */
+export function recordHistory<T>(label: string, callback: () => Promise<T>): Promise<T> {
+  return useHistory.getState().record(label, callback);
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { useSettings } from './useSettings';
+import { db } from '../db';
+
+describe('useSettings Store', () => {
+  beforeEach(async () => {
+    await db.open();
+    await db.settings.clear();
+  });
+
+  afterEach(async () => {
+    await db.settings.clear();
+  });
+
+  it('should not load operation locks as settings', async () => {
+    const now = Date.now();
+    await db.settings.bulkPut([
+      { key: 'theme', value: 'dark' },
+      { key: 'lock:recurrence:1', value: { owner: 'tab', acquiredAt: now, expiresAt: now + 1000 } },
+    ]);
+
+    await useSettings.getState().load();
+
+    expect(useSettings.getState().theme).toBe('dark');
+    expect(useSettings.getState().settings).toEqual({ theme: 'dark' });
+  });
+});
@@ -1,5 +1,13 @@
 import { create } from 'zustand';
-import { db } from '../db';
+import { liveQuery } from 'dexie';
+import { db, isLockSetting } from '../db';
+import type { Setting } from '../db';
+import {
+  DEFAULT_MISSED_RECURRENCE_POLICY,
+  type MissedRecurrencePolicy,
+} from '../utils/recurrence';
+import { DEFAULT_SHORTCUTS, resolveShortcuts, type ShortcutBindings } from '../utils/shortcuts';
+import { DEFAULT_TRASH_RETENTION_DAYS, resolveTrashRetentionDays } from '../utils/trash';
 
 type Theme = 'light' | 'dark';
 
@@ -7,20 +15,53 @@ interface SettingsStore {
   theme: Theme;
   notifyBeforeMin: number;
   snoozeMin: number;
+  missedRecurrencePolicy: MissedRecurrencePolicy;
+  shortcuts: ShortcutBindings;
+  trashRetentionDays: number;
   loading: boolean;
   error: string | null;
   settings: Record<string, any>;
   load: () => Promise<void>;
+  // データベースの変更を購読して設定を更新する (戻り値で購読を解除)
+  subscribe: () => () => void;
   setTheme: (theme: Theme) => Promise<void>;
   setNotifyBeforeMin: (minutes: number) => Promise<void>;
   setSnoozeMin: (minutes: number) => Promise<void>;
   updateSetting: (key: string, value: any) => Promise<void>;
 }
 
+// 保存された設定を読み込む (操作ロックの行は設定ではないため除く)
+async function loadSettings(): Promise<Setting[]> {
+  return (await db.settings.toArray()).filter((setting) => !isLockSetting(setting));
+}
+
+// 保存された設定をストアの状態にする (未設定の項目は既定値)
+function resolveSettings(settings: Setting[]) {
+  const settingsMap = settings.reduce((acc, { key, value }) => {
+    acc[key] = value;
+    return acc;
+  }, {} as Record<string, unknown>);
+
+  return {
+    theme: (settingsMap.theme as Theme) || 'light',
+    notifyBeforeMin: (settingsMap.notifyBeforeMin as number) || 15,
+    snoozeMin: (settingsMap.snoozeMin as number) || 5,
+    missedRecurrencePolicy:
+      (settingsMap.missedRecurrencePolicy as MissedRecurrencePolicy) ||
+      DEFAULT_MISSED_RECURRENCE_POLICY,
+    shortcuts: resolveShortcuts(settingsMap.shortcuts),
+    trashRetentionDays: resolveTrashRetentionDays(settingsMap.trashRetentionDays),
+    settings: settingsMap,
+  };
+}
+
 export const useSettings = create<SettingsStore>((set) => ({
   theme: 'light',
   notifyBeforeMin: 15,
   snoozeMin: 5,
+  missedRecurrencePolicy: DEFAULT_MISSED_RECURRENCE_POLICY,
+  shortcuts: DEFAULT_SHORTCUTS,
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
   loading: false,
   error: null,
   settings: {},
@@ -28,24 +69,21 @@ export const useSettings = create<SettingsStore>((set) => ({
   load: async () => {
     set({ loading: true, error: null });
     try {
-      const settings = await db.settings.toArray();
-      const settingsMap = settings.reduce((acc, { key, value }) => {
-        acc[key] = value;
-        return acc;
-      }, {} as Record<string, unknown>);
-      
-      set({
-        theme: (settingsMap.theme as Theme) || 'light',
-        notifyBeforeMin: (settingsMap.notifyBeforeMin as number) || 15,
-        snoozeMin: (settingsMap.snoozeMin as number) || 5,
-        settings: settingsMap,
-        loading: false,
-      });
+      const settings = await loadSettings();
+      set({ ...resolveSettings(settings), loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
     }
   },
   
+  subscribe: () => {
+    const subscription = liveQuery(loadSettings).subscribe({
+      next: (settings) => set({ ...resolveSettings(settings), loading: false }),
+      error: (error) => set({ error: (error as Error).message, loading: false }),
+    });
+    return () => subscription.unsubscribe();
+  },
+  
   setTheme: async (theme) => {
     try {
       await db.settings.put({ key: 'theme', value: theme });
@@ -81,6 +119,11 @@ export const useSettings = create<SettingsStore>((set) => ({
         ...(key === 'theme' && { theme: value }),
         ...(key === 'notifyBeforeMin' && { notifyBeforeMin: value }),
         ...(key === 'snoozeMin' && { snoozeMin: value }),
+        ...(key === 'missedRecurrencePolicy' && { missedRecurrencePolicy: value }),
+        ...(key === 'shortcuts' && { shortcuts: resolveShortcuts(value) }),
+        ...(key === 'trashRetentionDays' && {
+          trashRetentionDays: resolveTrashRetentionDays(value),
+        }),
       }));
     } catch (error) {
       set({ error: (error as Error).message });
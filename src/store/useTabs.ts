@@ -0,0 +1,21 @@
+import { create } from 'zustand';
+import { requestLeadership } from '../utils/tabs';
+
+interface TabsStore {
+  // このタブが代表 (通知の予約を担当するタブ) かどうか
+  isLeader: boolean;
+  // 代表のタブの選出に参加する (戻り値で参加をやめる)
+  start: () => () => void;
+}
+
+export const useTabs = create<TabsStore>((set) => ({
+  isLeader: false,
+
+  start: () => {
+    const resign = requestLeadership(() => set({ isLeader: true }));
+    return () => {
+      resign();
+      set({ isLeader: false });
+    };
+  },
+}));
@@ -1,23 +1,27 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useTasks } from './useTasks';
 import { db } from '../db';
 import type { Task } from '../db';
 
-vi.mock('../db', () => ({
-  db: {
-    tasks: {
-      toArray: vi.fn(),
-      add: vi.fn(),
-      update: vi.fn(),
-      delete: vi.fn(),
-    },
-  },
-}));
-
 describe('useTasks - Recurrence functionality', () => {
-  beforeEach(() => {
-    vi.clearAllMocks();
+  // 完了にしたタスクの後に作成された次の回
+  const getNextTasks = async (id: string) =>
+    (await db.tasks.toArray()).filter(task => task.id !== id);
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.settings.clear();
+    // RRULE の起点は現在時刻になるため Date のみ固定する (操作ロックはタイマーを使う)
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+    await db.tasks.clear();
+    useTasks.setState({ tasks: [], error: null });
   });
 
   it('should create a recurring task when completing a task with repeatRule', async () => {
@@ -36,7 +40,7 @@ describe('useTasks - Recurrence functionality', () => {
     };
 
     const tasks = [recurringTask];
-    vi.mocked(db.tasks.toArray).mockResolvedValue(tasks);
+    await db.tasks.bulkAdd(tasks);
 
     const { result } = renderHook(() => useTasks());
 
@@ -53,13 +57,13 @@ describe('useTasks - Recurrence functionality', () => {
     });
 
     // 元のタスクが更新されたことを確認
-    expect(db.tasks.update).toHaveBeenCalledWith('task-1', expect.objectContaining({ 
+    expect(await db.tasks.get('task-1')).toEqual(expect.objectContaining({
       status: 'done',
       updatedAt: expect.any(Number),
     }));
 
     // 新しい繰り返しタスクが作成されたことを確認
-    expect(db.tasks.add).toHaveBeenCalledWith(expect.objectContaining({
+    expect(await getNextTasks('task-1')).toContainEqual(expect.objectContaining({
       title: '毎日のタスク',
       dueAt: new Date('2023-12-02T10:00:00').getTime(), // 次の日
       status: 'pending',
@@ -67,8 +71,60 @@ describe('useTasks - Recurrence functionality', () => {
       repeatParentId: 'task-1',
       repeatCount: 1,
     }));
-    
-    vi.clearAllMocks();
+  });
+
+  it('should plan the next task from the latest row in the database', async () => {
+    const now = new Date('2023-12-01T10:00:00');
+    vi.setSystemTime(now);
+    const day = 24 * 60 * 60 * 1000;
+
+    const task: Task = {
+      id: 'task-latest',
+      title: '毎日のタスク',
+      dueAt: now.getTime(),
+      status: 'pending',
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+      createdAt: now.getTime(),
+      updatedAt: now.getTime(),
+    };
+    await db.tasks.add(task);
+    await useTasks.getState().load();
+
+    // このタブのストアが古いまま、他のタブが期日を2日後に変更した
+    await db.tasks.update('task-latest', { dueAt: now.getTime() + 2 * day });
+
+    await act(async () => {
+      await useTasks.getState().toggleStatus('task-latest');
+    });
+
+    expect(await getNextTasks('task-latest')).toEqual([
+      expect.objectContaining({ dueAt: now.getTime() + 3 * day }),
+    ]);
+  });
+
+  it('should keep the task pending when the next task cannot be created', async () => {
+    const task: Task = {
+      id: 'task-failed',
+      title: '毎日のタスク',
+      dueAt: Date.now(),
+      status: 'pending',
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    await db.tasks.add(task);
+    await useTasks.getState().load();
+    vi.spyOn(db.tasks, 'add').mockRejectedValueOnce(new Error('Add error'));
+    const consoleError = vi.spyOn(console, 'error');
+
+    await act(async () => {
+      await useTasks.getState().toggleStatus('task-failed');
+    });
+
+    expect((await db.tasks.get('task-failed'))?.status).toBe('pending');
+    expect(await getNextTasks('task-failed')).toEqual([]);
+    expect(useTasks.getState().error).toBe('Add error');
+    expect(consoleError).not.toHaveBeenCalled();
   });
 
   it('should not create a recurring task when uncompleting a task', async () => {
@@ -82,7 +138,7 @@ describe('useTasks - Recurrence functionality', () => {
     };
 
     const tasks = [doneTask];
-    vi.mocked(db.tasks.toArray).mockResolvedValue(tasks);
+    await db.tasks.bulkAdd(tasks);
 
     const { result } = renderHook(() => useTasks());
 
@@ -96,10 +152,10 @@ describe('useTasks - Recurrence functionality', () => {
     });
 
     // タスクが更新されただけで、新しいタスクは作成されないことを確認
-    expect(db.tasks.update).toHaveBeenCalledWith('task-2', expect.objectContaining({
+    expect(await db.tasks.get('task-2')).toEqual(expect.objectContaining({
       status: 'pending',
     }));
-    expect(db.tasks.add).not.toHaveBeenCalled();
+    expect(await getNextTasks('task-2')).toEqual([]);
   });
 
   it('should preserve checklist in recurring tasks', async () => {
@@ -118,7 +174,7 @@ describe('useTasks - Recurrence functionality', () => {
     };
 
     const tasks = [taskWithChecklist];
-    vi.mocked(db.tasks.toArray).mockResolvedValue(tasks);
+    await db.tasks.bulkAdd(tasks);
 
     const { result } = renderHook(() => useTasks());
 
@@ -131,7 +187,7 @@ describe('useTasks - Recurrence functionality', () => {
     });
 
     // 新しいタスクのチェックリストが全て未チェックになっていることを確認
-    expect(db.tasks.add).toHaveBeenCalledWith(expect.objectContaining({
+    expect(await getNextTasks('task-3')).toContainEqual(expect.objectContaining({
       checklist: [
         { id: '1', text: 'サブタスク1', checked: false },
         { id: '2', text: 'サブタスク2', checked: false },
@@ -139,6 +195,39 @@ describe('useTasks - Recurrence functionality', () => {
     }));
   });
 
+  it('should carry relative reminders to the next instance', async () => {
+    const task: Task = {
+      id: 'task-reminders',
+      title: 'リマインダー付きタスク',
+      dueAt: Date.now(),
+      status: 'pending',
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+      reminders: [
+        { id: 'r1', type: 'relative', offsetMin: 15 },
+        { id: 'r2', type: 'absolute', at: Date.now() - 1000 },
+      ],
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+
+    await db.tasks.add(task);
+
+    const { result } = renderHook(() => useTasks());
+
+    await act(async () => {
+      await result.current.load();
+    });
+
+    await act(async () => {
+      await result.current.toggleStatus('task-reminders');
+    });
+
+    // 日時指定のリマインダーは一度きりなので引き継がれない
+    expect(await getNextTasks('task-reminders')).toContainEqual(expect.objectContaining({
+      reminders: [{ id: 'r1', type: 'relative', offsetMin: 15 }],
+    }));
+  });
+
   it('should handle recurring tasks with end date', async () => {
     const now = new Date('2023-12-30T10:00:00');
     vi.setSystemTime(now);
@@ -155,7 +244,7 @@ describe('useTasks - Recurrence functionality', () => {
     };
 
     const tasks = [taskWithEndDate];
-    vi.mocked(db.tasks.toArray).mockResolvedValue(tasks);
+    await db.tasks.bulkAdd(tasks);
 
     const { result } = renderHook(() => useTasks());
 
@@ -169,10 +258,9 @@ describe('useTasks - Recurrence functionality', () => {
     });
 
     // 次の繰り返し（12/31）は終了日内なので、新しいタスクが作成される
-    expect(db.tasks.add).toHaveBeenCalledTimes(1);
-    expect(db.tasks.add).toHaveBeenCalledWith(expect.objectContaining({
+    expect(await getNextTasks('task-4')).toEqual([expect.objectContaining({
       dueAt: new Date('2023-12-31T10:00:00').getTime(),
-    }));
+    })]);
   });
 
   it('should not create recurring task when past end date', async () => {
@@ -191,7 +279,7 @@ describe('useTasks - Recurrence functionality', () => {
     };
 
     const tasks = [expiredTask];
-    vi.mocked(db.tasks.toArray).mockResolvedValue(tasks);
+    await db.tasks.bulkAdd(tasks);
 
     const { result } = renderHook(() => useTasks());
 
@@ -205,6 +293,41 @@ describe('useTasks - Recurrence functionality', () => {
     });
 
     // 終了日を過ぎているので、新しいタスクは作成されない
-    expect(db.tasks.add).not.toHaveBeenCalled();
+    expect(await getNextTasks('task-5')).toEqual([]);
+  });
+
+  it('should schedule the next task from the completion date in completion mode', async () => {
+    // 期日から2日遅れて完了
+    const dueAt = new Date('2023-12-01T09:00:00').getTime();
+    vi.setSystemTime(new Date('2023-12-03T20:00:00'));
+
+    const chore: Task = {
+      id: 'task-6',
+      title: '植物に水をやる',
+      dueAt,
+      status: 'pending',
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=3',
+      repeatMode: 'completion',
+      createdAt: dueAt,
+      updatedAt: dueAt,
+    };
+
+    await db.tasks.add(chore);
+
+    const { result } = renderHook(() => useTasks());
+
+    await act(async () => {
+      await result.current.load();
+    });
+
+    await act(async () => {
+      await result.current.toggleStatus('task-6');
+    });
+
+    // 完了日の3日後、元の期日と同じ時刻
+    expect(await getNextTasks('task-6')).toContainEqual(expect.objectContaining({
+      dueAt: new Date('2023-12-06T09:00:00').getTime(),
+      repeatMode: 'completion',
+    }));
   });
-});
\ No newline at end of file
+});
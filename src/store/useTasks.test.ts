@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { useTasks } from './useTasks';
-import { db } from '../db';
+import { batchUpdateTasks, createTask, db, deleteTask } from '../db';
 
 describe('useTasks Store', () => {
   beforeEach(async () => {
@@ -97,6 +97,30 @@ describe('useTasks Store', () => {
     });
   });
 
+  it('should not create the next occurrence again after another tab completed it', async () => {
+    const now = Date.now();
+    const task = {
+      id: 'daily',
+      title: '毎日のタスク',
+      status: 'pending' as const,
+      dueAt: now,
+      repeatRule: 'RRULE:FREQ=DAILY;INTERVAL=1',
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.tasks.add(task);
+    useTasks.setState({ tasks: [task] });
+
+    // このタブのストアが古いまま、他のタブが完了にして次の回を作成した
+    await db.tasks.update('daily', { status: 'done' });
+    await db.tasks.add({ ...task, id: 'daily-2', repeatParentId: 'daily', repeatCount: 1 });
+
+    await useTasks.getState().toggleStatus('daily');
+
+    expect(await db.tasks.count()).toBe(2);
+    expect((await db.tasks.get('daily'))?.status).toBe('done');
+  });
+
   it('should remove a task', async () => {
     const { result } = renderHook(() => useTasks());
 
@@ -153,4 +177,96 @@ describe('useTasks Store', () => {
     const archivedCount = result.current.tasks.filter(t => t.status === 'archived').length;
     expect(archivedCount).toBe(1);
   });
-});
\ No newline at end of file
+
+  describe('subtasks', () => {
+    it('should complete open subtasks together with the parent', async () => {
+      const store = useTasks.getState();
+      const parentId = (await store.add({ title: 'Parent' }))!;
+      const childId = (await store.add({ title: 'Child', parentId }))!;
+      const grandchildId = (await store.add({ title: 'Grandchild', parentId: childId }))!;
+
+      await useTasks.getState().toggleStatus(parentId, { includeSubtasks: true });
+
+      const statuses = (await db.tasks.bulkGet([parentId, childId, grandchildId])).map(
+        task => task?.status
+      );
+      expect(statuses).toEqual(['done', 'done', 'done']);
+    });
+
+    it('should leave subtasks open by default', async () => {
+      const store = useTasks.getState();
+      const parentId = (await store.add({ title: 'Parent' }))!;
+      const childId = (await store.add({ title: 'Child', parentId }))!;
+
+      await useTasks.getState().toggleStatus(parentId);
+
+      expect((await db.tasks.get(childId))?.status).toBe('pending');
+    });
+
+    it('should keep subtasks when the parent is moved to the trash', async () => {
+      const store = useTasks.getState();
+      const parentId = (await store.add({ title: 'Parent' }))!;
+      const childId = (await store.add({ title: 'Child', parentId }))!;
+
+      await useTasks.getState().remove(parentId);
+
+      // 親を復元したときにサブタスクに戻るよう、親の参照は残す
+      expect((await db.tasks.get(childId))?.parentId).toBe(parentId);
+      expect(useTasks.getState().tasks.map(task => task.id)).toEqual([childId]);
+    });
+
+    it('should promote a checklist item into a subtask', async () => {
+      const item = { id: 'item-1', text: '見積もりを依頼', checked: false };
+      const parentId = (await useTasks.getState().add({
+        title: 'Parent',
+        categoryId: 'cat-1',
+        checklist: [item, { id: 'item-2', text: '発注', checked: false }],
+      }))!;
+
+      const subtaskId = await useTasks.getState().promoteChecklistItem(parentId, item);
+
+      const subtask = await db.tasks.get(subtaskId!);
+      expect(subtask).toMatchObject({
+        title: '見積もりを依頼',
+        status: 'pending',
+        parentId,
+        categoryId: 'cat-1',
+      });
+      expect((await db.tasks.get(parentId))?.checklist?.map(i => i.id)).toEqual(['item-2']);
+    });
+  });
+
+  it('should reject circular dependencies', async () => {
+    const store = useTasks.getState();
+    const firstId = (await store.add({ title: 'First' }))!;
+    const secondId = (await store.add({ title: 'Second', blockedBy: [firstId] }))!;
+
+    await useTasks.getState().update(firstId, { blockedBy: [secondId] });
+
+    expect(useTasks.getState().error).toBe('循環する依存関係は設定できません');
+    expect((await db.tasks.get(firstId))?.blockedBy).toBeUndefined();
+    useTasks.setState({ error: null });
+  });
+
+  it('should follow changes written outside the store', async () => {
+    const unsubscribe = useTasks.getState().subscribe();
+
+    const id = await createTask({ title: 'Outside', status: 'pending' });
+    await waitFor(() => {
+      expect(useTasks.getState().tasks.map(task => task.title)).toEqual(['Outside']);
+    });
+
+    await batchUpdateTasks([id], { status: 'archived' });
+    await waitFor(() => {
+      expect(useTasks.getState().tasks[0].status).toBe('archived');
+    });
+
+    // ゴミ箱に移動したタスクは一覧から消える
+    await deleteTask(id);
+    await waitFor(() => {
+      expect(useTasks.getState().tasks).toHaveLength(0);
+    });
+
+    unsubscribe();
+  });
+});
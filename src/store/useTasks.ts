@@ -1,17 +1,132 @@
 import { create } from 'zustand';
-import { db } from '../db';
-import type { Task } from '../db';
-import { RRule } from 'rrule';
+import { liveQuery } from 'dexie';
+import {
+  batchDeleteTasks,
+  batchUpdateTasks,
+  completeTask,
+  db,
+  deleteRecurringTask,
+  deleteTask,
+  renameTag,
+  updateRecurringTask,
+} from '../db';
+import type { ChecklistItem, RecurrenceScope, Task } from '../db';
+import { checklistItemToSubtask, getOpenSubtasks } from '../utils/subtasks';
+import { DEPENDENCY_CYCLE_MESSAGE, wouldCreateDependencyCycle } from '../utils/dependencies';
+import { excludeTrashed } from '../utils/trash';
+import { recordHistory } from './useHistory';
 
 interface TaskStore {
   tasks: Task[];
   loading: boolean;
   error: string | null;
   load: () => Promise<void>;
+  // データベースの変更を購読してタスクを更新する (戻り値で購読を解除)
+  subscribe: () => () => void;
   add: (task: Partial<Task>) => Promise<string | undefined>;
   update: (id: string, updates: Partial<Task>) => Promise<void>;
   remove: (id: string) => Promise<void>;
-  toggleStatus: (id: string) => Promise<void>;
+  // 複数のタスクをまとめて更新・ゴミ箱に移動する (1回の操作として元に戻せる)
+  updateMany: (ids: string[], updates: Partial<Task>) => Promise<void>;
+  removeMany: (ids: string[]) => Promise<void>;
+  // includeSubtasks: 完了にするときに未完了のサブタスクもまとめて完了にする
+  toggleStatus: (id: string, options?: { includeSubtasks?: boolean }) => Promise<void>;
+  promoteChecklistItem: (id: string, item: ChecklistItem) => Promise<string | undefined>;
+  // すべてのタスクでタグの名前を変更する (変更後のタグがある場合は統合)
+  renameTag: (from: string, to: string) => Promise<void>;
+  updateSeries: (id: string, updates: Partial<Task>, scope: RecurrenceScope) => Promise<Task[]>;
+  removeSeries: (
+    id: string,
+    scope: RecurrenceScope
+  ) => Promise<{ deletedIds: string[]; nextTask?: Task }>;
+}
+
+// ゴミ箱のタスクを除いて読み込む
+async function loadActiveTasks(): Promise<Task[]> {
+  return excludeTrashed(await db.tasks.toArray());
+}
+
+// 元に戻すトーストに表示するタスク名
+function getTaskLabel(tasks: Task[], id: string): string {
+  return `「${tasks.find(task => task.id === id)?.title ?? 'タスク'}」`;
+}
+
+// 記録中の操作の中から呼ぶ処理
+// captureChanges は入れ子にできないため、変更の記録は呼び出し側の操作で行う
+async function addTask(draft: Partial<Task>): Promise<string | undefined> {
+  try {
+    const id = crypto.randomUUID();
+    const now = Date.now();
+
+    // draft から id を除外して新しいタスクを作成
+    const { id: _, ...draftWithoutId } = draft;
+
+    const task: Task = {
+      id,
+      title: draft.title || '',
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now,
+      ...draftWithoutId,
+    };
+
+    await db.tasks.add(task);
+    useTasks.setState({ tasks: [...useTasks.getState().tasks, task] });
+
+    return id;
+  } catch (error) {
+    useTasks.setState({ error: (error as Error).message });
+    return undefined;
+  }
+}
+
+async function updateTask(id: string, updates: Partial<Task>): Promise<void> {
+  try {
+    const { tasks } = useTasks.getState();
+    if (updates.blockedBy && wouldCreateDependencyCycle(id, updates.blockedBy, tasks)) {
+      throw new Error(DEPENDENCY_CYCLE_MESSAGE);
+    }
+
+    const now = Date.now();
+    await db.tasks.update(id, { ...updates, updatedAt: now });
+
+    const updatedTasks = useTasks.getState().tasks.map(task =>
+      task.id === id
+        ? { ...task, ...updates, updatedAt: now }
+        : task
+    );
+    useTasks.setState({ tasks: updatedTasks });
+  } catch (error) {
+    useTasks.setState({ error: (error as Error).message });
+  }
+}
+
+async function toggleTaskStatus(id: string, options: { includeSubtasks?: boolean } = {}) {
+  const task = useTasks.getState().tasks.find(t => t.id === id);
+  if (!task) return;
+
+  const newStatus = task.status === 'pending' ? 'done' : 'pending';
+
+  // 子孫から順に完了にする (繰り返しのサブタスクは次の回も作成される)
+  if (newStatus === 'done' && options.includeSubtasks) {
+    for (const subtask of getOpenSubtasks(id, useTasks.getState().tasks).reverse()) {
+      await toggleTaskStatus(subtask.id!);
+    }
+  }
+
+  if (newStatus !== 'done') {
+    await updateTask(id, { status: newStatus });
+    return;
+  }
+
+  // 通知から完了にする場合と同じく、系列ごとにロックしてデータベースの最新の状態から次の回を作成する
+  // 次の回を作成できない場合は、完了も含めて取り消される
+  try {
+    await completeTask(id);
+    useTasks.setState({ tasks: await loadActiveTasks() });
+  } catch (error) {
+    useTasks.setState({ error: (error as Error).message });
+  }
 }
 
 export const useTasks = create<TaskStore>((set, get) => ({
@@ -22,101 +137,119 @@ export const useTasks = create<TaskStore>((set, get) => ({
   load: async () => {
     set({ loading: true, error: null });
     try {
-      const tasks = await db.tasks.toArray();
+      const tasks = await loadActiveTasks();
       set({ tasks, loading: false });
     } catch (error) {
       set({ error: (error as Error).message, loading: false });
     }
   },
   
-  add: async (draft) => {
-    try {
-      const id = crypto.randomUUID();
-      const now = Date.now();
-
-      // draft から id を除外して新しいタスクを作成
-      const { id: _, ...draftWithoutId } = draft;
-
-      const task: Task = {
-        id,
-        title: draft.title || '',
-        status: 'pending',
-        createdAt: now,
-        updatedAt: now,
-        ...draftWithoutId,
-      };
-
-      await db.tasks.add(task);
-      set({ tasks: [...get().tasks, task] });
-
-      return id;
-    } catch (error) {
-      set({ error: (error as Error).message });
-      return undefined;
-    }
+  subscribe: () => {
+    const subscription = liveQuery(loadActiveTasks).subscribe({
+      next: (tasks) => set({ tasks, loading: false }),
+      error: (error) => set({ error: (error as Error).message, loading: false }),
+    });
+    return () => subscription.unsubscribe();
+  },
+  
+  add: (draft) => recordHistory(`「${draft.title || ''}」を追加しました`, () => addTask(draft)),
+  
+  update: (id, updates) => {
+    const action = updates.status === 'archived' ? 'アーカイブ' : '更新';
+    return recordHistory(`${getTaskLabel(get().tasks, id)}を${action}しました`, () =>
+      updateTask(id, updates)
+    );
   },
   
-  update: async (id, updates) => {
+  remove: (id) => recordHistory(`${getTaskLabel(get().tasks, id)}をゴミ箱に移動しました`, async () => {
     try {
-      const now = Date.now();
-      await db.tasks.update(id, { ...updates, updatedAt: now });
-      
-      const updatedTasks = get().tasks.map(task => 
-        task.id === id 
-          ? { ...task, ...updates, updatedAt: now } 
-          : task
-      );
-      set({ tasks: updatedTasks });
+      // ゴミ箱に移動する (依存関係とサブタスクの親の参照は復元できるように残す)
+      await deleteTask(id);
+      set({ tasks: await loadActiveTasks() });
     } catch (error) {
       set({ error: (error as Error).message });
     }
+  }),
+  
+  updateMany: (ids, updates) => {
+    const action = updates.status === 'archived' ? 'アーカイブ' : '更新';
+    return recordHistory(`${ids.length}件のタスクを${action}しました`, async () => {
+      try {
+        await batchUpdateTasks(ids, updates);
+        set({ tasks: await loadActiveTasks() });
+      } catch (error) {
+        set({ error: (error as Error).message });
+      }
+    });
   },
   
-  remove: async (id) => {
+  removeMany: (ids) => recordHistory(`${ids.length}件のタスクをゴミ箱に移動しました`, async () => {
     try {
-      await db.tasks.delete(id);
-      set({ tasks: get().tasks.filter(task => task.id !== id) });
+      await batchDeleteTasks(ids);
+      set({ tasks: await loadActiveTasks() });
     } catch (error) {
       set({ error: (error as Error).message });
     }
-  },
+  }),
   
-  toggleStatus: async (id) => {
+  toggleStatus: async (id, options = {}) => {
     const task = get().tasks.find(t => t.id === id);
     if (!task) return;
     
     const newStatus = task.status === 'pending' ? 'done' : 'pending';
+    const label = `「${task.title}」を${newStatus === 'done' ? '完了にしました' : '未完了に戻しました'}`;
     
-    // タスクが完了し、繰り返しルールがある場合、次のタスクを作成
-    if (newStatus === 'done' && task.repeatRule && task.dueAt) {
-      try {
-        const rrule = RRule.fromString(task.repeatRule);
-        const currentDue = new Date(task.dueAt);
-        
-        // 現在の期日より後の次の繰り返し日を取得
-        const nextDate = rrule.after(currentDue, false);
-        
-        if (nextDate) {
-          // 繰り返しタスクを作成
-          const nextTask: Partial<Task> = {
-            title: task.title,
-            dueAt: nextDate.getTime(),
-            durationMin: task.durationMin,
-            categoryId: task.categoryId,
-            checklist: task.checklist?.map(item => ({ ...item, checked: false })),
-            repeatRule: task.repeatRule,
-            repeatParentId: task.repeatParentId || task.id, // 初回の場合は現在のタスクが親
-            repeatCount: (task.repeatCount || 0) + 1,
-            repeatUntil: task.repeatUntil,
-          };
-          
-          await get().add(nextTask);
-        }
-      } catch (error) {
-        console.error('Failed to create recurring task:', error);
+    // 作成した次の回を含めて1回の操作として元に戻せるように記録する
+    await recordHistory(label, () => toggleTaskStatus(id, options));
+  },
+  
+  promoteChecklistItem: async (id, item) => {
+    const task = get().tasks.find(t => t.id === id);
+    if (!task || !item.text.trim()) return undefined;
+
+    return recordHistory(`「${item.text}」をサブタスクにしました`, async () => {
+      const subtaskId = await addTask(checklistItemToSubtask(task, item));
+      if (subtaskId) {
+        await updateTask(id, {
+          checklist: task.checklist?.filter(current => current.id !== item.id),
+        });
       }
-    }
-    
-    await get().update(id, { status: newStatus });
+      return subtaskId;
+    });
   },
-}));
\ No newline at end of file
+  
+  renameTag: (from, to) => recordHistory(`タグ「#${from}」の名前を変更しました`, async () => {
+    try {
+      await renameTag(from, to);
+      set({ tasks: await loadActiveTasks() });
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  }),
+  
+  updateSeries: (id, updates, scope) => recordHistory(`${getTaskLabel(get().tasks, id)}を更新しました`, async () => {
+    try {
+      if (updates.blockedBy && wouldCreateDependencyCycle(id, updates.blockedBy, get().tasks)) {
+        throw new Error(DEPENDENCY_CYCLE_MESSAGE);
+      }
+      const updated = await updateRecurringTask(id, updates, scope);
+      // 範囲外の回の繰り返しルールも変わることがあるため、すべて読み直す
+      set({ tasks: await loadActiveTasks() });
+      return updated;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return [];
+    }
+  }),
+  
+  removeSeries: (id, scope) => recordHistory(`${getTaskLabel(get().tasks, id)}をゴミ箱に移動しました`, async () => {
+    try {
+      const result = await deleteRecurringTask(id, scope);
+      set({ tasks: await loadActiveTasks() });
+      return result;
+    } catch (error) {
+      set({ error: (error as Error).message });
+      return { deletedIds: [] };
+    }
+  }),
+}));
@@ -0,0 +1,104 @@
+import { create } from 'zustand';
+import { liveQuery } from 'dexie';
+import {
+  deleteCategoryPermanently,
+  deleteTaskPermanently,
+  emptyTrash,
+  getTrashedCategories,
+  getTrashedTasks,
+  purgeExpiredTrash,
+  restoreCategory,
+  restoreTask,
+} from '../db';
+import type { Category, Task } from '../db';
+
+interface TrashStore {
+  tasks: Task[];
+  categories: Category[];
+  loading: boolean;
+  error: string | null;
+  // 保存期間を過ぎたものを完全に削除してから読み込む
+  load: () => Promise<void>;
+  // データベースの変更を購読してゴミ箱を更新する (戻り値で購読を解除)
+  subscribe: () => () => void;
+  restoreTask: (id: string) => Promise<void>;
+  restoreCategory: (id: string) => Promise<void>;
+  deleteTask: (id: string) => Promise<void>;
+  deleteCategory: (id: string) => Promise<void>;
+  empty: () => Promise<void>;
+}
+
+// ゴミ箱のタスクとカテゴリを読み込む
+async function loadTrash(): Promise<Pick<TrashStore, 'tasks' | 'categories'>> {
+  return { tasks: await getTrashedTasks(), categories: await getTrashedCategories() };
+}
+
+export const useTrash = create<TrashStore>((set) => ({
+  tasks: [],
+  categories: [],
+  loading: false,
+  error: null,
+
+  load: async () => {
+    set({ loading: true, error: null });
+    try {
+      await purgeExpiredTrash();
+      set({ ...(await loadTrash()), loading: false });
+    } catch (error) {
+      set({ error: (error as Error).message, loading: false });
+    }
+  },
+
+  subscribe: () => {
+    const subscription = liveQuery(loadTrash).subscribe({
+      next: (trash) => set(trash),
+      error: (error) => set({ error: (error as Error).message }),
+    });
+    return () => subscription.unsubscribe();
+  },
+
+  restoreTask: async (id) => {
+    try {
+      await restoreTask(id);
+      set(await loadTrash());
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  restoreCategory: async (id) => {
+    try {
+      await restoreCategory(id);
+      set(await loadTrash());
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  deleteTask: async (id) => {
+    try {
+      await deleteTaskPermanently(id);
+      set(await loadTrash());
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  deleteCategory: async (id) => {
+    try {
+      await deleteCategoryPermanently(id);
+      set(await loadTrash());
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+
+  empty: async () => {
+    try {
+      await emptyTrash();
+      set(await loadTrash());
+    } catch (error) {
+      set({ error: (error as Error).message });
+    }
+  },
+}));
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db, scheduleTaskReminders } from '../db';
+import type { Task } from '../db';
+import {
+  completeTaskFromNotification,
+  notifyTasksChanged,
+  snoozeTaskFromNotification,
+} from './notification-actions';
+import { saveTask } from '@/test/factories';
+
+describe('notification-actions', () => {
+  const now = new Date('2024-01-01T09:00:00').getTime();
+  const minutes = (n: number) => n * 60 * 1000;
+
+  const createTask = (overrides: Partial<Task> = {}): Promise<Task> =>
+    saveTask({
+      title: 'Notification Task',
+      dueAt: now + minutes(30),
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.reminders.clear();
+    await db.settings.clear();
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await db.tasks.clear();
+    await db.reminders.clear();
+    await db.settings.clear();
+  });
+
+  it('should complete the task and cancel its reminders', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+
+    expect(await completeTaskFromNotification(task.id!)).toBe(true);
+
+    expect((await db.tasks.get(task.id!))?.status).toBe('done');
+    expect(await db.reminders.where('taskId').equals(task.id!).count()).toBe(0);
+  });
+
+  it('should create the next recurrence with its reminders', async () => {
+    // RRULE の起点は現在時刻になるため Date のみ固定する
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(now);
+    const task = await createTask({ dueAt: now, repeatRule: 'FREQ=DAILY' });
+
+    await completeTaskFromNotification(task.id!);
+
+    const next = await db.tasks.where('repeatParentId').equals(task.id!).first();
+    expect(next).toBeDefined();
+    expect(next?.status).toBe('pending');
+    expect(next?.dueAt).toBe(task.dueAt! + minutes(24 * 60));
+    expect(await db.reminders.where('taskId').equals(next!.id!).count()).toBe(1);
+  });
+
+  it('should return false for a missing task', async () => {
+    expect(await completeTaskFromNotification('missing')).toBe(false);
+  });
+
+  it('should snooze with the configured snooze minutes', async () => {
+    await db.settings.put({ key: 'snoozeMin', value: 10 });
+    const task = await createTask();
+    const before = Date.now();
+
+    expect(await snoozeTaskFromNotification(task.id!, `${task.id}:default`)).toBe(true);
+
+    const reminder = await db.reminders.get(`${task.id}:default`);
+    expect(reminder?.snoozed).toBe(true);
+    expect(reminder!.fireAt).toBeGreaterThanOrEqual(before + minutes(10));
+    expect(reminder!.fireAt).toBeLessThan(before + minutes(11));
+  });
+
+  it('should not snooze completed tasks', async () => {
+    const task = await createTask({ status: 'done' });
+
+    expect(await snoozeTaskFromNotification(task.id!)).toBe(false);
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should notify open windows about the change', async () => {
+    const postMessage = vi.fn();
+    const clients = {
+      matchAll: vi.fn(() => Promise.resolve([{ postMessage }])),
+    } as unknown as Clients;
+
+    await notifyTasksChanged(clients, 'task-1');
+
+    expect(clients.matchAll).toHaveBeenCalledWith({ type: 'window' });
+    expect(postMessage).toHaveBeenCalledWith({ type: 'TASKS_CHANGED', taskId: 'task-1' });
+  });
+});
@@ -0,0 +1,62 @@
+/// <reference lib="webworker" />
+import {
+  cancelTaskReminders,
+  completeTask,
+  getReminderSettings,
+  getTask,
+  scheduleTaskReminders,
+  snoozeReminder,
+} from '../db';
+
+// 通知アクションはウィンドウを開かずに Service Worker 内で IndexedDB を直接更新する
+
+/**
+ * 通知の「完了」アクション
+ * タスクを完了にし、繰り返しタスクであれば次のタスクとそのリマインダーを作成する
+ * @param taskId タスクID
+ * @returns タスクを完了できたかどうか
+ */
+export async function completeTaskFromNotification(taskId: string): Promise<boolean> {
+  const result = await completeTask(taskId);
+  await cancelTaskReminders(taskId);
+
+  if (!result) return false;
+
+  if (result.nextTasks.length > 0) {
+    const { notifyBeforeMin } = await getReminderSettings();
+    for (const nextTask of result.nextTasks) {
+      await scheduleTaskReminders(nextTask, notifyBeforeMin);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * 通知の「スヌーズ」アクション
+ * 設定の snoozeMin 分後に同じリマインダーを再通知する
+ * @param taskId タスクID
+ * @param reminderId 通知のID
+ * @returns スヌーズできたかどうか
+ */
+export async function snoozeTaskFromNotification(
+  taskId: string,
+  reminderId?: string
+): Promise<boolean> {
+  const task = await getTask(taskId);
+  if (!task || task.status !== 'pending') return false;
+
+  const { snoozeMin } = await getReminderSettings();
+  await snoozeReminder(task, reminderId, snoozeMin);
+  return true;
+}
+
+/**
+ * 開いているタブにタスクの変更を知らせ、ストアを再読み込みさせる
+ * @param clients Service Worker の Clients
+ * @param taskId 変更されたタスクID
+ */
+export async function notifyTasksChanged(clients: Clients, taskId: string): Promise<void> {
+  const windows = await clients.matchAll({ type: 'window' });
+  windows.forEach((client) => client.postMessage({ type: 'TASKS_CHANGED', taskId }));
+}
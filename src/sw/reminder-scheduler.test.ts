@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { db, scheduleTaskReminders } from '../db';
+import type { Task } from '../db';
+import {
+  armReminderTriggers,
+  closeReminderNotifications,
+  fireDueReminders,
+  getReminderBody,
+  syncReminders,
+} from './reminder-scheduler';
+import type { ExtendedServiceWorkerRegistration } from './service-worker';
+import { saveTask } from '@/test/factories';
+
+describe('reminder-scheduler', () => {
+  const now = new Date('2024-01-01T09:00:00').getTime();
+  const minutes = (n: number) => n * 60 * 1000;
+
+  const createRegistration = () =>
+    ({
+      showNotification: vi.fn(() => Promise.resolve()),
+      getNotifications: vi.fn(() => Promise.resolve([])),
+    }) as unknown as ExtendedServiceWorkerRegistration;
+
+  const createTask = (overrides: Partial<Task> = {}): Promise<Task> =>
+    saveTask({
+      title: 'Reminder Task',
+      dueAt: now + minutes(30),
+      createdAt: now,
+      updatedAt: now,
+      ...overrides,
+    });
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.reminders.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.reminders.clear();
+  });
+
+  it('should describe the remaining time in the body', () => {
+    const reminder = {
+      id: 't:r',
+      taskId: 't',
+      reminderId: 'r',
+      title: 'T',
+      dueAt: now + minutes(15),
+      fireAt: now,
+      createdAt: now,
+    };
+
+    expect(getReminderBody(reminder, now)).toBe('あと15分で期限です');
+    expect(getReminderBody(reminder, now + minutes(15))).toBe('期限です');
+    expect(getReminderBody(reminder, now + minutes(20))).toBe('5分過ぎています');
+    expect(getReminderBody({ ...reminder, dueAt: undefined }, now)).toBe('リマインダー');
+  });
+
+  it('should fire each reminder of a task separately', async () => {
+    const task = await createTask({
+      reminders: [
+        { id: 'early', type: 'relative', offsetMin: 20 },
+        { id: 'late', type: 'relative', offsetMin: 5 },
+      ],
+    });
+    await scheduleTaskReminders(task, 15, now);
+    const registration = createRegistration();
+
+    await fireDueReminders(registration, now + minutes(12));
+
+    expect(registration.showNotification).toHaveBeenCalledTimes(1);
+    expect(registration.showNotification).toHaveBeenCalledWith(
+      'Reminder Task',
+      expect.objectContaining({ tag: `${task.id}:early` })
+    );
+    expect(await db.reminders.get(`${task.id}:late`)).toBeDefined();
+  });
+
+  it('should catch up reminders missed while the worker was terminated', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+    const registration = createRegistration();
+
+    // SW が停止していた間に通知時刻を過ぎた
+    const fired = await fireDueReminders(registration, now + minutes(40));
+
+    expect(fired).toBe(1);
+    expect(registration.showNotification).toHaveBeenCalledWith(
+      'Reminder Task',
+      expect.objectContaining({
+        tag: `${task.id}:default`,
+        data: { taskId: task.id, reminderId: `${task.id}:default` },
+        body: '10分過ぎています',
+      })
+    );
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should drop reminders of tasks completed before they fired', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+    await db.tasks.update(task.id!, { status: 'done' });
+    const registration = createRegistration();
+
+    await fireDueReminders(registration, now + minutes(20));
+
+    expect(registration.showNotification).not.toHaveBeenCalled();
+    expect(await db.reminders.count()).toBe(0);
+  });
+
+  it('should leave future reminders untouched', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+    const registration = createRegistration();
+
+    const next = await syncReminders(registration, now);
+
+    expect(registration.showNotification).not.toHaveBeenCalled();
+    expect(next?.taskId).toBe(task.id);
+    expect(next?.fireAt).toBe(now + minutes(15));
+  });
+
+  it('should schedule reminders with Notification Triggers when available', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+    const registration = createRegistration();
+    const TimestampTrigger = vi.fn();
+
+    const armed = await armReminderTriggers(registration, now, TimestampTrigger);
+
+    expect(armed).toBe(1);
+    expect(TimestampTrigger).toHaveBeenCalledWith(now + minutes(15));
+    expect(registration.showNotification).toHaveBeenCalledWith(
+      'Reminder Task',
+      expect.objectContaining({ showTrigger: expect.any(Object) })
+    );
+    expect((await db.reminders.get(`${task.id}:default`))?.triggerScheduled).toBe(true);
+
+    // OS が表示するため、期限到達時に二重に表示しない
+    vi.mocked(registration.showNotification).mockClear();
+    await fireDueReminders(registration, now + minutes(15));
+    expect(registration.showNotification).not.toHaveBeenCalled();
+  });
+
+  it('should skip triggers on unsupported browsers', async () => {
+    const task = await createTask();
+    await scheduleTaskReminders(task, 15, now);
+    const registration = createRegistration();
+
+    expect(await armReminderTriggers(registration, now, undefined)).toBe(0);
+    expect(registration.showNotification).not.toHaveBeenCalled();
+  });
+
+  it('should close triggered notifications for a tag', async () => {
+    const close = vi.fn();
+    const registration = createRegistration();
+    vi.mocked(registration.getNotifications).mockResolvedValue([
+      { close } as unknown as Notification,
+    ]);
+
+    await closeReminderNotifications(registration, 'task-1:default');
+
+    expect(registration.getNotifications).toHaveBeenCalledWith({
+      tag: 'task-1:default',
+      includeTriggered: true,
+    });
+    expect(close).toHaveBeenCalled();
+  });
+});
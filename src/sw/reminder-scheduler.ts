@@ -0,0 +1,189 @@
+import {
+  DEFAULT_SNOOZE_MIN,
+  db,
+  getDueReminders,
+  getNextReminder,
+  getPendingReminders,
+  getReminderSettings,
+  markReminderTriggerScheduled,
+  removeReminders,
+  type Reminder,
+} from '../db';
+import type {
+  ExtendedNotificationOptions,
+  ExtendedServiceWorkerRegistration,
+  TimestampTriggerConstructor,
+} from './service-worker';
+import { isTrashed } from '../utils/trash';
+
+export const REMINDER_SYNC_TAG = 'reminders';
+
+// setTimeout に渡せる最大値 (約24.8日)
+export const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+/**
+ * Notification Triggers が利用可能な場合はコンストラクタを返す
+ */
+export function getTimestampTrigger(
+  scope: typeof globalThis = globalThis
+): TimestampTriggerConstructor | undefined {
+  const trigger = (scope as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+  if (typeof trigger !== 'function') return undefined;
+  if (typeof Notification === 'undefined' || !('showTrigger' in Notification.prototype)) {
+    return undefined;
+  }
+  return trigger;
+}
+
+/**
+ * リマインダーの通知本文を組み立てる
+ */
+export function getReminderBody(reminder: Reminder, now: number = Date.now()): string {
+  if (!reminder.dueAt) return 'リマインダー';
+
+  const diffMinutes = Math.round((reminder.dueAt - now) / (1000 * 60));
+
+  if (diffMinutes > 0) {
+    return `あと${diffMinutes}分で期限です`;
+  } else if (diffMinutes === 0) {
+    return '期限です';
+  }
+  return `${Math.abs(diffMinutes)}分過ぎています`;
+}
+
+function getNotificationOptions(
+  reminder: Reminder,
+  now: number,
+  snoozeMin: number
+): ExtendedNotificationOptions {
+  return {
+    body: getReminderBody(reminder, now),
+    icon: '/todo-claude/icon.svg',
+    badge: '/todo-claude/icon.svg',
+    tag: reminder.id,
+    data: { taskId: reminder.taskId, reminderId: reminder.id },
+    requireInteraction: true,
+    timestamp: reminder.dueAt ?? reminder.fireAt,
+    actions: [
+      { action: 'complete', title: '完了' },
+      { action: 'snooze', title: `${snoozeMin}分後に再通知` },
+    ],
+  };
+}
+
+/**
+ * 通知時刻を過ぎたリマインダーを表示して削除する
+ * SW が終了していた間に取りこぼしたものもここで表示される
+ * @returns 処理したリマインダー数
+ */
+export async function fireDueReminders(
+  registration: ExtendedServiceWorkerRegistration,
+  now: number = Date.now(),
+  snoozeMin: number = DEFAULT_SNOOZE_MIN
+): Promise<number> {
+  const due = await getDueReminders(now);
+
+  for (const reminder of due) {
+    // Notification Triggers で予約済みのものは OS が表示している
+    if (reminder.triggerScheduled) continue;
+
+    // 通知前に完了・削除されたタスクは表示しない
+    const task = await db.tasks.get(reminder.taskId);
+    if (!task || task.status !== 'pending' || isTrashed(task)) continue;
+
+    try {
+      await registration.showNotification(
+        reminder.title,
+        getNotificationOptions(reminder, now, snoozeMin)
+      );
+    } catch (error) {
+      console.error(`Failed to show reminder ${reminder.id}:`, error);
+    }
+  }
+
+  await removeReminders(due.map(reminder => reminder.id));
+  return due.length;
+}
+
+/**
+ * 未来のリマインダーを Notification Triggers で OS に予約する
+ * 非対応のブラウザでは何もしない
+ * @returns 予約したリマインダー数
+ */
+export async function armReminderTriggers(
+  registration: ExtendedServiceWorkerRegistration,
+  now: number = Date.now(),
+  TimestampTrigger: TimestampTriggerConstructor | undefined = getTimestampTrigger(),
+  snoozeMin: number = DEFAULT_SNOOZE_MIN
+): Promise<number> {
+  if (!TimestampTrigger) return 0;
+
+  const reminders = await getPendingReminders();
+  let armed = 0;
+
+  for (const reminder of reminders) {
+    if (reminder.triggerScheduled || reminder.fireAt <= now) continue;
+
+    try {
+      await registration.showNotification(reminder.title, {
+        ...getNotificationOptions(reminder, reminder.fireAt, snoozeMin),
+        showTrigger: new TimestampTrigger(reminder.fireAt),
+      });
+      await markReminderTriggerScheduled(reminder.id);
+      armed++;
+    } catch (error) {
+      console.error(`Failed to schedule reminder trigger ${reminder.id}:`, error);
+    }
+  }
+
+  return armed;
+}
+
+/**
+ * タスクに紐づく表示中・予約済みの通知をすべて閉じる
+ * @param taskId タスクID
+ */
+export async function closeTaskNotifications(
+  registration: ExtendedServiceWorkerRegistration,
+  taskId: string
+): Promise<void> {
+  try {
+    const notifications = await registration.getNotifications({ includeTriggered: true });
+    notifications
+      .filter(notification => notification.data?.taskId === taskId)
+      .forEach(notification => notification.close());
+  } catch (error) {
+    console.error(`Failed to close notifications for task ${taskId}:`, error);
+  }
+}
+
+/**
+ * Notification Triggers で予約済みの通知を取り消す
+ * @param tag 通知のタグ (リマインダーID)
+ */
+export async function closeReminderNotifications(
+  registration: ExtendedServiceWorkerRegistration,
+  tag: string
+): Promise<void> {
+  try {
+    const notifications = await registration.getNotifications({ tag, includeTriggered: true });
+    notifications.forEach(notification => notification.close());
+  } catch (error) {
+    console.error(`Failed to close notifications for ${tag}:`, error);
+  }
+}
+
+/**
+ * IndexedDB の状態からリマインダーを同期する
+ * 期限切れの通知を表示し、未来の通知を予約したうえで次の発火予定を返す
+ * @returns 次に発火するリマインダーまたはundefined
+ */
+export async function syncReminders(
+  registration: ExtendedServiceWorkerRegistration,
+  now: number = Date.now()
+): Promise<Reminder | undefined> {
+  const { snoozeMin } = await getReminderSettings();
+  await fireDueReminders(registration, now, snoozeMin);
+  await armReminderTriggers(registration, now, getTimestampTrigger(), snoozeMin);
+  return getNextReminder(now);
+}
@@ -20,13 +20,35 @@ export interface ExtendedNotificationOptions extends NotificationOptions {
   tag?: string;
   timestamp?: number;
   vibrate?: VibratePattern;
+  showTrigger?: unknown;
 }
 
 export interface ExtendedServiceWorkerRegistration extends ServiceWorkerRegistration {
   showNotification(title: string, options?: ExtendedNotificationOptions): Promise<void>;
+  getNotifications(filter?: GetNotificationOptions): Promise<Notification[]>;
+  periodicSync?: PeriodicSyncManager;
 }
 
 export interface NotificationEvent extends ExtendableEvent {
   notification: Notification;
   action: string;
-}
\ No newline at end of file
+}
+
+export interface GetNotificationOptions {
+  tag?: string;
+  includeTriggered?: boolean;
+}
+
+export interface PeriodicSyncManager {
+  register(tag: string, options?: { minInterval: number }): Promise<void>;
+  unregister(tag: string): Promise<void>;
+}
+
+export interface PeriodicSyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+// Notification Triggers (Chromium のオリジントライアル機能)
+export interface TimestampTriggerConstructor {
+  new (timestamp: number): unknown;
+}
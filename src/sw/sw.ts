@@ -1,5 +1,21 @@
 /// <reference lib="webworker" />
-import type { ExtendedServiceWorkerRegistration, NotificationEvent } from './service-worker';
+import type {
+  ExtendedServiceWorkerRegistration,
+  NotificationEvent,
+  PeriodicSyncEvent,
+} from './service-worker';
+import {
+  MAX_TIMER_DELAY,
+  REMINDER_SYNC_TAG,
+  closeReminderNotifications,
+  closeTaskNotifications,
+  syncReminders,
+} from './reminder-scheduler';
+import {
+  completeTaskFromNotification,
+  notifyTasksChanged,
+  snoozeTaskFromNotification,
+} from './notification-actions';
 import { cleanupOutdatedCaches, createHandlerBoundToURL, precacheAndRoute } from 'workbox-precaching';
 import { NavigationRoute, registerRoute } from 'workbox-routing';
 import { CacheFirst } from 'workbox-strategies';
@@ -37,107 +53,81 @@ registerRoute(
 // 完全オフラインアプリなのでAPIリクエストのキャッシュは不要
 
 // Handle notification scheduling
-interface NotificationPayload {
-  taskId: string;
-  title: string;
-  dueAt: number;
-}
+// リマインダーは IndexedDB に保存されており、SW が終了されても次回起動時に復元される
+let reminderTimer: ReturnType<typeof setTimeout> | undefined;
 
-const scheduledNotifications = new Map<string, NodeJS.Timeout>();
+async function runReminderSync() {
+  const registration = self.registration as ExtendedServiceWorkerRegistration;
+  const next = await syncReminders(registration);
+  
+  if (reminderTimer) {
+    clearTimeout(reminderTimer);
+    reminderTimer = undefined;
+  }
+  
+  // SW が生きている間だけ有効なタイマー。終了された場合は periodicsync か次回起動で追いつく
+  if (next) {
+    const delay = Math.min(next.fireAt - Date.now(), MAX_TIMER_DELAY);
+    reminderTimer = setTimeout(() => {
+      runReminderSync().catch((error) => console.error('Reminder sync failed:', error));
+    }, Math.max(delay, 0));
+  }
+}
 
 self.addEventListener('message', (event) => {
-  if (event.data?.type === 'SCHEDULE_NOTIFICATION') {
-    const payload = event.data.payload as NotificationPayload;
-    scheduleNotification(payload);
+  if (event.data?.type === 'SYNC_REMINDERS') {
+    event.waitUntil(runReminderSync());
   } else if (event.data?.type === 'CANCEL_NOTIFICATION') {
-    const { taskId } = event.data;
-    cancelNotification(taskId);
+    const { reminderIds } = event.data as { reminderIds: string[] };
+    const registration = self.registration as ExtendedServiceWorkerRegistration;
+    event.waitUntil(
+      Promise.all(reminderIds.map((id) => closeReminderNotifications(registration, id))).then(
+        runReminderSync
+      )
+    );
   }
 });
 
-function scheduleNotification(payload: NotificationPayload) {
-  const { taskId, title, dueAt } = payload;
-  
-  // Cancel existing notification for this task
-  cancelNotification(taskId);
-  
-  const delay = dueAt - Date.now();
-  if (delay <= 0) return;
-  
-  const timeout = setTimeout(() => {
-    const now = new Date();
-    const dueTime = new Date(dueAt);
-    const diffMinutes = Math.round((dueTime.getTime() - now.getTime()) / (1000 * 60));
-    
-    let bodyText = '';
-    if (diffMinutes > 0) {
-      bodyText = `あと${diffMinutes}分で期限です`;
-    } else if (diffMinutes === 0) {
-      bodyText = '期限です';
-    } else {
-      bodyText = `${Math.abs(diffMinutes)}分過ぎています`;
-    }
-    
-    (self.registration as ExtendedServiceWorkerRegistration).showNotification(title, {
-      body: bodyText,
-      icon: '/todo-claude/icon.svg',
-      badge: '/todo-claude/icon.svg',
-      tag: taskId,
-      requireInteraction: true,
-      timestamp: dueAt,
-      actions: [
-        { action: 'complete', title: '完了' },
-        { action: 'snooze', title: '5分後に再通知' },
-      ],
-    });
-    
-    scheduledNotifications.delete(taskId);
-  }, delay);
-  
-  scheduledNotifications.set(taskId, timeout);
-}
-
-function cancelNotification(taskId: string) {
-  const timeout = scheduledNotifications.get(taskId);
-  if (timeout) {
-    clearTimeout(timeout);
-    scheduledNotifications.delete(taskId);
+// Periodic Background Sync で定期的に起こされた際に取りこぼしを処理
+self.addEventListener('periodicsync', (event) => {
+  const syncEvent = event as PeriodicSyncEvent;
+  if (syncEvent.tag === REMINDER_SYNC_TAG) {
+    syncEvent.waitUntil(runReminderSync());
   }
-}
+});
+
+// SW の起動ごとに保存済みリマインダーを復元
+runReminderSync().catch((error) => console.error('Reminder sync failed:', error));
 
 // Handle notification actions
 self.addEventListener('notificationclick', (event: NotificationEvent) => {
   const { action } = event;
-  const { tag } = event.notification;
+  const { tag, data } = event.notification;
+  // タグはリマインダーID。タスクIDは data に格納されている
+  const taskId: string = data?.taskId ?? tag;
+  const reminderId: string = data?.reminderId ?? tag;
   event.notification.close();
   
+  const registration = self.registration as ExtendedServiceWorkerRegistration;
+  
   if (action === 'complete') {
-    // Send message to complete task
+    // Complete task directly in IndexedDB without opening a window
     event.waitUntil(
-      self.clients.matchAll({ type: 'window' }).then(async (clients) => {
-        const client = clients[0];
-        if (client) {
-          client.postMessage({ type: 'COMPLETE_TASK', taskId: tag });
-          await client.focus();
-        } else {
-          const newClient = await self.clients.openWindow('/todo-claude/');
-          newClient?.postMessage({ type: 'COMPLETE_TASK', taskId: tag });
-        }
-      })
+      (async () => {
+        await completeTaskFromNotification(taskId);
+        await closeTaskNotifications(registration, taskId);
+        await notifyTasksChanged(self.clients, taskId);
+        await runReminderSync();
+      })()
     );
   } else if (action === 'snooze') {
-    // Reschedule notification
+    // Reschedule notification after the configured snoozeMin
     event.waitUntil(
-      self.clients.matchAll({ type: 'window' }).then(async (clients) => {
-        const client = clients[0];
-        if (client) {
-          client.postMessage({ type: 'SNOOZE_TASK', taskId: tag });
-          await client.focus();
-        } else {
-          const newClient = await self.clients.openWindow('/todo-claude/');
-          newClient?.postMessage({ type: 'SNOOZE_TASK', taskId: tag });
-        }
-      })
+      (async () => {
+        await snoozeTaskFromNotification(taskId, reminderId);
+        await notifyTasksChanged(self.clients, taskId);
+        await runReminderSync();
+      })()
     );
   } else {
     // Default action - open app and focus on task
@@ -146,10 +136,10 @@ self.addEventListener('notificationclick', (event: NotificationEvent) => {
         const client = clients[0];
         if (client) {
           await client.focus();
-          client.postMessage({ type: 'FOCUS_TASK', taskId: tag });
+          client.postMessage({ type: 'FOCUS_TASK', taskId });
         } else {
           const newClient = await self.clients.openWindow('/todo-claude/');
-          newClient?.postMessage({ type: 'FOCUS_TASK', taskId: tag });
+          newClient?.postMessage({ type: 'FOCUS_TASK', taskId });
         }
       })
     );
@@ -170,6 +160,9 @@ self.addEventListener('activate', (event) => {
       
       // Take control of all clients immediately
       await self.clients.claim();
+      
+      // Restore reminders persisted in IndexedDB
+      await runReminderSync();
     })()
   );
 });
@@ -0,0 +1,28 @@
+import { db, type Task } from '@/db';
+
+/**
+ * テスト用のタスクを作成する
+ * 必須の項目だけを埋めるため、テストで使う項目は overrides で指定する
+ * @param overrides 既定値を上書きする項目
+ */
+export function createTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: crypto.randomUUID(),
+    title: 'Task',
+    status: 'pending',
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+/**
+ * テスト用のタスクを作成してデータベースに保存する
+ * @param overrides 既定値を上書きする項目
+ * @returns 保存したタスク
+ */
+export async function saveTask(overrides: Partial<Task> = {}): Promise<Task> {
+  const task = createTask(overrides);
+  await db.tasks.add(task);
+  return task;
+}
@@ -0,0 +1,16 @@
+import { afterAll, beforeAll, vi } from 'vitest';
+
+/**
+ * describe の中のテストを指定したタイムゾーンで実行する
+ * CI は UTC で動くため、端末のタイムゾーンに依存する処理は UTC 以外でも確認する
+ * @param timeZone IANA のタイムゾーン名 (Asia/Tokyo など)
+ */
+export function useTimeZone(timeZone: string) {
+  beforeAll(() => {
+    vi.stubEnv('TZ', timeZone);
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+  });
+}
@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '@/db';
+import {
+  getCalendarDays,
+  getCalendarEntries,
+  moveToDay,
+  shiftCalendarDate,
+  startOfDay,
+} from './calendar';
+import { buildRepeatRule, createRepeatRuleDraft } from './repeat-rule';
+import { createTask } from '@/test/factories';
+import { useTimeZone } from '@/test/timezone';
+
+describe('calendar', () => {
+  const local = (date: string) => new Date(date).getTime();
+  // RRULE の DTSTART は UTC で書く
+  const toDtstart = (timestamp: number) =>
+    new Date(timestamp)
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .replace(/\.\d{3}/, '');
+
+  describe('getCalendarDays', () => {
+    it('should cover the whole month in weeks starting on Sunday', () => {
+      const days = getCalendarDays('month', local('2024-01-20T12:00:00'));
+
+      expect(days).toHaveLength(35);
+      expect(days[0]).toBe(local('2023-12-31T00:00:00'));
+      expect(days[days.length - 1]).toBe(local('2024-02-03T00:00:00'));
+    });
+
+    it('should list the seven days of the week', () => {
+      const days = getCalendarDays('week', local('2024-01-10T12:00:00'));
+
+      expect(days).toHaveLength(7);
+      expect(days[0]).toBe(local('2024-01-07T00:00:00'));
+      expect(days[6]).toBe(local('2024-01-13T00:00:00'));
+    });
+  });
+
+  describe('shiftCalendarDate', () => {
+    it('should move by months and weeks', () => {
+      expect(shiftCalendarDate('month', local('2024-01-31T12:00:00'), 1)).toBe(
+        local('2024-02-01T00:00:00')
+      );
+      expect(shiftCalendarDate('week', local('2024-01-10T12:00:00'), -1)).toBe(
+        local('2024-01-03T00:00:00')
+      );
+    });
+  });
+
+  describe('moveToDay', () => {
+    it('should keep the time of day', () => {
+      expect(
+        moveToDay(local('2024-01-10T09:30:00'), startOfDay(local('2024-01-12T00:00:00')))
+      ).toBe(local('2024-01-12T09:30:00'));
+    });
+  });
+
+  describe('getCalendarEntries', () => {
+    const days = getCalendarDays('week', local('2024-01-10T12:00:00'));
+    const now = local('2024-01-10T12:00:00');
+
+    it('should put tasks on their due day', () => {
+      const tasks = [
+        createTask({ id: 'task-1', dueAt: local('2024-01-10T09:00:00') }),
+        createTask({ id: 'task-2', dueAt: local('2024-01-10T08:00:00') }),
+        createTask({ id: 'task-3', dueAt: local('2024-01-20T08:00:00') }),
+        createTask({ id: 'task-4', dueAt: undefined }),
+      ];
+
+      const entries = getCalendarEntries(tasks, days, now);
+
+      expect(entries.get(local('2024-01-10T00:00:00'))?.map((e) => e.task.id)).toEqual([
+        'task-2',
+        'task-1',
+      ]);
+      expect([...entries.values()].flat()).toHaveLength(2);
+    });
+
+    it('should project future occurrences of pending recurring tasks as ghosts', () => {
+      const task = createTask({
+        dueAt: local('2024-01-10T09:00:00'),
+        repeatRule: `DTSTART:${toDtstart(local('2024-01-10T09:00:00'))}\nRRULE:FREQ=DAILY;COUNT=3`,
+      });
+
+      const entries = getCalendarEntries([task], days, now);
+      const ghosts = [...entries.values()].flat().filter((entry) => entry.ghost);
+
+      expect(ghosts.map((entry) => entry.dueAt)).toEqual([
+        local('2024-01-11T09:00:00'),
+        local('2024-01-12T09:00:00'),
+      ]);
+      expect(
+        [...getCalendarEntries([{ ...task, status: 'done' }], days, now).values()]
+          .flat()
+          .some((entry) => entry.ghost)
+      ).toBe(false);
+    });
+
+    describe('in a timezone east of UTC', () => {
+      useTimeZone('Asia/Tokyo');
+
+      const ghostDays = (task: Task, days: number[], now: number) =>
+        [...getCalendarEntries([task], days, now).entries()]
+          .filter(([, dayEntries]) => dayEntries.some((entry) => entry.ghost))
+          .map(([day]) => day);
+
+      it('should put ghosts of weekday rules on the local weekdays', () => {
+        const dueAt = new Date(2024, 0, 8, 8, 0).getTime();
+        const task = createTask({
+          dueAt,
+          repeatRule: buildRepeatRule(
+            { ...createRepeatRuleDraft('WEEKLY'), byWeekday: ['MO', 'WE', 'FR'] },
+            new Date(dueAt)
+          ),
+        });
+
+        expect(
+          ghostDays(task, getCalendarDays('week', dueAt), new Date(2024, 0, 8, 12, 0).getTime())
+        ).toEqual([new Date(2024, 0, 10).getTime(), new Date(2024, 0, 12).getTime()]);
+      });
+
+      it('should put ghosts of the last weekday of the month on the local day', () => {
+        const dueAt = new Date(2024, 0, 26, 7, 0).getTime();
+        const task = createTask({
+          dueAt,
+          repeatRule: buildRepeatRule(
+            { ...createRepeatRuleDraft('MONTHLY'), byWeekday: ['FR'], bySetPos: [-1] },
+            new Date(dueAt)
+          ),
+        });
+
+        expect(
+          ghostDays(task, getCalendarDays('month', new Date(2024, 1, 10).getTime()), dueAt)
+        ).toEqual([new Date(2024, 1, 23).getTime()]);
+      });
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import type { Task } from '@/db';
+import { isLatestInSeries, projectRecurrences } from './recurrence';
+
+export type CalendarView = 'month' | 'week';
+
+export interface CalendarEntry {
+  task: Task;
+  dueAt: number;
+  // 繰り返しルールから算出した、まだ作成されていない回
+  ghost: boolean;
+}
+
+/**
+ * 日付の0時0分の日時を取得する
+ * @param timestamp 日時
+ * @returns その日の開始日時
+ */
+export function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+/**
+ * カレンダーに表示する日付を日曜始まりで取得する
+ * 月表示では前後の月の日付を含めて週単位にそろえる
+ * @param view 表示単位
+ * @param anchor 表示する月・週に含まれる日時
+ * @returns 各日の開始日時
+ */
+export function getCalendarDays(view: CalendarView, anchor: number): number[] {
+  const first = new Date(startOfDay(anchor));
+  let length = 7;
+
+  if (view === 'month') {
+    first.setDate(1);
+    const last = new Date(first.getFullYear(), first.getMonth() + 1, 0);
+    length = Math.ceil((first.getDay() + last.getDate()) / 7) * 7;
+  }
+  first.setDate(first.getDate() - first.getDay());
+
+  return Array.from({ length }, (_, i) =>
+    new Date(first.getFullYear(), first.getMonth(), first.getDate() + i).getTime()
+  );
+}
+
+/**
+ * 表示している月・週を前後に移動する
+ * @param view 表示単位
+ * @param anchor 現在表示している日時
+ * @param amount 移動する月数・週数 (負の値で前に移動)
+ * @returns 移動後の日時
+ */
+export function shiftCalendarDate(view: CalendarView, anchor: number, amount: number): number {
+  const date = new Date(startOfDay(anchor));
+  if (view === 'month') {
+    date.setDate(1);
+    date.setMonth(date.getMonth() + amount);
+  } else {
+    date.setDate(date.getDate() + amount * 7);
+  }
+  return date.getTime();
+}
+
+/**
+ * 期日の時刻を保ったまま別の日に移動する
+ * @param dueAt 現在の期日
+ * @param day 移動先の日
+ * @returns 移動後の期日
+ */
+export function moveToDay(dueAt: number, day: number): number {
+  const due = new Date(dueAt);
+  const moved = new Date(day);
+  moved.setHours(due.getHours(), due.getMinutes(), due.getSeconds(), due.getMilliseconds());
+  return moved.getTime();
+}
+
+/**
+ * タスクと繰り返しの今後の回を日ごとにまとめる
+ * @param tasks 表示するタスク
+ * @param days 表示する日 (getCalendarDays の戻り値)
+ * @param now 現在日時
+ * @returns 日の開始日時をキーにした、時刻順の予定
+ */
+export function getCalendarEntries(
+  tasks: Task[],
+  days: number[],
+  now: number = Date.now()
+): Map<number, CalendarEntry[]> {
+  const from = days[0];
+  const to = new Date(days[days.length - 1]).setHours(23, 59, 59, 999);
+  const entries = new Map<number, CalendarEntry[]>(days.map((day) => [day, []]));
+
+  const addEntry = (entry: CalendarEntry) => {
+    if (entry.dueAt < from || entry.dueAt > to) return;
+    entries.get(startOfDay(entry.dueAt))?.push(entry);
+  };
+
+  tasks.forEach((task) => {
+    if (!task.dueAt) return;
+    addEntry({ task, dueAt: task.dueAt, ghost: false });
+
+    // 未完了の最新の回から、まだ作成されていない回を予定として表示する
+    if (task.repeatRule && task.status === 'pending' && isLatestInSeries(task, tasks)) {
+      try {
+        projectRecurrences(task, to, now).forEach((dueAt) =>
+          addEntry({ task, dueAt, ghost: true })
+        );
+      } catch (error) {
+        console.error('Failed to expand RRULE:', error);
+      }
+    }
+  });
+
+  entries.forEach((dayEntries) => dayEntries.sort((a, b) => a.dueAt - b.dueAt));
+  return entries;
+}
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '@/db';
+import {
+  buildCsvImportData,
+  getCsvMappingErrors,
+  guessCsvMapping,
+  importCsvTasks,
+  parseCsv,
+  parseCsvTasks,
+  tasksToCsv,
+} from './csv';
+import { createTask } from '@/test/factories';
+
+describe('CSV', () => {
+  const now = Date.UTC(2024, 0, 1);
+  const dueAt = new Date(2024, 0, 15, 9, 30).getTime();
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  it('should quote fields and round-trip Japanese text with a BOM', () => {
+    const tasks = [
+      createTask({
+        title: '会議, "定例"',
+        dueAt,
+        durationMin: 45,
+        categoryId: 'work',
+        status: 'done',
+        checklist: [
+          { id: '1', text: '資料', checked: true },
+          { id: '2', text: '議事録', checked: false },
+        ],
+        repeatRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      }),
+      createTask({ title: ' 前後に空白 ' }),
+    ];
+
+    const csv = tasksToCsv(
+      tasks,
+      [{ id: 'work', name: '仕事', color: '#000000', order: 1 }],
+      ['title', 'dueAt', 'durationMin', 'category', 'status', 'checklist', 'repeatRule']
+    );
+
+    expect(
+      csv.startsWith(
+        '\uFEFFタイトル,期限,所要時間 (分),カテゴリー,ステータス,チェックリスト,繰り返し\r\n'
+      )
+    ).toBe(true);
+    expect(csv).toContain('"会議, ""定例"""');
+    expect(parseCsv(csv)).toEqual([
+      [
+        'タイトル',
+        '期限',
+        '所要時間 (分)',
+        'カテゴリー',
+        'ステータス',
+        'チェックリスト',
+        '繰り返し',
+      ],
+      [
+        '会議, "定例"',
+        '2024-01-15 09:30',
+        '45',
+        '仕事',
+        '完了',
+        '[x] 資料\n[ ] 議事録',
+        'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      ],
+      [' 前後に空白 ', '', '', '', '未完了', '', ''],
+    ]);
+  });
+
+  it('should escape values that spreadsheets would run as formulas', () => {
+    const titles = ['=HYPERLINK("http://example.com")', '+1', '-1', '@SUM(A1)', 'a=b'];
+    const csv = tasksToCsv(
+      titles.map((title) => createTask({ title })),
+      [],
+      ['title']
+    );
+
+    const rows = parseCsv(csv);
+    expect(rows.slice(1).map(([title]) => title)).toEqual([
+      '\'=HYPERLINK("http://example.com")',
+      "'+1",
+      "'-1",
+      "'@SUM(A1)",
+      'a=b',
+    ]);
+    expect(parseCsvTasks(rows.slice(1), ['title'], now).map((row) => row.task.title)).toEqual(
+      titles
+    );
+  });
+
+  it('should guess the mapping from the header and report mapping errors', () => {
+    expect(guessCsvMapping(['Title', '期日', 'メモ', 'Status', 'status'])).toEqual([
+      'title',
+      'dueAt',
+      null,
+      'status',
+      null,
+    ]);
+
+    expect(getCsvMappingErrors(['title', null])).toEqual([]);
+    expect(getCsvMappingErrors(['dueAt', 'status', 'status'])).toEqual([
+      '「タイトル」を割り当てる列を選んでください',
+      '「ステータス」が複数の列に割り当てられています',
+    ]);
+  });
+
+  it('should parse rows by the mapping and report invalid values', () => {
+    const rows = parseCsv(
+      [
+        '"レポート\n提出",2024/1/15 9:30,30,done,FREQ=DAILY,- [x] 下書き',
+        'メモだけ,2024-02-30,-5,不明,毎日,',
+        '秒が範囲外,2024-01-15 09:30:60,,,,',
+      ].join('\r\n')
+    );
+
+    const [valid, invalid, invalidSecond] = parseCsvTasks(
+      rows,
+      ['title', 'dueAt', 'durationMin', 'status', 'repeatRule', 'checklist'],
+      now
+    );
+
+    expect(valid.errors).toEqual([]);
+    expect(valid.task).toMatchObject({
+      title: 'レポート\n提出',
+      dueAt,
+      durationMin: 30,
+      status: 'done',
+      repeatRule: 'RRULE:FREQ=DAILY',
+      checklist: [{ text: '下書き', checked: true }],
+      createdAt: now,
+    });
+    expect(invalid.row).toBe(2);
+    expect(invalid.errors).toEqual([
+      '期限を読み取れません: 2024-02-30',
+      '所要時間を読み取れません: -5',
+      'ステータスを読み取れません: 不明',
+      '繰り返しを読み取れません: 毎日',
+    ]);
+    expect(invalidSecond.errors).toEqual(['期限を読み取れません: 2024-01-15 09:30:60']);
+    expect(parseCsvTasks([['', '']], ['title', 'dueAt'], now)[0].errors).toEqual([
+      'タイトルがありません',
+    ]);
+  });
+
+  it('should import valid rows into existing and new categories', async () => {
+    await db.categories.add({ id: 'work', name: '仕事', color: '#000000', order: 3 });
+    const rows = parseCsvTasks(
+      [
+        ['資料作成', '仕事'],
+        ['買い物', '家事'],
+        ['掃除', '家事'],
+        ['', '家事'],
+      ],
+      ['title', 'category'],
+      now
+    );
+
+    const data = buildCsvImportData(rows, await db.categories.toArray(), now);
+    expect(data.data.categories).toMatchObject([{ name: '家事', color: '#6366F1', order: 4 }]);
+
+    expect(await importCsvTasks(rows)).toBe(3);
+
+    const categories = await db.categories.toArray();
+    const housework = categories.find((category) => category.name === '家事');
+    expect(categories).toHaveLength(2);
+
+    const tasks = await db.tasks.toArray();
+    expect(tasks.map((task) => [task.title, task.categoryId]).sort()).toEqual([
+      ['掃除', housework?.id],
+      ['買い物', housework?.id],
+      ['資料作成', 'work'],
+    ]);
+  });
+});
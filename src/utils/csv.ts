@@ -0,0 +1,443 @@
+import { db } from '@/db';
+import type { Category, ChecklistItem, Task } from '@/db';
+import { importData, type ExportData } from './export-import';
+import { parseRuleSet } from './repeat-rule';
+import { excludeTrashed } from './trash';
+
+// CSV で扱うタスクの項目
+export type CsvColumn =
+  | 'title'
+  | 'dueAt'
+  | 'durationMin'
+  | 'category'
+  | 'status'
+  | 'checklist'
+  | 'repeatRule';
+
+export const CSV_COLUMNS: CsvColumn[] = [
+  'title',
+  'dueAt',
+  'durationMin',
+  'category',
+  'status',
+  'checklist',
+  'repeatRule',
+];
+
+// 項目の見出し (書き出すときの1行目。読み込むときの列の割り当ての推測にも使う)
+export const CSV_COLUMN_LABELS: Record<CsvColumn, string> = {
+  title: 'タイトル',
+  dueAt: '期限',
+  durationMin: '所要時間 (分)',
+  category: 'カテゴリー',
+  status: 'ステータス',
+  checklist: 'チェックリスト',
+  repeatRule: '繰り返し',
+};
+
+// 見出し以外で項目とみなす列名 (小文字)
+const CSV_COLUMN_ALIASES: Record<CsvColumn, string[]> = {
+  title: ['title', 'name', 'タスク', '件名'],
+  dueAt: ['due', 'dueat', 'due date', '期日', '締め切り'],
+  durationMin: ['duration', 'durationmin', '所要時間'],
+  category: ['category', 'カテゴリ'],
+  status: ['status', '状態'],
+  checklist: ['checklist'],
+  repeatRule: ['rule', 'repeatrule', 'rrule', 'repeat'],
+};
+
+// ステータスの表記 (読み込むときは pending などのキーも受け付ける)
+export const CSV_STATUS_LABELS: Record<Task['status'], string> = {
+  pending: '未完了',
+  done: '完了',
+  archived: 'アーカイブ',
+};
+
+// 読み込んで作成するカテゴリーの色 (カテゴリー作成時の既定値)
+const IMPORTED_CATEGORY_COLOR = '#6366F1';
+
+// 列の割り当て (CSV の列ごとに読み込む項目。null は読み込まない)
+export type CsvMapping = (CsvColumn | null)[];
+
+// 読み込み前に確認する1行分のタスク
+export interface CsvPreviewRow {
+  row: number; // 見出しを除いて何行目か (1始まり)
+  task: Task;
+  category?: string; // カテゴリー名 (なければ作成する)
+  errors: string[]; // エラーのある行は読み込まない
+}
+
+/**
+ * CSV の文字列を行と列に分ける (RFC 4180)
+ * 先頭の BOM を除き、引用符で囲まれた列の改行・カンマ・"" を扱う。空の行は除く
+ * @param text CSV の文字列
+ * @returns 行ごとの列の配列
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// 表計算ソフトで数式として実行されないように、先頭に ' を付けて書き出す値
+const FORMULA_PATTERN = /^[=+\-@]/;
+
+function escapeCsvField(value: string): string {
+  const text = FORMULA_PATTERN.test(value) ? `'${value}` : value;
+  return /[",\n\r]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 書き出すときに数式を避けるために付けた ' を外す
+function unescapeCsvField(value: string): string {
+  return value.startsWith("'") && FORMULA_PATTERN.test(value.slice(1)) ? value.slice(1) : value;
+}
+
+/**
+ * 行と列から CSV の文字列を組み立てる
+ * Excel で日本語が文字化けしないように先頭に BOM を付ける
+ * @param rows 行ごとの列の配列
+ * @returns CSV の文字列 (改行は CRLF)
+ */
+export function toCsv(rows: string[][]): string {
+  return '\uFEFF' + rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// 期限を端末のタイムゾーンの YYYY-MM-DD HH:mm にする
+function formatCsvDate(time: number): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+/**
+ * 期限の列を日時にする
+ * YYYY-MM-DD・YYYY/MM/DD (時刻は HH:mm または HH:mm:ss) は端末のタイムゾーン、
+ * タイムゾーン付きの ISO 8601 はその時刻として読む
+ */
+function parseCsvDate(value: string): number | undefined {
+  const match = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(
+    value
+  );
+  if (match) {
+    const [year, month, day, hour, minute, second] = match
+      .slice(1)
+      .map((part) => Number(part ?? 0));
+    const date = new Date(year, month - 1, day, hour, minute, second);
+    // 2月30日や25時のような存在しない日時は受け付けない
+    if (
+      date.getMonth() !== month - 1 ||
+      date.getDate() !== day ||
+      hour > 23 ||
+      minute > 59 ||
+      second > 59
+    )
+      return undefined;
+    return date.getTime();
+  }
+  if (/^\d{4}-\d{2}-\d{2}T[\d:.]+(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+}
+
+function parseCsvStatus(value: string): Task['status'] | undefined {
+  const statuses = Object.keys(CSV_STATUS_LABELS) as Task['status'][];
+  return statuses.find(
+    (status) => status === value.toLowerCase() || CSV_STATUS_LABELS[status] === value
+  );
+}
+
+// チェックリストは1行に1項目 ([x] は完了した項目)
+function formatChecklist(checklist: ChecklistItem[]): string {
+  return checklist.map((item) => `[${item.checked ? 'x' : ' '}] ${item.text}`).join('\n');
+}
+
+function parseChecklist(value: string): ChecklistItem[] {
+  return value
+    .split('\n')
+    .map((line) => /^\s*(?:[-*]\s*)?(?:\[([ xX])\]\s*)?(.*?)\s*$/.exec(line)!)
+    .filter(([, , text]) => text !== '')
+    .map(([, mark, text]) => ({
+      id: crypto.randomUUID(),
+      text,
+      checked: mark === 'x' || mark === 'X',
+    }));
+}
+
+// RRULE: を省いた繰り返し (FREQ=DAILY など) にも対応する
+function parseCsvRepeatRule(value: string): string | undefined {
+  const rule = /^(RRULE|DTSTART|EXDATE|RDATE)[:;]/i.test(value) ? value : `RRULE:${value}`;
+  try {
+    return parseRuleSet(rule).rrules().length > 0 ? rule : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function formatCsvValue(
+  task: Task,
+  column: CsvColumn,
+  categoryNames: Map<string | undefined, string>
+): string {
+  switch (column) {
+    case 'title':
+      return task.title;
+    case 'dueAt':
+      return task.dueAt !== undefined ? formatCsvDate(task.dueAt) : '';
+    case 'durationMin':
+      return task.durationMin ? String(task.durationMin) : '';
+    case 'category':
+      return (task.categoryId && categoryNames.get(task.categoryId)) || '';
+    case 'status':
+      return CSV_STATUS_LABELS[task.status];
+    case 'checklist':
+      return formatChecklist(task.checklist ?? []);
+    case 'repeatRule':
+      return task.repeatRule ?? '';
+  }
+}
+
+/**
+ * タスクを CSV の文字列にする
+ * @param tasks 書き出すタスク
+ * @param categories カテゴリー (カテゴリー名を書き出す)
+ * @param columns 書き出す項目 (この順に並べる)
+ * @returns CSV の文字列
+ */
+export function tasksToCsv(tasks: Task[], categories: Category[], columns: CsvColumn[]): string {
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  return toCsv([
+    columns.map((column) => CSV_COLUMN_LABELS[column]),
+    ...tasks.map((task) => columns.map((column) => formatCsvValue(task, column, categoryNames))),
+  ]);
+}
+
+/**
+ * タスクを CSV の文字列として取得する (ゴミ箱のタスクは除く)
+ * @param columns 書き出す項目
+ */
+export async function exportCsv(columns: CsvColumn[]): Promise<string> {
+  const tasks = excludeTrashed(await db.tasks.toArray());
+  const categories = excludeTrashed(await db.categories.toArray());
+  return tasksToCsv(tasks, categories, columns);
+}
+
+/**
+ * CSV の文字列をファイルとしてダウンロード
+ */
+export function downloadCsv(csv: string, filename?: string) {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || `todo-claude-${new Date().toISOString().split('T')[0]}.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * 見出しの行から列の割り当てを推測する
+ * @param header 見出しの行
+ * @returns 列ごとの項目 (推測できない列は null)
+ */
+export function guessCsvMapping(header: string[]): CsvMapping {
+  const mapping: CsvMapping = [];
+  for (const cell of header) {
+    const name = cell.trim().toLowerCase();
+    const column = CSV_COLUMNS.find(
+      (candidate) =>
+        !mapping.includes(candidate) &&
+        (CSV_COLUMN_LABELS[candidate].toLowerCase() === name ||
+          CSV_COLUMN_ALIASES[candidate].includes(name))
+    );
+    mapping.push(column ?? null);
+  }
+  return mapping;
+}
+
+/**
+ * 列の割り当ての誤りを取得する
+ * @param mapping 列の割り当て
+ * @returns エラーメッセージの配列
+ */
+export function getCsvMappingErrors(mapping: CsvMapping): string[] {
+  const errors: string[] = [];
+  if (!mapping.includes('title')) {
+    errors.push(`「${CSV_COLUMN_LABELS.title}」を割り当てる列を選んでください`);
+  }
+  for (const column of CSV_COLUMNS) {
+    if (mapping.filter((assigned) => assigned === column).length > 1) {
+      errors.push(`「${CSV_COLUMN_LABELS[column]}」が複数の列に割り当てられています`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * CSV の行を割り当てに従ってタスクにし、読み込めない値を検証する
+ * @param rows 見出しを除いた行
+ * @param mapping 列の割り当て
+ * @param now 作成日時 (テスト用)
+ * @returns 行ごとのタスクとエラー
+ */
+export function parseCsvTasks(
+  rows: string[][],
+  mapping: CsvMapping,
+  now: number = Date.now()
+): CsvPreviewRow[] {
+  return rows.map((cells, index) => {
+    const task: Task = {
+      title: '',
+      status: 'pending',
+      priority: 4,
+      createdAt: now,
+      updatedAt: now,
+    };
+    const errors: string[] = [];
+    let category: string | undefined;
+
+    mapping.forEach((column, columnIndex) => {
+      const value = unescapeCsvField((cells[columnIndex] ?? '').trim());
+      if (!column || !value) return;
+
+      switch (column) {
+        case 'title':
+          task.title = value;
+          break;
+        case 'dueAt': {
+          const dueAt = parseCsvDate(value);
+          if (dueAt === undefined) errors.push(`期限を読み取れません: ${value}`);
+          else task.dueAt = dueAt;
+          break;
+        }
+        case 'durationMin': {
+          const durationMin = Number(value);
+          if (!Number.isInteger(durationMin) || durationMin <= 0) {
+            errors.push(`所要時間を読み取れません: ${value}`);
+          } else {
+            task.durationMin = durationMin;
+          }
+          break;
+        }
+        case 'category':
+          category = value;
+          break;
+        case 'status': {
+          const status = parseCsvStatus(value);
+          if (!status) errors.push(`ステータスを読み取れません: ${value}`);
+          else task.status = status;
+          break;
+        }
+        case 'checklist':
+          task.checklist = parseChecklist(value);
+          break;
+        case 'repeatRule': {
+          const repeatRule = parseCsvRepeatRule(value);
+          if (!repeatRule) errors.push(`繰り返しを読み取れません: ${value}`);
+          else task.repeatRule = repeatRule;
+          break;
+        }
+      }
+    });
+
+    if (!task.title) errors.push('タイトルがありません');
+    return { row: index + 1, task, category, errors };
+  });
+}
+
+/**
+ * エラーのない行を importData で読み込める形にする
+ * 既存のカテゴリーと同じ名前はそのカテゴリーに、それ以外は新しいカテゴリーにする
+ * @param rows 確認した行
+ * @param categories 既存のカテゴリー
+ * @param now 書き出し日時 (テスト用)
+ * @returns インポートするデータ
+ */
+export function buildCsvImportData(
+  rows: CsvPreviewRow[],
+  categories: Category[],
+  now: number = Date.now()
+): ExportData {
+  const categoryIds = new Map(categories.map((category) => [category.name, category.id!]));
+  const newCategories: Category[] = [];
+  let order = Math.max(...categories.map((category) => category.order), 0);
+
+  const tasks = rows
+    .filter((row) => row.errors.length === 0)
+    .map(({ task, category }) => {
+      if (!category) return task;
+
+      let categoryId = categoryIds.get(category);
+      if (!categoryId) {
+        // importData が新しいIDを付け直す
+        categoryId = `csv-category-${newCategories.length + 1}`;
+        order += 1;
+        newCategories.push({
+          id: categoryId,
+          name: category,
+          color: IMPORTED_CATEGORY_COLOR,
+          order,
+        });
+        categoryIds.set(category, categoryId);
+      }
+      return { ...task, categoryId };
+    });
+
+  return {
+    version: '1.0.0',
+    exportedAt: now,
+    data: { tasks, categories: newCategories, settings: [] },
+  };
+}
+
+/**
+ * 確認した CSV の行を既存のデータに追加する (エラーのある行は除く)
+ * JSON のインポートと同じ importData のトランザクションで書き込む
+ * @param rows 確認した行
+ * @returns 追加したタスクの数
+ */
+export async function importCsvTasks(rows: CsvPreviewRow[]): Promise<number> {
+  const categories = excludeTrashed(await db.categories.toArray());
+  const data = buildCsvImportData(rows, categories);
+  await importData(data, 'merge');
+  return data.data.tasks.length;
+}
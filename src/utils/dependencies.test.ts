@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getBlockerCandidates,
+  getBlockers,
+  getOpenBlockers,
+  isBlocked,
+  wouldCreateDependencyCycle,
+} from './dependencies';
+import { createTask } from '@/test/factories';
+
+describe('dependencies', () => {
+  // design → build → release の順に依存する
+  const tasks = [
+    createTask({ id: 'design', status: 'done' }),
+    createTask({ id: 'build', blockedBy: ['design'] }),
+    createTask({ id: 'release', blockedBy: ['build', 'deleted'] }),
+    createTask({ id: 'other' }),
+    createTask({ id: 'old', status: 'archived' }),
+  ];
+
+  it('should find the blockers that still exist', () => {
+    expect(getBlockers(tasks[2], tasks).map((task) => task.id)).toEqual(['build']);
+    expect(getBlockers(tasks[3], tasks)).toEqual([]);
+  });
+
+  it('should only be blocked by pending tasks', () => {
+    expect(isBlocked(tasks[1], tasks)).toBe(false);
+    expect(isBlocked(tasks[2], tasks)).toBe(true);
+    expect(getOpenBlockers(tasks[2], tasks).map((task) => task.id)).toEqual(['build']);
+  });
+
+  it('should detect circular dependencies', () => {
+    expect(wouldCreateDependencyCycle('design', ['release'], tasks)).toBe(true);
+    expect(wouldCreateDependencyCycle('build', ['build'], tasks)).toBe(true);
+    expect(wouldCreateDependencyCycle('other', ['release'], tasks)).toBe(false);
+  });
+
+  it('should offer pending tasks that do not create a cycle', () => {
+    expect(getBlockerCandidates('build', ['design'], tasks).map((task) => task.id)).toEqual([
+      'other',
+    ]);
+    expect(getBlockerCandidates(undefined, [], tasks).map((task) => task.id)).toEqual([
+      'build',
+      'release',
+      'other',
+    ]);
+  });
+});
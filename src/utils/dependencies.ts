@@ -0,0 +1,80 @@
+import type { Task } from '@/db';
+
+export const DEPENDENCY_CYCLE_MESSAGE = '循環する依存関係は設定できません';
+
+/**
+ * タスクをブロックしているタスクを取得する (削除済みのタスクは除く)
+ * @param task タスク
+ * @param tasks 全タスク
+ */
+export function getBlockers(task: Pick<Task, 'blockedBy'>, tasks: Task[]): Task[] {
+  if (!task.blockedBy?.length) return [];
+  return task.blockedBy
+    .map((id) => tasks.find((other) => other.id === id))
+    .filter((blocker): blocker is Task => !!blocker);
+}
+
+/**
+ * まだ完了していないブロック元のタスクを取得する
+ * 完了・アーカイブ済みのタスクはブロックしない
+ * @param task タスク
+ * @param tasks 全タスク
+ */
+export function getOpenBlockers(task: Pick<Task, 'blockedBy'>, tasks: Task[]): Task[] {
+  return getBlockers(task, tasks).filter((blocker) => blocker.status === 'pending');
+}
+
+/**
+ * タスクがブロックされているかどうか
+ * @param task タスク
+ * @param tasks 全タスク
+ */
+export function isBlocked(task: Pick<Task, 'blockedBy'>, tasks: Task[]): boolean {
+  return getOpenBlockers(task, tasks).length > 0;
+}
+
+/**
+ * 依存関係を設定すると循環するかどうか
+ * ブロック元から blockedBy をたどって元のタスクに戻る場合は循環する
+ * @param taskId 依存関係を設定するタスクのID
+ * @param blockerIds ブロック元のタスクID
+ * @param tasks 全タスク
+ */
+export function wouldCreateDependencyCycle(
+  taskId: string,
+  blockerIds: string[],
+  tasks: Task[]
+): boolean {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const visited = new Set<string>();
+  const stack = [...blockerIds];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === taskId) return true;
+    if (visited.has(id)) continue;
+    visited.add(id);
+    stack.push(...(byId.get(id)?.blockedBy ?? []));
+  }
+  return false;
+}
+
+/**
+ * ブロック元として選べるタスク (未完了で、循環しないもの)
+ * @param taskId 編集中のタスクのID (新規作成の場合は undefined)
+ * @param blockerIds 設定済みのブロック元のタスクID
+ * @param tasks 全タスク
+ */
+export function getBlockerCandidates(
+  taskId: string | undefined,
+  blockerIds: string[],
+  tasks: Task[]
+): Task[] {
+  return tasks.filter(
+    (task) =>
+      task.status === 'pending' &&
+      task.id !== taskId &&
+      !blockerIds.includes(task.id!) &&
+      (!taskId || !wouldCreateDependencyCycle(taskId, [task.id!], tasks))
+  );
+}
@@ -27,6 +27,7 @@ vi.mock('@/db', () => ({
       return callback();
     }),
   },
+  isLockSetting: vi.fn((setting: { key: string }) => setting.key.startsWith('lock:')),
 }));
 
 // crypto.randomUUID のモック
@@ -48,6 +49,8 @@ describe('export-import utilities', () => {
           id: 'task-1',
           title: 'Test Task',
           status: 'pending',
+          notes: '- [資料](https://example.com)',
+          tags: ['call', 'waiting'],
           createdAt: 123,
           updatedAt: 456,
         },
@@ -68,7 +71,11 @@ describe('export-import utilities', () => {
       
       vi.mocked(db.tasks.toArray).mockResolvedValue(mockTasks);
       vi.mocked(db.categories.toArray).mockResolvedValue(mockCategories);
-      vi.mocked(db.settings.toArray).mockResolvedValue(mockSettings);
+      // 操作ロックの行はエクスポートしない
+      vi.mocked(db.settings.toArray).mockResolvedValue([
+        ...mockSettings,
+        { key: 'lock:recurrence:task-1', value: { owner: 'tab', acquiredAt: 1, expiresAt: 2 } },
+      ]);
       
       const result = await exportData();
       
@@ -132,6 +139,56 @@ describe('export-import utilities', () => {
             settings: [],
           },
         },
+        {
+          version: '1.0.0',
+          exportedAt: 123,
+          data: {
+            tasks: [
+              { title: 'Test', status: 'pending', createdAt: 1, updatedAt: 1, repeatMode: 'sometimes' },
+            ],
+            categories: [],
+            settings: [],
+          },
+        },
+        {
+          version: '1.0.0',
+          exportedAt: 123,
+          data: {
+            tasks: [{ title: 'Test', status: 'pending', createdAt: 1, updatedAt: 1, priority: 5 }],
+            categories: [],
+            settings: [],
+          },
+        },
+        {
+          version: '1.0.0',
+          exportedAt: 123,
+          data: {
+            tasks: [{ title: 'Test', status: 'pending', createdAt: 1, updatedAt: 1, notes: 42 }],
+            categories: [],
+            settings: [],
+          },
+        },
+        {
+          version: '1.0.0',
+          exportedAt: 123,
+          data: {
+            tasks: [{ title: 'Test', status: 'pending', createdAt: 1, updatedAt: 1, tags: 'call' }],
+            categories: [],
+            settings: [],
+          },
+        },
+        {
+          version: '1.0.0',
+          exportedAt: 123,
+          data: {
+            tasks: [
+              { id: 'a', title: 'A', status: 'pending', createdAt: 1, updatedAt: 1, blockedBy: ['b'] },
+              { id: 'b', title: 'B', status: 'pending', createdAt: 1, updatedAt: 1, blockedBy: ['a'] },
+            ],
+            categories: [],
+            settings: [],
+          },
+        },
       ];
       
       invalidCases.forEach(data => {
@@ -225,6 +282,210 @@ describe('export-import utilities', () => {
       expect(db.settings.add).toHaveBeenCalledWith({ key: 'newSetting', value: 'newValue' });
     });
 
+    it('should keep the recurrence mode of imported tasks', async () => {
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            {
+              id: 'task-1',
+              title: 'Water plants',
+              status: 'pending' as const,
+              repeatRule: 'FREQ=DAILY;INTERVAL=3',
+              repeatMode: 'completion' as const,
+              createdAt: 123,
+              updatedAt: 456,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'replace');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(
+        expect.objectContaining({ repeatMode: 'completion' })
+      );
+    });
+
+    it('should keep the priority of imported tasks', async () => {
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            {
+              id: 'task-1',
+              title: 'Urgent',
+              status: 'pending' as const,
+              priority: 1 as const,
+              createdAt: 123,
+              updatedAt: 456,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'replace');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(expect.objectContaining({ priority: 1 }));
+    });
+
+    it('should keep the notes of imported tasks', async () => {
+      const notes = '## 手順\n\n1. `npm ci`\n2. [手順書](https://example.com/docs)';
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            {
+              id: 'task-1',
+              title: 'Deploy',
+              status: 'pending' as const,
+              notes,
+              createdAt: 123,
+              updatedAt: 456,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'replace');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(expect.objectContaining({ notes }));
+    });
+
+    it('should link imported subtasks to the new parent IDs', async () => {
+      vi.mocked(crypto.randomUUID)
+        .mockReturnValueOnce('parent-0-0-0-0')
+        .mockReturnValueOnce('child-0-0-0-0');
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            { id: 'old-parent', title: 'Parent', status: 'pending' as const, createdAt: 1, updatedAt: 1 },
+            {
+              id: 'old-child',
+              title: 'Child',
+              status: 'pending' as const,
+              parentId: 'old-parent',
+              createdAt: 1,
+              updatedAt: 1,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'replace');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'child-0-0-0-0', parentId: 'parent-0-0-0-0' })
+      );
+    });
+
+    it('should keep recurring series linked after an export and import round trip', async () => {
+      const series: Task[] = [
+        { id: 'old-root', title: 'Daily', status: 'done', repeatRule: 'RRULE:FREQ=DAILY', createdAt: 1, updatedAt: 1 },
+        {
+          id: 'old-next',
+          title: 'Daily',
+          status: 'pending',
+          repeatRule: 'RRULE:FREQ=DAILY',
+          repeatParentId: 'old-root',
+          repeatCount: 1,
+          createdAt: 1,
+          updatedAt: 1,
+        },
+      ];
+      vi.mocked(db.tasks.toArray).mockResolvedValue(series);
+      vi.mocked(db.categories.toArray).mockResolvedValue([]);
+      vi.mocked(db.settings.toArray).mockResolvedValue([]);
+      vi.mocked(crypto.randomUUID)
+        .mockReturnValueOnce('root-0-0-0-0')
+        .mockReturnValueOnce('next-0-0-0-0');
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(JSON.parse(JSON.stringify(await exportData())), 'merge');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'next-0-0-0-0', repeatParentId: 'root-0-0-0-0' })
+      );
+    });
+
+    it('should remap dependencies to the new task IDs', async () => {
+      vi.mocked(crypto.randomUUID)
+        .mockReturnValueOnce('blocker-0-0-0-0')
+        .mockReturnValueOnce('blocked-0-0-0-0');
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            { id: 'old-blocker', title: 'Blocker', status: 'pending' as const, createdAt: 1, updatedAt: 1 },
+            {
+              id: 'old-blocked',
+              title: 'Blocked',
+              status: 'pending' as const,
+              blockedBy: ['old-blocker', 'missing'],
+              createdAt: 1,
+              updatedAt: 1,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'merge');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'blocked-0-0-0-0', blockedBy: ['blocker-0-0-0-0'] })
+      );
+    });
+
+    it('should import tags normalized', async () => {
+      vi.mocked(crypto.randomUUID).mockReturnValueOnce('tagged-0-0-0-0');
+      const importData = {
+        version: '1.0.0',
+        exportedAt: Date.now(),
+        data: {
+          tasks: [
+            {
+              id: 'old-tagged',
+              title: 'Tagged',
+              status: 'pending' as const,
+              tags: ['call', '#Call', '連絡待ち'],
+              createdAt: 1,
+              updatedAt: 1,
+            },
+          ],
+          categories: [],
+          settings: [],
+        },
+      };
+
+      const { importData: importFn } = await import('./export-import');
+      await importFn(importData, 'merge');
+
+      expect(db.tasks.add).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'tagged-0-0-0-0', tags: ['call', '連絡待ち'] })
+      );
+    });
+
     it('should throw error for invalid data', async () => {
       const invalidData = { invalid: 'data' };
       
@@ -1,5 +1,9 @@
-import { db } from '@/db';
+import { db, isLockSetting } from '@/db';
 import type { Task, Category, Setting } from '@/db';
+import { isTaskPriority } from './priority';
+import { wouldCreateDependencyCycle } from './dependencies';
+import { normalizeTags } from './tags';
+import { excludeTrashed } from './trash';
 
 export interface ExportData {
   version: string;
@@ -15,9 +19,11 @@ export interface ExportData {
  * 全データをエクスポート用のJSONオブジェクトとして取得
  */
 export async function exportData(): Promise<ExportData> {
-  const tasks = await db.tasks.toArray();
-  const categories = await db.categories.toArray();
-  const settings = await db.settings.toArray();
+  // ゴミ箱のタスク・カテゴリはエクスポートしない
+  const tasks = excludeTrashed(await db.tasks.toArray());
+  const categories = excludeTrashed(await db.categories.toArray());
+  // 操作ロックの行は設定ではないためエクスポートしない
+  const settings = (await db.settings.toArray()).filter((setting) => !isLockSetting(setting));
 
   return {
     version: '1.0.0',
@@ -79,6 +85,29 @@ export function validateImportData(data: unknown): data is ExportData {
     if (!task.status || !['pending', 'done', 'archived'].includes(task.status)) return false;
     if (!task.createdAt || typeof task.createdAt !== 'number') return false;
     if (!task.updatedAt || typeof task.updatedAt !== 'number') return false;
+    if (task.repeatMode !== undefined && !['schedule', 'completion'].includes(task.repeatMode)) return false;
+    if (task.priority !== undefined && !isTaskPriority(task.priority)) return false;
+    if (task.notes !== undefined && typeof task.notes !== 'string') return false;
+    if (task.parentId !== undefined && typeof task.parentId !== 'string') return false;
+    if (
+      task.blockedBy !== undefined &&
+      (!Array.isArray(task.blockedBy) || task.blockedBy.some((id: unknown) => typeof id !== 'string'))
+    ) {
+      return false;
+    }
+    if (
+      task.tags !== undefined &&
+      (!Array.isArray(task.tags) || task.tags.some((tag: unknown) => typeof tag !== 'string'))
+    ) {
+      return false;
+    }
+  }
+  
+  // 循環する依存関係を含むデータは受け付けない
+  for (const task of d.data.tasks) {
+    if (task.id && task.blockedBy && wouldCreateDependencyCycle(task.id, task.blockedBy, d.data.tasks)) {
+      return false;
+    }
   }
   
   // カテゴリーの検証
@@ -129,17 +158,39 @@ export async function importData(data: ExportData, importMode: 'replace' | 'merg
       });
     }
     
-    // タスクをインポート
-    for (const task of data.data.tasks) {
+    // サブタスクの親を付け替えるため、先にタスクの新しいIDを決める
+    const taskIdMapping = new Map<string, string>();
+    const newTaskIds = data.data.tasks.map(task => {
       const newId = crypto.randomUUID();
-      
+      if (task.id) {
+        taskIdMapping.set(task.id, newId);
+      }
+      return newId;
+    });
+    
+    // タスクをインポート
+    for (const [index, task] of data.data.tasks.entries()) {
       // カテゴリーIDをマッピング
       const categoryId = task.categoryId && idMapping.get(task.categoryId);
+      // 親タスクIDをマッピング (インポートに含まれない親はそのまま)
+      const parentId = task.parentId && taskIdMapping.get(task.parentId);
+      // 繰り返しの系列の元タスクIDも同じようにマッピング
+      const repeatParentId = task.repeatParentId && taskIdMapping.get(task.repeatParentId);
+      // ブロック元のタスクIDをマッピング (インポートに含まれないタスクへの依存関係は外す)
+      const blockedBy = task.blockedBy
+        ?.map(id => taskIdMapping.get(id))
+        .filter((id): id is string => !!id);
+      // 手で編集されたファイルでも同じタグにまとまるよう正規化する
+      const tags = task.tags && normalizeTags(task.tags);
       
       await db.tasks.add({
         ...task,
-        id: newId,
+        id: newTaskIds[index],
         categoryId: categoryId || task.categoryId,
+        parentId: parentId || task.parentId,
+        repeatParentId: repeatParentId || task.repeatParentId,
+        blockedBy: blockedBy?.length ? blockedBy : undefined,
+        tags: tags?.length ? tags : undefined,
       });
     }
     
@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '@/db';
+import { getHabitHeatmap, getHabitSeries } from './habits';
+import { buildRepeatRule, createRepeatRuleDraft } from './repeat-rule';
+import { createTask } from '@/test/factories';
+import { useTimeZone } from '@/test/timezone';
+
+describe('habits', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = new Date('2024-01-01T12:00:00Z').getTime();
+  const now = new Date('2024-01-10T12:00:00Z').getTime();
+  const rule = 'DTSTART:20240101T120000Z\nRRULE:FREQ=DAILY;INTERVAL=1';
+
+  const createOccurrence = (
+    n: number,
+    status: Task['status'],
+    overrides: Partial<Task> = {}
+  ): Task =>
+    createTask({
+      id: n === 0 ? 'root' : `task-${n}`,
+      title: 'Stretch',
+      status,
+      dueAt: start + n * day,
+      repeatRule: rule,
+      repeatParentId: n === 0 ? undefined : 'root',
+      repeatCount: n,
+      createdAt: start,
+      updatedAt: start,
+      ...overrides,
+    });
+
+  // 1/3 は未完了、1/5・1/6 はタスクが作成されていない (skip)、1/10 は今日
+  const series = [
+    createOccurrence(0, 'done'),
+    createOccurrence(1, 'done'),
+    createOccurrence(2, 'pending'),
+    createOccurrence(3, 'done'),
+    createOccurrence(6, 'done'),
+    createOccurrence(7, 'done'),
+    createOccurrence(8, 'done'),
+    createOccurrence(9, 'pending'),
+  ];
+
+  describe('getHabitSeries', () => {
+    it('should calculate streaks and completion rate per series', () => {
+      const [habit] = getHabitSeries(series, now);
+
+      expect(habit).toMatchObject({
+        seriesId: 'root',
+        title: 'Stretch',
+        doneCount: 6,
+        missedCount: 3,
+        currentStreak: 3,
+        longestStreak: 3,
+        completionRate: 6 / 9,
+      });
+    });
+
+    it('should mark overdue and uncreated occurrences as missed', () => {
+      const [habit] = getHabitSeries(series, now);
+
+      expect(habit.occurrences.map((o) => o.status)).toEqual([
+        'done',
+        'done',
+        'missed',
+        'done',
+        'missed',
+        'missed',
+        'done',
+        'done',
+        'done',
+        'upcoming',
+      ]);
+      expect(habit.occurrences[4]).toEqual({ dueAt: start + 4 * day, status: 'missed' });
+    });
+
+    it('should reset the current streak after a missed occurrence', () => {
+      const tasks = [
+        ...series.slice(0, -2),
+        createOccurrence(8, 'pending'),
+        createOccurrence(9, 'pending'),
+      ];
+
+      const [habit] = getHabitSeries(tasks, now);
+
+      expect(habit.currentStreak).toBe(0);
+      expect(habit.longestStreak).toBe(2);
+    });
+
+    it('should not break streaks with archived occurrences', () => {
+      const tasks = [
+        createOccurrence(0, 'done'),
+        createOccurrence(1, 'archived'),
+        createOccurrence(2, 'done'),
+      ];
+
+      const [habit] = getHabitSeries(tasks, start + 3 * day);
+
+      expect(habit.currentStreak).toBe(2);
+      expect(habit.occurrences[1].status).toBe('skipped');
+    });
+
+    it('should not look for uncreated occurrences in completion mode', () => {
+      const tasks = [
+        createOccurrence(0, 'done', { repeatMode: 'completion' }),
+        createOccurrence(5, 'done', { repeatMode: 'completion' }),
+      ];
+
+      const [habit] = getHabitSeries(tasks, now);
+
+      expect(habit.missedCount).toBe(0);
+      expect(habit.currentStreak).toBe(2);
+    });
+
+    it('should group series separately and ignore non-recurring tasks', () => {
+      const other: Task = { ...createOccurrence(0, 'done'), id: 'other', title: 'Read' };
+      const single: Task = { ...createOccurrence(0, 'done'), id: 'single', repeatRule: undefined };
+
+      const habits = getHabitSeries([...series, other, single], now);
+
+      expect(habits.map((habit) => habit.seriesId)).toEqual(['other', 'root']);
+    });
+
+    describe('in a timezone east of UTC', () => {
+      useTimeZone('Asia/Tokyo');
+
+      it('should count uncreated occurrences on the local weekdays', () => {
+        // 月・水・金の 07:00 (東京) は UTC では前日
+        const at = (date: number) => new Date(2024, 0, date, 7, 0).getTime();
+        const weekly = buildRepeatRule(
+          { ...createRepeatRuleDraft('WEEKLY'), byWeekday: ['MO', 'WE', 'FR'] },
+          new Date(at(8))
+        );
+        // 1/12 (金) はタスクが作成されていない
+        const tasks = [8, 10, 15].map((date, n) =>
+          createOccurrence(n, 'done', { dueAt: at(date), repeatRule: weekly })
+        );
+
+        const [habit] = getHabitSeries(tasks, new Date(2024, 0, 16, 12, 0).getTime());
+
+        expect(habit.occurrences.map((o) => [o.dueAt, o.status])).toEqual([
+          [at(8), 'done'],
+          [at(10), 'done'],
+          [at(12), 'missed'],
+          [at(15), 'done'],
+        ]);
+        expect(habit.missedCount).toBe(1);
+        expect(habit.currentStreak).toBe(1);
+      });
+    });
+  });
+
+  describe('getHabitHeatmap', () => {
+    it('should aggregate occurrences by day in weeks starting on Sunday', () => {
+      const [habit] = getHabitSeries(series, now);
+
+      const heatmap = getHabitHeatmap(habit.occurrences, now, 2);
+
+      expect(heatmap).toHaveLength(2);
+      expect(heatmap.every((week) => week.length === 7)).toBe(true);
+      expect(new Date(heatmap[0][0].date).getDay()).toBe(0);
+
+      const days = heatmap.flat();
+      const findDay = (date: string) =>
+        days.find((d) => d.date === new Date(`${date}T00:00:00`).getTime());
+
+      expect(findDay('2024-01-02')).toMatchObject({ done: 1, missed: 0, total: 1 });
+      expect(findDay('2024-01-03')).toMatchObject({ done: 0, missed: 1, total: 1 });
+      expect(findDay('2024-01-10')).toMatchObject({ done: 0, missed: 0, total: 1, future: false });
+      expect(findDay('2024-01-11')).toMatchObject({ total: 0, future: true });
+    });
+  });
+});
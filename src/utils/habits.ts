@@ -0,0 +1,182 @@
+import type { Task } from '@/db';
+import { fromWallClock, parseLocalRuleSet, toWallClock } from './repeat-rule';
+
+// 習慣の1回分の状態
+// done: 完了 / missed: 期日を過ぎても完了していない / upcoming: 今日以降の予定 / skipped: アーカイブ済み
+export type HabitOccurrenceStatus = 'done' | 'missed' | 'upcoming' | 'skipped';
+
+export interface HabitOccurrence {
+  dueAt: number;
+  status: HabitOccurrenceStatus;
+  // 繰り返しルール上の予定日にタスクが作成されていない場合は undefined
+  taskId?: string;
+}
+
+export interface HabitSeries {
+  seriesId: string;
+  title: string;
+  categoryId?: string;
+  occurrences: HabitOccurrence[];
+  doneCount: number;
+  missedCount: number;
+  currentStreak: number;
+  longestStreak: number;
+  // 完了した回 / (完了した回 + 完了しなかった回)。対象がない場合は0
+  completionRate: number;
+}
+
+export interface HabitHeatmapDay {
+  date: number;
+  done: number;
+  missed: number;
+  total: number;
+  future: boolean;
+}
+
+// ヒートマップに表示する週数
+export const HEATMAP_WEEKS = 12;
+
+// タスクが作成されなかった予定日を探す期間 (日数)
+const MISSED_LOOKBACK_DAYS = 366;
+
+function startOfDay(timestamp: number): number {
+  const date = new Date(timestamp);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+}
+
+function getTaskStatus(task: Task, today: number): HabitOccurrenceStatus {
+  if (task.status === 'done') return 'done';
+  if (task.status === 'archived') return 'skipped';
+  return task.dueAt! < today ? 'missed' : 'upcoming';
+}
+
+// 繰り返しルール上の昨日までの予定日のうち、タスクが作成されていない日 (skip で飛ばした回など)
+function getUncreatedOccurrences(series: Task[], today: number): HabitOccurrence[] {
+  const latest = series[series.length - 1];
+  // 完了日から繰り返す場合は予定日が決まらないため対象外
+  if (!latest.repeatRule || latest.repeatMode === 'completion') return [];
+
+  const created = new Set(series.map((task) => task.dueAt));
+  const from = Math.max(series[0].dueAt!, today - MISSED_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  try {
+    return parseLocalRuleSet(latest.repeatRule)
+      .between(toWallClock(from), toWallClock(today), false)
+      .map((date) => fromWallClock(date).getTime())
+      .filter(
+        (dueAt) =>
+          !created.has(dueAt) &&
+          dueAt > series[0].dueAt! &&
+          (!latest.repeatUntil || dueAt <= latest.repeatUntil)
+      )
+      .map((dueAt) => ({ dueAt, status: 'missed' as const }));
+  } catch (error) {
+    console.error('Failed to expand RRULE:', error);
+    return [];
+  }
+}
+
+function getStreaks(occurrences: HabitOccurrence[]): { current: number; longest: number } {
+  let current = 0;
+  let longest = 0;
+  for (const occurrence of occurrences) {
+    if (occurrence.status === 'done') {
+      current++;
+      longest = Math.max(longest, current);
+    } else if (occurrence.status === 'missed') {
+      current = 0;
+    }
+  }
+  return { current, longest };
+}
+
+/**
+ * 繰り返しタスクを系列 (repeatParentId) ごとにまとめ、習慣としての記録を集計する
+ * @param tasks すべてのタスク
+ * @param now 現在日時
+ * @returns 系列ごとの記録 (タイトル順)
+ */
+export function getHabitSeries(tasks: Task[], now: number = Date.now()): HabitSeries[] {
+  const today = startOfDay(now);
+  const groups = new Map<string, Task[]>();
+
+  tasks
+    .filter((task) => task.repeatRule && task.dueAt)
+    .forEach((task) => {
+      const seriesId = task.repeatParentId || task.id!;
+      groups.set(seriesId, [...(groups.get(seriesId) ?? []), task]);
+    });
+
+  return Array.from(groups.entries())
+    .map(([seriesId, group]) => {
+      const series = [...group].sort(
+        (a, b) => (a.repeatCount || 0) - (b.repeatCount || 0) || a.dueAt! - b.dueAt!
+      );
+      const latest = series[series.length - 1];
+
+      const occurrences = [
+        ...series.map((task) => ({
+          dueAt: task.dueAt!,
+          status: getTaskStatus(task, today),
+          taskId: task.id,
+        })),
+        ...getUncreatedOccurrences(series, today),
+      ].sort((a, b) => a.dueAt - b.dueAt);
+
+      const doneCount = occurrences.filter((o) => o.status === 'done').length;
+      const missedCount = occurrences.filter((o) => o.status === 'missed').length;
+      const { current, longest } = getStreaks(occurrences);
+
+      return {
+        seriesId,
+        title: latest.title,
+        categoryId: latest.categoryId,
+        occurrences,
+        doneCount,
+        missedCount,
+        currentStreak: current,
+        longestStreak: longest,
+        completionRate: doneCount + missedCount > 0 ? doneCount / (doneCount + missedCount) : 0,
+      };
+    })
+    .sort((a, b) => a.title.localeCompare(b.title));
+}
+
+/**
+ * 完了状況のヒートマップを日曜始まりの週ごとに作成する
+ * @param occurrences 習慣の記録
+ * @param now 現在日時
+ * @param weeks 表示する週数 (今週を含む)
+ * @returns 週ごとの7日分の集計
+ */
+export function getHabitHeatmap(
+  occurrences: HabitOccurrence[],
+  now: number = Date.now(),
+  weeks: number = HEATMAP_WEEKS
+): HabitHeatmapDay[][] {
+  const today = startOfDay(now);
+  const cursor = new Date(today);
+  cursor.setDate(cursor.getDate() - cursor.getDay() - (weeks - 1) * 7);
+
+  const byDay = new Map<number, HabitOccurrence[]>();
+  occurrences.forEach((occurrence) => {
+    const day = startOfDay(occurrence.dueAt);
+    byDay.set(day, [...(byDay.get(day) ?? []), occurrence]);
+  });
+
+  return Array.from({ length: weeks }, () =>
+    Array.from({ length: 7 }, () => {
+      const date = cursor.getTime();
+      const dayOccurrences = (byDay.get(date) ?? []).filter((o) => o.status !== 'skipped');
+      cursor.setDate(cursor.getDate() + 1);
+      return {
+        date,
+        done: dayOccurrences.filter((o) => o.status === 'done').length,
+        missed: dayOccurrences.filter((o) => o.status === 'missed').length,
+        total: dayOccurrences.length,
+        future: date > today,
+      };
+    })
+  );
+}
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { db } from '@/db';
+import type { Task } from '@/db';
+import { exportICalendar, importICalendar, parseICalendar, tasksToICalendar } from './ical';
+import { createTask } from '@/test/factories';
+
+describe('iCalendar', () => {
+  const dueAt = Date.UTC(2024, 0, 15, 9, 0);
+  const minutes = (n: number) => n * 60 * 1000;
+
+  // iCalendar で表せる項目だけを比べる
+  const pickFields = (task?: Task) => ({
+    title: task?.title,
+    status: task?.status,
+    notes: task?.notes,
+    priority: task?.priority,
+    dueAt: task?.dueAt,
+    durationMin: task?.durationMin,
+    repeatRule: task?.repeatRule,
+    parentId: task?.parentId,
+  });
+
+  beforeEach(async () => {
+    await db.open();
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  afterEach(async () => {
+    await db.tasks.clear();
+    await db.categories.clear();
+  });
+
+  it('should round-trip tasks through VTODO export and import', async () => {
+    await db.categories.add({ id: 'work', name: '仕事, 会議', color: '#000000', order: 1 });
+    const parent = createTask({
+      title: '週次レビュー; 準備',
+      notes: '1行目\n2行目に\\バックスラッシュ\n' + '長いメモ'.repeat(30),
+      priority: 1,
+      categoryId: 'work',
+      dueAt,
+      durationMin: 90,
+      repeatRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO\nEXDATE:20240122T090000Z',
+    });
+    const tasks = [
+      parent,
+      createTask({ title: 'サブタスク', parentId: parent.id, priority: 2, dueAt }),
+      createTask({ title: '完了したタスク', status: 'done', priority: 3 }),
+      createTask({ title: 'アーカイブしたタスク', status: 'archived', priority: 4 }),
+      createTask({ title: '削除したタスク', deletedAt: Date.now() }),
+    ];
+    await db.tasks.bulkAdd(tasks);
+
+    const ics = await exportICalendar();
+    // 75 オクテットを超える行は折り返す
+    expect(ics.split('\r\n').every((line) => new TextEncoder().encode(line).length <= 75)).toBe(
+      true
+    );
+
+    await db.tasks.clear();
+    await db.categories.clear();
+    expect(await importICalendar(ics)).toEqual({ added: 4, updated: 0 });
+
+    for (const task of tasks.slice(0, 4)) {
+      expect(pickFields(await db.tasks.get(task.id!))).toEqual(pickFields(task));
+    }
+    expect(await db.tasks.get(tasks[4].id!)).toBeUndefined();
+
+    const [category] = await db.categories.toArray();
+    expect(category.name).toBe('仕事, 会議');
+    expect((await db.tasks.get(parent.id!))?.categoryId).toBe(category.id);
+  });
+
+  it('should merge imported tasks by UID and keep the fields iCalendar does not carry', async () => {
+    const task = createTask({ title: '元のタイトル', dueAt, tags: ['home'], blockedBy: ['other'] });
+    await db.tasks.add(task);
+    const ics = await exportICalendar();
+
+    await db.tasks.update(task.id!, { title: '変更したタイトル', dueAt: undefined });
+
+    expect(await importICalendar(ics)).toEqual({ added: 0, updated: 1 });
+    const merged = await db.tasks.get(task.id!);
+    expect(merged).toMatchObject({
+      title: '元のタイトル',
+      dueAt,
+      tags: ['home'],
+      blockedBy: ['other'],
+      createdAt: task.createdAt,
+    });
+    expect(await db.tasks.count()).toBe(1);
+  });
+
+  it('should round-trip pending tasks with a due date as VEVENT', async () => {
+    const tasks = [
+      createTask({ title: '打ち合わせ', dueAt, durationMin: 30, priority: 4 }),
+      createTask({ title: '期日なし' }),
+      createTask({ title: '完了済み', status: 'done', dueAt }),
+    ];
+
+    const ics = tasksToICalendar(tasks, [], 'VEVENT');
+    expect(ics).toContain('DTEND:20240115T093000Z');
+
+    const items = parseICalendar(ics);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ uid: tasks[0].id, component: 'VEVENT' });
+    expect(items[0].fields).toEqual(pickFields(tasks[0]));
+  });
+
+  it('should read VTODO and VEVENT written by other calendar apps', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'PRODID:-//Mozilla.org/NONSGML Mozilla Calendar V1.1//EN',
+      'VERSION:2.0',
+      'BEGIN:VTIMEZONE',
+      'TZID:Asia/Tokyo',
+      'BEGIN:STANDARD',
+      'TZOFFSETFROM:+0900',
+      'TZOFFSETTO:+0900',
+      'DTSTART:19700101T000000',
+      'END:STANDARD',
+      'END:VTIMEZONE',
+      'BEGIN:VTODO',
+      'UID:thunderbird-1',
+      'SUMMARY:折り返された',
+      '  タイトル',
+      'DTSTART;TZID=Asia/Tokyo:20240115T090000',
+      'DURATION:PT1H30M',
+      'PRIORITY:5',
+      'CATEGORIES:Home,Errands',
+      'STATUS:IN-PROCESS',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:アラーム',
+      'TRIGGER:-PT15M',
+      'END:VALARM',
+      'END:VTODO',
+      'BEGIN:VEVENT',
+      'UID:apple-1',
+      'SUMMARY:終日の予定',
+      'DTSTART;VALUE=DATE:20240120',
+      'DTEND;VALUE=DATE:20240121',
+      'RRULE:FREQ=YEARLY',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:no-summary',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    const [todo, event, ...rest] = parseICalendar(ics);
+
+    expect(rest).toHaveLength(0);
+    expect(todo).toMatchObject({ uid: 'thunderbird-1', category: 'Home' });
+    expect(todo.fields).toMatchObject({
+      title: '折り返された タイトル',
+      status: 'pending',
+      priority: 2,
+      dueAt: new Date(2024, 0, 15, 9, 0).getTime(),
+      durationMin: 90,
+      notes: undefined,
+    });
+    expect(event.fields).toMatchObject({
+      title: '終日の予定',
+      dueAt: new Date(2024, 0, 20).getTime(),
+      durationMin: 24 * 60,
+      repeatRule: 'RRULE:FREQ=YEARLY',
+    });
+  });
+
+  it('should not write the DTSTART of the repeat rule twice', () => {
+    const ics = tasksToICalendar(
+      [
+        createTask({
+          dueAt: dueAt + minutes(60),
+          repeatRule: 'DTSTART:20240115T090000Z\nRRULE:FREQ=DAILY;INTERVAL=1',
+        }),
+      ],
+      []
+    );
+
+    expect(ics.match(/^DTSTART/gm)).toHaveLength(1);
+    expect(ics).toContain('DTSTART:20240115T100000Z\r\nDUE:20240115T100000Z\r\nRRULE:FREQ=DAILY');
+  });
+
+  it('should reject files that are not iCalendar', async () => {
+    await expect(importICalendar('{"version":"1.0.0"}')).rejects.toThrow(
+      '無効な iCalendar ファイルです'
+    );
+  });
+});
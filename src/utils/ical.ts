@@ -0,0 +1,403 @@
+import { db } from '@/db';
+import type { Category, Task, TaskPriority } from '@/db';
+import { excludeTrashed } from './trash';
+
+// 書き出すコンポーネント (VTODO: タスク / VEVENT: カレンダーの予定)
+export type ICalComponent = 'VTODO' | 'VEVENT';
+
+// iCalendar で表せるタスクの項目 (読み込み時はこれらの項目だけを上書きする)
+export type ICalTaskFields = Pick<
+  Task,
+  'title' | 'status' | 'notes' | 'priority' | 'dueAt' | 'durationMin' | 'repeatRule' | 'parentId'
+>;
+
+// iCalendar から読み込んだ1件のタスク
+export interface ICalItem {
+  uid: string; // タスクの統合に使う UID (書き出し時はタスクのID)
+  component: ICalComponent;
+  category?: string; // CATEGORIES の最初の値 (カテゴリー名)
+  createdAt?: number;
+  fields: ICalTaskFields;
+}
+
+const PRODID = '-//Todo Claude//Todo Claude//JA';
+
+// 読み込んで作成するカテゴリーの色 (カテゴリー作成時の既定値)
+const IMPORTED_CATEGORY_COLOR = '#6366F1';
+
+// 1行の最大オクテット数 (これを超える行は折り返す)
+const MAX_LINE_OCTETS = 75;
+
+const MINUTE_MS = 60 * 1000;
+
+// 繰り返しとして repeatRule に残すプロパティ
+const RECURRENCE_PROPERTIES = ['RRULE', 'EXDATE', 'RDATE'];
+
+// 優先度と iCalendar の PRIORITY (1: 高 / 5: 中 / 9: 低 / 0: 未設定) の対応
+const ICAL_PRIORITIES: Record<TaskPriority, number> = { 1: 1, 2: 5, 3: 9, 4: 0 };
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+  raw: string;
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+function unescapeText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+}
+
+function formatDateTime(time: number): string {
+  return new Date(time)
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * DATE・DATE-TIME の値を日時にする
+ * UTC 以外 (TZID 付き・フローティング・日付のみ) は端末のタイムゾーンの時刻とみなす
+ */
+function parseDateTime(value: string | undefined): number | undefined {
+  const match = value && /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const parts = [year, month, day, hour, minute, second].map(Number);
+  parts[1] -= 1;
+  const [y, m, d, h, mi, s] = parts;
+  return utc ? Date.UTC(y, m, d, h, mi, s) : new Date(y, m, d, h, mi, s).getTime();
+}
+
+// DURATION の値 (例: PT1H30M) を分にする
+function parseDuration(value: string | undefined): number | undefined {
+  const match =
+    value && /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value);
+  if (!match) return undefined;
+
+  const [weeks, days, hours, minutes, seconds] = match.slice(1).map((part) => Number(part ?? 0));
+  return ((weeks * 7 + days) * 24 + hours) * 60 + minutes + Math.floor(seconds / 60);
+}
+
+function toTaskPriority(value: string | undefined): TaskPriority {
+  const priority = Number(value);
+  if (priority >= 1 && priority <= 4) return 1;
+  if (priority === 5) return 2;
+  if (priority >= 6 && priority <= 9) return 3;
+  return 4;
+}
+
+function getOctets(char: string): number {
+  const code = char.codePointAt(0)!;
+  if (code < 0x80) return 1;
+  if (code < 0x800) return 2;
+  return code < 0x10000 ? 3 : 4;
+}
+
+// 75 オクテットを超える行を、文字の途中で切らないように折り返す
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = getOctets(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      parts.push(current);
+      // 続きの行は先頭の空白を含めて数える
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n');
+}
+
+function parseContentLine(line: string): ContentLine | undefined {
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      const [name, ...params] = line.slice(0, i).split(';');
+      return {
+        name: name.toUpperCase(),
+        params: Object.fromEntries(
+          params.map((param) => {
+            const [key, ...value] = param.split('=');
+            return [key.toUpperCase(), value.join('=').replace(/^"|"$/g, '')];
+          })
+        ),
+        value: line.slice(i + 1),
+        raw: line,
+      };
+    }
+  }
+  return undefined;
+}
+
+function toICalStatus(task: Task, component: ICalComponent): string | undefined {
+  if (task.status === 'archived') return 'CANCELLED';
+  if (component === 'VEVENT') return undefined;
+  return task.status === 'done' ? 'COMPLETED' : 'NEEDS-ACTION';
+}
+
+function toComponentLines(
+  task: Task,
+  component: ICalComponent,
+  categoryName: string | undefined,
+  now: number
+): string[] {
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `CREATED:${formatDateTime(task.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(task.updatedAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+
+  if (task.notes) lines.push(`DESCRIPTION:${escapeText(task.notes)}`);
+  if (task.priority && ICAL_PRIORITIES[task.priority]) {
+    lines.push(`PRIORITY:${ICAL_PRIORITIES[task.priority]}`);
+  }
+  if (categoryName) lines.push(`CATEGORIES:${escapeText(categoryName)}`);
+  if (task.parentId) lines.push(`RELATED-TO;RELTYPE=PARENT:${task.parentId}`);
+
+  if (task.dueAt !== undefined) {
+    const endAt = task.dueAt + (task.durationMin ?? 0) * MINUTE_MS;
+    if (component === 'VEVENT') {
+      lines.push(`DTSTART:${formatDateTime(task.dueAt)}`);
+      if (task.durationMin) lines.push(`DTEND:${formatDateTime(endAt)}`);
+    } else {
+      // 長さのあるタスクと繰り返しの起点は DTSTART で表す (DUE は終了時刻)
+      if (task.durationMin || task.repeatRule) {
+        lines.push(`DTSTART:${formatDateTime(task.dueAt)}`);
+      }
+      lines.push(`DUE:${formatDateTime(endAt)}`);
+    }
+
+    // 繰り返しの起点は期日なので、repeatRule の DTSTART は書き出さない
+    if (task.repeatRule) {
+      lines.push(
+        ...task.repeatRule
+          .split(/\r?\n/)
+          .filter((line) => RECURRENCE_PROPERTIES.includes(line.split(/[;:]/)[0]))
+      );
+    }
+  }
+
+  const status = toICalStatus(task, component);
+  if (status) lines.push(`STATUS:${status}`);
+  if (component === 'VTODO' && task.status === 'done') {
+    lines.push(`COMPLETED:${formatDateTime(task.updatedAt)}`);
+  }
+
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/**
+ * タスクを iCalendar (.ics) の文字列にする
+ * @param tasks 書き出すタスク
+ * @param categories カテゴリー (CATEGORIES にカテゴリー名を書き出す)
+ * @param component VTODO: すべてのタスク / VEVENT: 期日のある未完了のタスクを予定として
+ * @param now 現在時刻 (テスト用)
+ * @returns iCalendar の文字列
+ */
+export function tasksToICalendar(
+  tasks: Task[],
+  categories: Category[],
+  component: ICalComponent = 'VTODO',
+  now: number = Date.now()
+): string {
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+
+  for (const task of tasks) {
+    if (component === 'VEVENT' && (task.status !== 'pending' || task.dueAt === undefined)) {
+      continue;
+    }
+    const categoryName = task.categoryId ? categoryNames.get(task.categoryId) : undefined;
+    lines.push(...toComponentLines(task, component, categoryName, now));
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function toICalItem(component: ICalComponent, properties: ContentLine[]): ICalItem | undefined {
+  const get = (name: string) => properties.find((property) => property.name === name);
+  const summary = get('SUMMARY');
+  if (!summary) return undefined;
+
+  const startAt = parseDateTime(get('DTSTART')?.value);
+  const endAt = parseDateTime(get(component === 'VEVENT' ? 'DTEND' : 'DUE')?.value);
+  const durationMin =
+    startAt !== undefined && endAt !== undefined && endAt > startAt
+      ? Math.round((endAt - startAt) / MINUTE_MS)
+      : parseDuration(get('DURATION')?.value);
+
+  const icalStatus = get('STATUS')?.value.toUpperCase();
+  let status: Task['status'] = 'pending';
+  if (icalStatus === 'CANCELLED') {
+    status = 'archived';
+  } else if (icalStatus === 'COMPLETED' || (component === 'VTODO' && get('COMPLETED'))) {
+    status = 'done';
+  }
+
+  const recurrence = properties.filter((property) => RECURRENCE_PROPERTIES.includes(property.name));
+  const parent = properties.find(
+    (property) =>
+      property.name === 'RELATED-TO' && (property.params.RELTYPE ?? 'PARENT') === 'PARENT'
+  );
+  const [category] = (get('CATEGORIES')?.value ?? '').split(/(?<!\\),/).map(unescapeText);
+  const notes = get('DESCRIPTION');
+
+  return {
+    uid: get('UID')?.value || crypto.randomUUID(),
+    component,
+    category: category || undefined,
+    createdAt: parseDateTime(get('CREATED')?.value),
+    fields: {
+      title: unescapeText(summary.value),
+      status,
+      notes: notes ? unescapeText(notes.value) : undefined,
+      priority: toTaskPriority(get('PRIORITY')?.value),
+      dueAt: startAt ?? endAt,
+      durationMin: durationMin || undefined,
+      repeatRule: recurrence.some((property) => property.name === 'RRULE')
+        ? recurrence.map((property) => property.raw).join('\n')
+        : undefined,
+      parentId: parent?.value,
+    },
+  };
+}
+
+/**
+ * iCalendar (.ics) の文字列から VTODO・VEVENT を読み込む
+ * @param text iCalendar の文字列
+ * @returns 読み込んだタスク (SUMMARY のないものは除く)
+ */
+export function parseICalendar(text: string): ICalItem[] {
+  const lines = text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .map(parseContentLine)
+    .filter((line): line is ContentLine => !!line);
+
+  if (lines[0]?.name !== 'BEGIN' || lines[0].value.toUpperCase() !== 'VCALENDAR') {
+    throw new Error('無効な iCalendar ファイルです');
+  }
+
+  const items: ICalItem[] = [];
+  let current: { component: ICalComponent; properties: ContentLine[] } | null = null;
+  // 読み込み中のコンポーネントの中の入れ子 (VALARM など) の深さ
+  let depth = 0;
+
+  for (const line of lines) {
+    const value = line.value.toUpperCase();
+    if (!current) {
+      if (line.name === 'BEGIN' && (value === 'VTODO' || value === 'VEVENT')) {
+        current = { component: value, properties: [] };
+      }
+    } else if (line.name === 'BEGIN') {
+      depth++;
+    } else if (line.name === 'END' && depth > 0) {
+      depth--;
+    } else if (line.name === 'END') {
+      const item = toICalItem(current.component, current.properties);
+      if (item) items.push(item);
+      current = null;
+    } else if (depth === 0) {
+      current.properties.push(line);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * タスクを iCalendar (.ics) の文字列として取得する (ゴミ箱のタスクは除く)
+ * @param component VTODO: タスクとして / VEVENT: カレンダーの予定として
+ */
+export async function exportICalendar(component: ICalComponent = 'VTODO'): Promise<string> {
+  const tasks = excludeTrashed(await db.tasks.toArray());
+  const categories = excludeTrashed(await db.categories.toArray());
+  return tasksToICalendar(tasks, categories, component);
+}
+
+/**
+ * iCalendar の文字列をファイルとしてダウンロード
+ */
+export function downloadICalendar(ics: string, filename?: string) {
+  const blob = new Blob([ics], { type: 'text/calendar' });
+  const url = URL.createObjectURL(blob);
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename || `todo-claude-${new Date().toISOString().split('T')[0]}.ics`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * iCalendar (.ics) のタスク・予定をインポートする
+ * UID と同じIDのタスクがあれば iCalendar で表せる項目だけを更新し (タグ・依存関係などは残す)、
+ * なければそのIDで追加する。CATEGORIES のカテゴリーがなければ作成する
+ * @param text iCalendar の文字列
+ * @returns 追加・更新したタスクの数
+ */
+export async function importICalendar(text: string): Promise<{ added: number; updated: number }> {
+  const items = parseICalendar(text);
+
+  return db.transaction('rw', db.tasks, db.categories, async () => {
+    const categories = excludeTrashed(await db.categories.toArray());
+    const categoryIds = new Map(categories.map((category) => [category.name, category.id!]));
+    let order = Math.max(...categories.map((category) => category.order), 0);
+    const now = Date.now();
+    let added = 0;
+    let updated = 0;
+
+    for (const item of items) {
+      let categoryId = item.category && categoryIds.get(item.category);
+      if (item.category && !categoryId) {
+        categoryId = crypto.randomUUID();
+        order += 1;
+        await db.categories.add({
+          id: categoryId,
+          name: item.category,
+          color: IMPORTED_CATEGORY_COLOR,
+          order,
+        });
+        categoryIds.set(item.category, categoryId);
+      }
+
+      const fields = { ...item.fields, categoryId: categoryId || undefined, updatedAt: now };
+      if (await db.tasks.get(item.uid)) {
+        await db.tasks.update(item.uid, fields);
+        updated += 1;
+      } else {
+        await db.tasks.add({ ...fields, id: item.uid, createdAt: item.createdAt ?? now });
+        added += 1;
+      }
+    }
+
+    return { added, updated };
+  });
+}
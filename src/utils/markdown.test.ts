@@ -0,0 +1,129 @@
+import { describe, it, expect } from 'vitest';
+import { markdownToPlainText, parseInline, parseMarkdown, sanitizeUrl } from './markdown';
+
+describe('markdown', () => {
+  describe('parseInline', () => {
+    it('should parse code, emphasis and strikethrough', () => {
+      expect(parseInline('`a*b*` と **太字** と *斜体* と ~~取消~~')).toEqual([
+        { type: 'code', text: 'a*b*' },
+        { type: 'text', text: ' と ' },
+        { type: 'strong', children: [{ type: 'text', text: '太字' }] },
+        { type: 'text', text: ' と ' },
+        { type: 'em', children: [{ type: 'text', text: '斜体' }] },
+        { type: 'text', text: ' と ' },
+        { type: 'del', children: [{ type: 'text', text: '取消' }] },
+      ]);
+    });
+
+    it('should keep unmatched delimiters and underscores inside words', () => {
+      expect(parseInline('snake_case_name と 2 * 3')).toEqual([
+        { type: 'text', text: 'snake_case_name と 2 * 3' },
+      ]);
+      expect(parseInline('\\*not em\\*')).toEqual([{ type: 'text', text: '*not em*' }]);
+    });
+
+    it('should parse links and bare URLs', () => {
+      expect(parseInline('[資料](https://example.com/a) を見る https://example.com/b.')).toEqual([
+        { type: 'link', href: 'https://example.com/a', children: [{ type: 'text', text: '資料' }] },
+        { type: 'text', text: ' を見る ' },
+        {
+          type: 'link',
+          href: 'https://example.com/b',
+          children: [{ type: 'text', text: 'https://example.com/b' }],
+        },
+        { type: 'text', text: '.' },
+      ]);
+    });
+
+    it('should not create links with unsafe URLs', () => {
+      expect(parseInline('[click](javascript:alert(1))')).toEqual([
+        { type: 'text', text: 'click' },
+        { type: 'text', text: ')' },
+      ]);
+    });
+
+    it('should keep line breaks', () => {
+      expect(parseInline('1行目\n2行目')).toEqual([
+        { type: 'text', text: '1行目' },
+        { type: 'break' },
+        { type: 'text', text: '2行目' },
+      ]);
+    });
+  });
+
+  describe('parseMarkdown', () => {
+    it('should parse headings, paragraphs, rules and code blocks', () => {
+      expect(parseMarkdown('# 見出し\n\n本文\n---\n```ts\nconst a = 1;\n\n<b>x</b>\n```')).toEqual([
+        { type: 'heading', level: 1, children: [{ type: 'text', text: '見出し' }] },
+        { type: 'paragraph', children: [{ type: 'text', text: '本文' }] },
+        { type: 'rule' },
+        { type: 'code', lang: 'ts', text: 'const a = 1;\n\n<b>x</b>' },
+      ]);
+    });
+
+    it('should parse nested lists', () => {
+      expect(parseMarkdown('- 買い物\n  1. 牛乳\n  2. 卵\n- 掃除')).toEqual([
+        {
+          type: 'list',
+          ordered: false,
+          items: [
+            [
+              { type: 'paragraph', children: [{ type: 'text', text: '買い物' }] },
+              {
+                type: 'list',
+                ordered: true,
+                items: [
+                  [{ type: 'paragraph', children: [{ type: 'text', text: '牛乳' }] }],
+                  [{ type: 'paragraph', children: [{ type: 'text', text: '卵' }] }],
+                ],
+              },
+            ],
+            [{ type: 'paragraph', children: [{ type: 'text', text: '掃除' }] }],
+          ],
+        },
+      ]);
+    });
+
+    it('should keep the start number of ordered lists', () => {
+      expect(parseMarkdown('3. 三\n4. 四')).toMatchObject([
+        { type: 'list', ordered: true, start: 3 },
+      ]);
+    });
+
+    it('should parse blockquotes', () => {
+      expect(parseMarkdown('> 引用\n> **強調**')).toEqual([
+        {
+          type: 'blockquote',
+          children: [
+            {
+              type: 'paragraph',
+              children: [
+                { type: 'text', text: '引用' },
+                { type: 'break' },
+                { type: 'strong', children: [{ type: 'text', text: '強調' }] },
+              ],
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('should only allow http, https and mailto', () => {
+      expect(sanitizeUrl('https://example.com')).toBe('https://example.com');
+      expect(sanitizeUrl('mailto:someone@example.com')).toBe('mailto:someone@example.com');
+      expect(sanitizeUrl('javascript:alert(1)')).toBeUndefined();
+      expect(sanitizeUrl('data:text/html,<script>')).toBeUndefined();
+      expect(sanitizeUrl('/relative')).toBeUndefined();
+    });
+  });
+
+  describe('markdownToPlainText', () => {
+    it('should strip the markup', () => {
+      expect(
+        markdownToPlainText('## 準備\n\n- [資料](https://example.com) を **印刷**\n- `npm ci`')
+      ).toBe('準備 資料 を 印刷 npm ci');
+    });
+  });
+});
@@ -0,0 +1,379 @@
+// タスクのメモ (Markdown) の解析
+// HTML 文字列は生成せず構文木を返し、描画側で React 要素に変換する (生の HTML はそのまま文字として扱う)
+
+export type MarkdownInline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: MarkdownInline[] }
+  | { type: 'link'; href: string; children: MarkdownInline[] }
+  | { type: 'break' };
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; children: MarkdownInline[] }
+  | { type: 'heading'; level: number; children: MarkdownInline[] }
+  | { type: 'code'; lang?: string; text: string }
+  | { type: 'list'; ordered: boolean; start?: number; items: MarkdownBlock[][] }
+  | { type: 'blockquote'; children: MarkdownBlock[] }
+  | { type: 'rule' };
+
+// リンクとして許可するスキーム (javascript: などは文字として表示する)
+const SAFE_URL_PROTOCOLS = ['http:', 'https:', 'mailto:'];
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)/;
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE_PATTERN = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE_PATTERN = /^ {0,3}> ?(.*)$/;
+const LIST_ITEM_PATTERN = /^( *)([-*+]|\d{1,9}[.)])( +|$)(.*)$/;
+const ESCAPABLE = /[\\`*_~[\]()#+\-.!>]/;
+
+/**
+ * リンク先の URL を検証する
+ * @param url URL
+ * @returns 許可されたスキームの URL (それ以外は undefined)
+ */
+export function sanitizeUrl(url: string): string | undefined {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    return SAFE_URL_PROTOCOLS.includes(parsed.protocol) ? trimmed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 行内の記法 (コード・強調・打ち消し・リンク) を解析する
+ * @param text 文字列 (改行は改行として扱う)
+ */
+export function parseInline(text: string): MarkdownInline[] {
+  const nodes: MarkdownInline[] = [];
+  let buffer = '';
+
+  const flush = () => {
+    if (buffer) {
+      nodes.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+  };
+  const push = (node: MarkdownInline) => {
+    flush();
+    nodes.push(node);
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const rest = text.slice(i);
+
+    if (char === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '\n') {
+      push({ type: 'break' });
+      i += 1;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = rest.match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end !== -1) {
+        push({
+          type: 'code',
+          text: text
+            .slice(i + ticks.length, end)
+            .replace(/\n/g, ' ')
+            .trim(),
+        });
+        i = end + ticks.length;
+        continue;
+      }
+      buffer += ticks;
+      i += ticks.length;
+      continue;
+    }
+
+    const delimiter = ['**', '__', '~~', '*', '_'].find((d) => rest.startsWith(d));
+    if (delimiter) {
+      const end = findClosingDelimiter(text, i + delimiter.length, delimiter);
+      // snake_case のような単語中の _ は強調として扱わない
+      const inWord = delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[i - 1] ?? '');
+      if (end !== -1 && !inWord) {
+        const children = parseInline(text.slice(i + delimiter.length, end));
+        const type = delimiter === '~~' ? 'del' : delimiter.length === 2 ? 'strong' : 'em';
+        push({ type, children });
+        i = end + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (char === '[') {
+      const link = rest.match(/^\[([^\]\n]+)\]\(\s*<?([^\s<>)]+)>?\s*\)/);
+      if (link) {
+        const href = sanitizeUrl(link[2]);
+        const children = parseInline(link[1]);
+        if (href) {
+          push({ type: 'link', href, children });
+        } else {
+          flush();
+          nodes.push(...children);
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    // 本文中の URL はそのままリンクにする
+    if ((char === 'h' || char === 'H') && !/[\p{L}\p{N}]/u.test(text[i - 1] ?? '')) {
+      const url = rest.match(/^https?:\/\/[^\s<>]+/i)?.[0].replace(/[.,;:!?'")\]]+$/, '');
+      const href = url && sanitizeUrl(url);
+      if (url && href) {
+        push({ type: 'link', href, children: [{ type: 'text', text: url }] });
+        i += url.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+// 開始記号に対応する閉じ記号の位置を探す (見つからない・中身が空の場合は -1)
+function findClosingDelimiter(text: string, from: number, delimiter: string): number {
+  if (/^\s/.test(text.slice(from))) return -1;
+
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '\\') {
+      i += 2;
+      continue;
+    }
+    if (text[i] === '`') {
+      const ticks = text.slice(i).match(/^`+/)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      i = end === -1 ? i + ticks.length : end + ticks.length;
+      continue;
+    }
+    if (text.startsWith(delimiter, i) && i > from && !/\s/.test(text[i - 1])) {
+      // * の中の ** (またはその逆) を取り違えないようにする
+      const doubled = text[i + delimiter.length] === delimiter[0];
+      const inWord = delimiter[0] === '_' && /[\p{L}\p{N}]/u.test(text[i + delimiter.length] ?? '');
+      if ((delimiter.length === 2 || !doubled) && !inWord) return i;
+      i += 2;
+      continue;
+    }
+    i += 1;
+  }
+  return -1;
+}
+
+// ブロックの開始 (段落を終わらせる行) かどうか
+function startsBlock(line: string): boolean {
+  return (
+    FENCE_PATTERN.test(line) ||
+    HEADING_PATTERN.test(line) ||
+    RULE_PATTERN.test(line) ||
+    BLOCKQUOTE_PATTERN.test(line) ||
+    LIST_ITEM_PATTERN.test(line)
+  );
+}
+
+/**
+ * Markdown を解析する
+ * 見出し・段落・リスト (入れ子可)・引用・コードブロック・区切り線に対応する
+ * @param markdown Markdown の文字列
+ */
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  return parseBlocks(markdown.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function parseBlocks(lines: string[]): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const body: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].trim().startsWith(fence[1])) {
+        body.push(lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: 'code', lang: fence[2] || undefined, text: body.join('\n') });
+      i += 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length,
+        children: parseInline(heading[2] ?? ''),
+      });
+      i += 1;
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      blocks.push({ type: 'rule' });
+      i += 1;
+      continue;
+    }
+
+    if (BLOCKQUOTE_PATTERN.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && lines[i].trim()) {
+        const match = lines[i].match(BLOCKQUOTE_PATTERN);
+        // 引用記号のない行は直前の段落の続きとして扱う
+        quoted.push(match ? match[1] : lines[i]);
+        i += 1;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlocks(quoted) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM_PATTERN);
+    if (item) {
+      const list = parseList(lines, i);
+      blocks.push(list.block);
+      i = list.next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      (paragraph.length === 0 || !startsBlock(lines[i]))
+    ) {
+      paragraph.push(lines[i].trim());
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+// リストを解析する (項目の本文は字下げを取り除いてブロックとして解析する)
+function parseList(lines: string[], from: number): { block: MarkdownBlock; next: number } {
+  const first = lines[from].match(LIST_ITEM_PATTERN)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let contentIndent = 0;
+  let i = from;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const match = line.match(LIST_ITEM_PATTERN);
+
+    if (match && match[1].length === indent && /\d/.test(match[2]) === ordered) {
+      contentIndent = indent + match[2].length + Math.max(match[3].length, 1);
+      items.push([match[4]]);
+      i += 1;
+      continue;
+    }
+
+    const current = items[items.length - 1];
+    const leading = line.match(/^ */)![0].length;
+
+    if (!line.trim()) {
+      // 空行の後も字下げが続く場合は同じ項目として扱う
+      const nextLine = lines.slice(i + 1).find((l) => l.trim());
+      const nextMatch = nextLine?.match(LIST_ITEM_PATTERN);
+      const continues =
+        nextLine !== undefined &&
+        (nextLine.match(/^ */)![0].length >= contentIndent ||
+          (!!nextMatch && nextMatch[1].length === indent && /\d/.test(nextMatch[2]) === ordered));
+      if (!continues) break;
+      current.push('');
+      i += 1;
+      continue;
+    }
+
+    if (leading >= contentIndent || (leading > indent && match)) {
+      current.push(line.slice(Math.min(leading, contentIndent)));
+      i += 1;
+      continue;
+    }
+
+    // 字下げのない行は直前の項目の続き (新しいブロックが始まる場合は終わり)
+    if (startsBlock(line)) break;
+    current.push(line.trim());
+    i += 1;
+  }
+
+  const start = ordered ? parseInt(first[2], 10) : undefined;
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: start !== undefined && start !== 1 ? start : undefined,
+      items: items.map((itemLines) => parseBlocks(itemLines)),
+    },
+    next: i,
+  };
+}
+
+/**
+ * Markdown の記号を取り除いた文字列にする (一覧での抜粋表示に使用)
+ * @param markdown Markdown の文字列
+ */
+export function markdownToPlainText(markdown: string): string {
+  const inlineText = (nodes: MarkdownInline[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+          case 'code':
+            return node.text;
+          case 'break':
+            return ' ';
+          default:
+            return inlineText(node.children);
+        }
+      })
+      .join('');
+
+  const blockText = (blocks: MarkdownBlock[]): string[] =>
+    blocks.flatMap((block) => {
+      switch (block.type) {
+        case 'paragraph':
+        case 'heading':
+          return [inlineText(block.children)];
+        case 'code':
+          return [block.text];
+        case 'list':
+          return block.items.flatMap(blockText);
+        case 'blockquote':
+          return blockText(block.children);
+        case 'rule':
+          return [];
+      }
+    });
+
+  return blockText(parseMarkdown(markdown))
+    .map((text) => text.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join(' ');
+}
@@ -0,0 +1,20 @@
+import { Home, FolderOpen, Archive, Flame, Settings, Trash2 } from 'lucide-react';
+import type { ShortcutAction } from './shortcuts';
+
+export interface NavigationItem {
+  path: string;
+  label: string;
+  icon: React.ComponentType<{ className?: string }>;
+  // この画面に移動するショートカット
+  shortcut: ShortcutAction;
+}
+
+// サイドバー・モバイルメニュー・コマンドパレットに表示する画面 (routes.tsx と対応)
+export const navigationItems: NavigationItem[] = [
+  { path: '/', label: 'ホーム', icon: Home, shortcut: 'goHome' },
+  { path: '/categories', label: 'カテゴリー', icon: FolderOpen, shortcut: 'goCategories' },
+  { path: '/all', label: '全タスク', icon: Archive, shortcut: 'goAllTasks' },
+  { path: '/habits', label: '習慣', icon: Flame, shortcut: 'goHabits' },
+  { path: '/trash', label: 'ゴミ箱', icon: Trash2, shortcut: 'goTrash' },
+  { path: '/settings', label: '設定', icon: Settings, shortcut: 'goSettings' },
+];
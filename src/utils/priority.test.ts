@@ -0,0 +1,22 @@
+import { describe, it, expect } from 'vitest';
+import { compareTaskPriority, getTaskPriority, isTaskPriority } from './priority';
+
+describe('priority', () => {
+  it('should treat missing or invalid priorities as P4', () => {
+    expect(getTaskPriority({ priority: 2 })).toBe(2);
+    expect(getTaskPriority({})).toBe(4);
+    expect(getTaskPriority({ priority: 7 as never })).toBe(4);
+  });
+
+  it('should validate priorities', () => {
+    expect(isTaskPriority(1)).toBe(true);
+    expect(isTaskPriority('1')).toBe(false);
+    expect(isTaskPriority(0)).toBe(false);
+  });
+
+  it('should sort the highest priority first', () => {
+    const tasks = [{ priority: 3 as const }, {}, { priority: 1 as const }];
+
+    expect([...tasks].sort(compareTaskPriority)).toEqual([{ priority: 1 }, { priority: 3 }, {}]);
+  });
+});
@@ -0,0 +1,47 @@
+import type { Task, TaskPriority } from '@/db';
+
+export const TASK_PRIORITIES: TaskPriority[] = [1, 2, 3, 4];
+
+// priority が未設定のタスクの優先度
+export const DEFAULT_TASK_PRIORITY: TaskPriority = 4;
+
+export const PRIORITY_LABELS: Record<TaskPriority, string> = {
+  1: 'P1 (最優先)',
+  2: 'P2 (高)',
+  3: 'P3 (中)',
+  4: 'P4 (なし)',
+};
+
+// 優先度のアイコン・枠の色 (P4 は表示しない)
+export const PRIORITY_COLORS: Record<TaskPriority, string> = {
+  1: 'text-red-500',
+  2: 'text-orange-500',
+  3: 'text-blue-500',
+  4: 'text-muted-foreground',
+};
+
+/**
+ * 値が優先度として正しいかどうか
+ * @param value 値
+ */
+export function isTaskPriority(value: unknown): value is TaskPriority {
+  return TASK_PRIORITIES.includes(value as TaskPriority);
+}
+
+/**
+ * タスクの優先度を取得する (未設定の場合は P4)
+ * @param task タスク
+ * @returns 優先度 (1 が最も高い)
+ */
+export function getTaskPriority(task: Pick<Task, 'priority'>): TaskPriority {
+  return isTaskPriority(task.priority) ? task.priority : DEFAULT_TASK_PRIORITY;
+}
+
+/**
+ * 優先度の高い順に並べるための比較関数
+ * @param a タスク
+ * @param b タスク
+ */
+export function compareTaskPriority(a: Pick<Task, 'priority'>, b: Pick<Task, 'priority'>): number {
+  return getTaskPriority(a) - getTaskPriority(b);
+}
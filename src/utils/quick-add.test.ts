@@ -0,0 +1,229 @@
+import { describe, it, expect } from 'vitest';
+import type { Category } from '@/db';
+import { parseQuickAdd } from './quick-add';
+import { getRepeatOccurrences, parseRepeatRule } from './repeat-rule';
+import { useTimeZone } from '@/test/timezone';
+
+describe('parseQuickAdd', () => {
+  const local = (date: string) => new Date(date).getTime();
+  // 2024-01-10 は水曜日
+  const now = local('2024-01-10T12:00:00');
+  const categories: Category[] = [
+    { id: 'health', name: '健康', color: '#10B981', order: 0 },
+    { id: 'work', name: 'Work', color: '#6366F1', order: 1 },
+  ];
+  const parse = (input: string) => parseQuickAdd(input, { now, categories });
+
+  it('should parse a Japanese sentence', () => {
+    const result = parse('明日15時 歯医者 30分 #健康 毎週');
+
+    expect(result.title).toBe('歯医者');
+    expect(result.dueAt).toBe(local('2024-01-11T15:00:00'));
+    expect(result.durationMin).toBe(30);
+    expect(result.categoryId).toBe('health');
+    expect(parseRepeatRule(result.repeatRule!)).toMatchObject({ freq: 'WEEKLY', interval: 1 });
+    expect(result.repeatRule).toContain('DTSTART:20240111T150000Z');
+  });
+
+  it('should parse an English sentence', () => {
+    const result = parse('report fri 9am 1h #work every weekday');
+
+    expect(result.title).toBe('report');
+    expect(result.dueAt).toBe(local('2024-01-12T09:00:00'));
+    expect(result.durationMin).toBe(60);
+    expect(result.categoryId).toBe('work');
+    expect(parseRepeatRule(result.repeatRule!)).toMatchObject({
+      freq: 'WEEKLY',
+      byWeekday: ['MO', 'TU', 'WE', 'TH', 'FR'],
+    });
+  });
+
+  it('should return the recognised tokens in input order', () => {
+    const input = '明日15時 歯医者 30分 #健康 毎週';
+    const { tokens } = parse(input);
+
+    expect(tokens.map((token) => [token.type, token.text])).toEqual([
+      ['date', '明日'],
+      ['time', '15時'],
+      ['duration', '30分'],
+      ['category', '#健康'],
+      ['repeat', '毎週'],
+    ]);
+    tokens.forEach((token) => expect(input.slice(token.start, token.end)).toBe(token.text));
+  });
+
+  it('should leave plain text as the title', () => {
+    const result = parse('  牛乳を買う  ');
+
+    expect(result).toEqual({ title: '牛乳を買う', tokens: [] });
+  });
+
+  describe('dates', () => {
+    it.each([
+      ['今日', '2024-01-10'],
+      ['明後日', '2024-01-12'],
+      ['3日後', '2024-01-13'],
+      ['金曜', '2024-01-12'],
+      ['水曜日', '2024-01-10'],
+      ['来週の月曜', '2024-01-15'],
+      ['2月3日', '2024-02-03'],
+      ['1月5日', '2025-01-05'],
+      ['2024/3/1', '2024-03-01'],
+      ['3/1', '2024-03-01'],
+      ['tomorrow', '2024-01-11'],
+      ['the day after tomorrow', '2024-01-12'],
+      ['in 2 weeks', '2024-01-24'],
+      ['on monday', '2024-01-15'],
+      ['on sat', '2024-01-13'],
+      ['this sun', '2024-01-14'],
+      ['next wed', '2024-01-17'],
+      ['Feb 3rd', '2024-02-03'],
+      ['3 feb', '2024-02-03'],
+    ])('should read %s', (word, date) => {
+      const result = parse(`task ${word}`);
+
+      expect(result.title).toBe('task');
+      expect(result.dueAt).toBe(local(`${date}T00:00:00`));
+    });
+
+    it('should ignore dates that do not exist', () => {
+      const result = parse('task 2月30日');
+
+      expect(result.dueAt).toBeUndefined();
+      expect(result.title).toBe('task 2月30日');
+    });
+
+    it('should not read weekdays inside words', () => {
+      expect(parse('sunny walk').dueAt).toBeUndefined();
+    });
+
+    it('should not read words spelled like weekday abbreviations as dates', () => {
+      const result = parse('sat down meeting');
+
+      expect(result.dueAt).toBeUndefined();
+      expect(result.title).toBe('sat down meeting');
+    });
+  });
+
+  describe('times', () => {
+    it.each([
+      ['午後3時半', '15:30'],
+      ['朝7時', '07:00'],
+      ['9時15分', '09:15'],
+      ['正午', '12:00'],
+      ['3:30pm', '15:30'],
+      ['at 12am', '00:00'],
+      ['18:45', '18:45'],
+      ['noon', '12:00'],
+    ])('should read %s', (word, time) => {
+      const result = parse(`task ${word}`);
+
+      expect(result.title).toBe('task');
+      expect(result.dueAt).toBe(local(`2024-01-10T${time}:00`));
+    });
+
+    it('should accept full-width digits', () => {
+      expect(parse('歯医者 明日１５時').dueAt).toBe(local('2024-01-11T15:00:00'));
+    });
+  });
+
+  describe('durations', () => {
+    it.each([
+      ['1時間半', 90],
+      ['2時間15分', 135],
+      ['45分間', 45],
+      ['for 1.5h', 90],
+      ['1h30m', 90],
+      ['20 mins', 20],
+      ['2 hours', 120],
+    ])('should read %s', (word, minutes) => {
+      const result = parse(`task ${word}`);
+
+      expect(result.title).toBe('task');
+      expect(result.durationMin).toBe(minutes);
+      expect(result.dueAt).toBeUndefined();
+    });
+
+    it('should read minutes after an hour as part of the time', () => {
+      const result = parse('15時30分 会議 1時間');
+
+      expect(result.dueAt).toBe(local('2024-01-10T15:30:00'));
+      expect(result.durationMin).toBe(60);
+    });
+
+    it('should not read a number followed by a bare m as minutes', () => {
+      const result = parse('Buy 2 m of cable');
+
+      expect(result.durationMin).toBeUndefined();
+      expect(result.title).toBe('Buy 2 m of cable');
+    });
+  });
+
+  describe('categories', () => {
+    it('should match names case-insensitively', () => {
+      expect(parse('task #WORK').categoryId).toBe('work');
+    });
+
+    it('should keep unknown tags in the title', () => {
+      const result = parse('task #unknown');
+
+      expect(result.categoryId).toBeUndefined();
+      expect(result.title).toBe('task #unknown');
+    });
+  });
+
+  describe('repeat', () => {
+    it.each([
+      ['毎日', { freq: 'DAILY', interval: 1 }],
+      ['毎月', { freq: 'MONTHLY', interval: 1 }],
+      ['隔週', { freq: 'WEEKLY', interval: 2 }],
+      ['3日ごと', { freq: 'DAILY', interval: 3 }],
+      ['平日', { freq: 'WEEKLY', byWeekday: ['MO', 'TU', 'WE', 'TH', 'FR'] }],
+      ['every other week', { freq: 'WEEKLY', interval: 2 }],
+      ['every 3 months', { freq: 'MONTHLY', interval: 3 }],
+      ['yearly', { freq: 'YEARLY', interval: 1 }],
+    ])('should read %s', (word, draft) => {
+      const result = parse(`task ${word}`);
+
+      expect(result.title).toBe('task');
+      expect(parseRepeatRule(result.repeatRule!)).toMatchObject(draft);
+    });
+
+    it('should start a repeat without a date today', () => {
+      const result = parse('stretch every day');
+
+      expect(result.dueAt).toBe(local('2024-01-10T00:00:00'));
+      expect(result.repeatRule).toContain('DTSTART:20240110T000000Z');
+    });
+
+    it('should start weekday repeats on the first matching day', () => {
+      const ja = parse('ゴミ出し 毎週月・木曜 8時');
+      const en = parse('gym every tue and sat 7pm');
+
+      expect(parseRepeatRule(ja.repeatRule!)).toMatchObject({ byWeekday: ['MO', 'TH'] });
+      expect(ja.dueAt).toBe(local('2024-01-11T08:00:00'));
+      expect(ja.title).toBe('ゴミ出し');
+      expect(parseRepeatRule(en.repeatRule!)).toMatchObject({ byWeekday: ['TU', 'SA'] });
+      expect(en.dueAt).toBe(local('2024-01-13T19:00:00'));
+      expect(en.title).toBe('gym');
+    });
+
+    describe('in a timezone east of UTC', () => {
+      useTimeZone('Asia/Tokyo');
+
+      it('should repeat on the local weekdays', () => {
+        const result = parseQuickAdd('ジョギング 毎週月・水・金曜 7時', {
+          now: new Date(2024, 0, 7, 12, 0).getTime(),
+        });
+
+        expect(result.dueAt).toBe(new Date(2024, 0, 8, 7, 0).getTime());
+        expect(getRepeatOccurrences(result.repeatRule!, 4)).toEqual([
+          new Date(2024, 0, 8, 7, 0),
+          new Date(2024, 0, 10, 7, 0),
+          new Date(2024, 0, 12, 7, 0),
+          new Date(2024, 0, 15, 7, 0),
+        ]);
+      });
+    });
+  });
+});
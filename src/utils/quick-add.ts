@@ -0,0 +1,474 @@
+import type { Category } from '@/db';
+import {
+  BUSINESS_DAYS,
+  WEEKDAY_CODES,
+  buildRepeatRule,
+  createRepeatRuleDraft,
+  type RepeatFrequency,
+  type RepeatRuleDraft,
+  type WeekdayCode,
+} from './repeat-rule';
+
+export type QuickAddTokenType = 'date' | 'time' | 'duration' | 'category' | 'repeat';
+
+// 入力のうち、タイトル以外として読み取った部分
+export interface QuickAddToken {
+  type: QuickAddTokenType;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface QuickAddResult {
+  title: string;
+  dueAt?: number;
+  durationMin?: number;
+  categoryId?: string;
+  repeatRule?: string;
+  tokens: QuickAddToken[];
+}
+
+export interface QuickAddOptions {
+  now?: number;
+  categories?: Category[];
+}
+
+interface ParseState {
+  today: Date;
+  categories: Category[];
+  date?: Date;
+  // 0時からの分
+  time?: number;
+  durationMin?: number;
+  categoryId?: string;
+  repeat?: RepeatRuleDraft;
+}
+
+interface Matcher {
+  type: QuickAddTokenType;
+  pattern: RegExp;
+  // 読み取れた場合は true を返す
+  apply: (match: RegExpExecArray, state: ParseState) => boolean;
+}
+
+// 英単語の途中にはマッチさせない (日本語とは続けて書ける)
+const en = (source: string) => new RegExp(`(?<![A-Za-z0-9])(?:${source})(?![A-Za-z0-9])`, 'gi');
+// 数字の途中にはマッチさせない
+const ja = (source: string) => new RegExp(`(?<![0-9])(?:${source})`, 'g');
+
+const JA_WEEKDAYS = '月火水木金土日';
+const JA_WEEKDAY = `[${JA_WEEKDAYS}](?:曜日?)`;
+const EN_WEEKDAY =
+  'mon(?:day)?|tue(?:s|sday)?|wed(?:nesday)?|thu(?:r|rs|rsday)?|fri(?:day)?|sat(?:urday)?|sun(?:day)?';
+// 単独で曜日として読む綴り (英単語と同じ sat・sun・wed は on・this などが前にある場合だけ読む)
+const EN_STANDALONE_WEEKDAY =
+  'mon(?:day)?|tue(?:s|sday)?|wednesday|thu(?:r|rs|rsday)?|fri(?:day)?|saturday|sunday';
+const EN_MONTH =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t|tember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+const EN_MONTHS = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+
+const JA_FREQUENCIES: Record<string, RepeatFrequency> = {
+  日: 'DAILY',
+  週: 'WEEKLY',
+  週間: 'WEEKLY',
+  月: 'MONTHLY',
+  ヶ月: 'MONTHLY',
+  か月: 'MONTHLY',
+  カ月: 'MONTHLY',
+  年: 'YEARLY',
+};
+
+const EN_FREQUENCIES: Record<string, RepeatFrequency> = {
+  day: 'DAILY',
+  daily: 'DAILY',
+  week: 'WEEKLY',
+  weekly: 'WEEKLY',
+  month: 'MONTHLY',
+  monthly: 'MONTHLY',
+  year: 'YEARLY',
+  yearly: 'YEARLY',
+  annually: 'YEARLY',
+};
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+function toWeekdayCode(value: string): WeekdayCode {
+  const jaIndex = JA_WEEKDAYS.indexOf(value[0]);
+  if (jaIndex >= 0) return WEEKDAY_CODES[jaIndex];
+  return value.slice(0, 2).toUpperCase() as WeekdayCode;
+}
+
+// 曜日コードを Date.getDay() の値に変換する
+function toDay(code: WeekdayCode): number {
+  return (WEEKDAY_CODES.indexOf(code) + 1) % 7;
+}
+
+// 今日以降で最初のその曜日
+function upcomingWeekday(today: Date, code: WeekdayCode): Date {
+  return addDays(today, (toDay(code) - today.getDay() + 7) % 7);
+}
+
+// 来週 (月曜始まり) のその曜日
+function nextWeekWeekday(today: Date, code: WeekdayCode): Date {
+  const monday = addDays(today, -((today.getDay() + 6) % 7));
+  return addDays(monday, 7 + WEEKDAY_CODES.indexOf(code));
+}
+
+// 年を省略した場合は、今日以降で最初のその日付
+function monthDay(today: Date, month: number, day: number, year?: number): Date | undefined {
+  let date = new Date(year ?? today.getFullYear(), month - 1, day);
+  if (year === undefined && date < today) {
+    date = new Date(today.getFullYear() + 1, month - 1, day);
+  }
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : undefined;
+}
+
+function setDate(state: ParseState, date: Date | undefined): boolean {
+  if (!date) return false;
+  state.date = date;
+  return true;
+}
+
+function setTime(state: ParseState, hour: number, minute: number): boolean {
+  if (hour > 24 || minute > 59 || (hour === 24 && minute > 0)) return false;
+  state.time = hour * 60 + minute;
+  return true;
+}
+
+function setDuration(state: ParseState, minutes: number): boolean {
+  if (!(minutes > 0)) return false;
+  state.durationMin = Math.round(minutes);
+  return true;
+}
+
+function setRepeat(
+  state: ParseState,
+  freq: RepeatFrequency,
+  interval = 1,
+  byWeekday: string[] = []
+): boolean {
+  if (!(interval >= 1)) return false;
+  state.repeat = { ...createRepeatRuleDraft(freq), interval, byWeekday };
+  return true;
+}
+
+// 午前・午後などの指定に合わせて12時間表記を24時間表記にする
+function to24Hour(hour: number, period?: string): number {
+  if (!period) return hour;
+  const pm = /^(午後|夜|夕方|p)/i.test(period);
+  if (hour === 12) return pm ? 12 : 0;
+  return pm ? hour + 12 : hour;
+}
+
+const MATCHERS: Matcher[] = [
+  // 繰り返し (曜日を含むため日付より先に読み取る)
+  {
+    type: 'repeat',
+    // 「毎週月曜」「毎週月・水・金曜」など (最後は「曜」で終わる)
+    pattern: ja(`毎週((?:[${JA_WEEKDAYS}](?:曜日?)?[・、,と]?)*${JA_WEEKDAY})`),
+    apply: (m, s) => {
+      const codes = m[1].replace(/曜日?/g, '').match(new RegExp(`[${JA_WEEKDAYS}]`, 'g')) ?? [];
+      const byWeekday = WEEKDAY_CODES.filter((code) =>
+        codes.some((c) => toWeekdayCode(c) === code)
+      );
+      return setRepeat(s, 'WEEKLY', 1, byWeekday);
+    },
+  },
+  {
+    type: 'repeat',
+    pattern: ja('毎平日|平日(?:毎日)?'),
+    apply: (_, s) => setRepeat(s, 'WEEKLY', 1, BUSINESS_DAYS),
+  },
+  {
+    type: 'repeat',
+    pattern: ja('隔週'),
+    apply: (_, s) => setRepeat(s, 'WEEKLY', 2),
+  },
+  {
+    type: 'repeat',
+    pattern: ja('毎(日|週|月|年)'),
+    apply: (m, s) => setRepeat(s, JA_FREQUENCIES[m[1]]),
+  },
+  {
+    type: 'repeat',
+    pattern: ja('(\\d+)(日|週間|ヶ月|か月|カ月|年)ごと'),
+    apply: (m, s) => setRepeat(s, JA_FREQUENCIES[m[2]], parseInt(m[1])),
+  },
+  {
+    type: 'repeat',
+    pattern: en('every\\s+weekdays?|weekdays'),
+    apply: (_, s) => setRepeat(s, 'WEEKLY', 1, BUSINESS_DAYS),
+  },
+  {
+    type: 'repeat',
+    pattern: en(
+      `every\\s+(other\\s+)?((?:${EN_WEEKDAY})(?:\\s*(?:,|and|&)\\s*(?:${EN_WEEKDAY}))*)`
+    ),
+    apply: (m, s) => {
+      const names = m[2].match(new RegExp(EN_WEEKDAY, 'gi')) ?? [];
+      const codes = names.map(toWeekdayCode);
+      const byWeekday = WEEKDAY_CODES.filter((code) => codes.includes(code));
+      return setRepeat(s, 'WEEKLY', m[1] ? 2 : 1, byWeekday);
+    },
+  },
+  {
+    type: 'repeat',
+    pattern: en('every\\s+(?:(other)\\s+|(\\d+)\\s+)?(day|week|month|year)s?'),
+    apply: (m, s) =>
+      setRepeat(s, EN_FREQUENCIES[m[3].toLowerCase()], m[1] ? 2 : m[2] ? parseInt(m[2]) : 1),
+  },
+  {
+    type: 'repeat',
+    pattern: en('daily|weekly|monthly|yearly|annually'),
+    apply: (m, s) => setRepeat(s, EN_FREQUENCIES[m[0].toLowerCase()]),
+  },
+
+  // カテゴリー (登録済みの名前のみ)
+  {
+    type: 'category',
+    pattern: /[#＃]([^\s#＃]+)/g,
+    apply: (m, s) => {
+      const name = m[1].toLowerCase();
+      const category = s.categories.find((c) => c.name.toLowerCase() === name);
+      s.categoryId = category?.id;
+      return !!category;
+    },
+  },
+
+  // 日付
+  {
+    type: 'date',
+    pattern: ja('今日|本日|明後日|あさって|明日|あした'),
+    apply: (m, s) => {
+      const offset = { 今日: 0, 本日: 0, 明日: 1, あした: 1, 明後日: 2, あさって: 2 }[m[0]]!;
+      return setDate(s, addDays(s.today, offset));
+    },
+  },
+  {
+    type: 'date',
+    pattern: ja('(\\d+)日後'),
+    apply: (m, s) => setDate(s, addDays(s.today, parseInt(m[1]))),
+  },
+  {
+    type: 'date',
+    pattern: ja(`来週の?(${JA_WEEKDAY})`),
+    apply: (m, s) => setDate(s, nextWeekWeekday(s.today, toWeekdayCode(m[1]))),
+  },
+  {
+    type: 'date',
+    pattern: ja(`(?:今週の?)?(${JA_WEEKDAY})`),
+    apply: (m, s) => setDate(s, upcomingWeekday(s.today, toWeekdayCode(m[1]))),
+  },
+  {
+    type: 'date',
+    pattern: ja('(?:(\\d{4})年)?(\\d{1,2})月(\\d{1,2})日'),
+    apply: (m, s) =>
+      setDate(
+        s,
+        monthDay(s.today, parseInt(m[2]), parseInt(m[3]), m[1] ? parseInt(m[1]) : undefined)
+      ),
+  },
+  {
+    type: 'date',
+    pattern: en('(\\d{4})[-/](\\d{1,2})[-/](\\d{1,2})'),
+    apply: (m, s) => setDate(s, monthDay(s.today, parseInt(m[2]), parseInt(m[3]), parseInt(m[1]))),
+  },
+  {
+    type: 'date',
+    pattern: en('(?:on\\s+)?(\\d{1,2})/(\\d{1,2})'),
+    apply: (m, s) => setDate(s, monthDay(s.today, parseInt(m[1]), parseInt(m[2]))),
+  },
+  {
+    type: 'date',
+    pattern: en('(?:the\\s+)?day\\s+after\\s+tomorrow|today|tonight|tomorrow|tmrw|tmr'),
+    apply: (m, s) => {
+      const word = m[0].toLowerCase();
+      const offset = word.includes('after') ? 2 : /^to(day|night)$/.test(word) ? 0 : 1;
+      return setDate(s, addDays(s.today, offset));
+    },
+  },
+  {
+    type: 'date',
+    pattern: en('in\\s+(\\d+)\\s+(day|week)s?'),
+    apply: (m, s) =>
+      setDate(s, addDays(s.today, parseInt(m[1]) * (m[2].toLowerCase() === 'week' ? 7 : 1))),
+  },
+  {
+    type: 'date',
+    pattern: en(`(?:on\\s+)?next\\s+(${EN_WEEKDAY})`),
+    apply: (m, s) => setDate(s, nextWeekWeekday(s.today, toWeekdayCode(m[1]))),
+  },
+  {
+    type: 'date',
+    pattern: en(`(?:on\\s+(?:this\\s+)?|this\\s+)(${EN_WEEKDAY})|(${EN_STANDALONE_WEEKDAY})`),
+    apply: (m, s) => setDate(s, upcomingWeekday(s.today, toWeekdayCode(m[1] ?? m[2]))),
+  },
+  {
+    type: 'date',
+    pattern: en(`(?:on\\s+)?(${EN_MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`),
+    apply: (m, s) =>
+      setDate(
+        s,
+        monthDay(
+          s.today,
+          EN_MONTHS.indexOf(m[1].slice(0, 3).toLowerCase()) + 1,
+          parseInt(m[2]),
+          m[3] ? parseInt(m[3]) : undefined
+        )
+      ),
+  },
+  {
+    type: 'date',
+    pattern: en(`(?:on\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(${EN_MONTH})`),
+    apply: (m, s) =>
+      setDate(
+        s,
+        monthDay(s.today, EN_MONTHS.indexOf(m[2].slice(0, 3).toLowerCase()) + 1, parseInt(m[1]))
+      ),
+  },
+
+  // 時刻 (「15時30分」を所要時間より先に読み取る)
+  {
+    type: 'time',
+    pattern: ja('(午前|午後|朝|夜|夕方)?(\\d{1,2})時(?!間)(?:(半)|(\\d{1,2})分)?'),
+    apply: (m, s) =>
+      setTime(s, to24Hour(parseInt(m[2]), m[1]), m[3] ? 30 : m[4] ? parseInt(m[4]) : 0),
+  },
+  {
+    type: 'time',
+    pattern: ja('正午'),
+    apply: (_, s) => setTime(s, 12, 0),
+  },
+  {
+    type: 'time',
+    pattern: en('(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)'),
+    apply: (m, s) => {
+      const hour = parseInt(m[1]);
+      if (hour < 1 || hour > 12) return false;
+      return setTime(s, to24Hour(hour, m[3]), m[2] ? parseInt(m[2]) : 0);
+    },
+  },
+  {
+    type: 'time',
+    pattern: en('(?:at\\s+)?(午前|午後)?(\\d{1,2}):(\\d{2})'),
+    apply: (m, s) => setTime(s, to24Hour(parseInt(m[2]), m[1]), parseInt(m[3])),
+  },
+  {
+    type: 'time',
+    pattern: en('(?:at\\s+)?(noon|midnight)'),
+    apply: (m, s) => setTime(s, m[1].toLowerCase() === 'noon' ? 12 : 0, 0),
+  },
+
+  // 所要時間
+  {
+    type: 'duration',
+    pattern: ja('(\\d+(?:\\.\\d+)?)時間(?:(半)|(\\d{1,2})分)?'),
+    apply: (m, s) =>
+      setDuration(s, parseFloat(m[1]) * 60 + (m[2] ? 30 : m[3] ? parseInt(m[3]) : 0)),
+  },
+  {
+    type: 'duration',
+    pattern: ja('(\\d+)分間?'),
+    apply: (m, s) => setDuration(s, parseInt(m[1])),
+  },
+  {
+    type: 'duration',
+    pattern: en(
+      '(?:for\\s+)?(\\d+(?:\\.\\d+)?)\\s*(?:h|hrs?|hours?)(?:\\s*(\\d+)\\s*(?:m|mins?|minutes?))?'
+    ),
+    apply: (m, s) => setDuration(s, parseFloat(m[1]) * 60 + (m[2] ? parseInt(m[2]) : 0)),
+  },
+  {
+    type: 'duration',
+    // 「2 m」は長さの可能性があるため、単独の m は分として読まない
+    pattern: en('(?:for\\s+)?(\\d+)\\s*(?:mins?|minutes?)'),
+    apply: (m, s) => setDuration(s, parseInt(m[1])),
+  },
+];
+
+// 全角の数字・記号を半角にする (文字数は変わらないので位置はそのまま使える)
+function normalize(input: string): string {
+  return input
+    .replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0))
+    .replace(/：/g, ':')
+    .replace(/／/g, '/');
+}
+
+/**
+ * クイック追加の入力からタスクの内容を読み取る
+ * 日付・時刻・所要時間・カテゴリー (#名前)・繰り返しを日本語と英語で認識し、残りをタイトルにする
+ * @param input 入力 (例: "明日15時 歯医者 30分 #健康 毎週")
+ * @param options 基準の日時と、カテゴリーの候補
+ * @returns 読み取った内容と、認識した部分の位置
+ */
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddResult {
+  const now = new Date(options.now ?? Date.now());
+  const state: ParseState = {
+    today: new Date(now.getFullYear(), now.getMonth(), now.getDate()),
+    categories: options.categories ?? [],
+  };
+  const text = normalize(input);
+  const tokens: QuickAddToken[] = [];
+  const found = new Set<QuickAddTokenType>();
+
+  const overlaps = (start: number, end: number) =>
+    tokens.some((token) => start < token.end && token.start < end);
+
+  for (const matcher of MATCHERS) {
+    if (found.has(matcher.type)) continue;
+    matcher.pattern.lastIndex = 0;
+
+    for (const match of text.matchAll(matcher.pattern)) {
+      const start = match.index!;
+      const end = start + match[0].length;
+      if (overlaps(start, end) || !matcher.apply(match as RegExpExecArray, state)) continue;
+
+      tokens.push({ type: matcher.type, start, end, text: input.slice(start, end) });
+      found.add(matcher.type);
+      break;
+    }
+  }
+  tokens.sort((a, b) => a.start - b.start);
+
+  const title = tokens
+    .reduceRight((rest, token) => rest.slice(0, token.start) + ' ' + rest.slice(token.end), input)
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  // 繰り返しの曜日だけ指定された場合は、今日以降で最初のその曜日を期日にする
+  let date = state.date;
+  if (!date && state.repeat?.byWeekday.length) {
+    date = state.repeat.byWeekday
+      .map((code) => upcomingWeekday(state.today, code as WeekdayCode))
+      .sort((a, b) => a.getTime() - b.getTime())[0];
+  }
+
+  let dueAt: number | undefined;
+  if (date || state.time !== undefined || state.repeat) {
+    dueAt = new Date(date ?? state.today).setHours(0, state.time ?? 0, 0, 0);
+  }
+
+  return {
+    title,
+    dueAt,
+    durationMin: state.durationMin,
+    categoryId: state.categoryId,
+    repeatRule: state.repeat && dueAt ? buildRepeatRule(state.repeat, new Date(dueAt)) : undefined,
+    tokens,
+  };
+}
@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import type { Task } from '@/db';
+import {
+  MAX_MISSED_OCCURRENCES,
+  isLatestInSeries,
+  planNextRecurrences,
+  projectRecurrences,
+} from './recurrence';
+import { buildRepeatRule, createRepeatRuleDraft } from './repeat-rule';
+import { createTask } from '@/test/factories';
+import { useTimeZone } from '@/test/timezone';
+
+describe('recurrence', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const start = new Date('2024-01-01T09:00:00Z').getTime();
+  const rule = 'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;INTERVAL=1';
+  // 1月4日の昼に完了 (1月2日〜4日の3回が過ぎている)
+  const completedAt = new Date('2024-01-04T12:00:00Z').getTime();
+
+  const createDailyTask = (overrides: Partial<Task> = {}): Task =>
+    createTask({
+      id: 'task-1',
+      title: 'Daily',
+      dueAt: start,
+      repeatRule: rule,
+      createdAt: start,
+      updatedAt: start,
+      ...overrides,
+    });
+
+  const plan = (task: Task, policy: 'skip' | 'catchUp' | 'rollUp') =>
+    planNextRecurrences(task, { completedAt, policy }).map((draft) => ({
+      dueAt: draft.dueAt,
+      repeatCount: draft.repeatCount,
+    }));
+
+  describe('planNextRecurrences', () => {
+    it('should create the next occurrence when completed on time', () => {
+      const drafts = planNextRecurrences(createDailyTask(), {
+        completedAt: start,
+        policy: 'catchUp',
+      });
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]).toMatchObject({
+        dueAt: start + day,
+        repeatParentId: 'task-1',
+        repeatCount: 1,
+      });
+    });
+
+    it('should skip missed occurrences', () => {
+      expect(plan(createDailyTask(), 'skip')).toEqual([{ dueAt: start + 4 * day, repeatCount: 4 }]);
+    });
+
+    it('should create every missed occurrence and the next one when catching up', () => {
+      expect(plan(createDailyTask(), 'catchUp')).toEqual([
+        { dueAt: start + day, repeatCount: 1 },
+        { dueAt: start + 2 * day, repeatCount: 2 },
+        { dueAt: start + 3 * day, repeatCount: 3 },
+        { dueAt: start + 4 * day, repeatCount: 4 },
+      ]);
+    });
+
+    it('should roll missed occurrences up into the latest one', () => {
+      expect(plan(createDailyTask(), 'rollUp')).toEqual([
+        { dueAt: start + 3 * day, repeatCount: 3 },
+      ]);
+    });
+
+    it('should limit the number of missed occurrences', () => {
+      const drafts = planNextRecurrences(createDailyTask(), {
+        completedAt: start + 1000 * day + 1000,
+        policy: 'catchUp',
+      });
+
+      expect(drafts).toHaveLength(MAX_MISSED_OCCURRENCES + 1);
+      // 古い回から切り捨て、回数は切り捨てた分も数える
+      expect(drafts[0]).toMatchObject({ dueAt: start + 901 * day, repeatCount: 901 });
+      expect(drafts[drafts.length - 1]).toMatchObject({
+        dueAt: start + 1001 * day,
+        repeatCount: 1001,
+      });
+    });
+
+    it('should stop at UNTIL', () => {
+      const task = createDailyTask({
+        repeatRule: 'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20240103T090000Z',
+      });
+
+      expect(plan(task, 'catchUp')).toEqual([
+        { dueAt: start + day, repeatCount: 1 },
+        { dueAt: start + 2 * day, repeatCount: 2 },
+      ]);
+      expect(plan(task, 'skip')).toEqual([]);
+    });
+
+    it('should stop at COUNT', () => {
+      const task = createDailyTask({
+        repeatRule: 'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;COUNT=3',
+      });
+
+      expect(plan(task, 'catchUp')).toEqual([
+        { dueAt: start + day, repeatCount: 1 },
+        { dueAt: start + 2 * day, repeatCount: 2 },
+      ]);
+      expect(plan({ ...task, dueAt: start + 2 * day, repeatCount: 2 }, 'skip')).toEqual([]);
+    });
+
+    it('should stop at repeatUntil', () => {
+      const task = createDailyTask({ repeatUntil: start + day + 1000 });
+
+      expect(plan(task, 'catchUp')).toEqual([{ dueAt: start + day, repeatCount: 1 }]);
+      expect(plan(task, 'skip')).toEqual([]);
+    });
+
+    it('should schedule from the completion date in completion mode', () => {
+      const dueAt = new Date('2024-01-01T09:00:00').getTime();
+      const task = createDailyTask({
+        dueAt,
+        repeatRule: 'FREQ=DAILY;INTERVAL=3',
+        repeatMode: 'completion',
+      });
+
+      const drafts = planNextRecurrences(task, {
+        completedAt: new Date('2024-01-04T18:00:00').getTime(),
+        policy: 'catchUp',
+      });
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]).toMatchObject({
+        dueAt: new Date('2024-01-07T09:00:00').getTime(),
+        repeatCount: 1,
+        repeatMode: 'completion',
+      });
+    });
+
+    it('should reset the checklist and drop absolute reminders', () => {
+      const task = createDailyTask({
+        checklist: [{ id: '1', text: 'Item', checked: true }],
+        reminders: [
+          { id: 'r1', type: 'relative', offsetMin: 10 },
+          { id: 'r2', type: 'absolute', at: start },
+        ],
+      });
+
+      const [draft] = planNextRecurrences(task, { completedAt: start });
+
+      expect(draft.checklist).toEqual([{ id: '1', text: 'Item', checked: false }]);
+      expect(draft.reminders).toEqual([{ id: 'r1', type: 'relative', offsetMin: 10 }]);
+    });
+
+    it('should keep the priority of the completed occurrence', () => {
+      const [draft] = planNextRecurrences(createDailyTask({ priority: 1 }), { completedAt: start });
+
+      expect(draft.priority).toBe(1);
+    });
+
+    it('should keep the notes of the completed occurrence', () => {
+      const notes = '## 手順\n- [ ] ストレッチ';
+      const [draft] = planNextRecurrences(createDailyTask({ notes }), { completedAt: start });
+
+      expect(draft.notes).toBe(notes);
+    });
+
+    it('should return nothing for tasks without a rule or due date', () => {
+      expect(planNextRecurrences(createDailyTask({ repeatRule: undefined }))).toEqual([]);
+      expect(planNextRecurrences(createDailyTask({ dueAt: undefined }))).toEqual([]);
+    });
+
+    describe('in a timezone east of UTC', () => {
+      useTimeZone('Asia/Tokyo');
+
+      it('should create the next occurrences on the local weekdays', () => {
+        // 東京の月曜 08:00 は UTC では日曜
+        const dueAt = new Date(2024, 0, 8, 8, 0).getTime();
+        const task = createDailyTask({
+          dueAt,
+          repeatRule: buildRepeatRule(
+            { ...createRepeatRuleDraft('WEEKLY'), byWeekday: ['MO', 'WE', 'FR'] },
+            new Date(dueAt)
+          ),
+        });
+
+        const drafts = planNextRecurrences(task, {
+          completedAt: new Date(2024, 0, 13, 12, 0).getTime(),
+          policy: 'catchUp',
+        });
+
+        expect(drafts.map((draft) => draft.dueAt)).toEqual([
+          new Date(2024, 0, 10, 8, 0).getTime(),
+          new Date(2024, 0, 12, 8, 0).getTime(),
+          new Date(2024, 0, 15, 8, 0).getTime(),
+        ]);
+      });
+
+      it('should keep the local weekday in completion mode', () => {
+        const task = createDailyTask({
+          dueAt: new Date(2024, 0, 8, 7, 0).getTime(),
+          repeatRule: 'FREQ=WEEKLY;BYDAY=MO',
+          repeatMode: 'completion',
+        });
+
+        const [draft] = planNextRecurrences(task, {
+          completedAt: new Date(2024, 0, 10, 18, 0).getTime(),
+        });
+
+        expect(draft.dueAt).toBe(new Date(2024, 0, 15, 7, 0).getTime());
+      });
+    });
+  });
+
+  describe('projectRecurrences', () => {
+    it('should list future occurrences up to the given date', () => {
+      const until = start + 5 * day;
+
+      expect(projectRecurrences(createDailyTask(), until, start)).toEqual([
+        start + day,
+        start + 2 * day,
+        start + 3 * day,
+        start + 4 * day,
+        start + 5 * day,
+      ]);
+      expect(projectRecurrences(createDailyTask(), until, completedAt)).toEqual([
+        start + 4 * day,
+        start + 5 * day,
+      ]);
+    });
+
+    it('should stop at COUNT and repeatUntil', () => {
+      const counted = createDailyTask({
+        repeatRule: 'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;COUNT=3',
+      });
+      const limited = createDailyTask({ repeatUntil: start + day + 1000 });
+
+      expect(projectRecurrences(counted, start + 10 * day, start)).toEqual([
+        start + day,
+        start + 2 * day,
+      ]);
+      expect(projectRecurrences(limited, start + 10 * day, start)).toEqual([start + day]);
+    });
+
+    it('should not project tasks repeating from the completion date', () => {
+      const task = createDailyTask({ repeatMode: 'completion' });
+
+      expect(projectRecurrences(task, start + 10 * day, start)).toEqual([]);
+    });
+  });
+
+  describe('isLatestInSeries', () => {
+    it('should detect whether a later occurrence exists', () => {
+      const root = createDailyTask();
+      const second = createDailyTask({ id: 'task-2', repeatParentId: 'task-1', repeatCount: 1 });
+      const other = createDailyTask({ id: 'task-3', repeatCount: 5 });
+
+      expect(isLatestInSeries(root, [root, second, other])).toBe(false);
+      expect(isLatestInSeries(second, [root, second, other])).toBe(true);
+      expect(isLatestInSeries(root, [root, other])).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { RRule } from 'rrule';
+import type { Task } from '@/db';
+import { fromWallClock, parseLocalRuleSet, toWallClock } from './repeat-rule';
+
+// 期日を過ぎてから完了した場合に、過ぎてしまった回をどう扱うか
+// skip: 過ぎた回は作らず、次の未来の回だけを作成する
+// catchUp: 過ぎた回をすべて作成し、続けて次の未来の回を作成する
+// rollUp: 過ぎた回を最新の1回にまとめて作成する
+export type MissedRecurrencePolicy = 'skip' | 'catchUp' | 'rollUp';
+
+export const DEFAULT_MISSED_RECURRENCE_POLICY: MissedRecurrencePolicy = 'skip';
+
+// catchUp で一度に作成する過ぎた回の上限 (古い回から切り捨てる)
+export const MAX_MISSED_OCCURRENCES = 100;
+
+// 予定として算出する回の上限
+const MAX_PROJECTED_OCCURRENCES = 1000;
+
+export interface RecurrenceOptions {
+  completedAt?: number;
+  policy?: MissedRecurrencePolicy;
+}
+
+interface Occurrence {
+  dueAt: number;
+  repeatCount: number;
+}
+
+// RRULE の UNTIL・COUNT に加えて、タスクの repeatUntil の範囲内かを確認する
+function isWithinLimits(task: Task, occurrence: Occurrence, count?: number | null): boolean {
+  if (task.repeatUntil && occurrence.dueAt > task.repeatUntil) return false;
+  // repeatCount は0始まりなので、COUNT 回目は repeatCount = COUNT - 1
+  if (count && occurrence.repeatCount >= count) return false;
+  return true;
+}
+
+// 完了したタスクの後に続く回を、過ぎてしまった回と完了日時より後の最初の回に分けて算出する
+function getOccurrences(
+  task: Task,
+  completedAt: number
+): { missed: Occurrence[]; next?: Occurrence; count?: number | null } {
+  const ruleSet = parseLocalRuleSet(task.repeatRule!);
+  const [rrule] = ruleSet.rrules();
+  const count = rrule?.origOptions.count;
+  const current = task.repeatCount || 0;
+
+  if (task.repeatMode === 'completion') {
+    if (!rrule) return { missed: [], count };
+
+    // 完了した日に元の期日の時刻を合わせた日時を起点にする
+    const due = new Date(task.dueAt!);
+    const base = new Date(completedAt);
+    base.setHours(due.getHours(), due.getMinutes(), 0, 0);
+
+    // 起点が完了ごとに変わるため、COUNT は rrule ではなく repeatCount で数える
+    const dtstart = toWallClock(base);
+    const next = new RRule({ ...rrule.origOptions, count: undefined, dtstart }).after(
+      dtstart,
+      false
+    );
+    return {
+      missed: [],
+      next: next ? { dueAt: fromWallClock(next).getTime(), repeatCount: current + 1 } : undefined,
+      count,
+    };
+  }
+
+  // 現在の期日の後から完了日時までに過ぎてしまった回
+  const missed = ruleSet
+    .between(toWallClock(task.dueAt!), toWallClock(completedAt), true)
+    .map((date) => fromWallClock(date).getTime())
+    .filter((dueAt) => dueAt > task.dueAt!)
+    .map((dueAt, index) => ({ dueAt, repeatCount: current + index + 1 }));
+
+  const next = ruleSet.after(toWallClock(Math.max(task.dueAt!, completedAt)), false);
+
+  return {
+    missed,
+    next: next
+      ? { dueAt: fromWallClock(next).getTime(), repeatCount: current + missed.length + 1 }
+      : undefined,
+    count,
+  };
+}
+
+// 繰り返しの1回分のタスクを組み立てる
+function toDraft(task: Task, occurrence: Occurrence): Partial<Task> {
+  return {
+    title: task.title,
+    dueAt: occurrence.dueAt,
+    durationMin: task.durationMin,
+    categoryId: task.categoryId,
+    priority: task.priority,
+    notes: task.notes,
+    parentId: task.parentId, // サブタスクは同じ親の下に作成する
+    tags: task.tags,
+    checklist: task.checklist?.map((item) => ({ ...item, checked: false })),
+    repeatRule: task.repeatRule,
+    repeatParentId: task.repeatParentId || task.id, // 初回の場合は現在のタスクが親
+    repeatCount: occurrence.repeatCount,
+    repeatUntil: task.repeatUntil,
+    repeatMode: task.repeatMode,
+    // 日時指定のリマインダーは一度きりなので引き継がない
+    reminders: task.reminders?.filter((reminder) => reminder.type !== 'absolute'),
+  };
+}
+
+/**
+ * 完了したタスクから次に作成する繰り返しタスクを決める
+ * useTasks と Service Worker の両方から使用する
+ * @param task 完了したタスク
+ * @param options 完了日時と、過ぎてしまった回の扱い
+ * @returns 作成するタスクのドラフト (期日順)。繰り返しがない・終了している場合は空配列
+ */
+export function planNextRecurrences(
+  task: Task,
+  { completedAt = Date.now(), policy = DEFAULT_MISSED_RECURRENCE_POLICY }: RecurrenceOptions = {}
+): Partial<Task>[] {
+  if (!task.repeatRule || !task.dueAt) return [];
+
+  const { missed, next, count } = getOccurrences(task, completedAt);
+
+  let occurrences: Occurrence[];
+  if (missed.length === 0 || policy === 'skip') {
+    occurrences = next ? [next] : [];
+  } else if (policy === 'rollUp') {
+    occurrences = [missed[missed.length - 1]];
+  } else {
+    occurrences = [...missed.slice(-MAX_MISSED_OCCURRENCES), ...(next ? [next] : [])];
+  }
+
+  return occurrences
+    .filter((occurrence) => isWithinLimits(task, occurrence, count))
+    .map((occurrence) => toDraft(task, occurrence));
+}
+
+/**
+ * 繰り返しタスクのまだ作成されていない今後の回の予定日時を算出する
+ * カレンダーに予定として表示するために使用する
+ * @param task 系列の最新の回
+ * @param until この日時までの回を算出する
+ * @param now 現在日時。これより前の回は含めない
+ * @returns 予定日時 (期日順)。完了日から繰り返す場合は次の期日が決まらないため空配列
+ */
+export function projectRecurrences(task: Task, until: number, now: number = Date.now()): number[] {
+  if (!task.repeatRule || !task.dueAt || task.repeatMode === 'completion') return [];
+
+  const ruleSet = parseLocalRuleSet(task.repeatRule);
+  const count = ruleSet.rrules()[0]?.origOptions.count;
+  const current = task.repeatCount || 0;
+
+  return ruleSet
+    .between(
+      toWallClock(task.dueAt),
+      toWallClock(until),
+      true,
+      (_, index) => index < MAX_PROJECTED_OCCURRENCES
+    )
+    .map((date) => fromWallClock(date).getTime())
+    .filter((dueAt) => dueAt > task.dueAt!)
+    .map((dueAt, index) => ({ dueAt, repeatCount: current + index + 1 }))
+    .filter((occurrence) => occurrence.dueAt > now && isWithinLimits(task, occurrence, count))
+    .map((occurrence) => occurrence.dueAt);
+}
+
+/**
+ * タスクが系列の最新の回かどうか
+ * 次の回は最新の回を完了したときだけ作成し、重複して作成しないようにする
+ * @param task 対象タスク
+ * @param tasks 系列を含むタスクの配列
+ */
+export function isLatestInSeries(task: Task, tasks: Task[]): boolean {
+  const seriesId = task.repeatParentId || task.id;
+  return !tasks.some(
+    (other) =>
+      other.id !== task.id &&
+      (other.repeatParentId === seriesId || other.id === seriesId) &&
+      (other.repeatCount || 0) > (task.repeatCount || 0)
+  );
+}
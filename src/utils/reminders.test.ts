@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { describeReminder, getReminderFireAt, resolveTaskReminders } from './reminders';
+import type { Task } from '@/db';
+
+describe('reminder utilities', () => {
+  const dueAt = new Date('2024-03-15T14:30:00').getTime();
+  const baseTask: Task = {
+    id: 'task-1',
+    title: 'Task',
+    status: 'pending',
+    dueAt,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  describe('getReminderFireAt', () => {
+    it('should subtract relative offsets from the due date', () => {
+      expect(getReminderFireAt({ id: 'r', type: 'relative', offsetMin: 15 }, dueAt)).toBe(
+        new Date('2024-03-15T14:15:00').getTime()
+      );
+      expect(getReminderFireAt({ id: 'r', type: 'relative', offsetMin: 24 * 60 }, dueAt)).toBe(
+        new Date('2024-03-14T14:30:00').getTime()
+      );
+    });
+
+    it('should place time-of-day reminders on the due date', () => {
+      expect(
+        getReminderFireAt({ id: 'r', type: 'timeOfDay', daysBefore: 0, time: '08:00' }, dueAt)
+      ).toBe(new Date('2024-03-15T08:00:00').getTime());
+      expect(
+        getReminderFireAt({ id: 'r', type: 'timeOfDay', daysBefore: 1, time: '20:00' }, dueAt)
+      ).toBe(new Date('2024-03-14T20:00:00').getTime());
+    });
+
+    it('should use absolute times as is', () => {
+      expect(getReminderFireAt({ id: 'r', type: 'absolute', at: 123 }, undefined)).toBe(123);
+    });
+
+    it('should ignore due-relative reminders without a due date', () => {
+      expect(getReminderFireAt({ id: 'r', type: 'relative', offsetMin: 15 })).toBeUndefined();
+      expect(
+        getReminderFireAt({ id: 'r', type: 'timeOfDay', daysBefore: 0, time: '08:00' })
+      ).toBeUndefined();
+    });
+  });
+
+  describe('resolveTaskReminders', () => {
+    it('should fall back to the default offset when reminders are not set', () => {
+      expect(resolveTaskReminders(baseTask, 15)).toEqual([
+        { reminderId: 'default', fireAt: dueAt - 15 * 60 * 1000 },
+      ]);
+    });
+
+    it('should return nothing for an empty reminder list', () => {
+      expect(resolveTaskReminders({ ...baseTask, reminders: [] }, 15)).toEqual([]);
+    });
+
+    it('should sort reminders by fire time', () => {
+      const resolved = resolveTaskReminders(
+        {
+          ...baseTask,
+          reminders: [
+            { id: 'soon', type: 'relative', offsetMin: 15 },
+            { id: 'morning', type: 'timeOfDay', daysBefore: 0, time: '08:00' },
+          ],
+        },
+        15
+      );
+
+      expect(resolved.map(r => r.reminderId)).toEqual(['morning', 'soon']);
+    });
+  });
+
+  describe('describeReminder', () => {
+    it('should format reminder labels', () => {
+      expect(describeReminder({ id: 'r', type: 'relative', offsetMin: 15 })).toBe('15分前');
+      expect(describeReminder({ id: 'r', type: 'relative', offsetMin: 120 })).toBe('2時間前');
+      expect(describeReminder({ id: 'r', type: 'relative', offsetMin: 1440 })).toBe('1日前');
+      expect(describeReminder({ id: 'r', type: 'timeOfDay', daysBefore: 0, time: '08:00' })).toBe(
+        '当日 08:00'
+      );
+    });
+  });
+});
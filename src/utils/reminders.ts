@@ -0,0 +1,82 @@
+import type { Task, TaskReminder } from '@/db';
+
+// reminders が未設定のタスクに適用される既定のリマインダーID
+export const DEFAULT_REMINDER_ID = 'default';
+
+export interface ResolvedReminder {
+  reminderId: string;
+  fireAt: number;
+}
+
+/**
+ * リマインダー定義から通知時刻を算出する
+ * @param reminder リマインダー定義
+ * @param dueAt タスクの期日
+ * @returns 通知時刻。期日が必要な定義で期日がない場合はundefined
+ */
+export function getReminderFireAt(reminder: TaskReminder, dueAt?: number): number | undefined {
+  switch (reminder.type) {
+    case 'absolute':
+      return reminder.at;
+    case 'relative':
+      if (!dueAt) return undefined;
+      return dueAt - reminder.offsetMin * 60 * 1000;
+    case 'timeOfDay': {
+      if (!dueAt) return undefined;
+      const [hours, minutes] = reminder.time.split(':').map(Number);
+      if (Number.isNaN(hours) || Number.isNaN(minutes)) return undefined;
+
+      const date = new Date(dueAt);
+      date.setDate(date.getDate() - reminder.daysBefore);
+      date.setHours(hours, minutes, 0, 0);
+      return date.getTime();
+    }
+  }
+}
+
+/**
+ * タスクのすべてのリマインダーの通知時刻を算出する
+ * @param task 対象タスク
+ * @param defaultBeforeMin reminders 未設定時に使う期日前の分数
+ * @returns 通知時刻順のリマインダー
+ */
+export function resolveTaskReminders(task: Task, defaultBeforeMin: number): ResolvedReminder[] {
+  const reminders: TaskReminder[] = task.reminders ?? (
+    task.dueAt
+      ? [{ id: DEFAULT_REMINDER_ID, type: 'relative', offsetMin: defaultBeforeMin }]
+      : []
+  );
+
+  return reminders
+    .map(reminder => ({ reminderId: reminder.id, fireAt: getReminderFireAt(reminder, task.dueAt) }))
+    .filter((resolved): resolved is ResolvedReminder => resolved.fireAt !== undefined)
+    .sort((a, b) => a.fireAt - b.fireAt);
+}
+
+/**
+ * リマインダー定義を表示用の文字列にする
+ * @param reminder リマインダー定義
+ * @returns 「1日前」「15分前」「当日 08:00」など
+ */
+export function describeReminder(reminder: TaskReminder): string {
+  switch (reminder.type) {
+    case 'absolute':
+      return new Date(reminder.at).toLocaleString('ja-JP', {
+        month: 'numeric',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      });
+    case 'relative': {
+      const { offsetMin } = reminder;
+      if (offsetMin === 0) return '期日';
+      if (offsetMin % (24 * 60) === 0) return `${offsetMin / (24 * 60)}日前`;
+      if (offsetMin % 60 === 0) return `${offsetMin / 60}時間前`;
+      return `${offsetMin}分前`;
+    }
+    case 'timeOfDay':
+      return reminder.daysBefore === 0
+        ? `当日 ${reminder.time}`
+        : `${reminder.daysBefore}日前 ${reminder.time}`;
+  }
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect } from 'vitest';
+import { RRule } from 'rrule';
+import {
+  BUSINESS_DAYS,
+  buildRepeatRule,
+  createRepeatRuleDraft,
+  getRepeatOccurrences,
+  addRepeatExdate,
+  endRepeatRuleBefore,
+  getRepeatUntil,
+  isBusinessDays,
+  isSameRepeatRule,
+  parseRepeatRule,
+} from './repeat-rule';
+import { useTimeZone } from '@/test/timezone';
+
+describe('repeat rule utilities', () => {
+  const dtstart = new Date('2024-01-01T09:00:00Z');
+
+  const roundTrip = (rule: string) => buildRepeatRule(parseRepeatRule(rule)!, dtstart);
+
+  describe('parseRepeatRule', () => {
+    it('should parse weekly rules with BYDAY', () => {
+      const draft = parseRepeatRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR');
+
+      expect(draft).toMatchObject({
+        freq: 'WEEKLY',
+        interval: 2,
+        byWeekday: ['MO', 'WE', 'FR'],
+        end: 'never',
+      });
+    });
+
+    it('should parse monthly rules with BYSETPOS and COUNT', () => {
+      const draft = parseRepeatRule('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;COUNT=10');
+
+      expect(draft).toMatchObject({
+        freq: 'MONTHLY',
+        byWeekday: ['FR'],
+        bySetPos: [-1],
+        end: 'count',
+        count: 10,
+      });
+    });
+
+    it('should read nth weekdays as BYSETPOS for monthly rules', () => {
+      const draft = parseRepeatRule('FREQ=MONTHLY;BYDAY=-1FR');
+
+      expect(draft).toMatchObject({ byWeekday: ['FR'], bySetPos: [-1] });
+    });
+
+    it('should parse BYMONTHDAY and UNTIL', () => {
+      const draft = parseRepeatRule(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=MONTHLY;BYMONTHDAY=1,15,-1;UNTIL=20241231T235959Z'
+      );
+
+      expect(draft).toMatchObject({
+        byMonthDay: [1, 15, -1],
+        end: 'until',
+        until: new Date('2024-12-31T23:59:59Z').getTime(),
+      });
+    });
+
+    it('should keep options the editor does not handle', () => {
+      const draft = parseRepeatRule('FREQ=YEARLY;BYMONTH=3;WKST=SU');
+
+      expect(draft?.extra).toMatchObject({ bymonth: 3 });
+      expect(draft?.extra.wkst).toBeDefined();
+    });
+
+    it('should parse EXDATE lines', () => {
+      const draft = parseRepeatRule(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY\nEXDATE:20240102T090000Z'
+      );
+
+      expect(draft?.exdates).toEqual([new Date('2024-01-02T09:00:00Z').getTime()]);
+      expect(buildRepeatRule(draft!, dtstart)).toBe(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;INTERVAL=1\nEXDATE:20240102T090000Z'
+      );
+    });
+
+    it('should return undefined for invalid rules', () => {
+      expect(parseRepeatRule('FREQ=SOMETIMES')).toBeUndefined();
+    });
+  });
+
+  describe('buildRepeatRule', () => {
+    it('should write back every parsed option', () => {
+      const rules = [
+        'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR',
+        'FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1;COUNT=10',
+        'FREQ=MONTHLY;BYMONTHDAY=1,15,-1;UNTIL=20241231T235959Z',
+        'FREQ=YEARLY;BYMONTH=3;WKST=SU',
+        'FREQ=DAILY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9',
+      ];
+
+      rules.forEach((rule) => {
+        const built = roundTrip(rule);
+        expect(RRule.parseString(built)).toEqual({
+          interval: 1,
+          ...RRule.parseString(rule),
+          dtstart,
+        });
+      });
+    });
+
+    it('should include the due date as DTSTART', () => {
+      const rule = buildRepeatRule(createRepeatRuleDraft('DAILY'), dtstart);
+
+      expect(rule).toBe('DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;INTERVAL=1');
+    });
+
+    it('should ignore end settings without a value', () => {
+      const rule = buildRepeatRule({ ...createRepeatRuleDraft(), end: 'until' }, dtstart);
+
+      expect(rule).not.toContain('UNTIL');
+    });
+  });
+
+  describe('isSameRepeatRule', () => {
+    it('should compare rules regardless of DTSTART', () => {
+      const a = parseRepeatRule('DTSTART:20240101T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO')!;
+      const b = parseRepeatRule('DTSTART:20240301T090000Z\nRRULE:FREQ=WEEKLY;BYDAY=MO')!;
+
+      expect(isSameRepeatRule(a, b)).toBe(true);
+      expect(isSameRepeatRule(a, { ...b, interval: 2 })).toBe(false);
+    });
+  });
+
+  describe('addRepeatExdate', () => {
+    it('should skip the excluded date', () => {
+      const rule = addRepeatExdate(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY',
+        new Date('2024-01-02T09:00:00Z').getTime()
+      );
+
+      expect(getRepeatOccurrences(rule, 2)).toEqual([
+        new Date('2024-01-01T09:00:00Z'),
+        new Date('2024-01-03T09:00:00Z'),
+      ]);
+      expect(addRepeatExdate(rule, new Date('2024-01-02T09:00:00Z').getTime())).toBe(rule);
+    });
+  });
+
+  describe('endRepeatRuleBefore', () => {
+    it('should replace COUNT with UNTIL and keep EXDATE', () => {
+      const rule = endRepeatRuleBefore(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;COUNT=10\nEXDATE:20240102T090000Z',
+        new Date('2024-01-04T09:00:00Z').getTime()
+      );
+
+      expect(rule).toBe(
+        'DTSTART:20240101T090000Z\nRRULE:FREQ=DAILY;UNTIL=20240104T085959Z\nEXDATE:20240102T090000Z'
+      );
+      expect(getRepeatOccurrences(rule, 10)).toHaveLength(2);
+    });
+  });
+
+  describe('getRepeatUntil', () => {
+    it('should return the end date only when ending on a date', () => {
+      const draft = { ...createRepeatRuleDraft(), until: 123 };
+
+      expect(getRepeatUntil({ ...draft, end: 'until' })).toBe(123);
+      expect(getRepeatUntil({ ...draft, end: 'never' })).toBeUndefined();
+    });
+  });
+
+  describe('isBusinessDays', () => {
+    it('should detect the weekday-only preset', () => {
+      const draft = { ...createRepeatRuleDraft('WEEKLY'), byWeekday: BUSINESS_DAYS };
+
+      expect(isBusinessDays(draft)).toBe(true);
+      expect(isBusinessDays({ ...draft, byWeekday: ['MO', 'WE', 'FR'] })).toBe(false);
+      expect(isBusinessDays({ ...draft, interval: 2 })).toBe(false);
+    });
+  });
+
+  describe('getRepeatOccurrences', () => {
+    it('should list the next occurrences', () => {
+      const rule = buildRepeatRule(
+        { ...createRepeatRuleDraft('MONTHLY'), byWeekday: ['FR'], bySetPos: [-1] },
+        dtstart
+      );
+
+      expect(getRepeatOccurrences(rule, 3)).toEqual([
+        new Date('2024-01-26T09:00:00Z'),
+        new Date('2024-02-23T09:00:00Z'),
+        new Date('2024-03-29T09:00:00Z'),
+      ]);
+    });
+
+    it('should stop at COUNT', () => {
+      const rule = buildRepeatRule(
+        { ...createRepeatRuleDraft('DAILY'), end: 'count', count: 2 },
+        dtstart
+      );
+
+      expect(getRepeatOccurrences(rule, 5)).toHaveLength(2);
+    });
+  });
+
+  describe.each(['Asia/Tokyo', 'America/Los_Angeles'])('in %s', (timeZone) => {
+    useTimeZone(timeZone);
+
+    // 端末のタイムゾーンでの日時
+    const local = (month: number, day: number, hour: number) =>
+      new Date(2024, month - 1, day, hour, 0);
+
+    it('should repeat on the local weekdays', () => {
+      // 東京の 08:00 は UTC では前日、ロサンゼルスの 20:00 は UTC では翌日になる
+      const hour = timeZone === 'Asia/Tokyo' ? 8 : 20;
+      const rule = buildRepeatRule(
+        { ...createRepeatRuleDraft('WEEKLY'), byWeekday: ['MO', 'WE', 'FR'] },
+        local(1, 8, hour)
+      );
+
+      expect(getRepeatOccurrences(rule, 4)).toEqual([
+        local(1, 8, hour),
+        local(1, 10, hour),
+        local(1, 12, hour),
+        local(1, 15, hour),
+      ]);
+    });
+
+    it('should find the nth weekday and the month day in local time', () => {
+      const hour = timeZone === 'Asia/Tokyo' ? 7 : 20;
+      const lastFriday = buildRepeatRule(
+        { ...createRepeatRuleDraft('MONTHLY'), byWeekday: ['FR'], bySetPos: [-1] },
+        local(1, 26, hour)
+      );
+      const monthEnd = buildRepeatRule(
+        { ...createRepeatRuleDraft('MONTHLY'), byMonthDay: [31] },
+        local(1, 31, hour)
+      );
+
+      expect(getRepeatOccurrences(lastFriday, 3)).toEqual([
+        local(1, 26, hour),
+        local(2, 23, hour),
+        local(3, 29, hour),
+      ]);
+      expect(getRepeatOccurrences(monthEnd, 2)).toEqual([local(1, 31, hour), local(3, 31, hour)]);
+    });
+
+    it('should skip EXDATE and stop at UNTIL in local time', () => {
+      const rule = endRepeatRuleBefore(
+        addRepeatExdate(
+          buildRepeatRule(
+            { ...createRepeatRuleDraft('WEEKLY'), byWeekday: ['MO', 'WE', 'FR'] },
+            local(1, 8, 8)
+          ),
+          local(1, 10, 8).getTime()
+        ),
+        local(1, 15, 8).getTime()
+      );
+
+      expect(getRepeatOccurrences(rule, 5)).toEqual([local(1, 8, 8), local(1, 12, 8)]);
+    });
+  });
+});
@@ -0,0 +1,352 @@
+import { RRule, RRuleSet, Weekday, rrulestr, type ByWeekday, type Options } from 'rrule';
+
+export type RepeatFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RepeatEnd = 'never' | 'until' | 'count';
+
+export const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'] as const;
+export type WeekdayCode = (typeof WEEKDAY_CODES)[number];
+
+export const WEEKDAY_LABELS: Record<WeekdayCode, string> = {
+  MO: '月',
+  TU: '火',
+  WE: '水',
+  TH: '木',
+  FR: '金',
+  SA: '土',
+  SU: '日',
+};
+
+// 「平日のみ」プリセットの曜日
+export const BUSINESS_DAYS: WeekdayCode[] = ['MO', 'TU', 'WE', 'TH', 'FR'];
+
+/**
+ * 繰り返しエディタが扱う RRULE の内容
+ * エディタで扱わない項目は extra に残し、組み立て時にそのまま書き戻す
+ */
+export interface RepeatRuleDraft {
+  freq: RepeatFrequency;
+  interval: number;
+  // BYDAY の値 ('MO' や '-1FR' など)
+  byWeekday: string[];
+  byMonthDay: number[];
+  bySetPos: number[];
+  end: RepeatEnd;
+  until?: number;
+  count?: number;
+  // EXDATE で除外した日時
+  exdates: number[];
+  extra: Partial<Options>;
+}
+
+// エディタで個別に扱う RRULE の項目
+const EDITABLE_KEYS = [
+  'dtstart',
+  'freq',
+  'interval',
+  'byweekday',
+  'bymonthday',
+  'bysetpos',
+  'until',
+  'count',
+] as const;
+
+const WEEKDAY_TOKEN = /^([+-]?\d+)?(MO|TU|WE|TH|FR|SA|SU)$/;
+
+function toArray<T>(value: T | T[] | null | undefined): T[] {
+  if (value === null || value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function toWeekdayToken(weekday: ByWeekday): string {
+  if (typeof weekday === 'number') return WEEKDAY_CODES[weekday];
+  return weekday.toString();
+}
+
+function toWeekday(token: string): Weekday {
+  const match = WEEKDAY_TOKEN.exec(token);
+  if (!match) {
+    throw new Error(`Invalid weekday: ${token}`);
+  }
+  const n = match[1] ? parseInt(match[1]) : undefined;
+  return new Weekday(WEEKDAY_CODES.indexOf(match[2] as WeekdayCode), n);
+}
+
+/**
+ * BYDAY の値から曜日コードを取り出す ('-1FR' → 'FR')
+ * @param token BYDAY の値
+ * @returns 曜日コード
+ */
+export function getWeekdayCode(token: string): WeekdayCode | undefined {
+  return WEEKDAY_TOKEN.exec(token)?.[2] as WeekdayCode | undefined;
+}
+
+/**
+ * 既定の繰り返し設定を作成する
+ * @param freq 頻度
+ * @returns 繰り返し設定
+ */
+export function createRepeatRuleDraft(freq: RepeatFrequency = 'DAILY'): RepeatRuleDraft {
+  return {
+    freq,
+    interval: 1,
+    byWeekday: [],
+    byMonthDay: [],
+    bySetPos: [],
+    end: 'never',
+    exdates: [],
+    extra: {},
+  };
+}
+
+/**
+ * RRULE 文字列を EXDATE も含めて読み込む
+ * @param rule RRULE 文字列 (DTSTART・EXDATE を含んでもよい)
+ * @returns 繰り返しのセット
+ */
+export function parseRuleSet(rule: string): RRuleSet {
+  return rrulestr(rule, { forceset: true }) as RRuleSet;
+}
+
+/**
+ * 日時を、端末のタイムゾーンでの年月日・時刻を UTC として持つ Date にする
+ * rrule は BYDAY・BYMONTHDAY・BYSETPOS を UTC の年月日で判定するため、展開の前に壁時計の時刻へそろえる
+ * @param time 日時
+ * @returns 壁時計の時刻を UTC として持つ Date
+ */
+export function toWallClock(time: number | Date): Date {
+  const date = new Date(time);
+  return new Date(
+    Date.UTC(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getMilliseconds()
+    )
+  );
+}
+
+/**
+ * toWallClock で変換した Date を端末のタイムゾーンの日時に戻す
+ * @param date 壁時計の時刻を UTC として持つ Date
+ * @returns 日時
+ */
+export function fromWallClock(date: Date): Date {
+  return new Date(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    date.getUTCHours(),
+    date.getUTCMinutes(),
+    date.getUTCSeconds(),
+    date.getUTCMilliseconds()
+  );
+}
+
+/**
+ * RRULE 文字列を端末のタイムゾーンの壁時計の時刻で展開できる繰り返しのセットにする
+ * 保存している DTSTART・UNTIL・EXDATE・RDATE は UTC の日時なので、toWallClock で変換して組み直す。
+ * between・after に渡す日時は toWallClock で変換し、得られた日時は fromWallClock で戻すこと
+ * @param rule RRULE 文字列 (DTSTART・EXDATE を含んでもよい)
+ * @returns 壁時計の時刻の繰り返しのセット
+ */
+export function parseLocalRuleSet(rule: string): RRuleSet {
+  const parsed = parseRuleSet(rule);
+  const local = new RRuleSet();
+
+  parsed.rrules().forEach((rrule) => {
+    const { until, tzid } = rrule.origOptions;
+    local.rrule(
+      new RRule({
+        ...rrule.origOptions,
+        tzid: undefined,
+        // TZID 付きの DTSTART は rrule がすでに壁時計の時刻として読み込んでいる
+        dtstart: tzid ? rrule.options.dtstart : toWallClock(rrule.options.dtstart),
+        until: until ? toWallClock(until) : undefined,
+      })
+    );
+  });
+  parsed.exdates().forEach((date) => local.exdate(toWallClock(date)));
+  parsed.rdates().forEach((date) => local.rdate(toWallClock(date)));
+  return local;
+}
+
+/**
+ * RRULE 文字列をエディタ用の繰り返し設定に変換する
+ * @param rule RRULE 文字列 (DTSTART を含んでもよい)
+ * @returns 繰り返し設定。解析できない場合はundefined
+ */
+export function parseRepeatRule(rule: string): RepeatRuleDraft | undefined {
+  let options: Partial<Options>;
+  let exdates: number[];
+  try {
+    const ruleSet = parseRuleSet(rule);
+    if (ruleSet.rrules().length === 0) {
+      throw new Error(`RRULE is missing: ${rule}`);
+    }
+    options = { ...ruleSet.rrules()[0].origOptions };
+    exdates = ruleSet.exdates().map((date) => date.getTime());
+    if (options.freq === undefined) {
+      throw new Error(`Unsupported FREQ: ${rule}`);
+    }
+  } catch (error) {
+    console.error('Failed to parse RRULE:', error);
+    return undefined;
+  }
+
+  const freq = RRule.FREQUENCIES[options.freq] as RepeatFrequency;
+  let byWeekday = toArray(options.byweekday).map(toWeekdayToken);
+  let bySetPos = toArray(options.bysetpos);
+
+  // 毎月の「最終金曜日」は BYDAY=-1FR とも書けるため BYSETPOS の形にそろえる
+  if (freq === 'MONTHLY' && byWeekday.length === 1 && bySetPos.length === 0) {
+    const weekday = toWeekday(byWeekday[0]);
+    if (weekday.n) {
+      bySetPos = [weekday.n];
+      byWeekday = [WEEKDAY_CODES[weekday.weekday]];
+    }
+  }
+
+  const extra = Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined && value !== null)
+  ) as Partial<Options>;
+  EDITABLE_KEYS.forEach((key) => delete extra[key]);
+
+  return {
+    freq,
+    interval: options.interval ?? 1,
+    byWeekday,
+    byMonthDay: toArray(options.bymonthday),
+    bySetPos,
+    end: options.count ? 'count' : options.until ? 'until' : 'never',
+    until: options.until?.getTime(),
+    count: options.count ?? undefined,
+    exdates,
+    extra,
+  };
+}
+
+/**
+ * 繰り返し設定から RRULE 文字列を組み立てる
+ * @param draft 繰り返し設定
+ * @param dtstart 繰り返しの起点 (タスクの期日)
+ * @returns RRULE 文字列
+ */
+export function buildRepeatRule(draft: RepeatRuleDraft, dtstart: Date): string {
+  const options: Partial<Options> = {
+    ...draft.extra,
+    freq: RRule[draft.freq],
+    interval: Math.max(1, draft.interval || 1),
+    dtstart,
+  };
+
+  if (draft.byWeekday.length > 0) {
+    options.byweekday = draft.byWeekday.map(toWeekday);
+  }
+  if (draft.byMonthDay.length > 0) {
+    options.bymonthday = draft.byMonthDay;
+  }
+  if (draft.bySetPos.length > 0) {
+    options.bysetpos = draft.bySetPos;
+  }
+
+  if (draft.end === 'until' && draft.until) {
+    options.until = new Date(draft.until);
+  } else if (draft.end === 'count' && draft.count) {
+    options.count = draft.count;
+  }
+
+  const rrule = new RRule(options);
+  if (draft.exdates.length === 0) {
+    return rrule.toString();
+  }
+
+  const ruleSet = new RRuleSet();
+  ruleSet.rrule(rrule);
+  draft.exdates.forEach((date) => ruleSet.exdate(new Date(date)));
+  return ruleSet.toString();
+}
+
+/**
+ * 2つの繰り返し設定が同じ内容かどうか (起点は比較しない)
+ * @param a 繰り返し設定
+ * @param b 繰り返し設定
+ */
+export function isSameRepeatRule(a: RepeatRuleDraft, b: RepeatRuleDraft): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * 指定した日時を繰り返しから除外する (EXDATE を追加する)
+ * @param rule RRULE 文字列
+ * @param date 除外する日時
+ * @returns 除外を追加した RRULE 文字列
+ */
+export function addRepeatExdate(rule: string, date: number): string {
+  const ruleSet = parseRuleSet(rule);
+  if (!ruleSet.exdates().some((exdate) => exdate.getTime() === date)) {
+    ruleSet.exdate(new Date(date));
+  }
+  return ruleSet.toString();
+}
+
+/**
+ * 指定した日時より前で繰り返しを終了する (UNTIL を設定する)
+ * @param rule RRULE 文字列
+ * @param before この日時以降は繰り返さない
+ * @returns 終了日を設定した RRULE 文字列
+ */
+export function endRepeatRuleBefore(rule: string, before: number): string {
+  const ruleSet = parseRuleSet(rule);
+  const [rrule] = ruleSet.rrules();
+  if (!rrule) return rule;
+
+  const ended = new RRuleSet();
+  // UNTIL は秒単位なので1秒前を終了日時にする
+  ended.rrule(
+    new RRule({ ...rrule.origOptions, count: undefined, until: new Date(before - 1000) })
+  );
+  ruleSet.exdates().forEach((date) => ended.exdate(date));
+  return ended.toString();
+}
+
+/**
+ * 繰り返しの終了日時を取得する (Task.repeatUntil に保存する値)
+ * @param draft 繰り返し設定
+ * @returns 終了日時。終了日を指定していない場合はundefined
+ */
+export function getRepeatUntil(draft: RepeatRuleDraft): number | undefined {
+  return draft.end === 'until' ? draft.until : undefined;
+}
+
+/**
+ * 繰り返し設定が「平日のみ」かどうか
+ * @param draft 繰り返し設定
+ */
+export function isBusinessDays(draft: RepeatRuleDraft): boolean {
+  return (
+    (draft.freq === 'WEEKLY' || draft.freq === 'DAILY') &&
+    draft.interval === 1 &&
+    draft.byWeekday.length === BUSINESS_DAYS.length &&
+    BUSINESS_DAYS.every((code) => draft.byWeekday.includes(code))
+  );
+}
+
+/**
+ * 繰り返しの直近の日時を取得する
+ * @param rule RRULE 文字列
+ * @param limit 取得する件数
+ * @returns 起点以降の日時
+ */
+export function getRepeatOccurrences(rule: string, limit: number): Date[] {
+  try {
+    return parseLocalRuleSet(rule)
+      .all((_, index) => index < limit)
+      .map(fromWallClock);
+  } catch (error) {
+    console.error('Failed to expand RRULE:', error);
+    return [];
+  }
+}
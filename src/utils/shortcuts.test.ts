@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SHORTCUTS,
+  findShortcutConflict,
+  formatShortcut,
+  getKeyStroke,
+  matchShortcut,
+  normalizeShortcut,
+  resolveShortcuts,
+} from './shortcuts';
+
+describe('shortcuts', () => {
+  const keyEvent = (key: string, modifiers: Partial<KeyboardEvent> = {}) => ({
+    key,
+    ctrlKey: false,
+    metaKey: false,
+    altKey: false,
+    shiftKey: false,
+    ...modifiers,
+  });
+
+  describe('getKeyStroke', () => {
+    it('should combine modifiers in a fixed order', () => {
+      expect(getKeyStroke(keyEvent('k', { ctrlKey: true }))).toBe('mod+k');
+      expect(getKeyStroke(keyEvent('K', { metaKey: true, shiftKey: true }))).toBe('mod+shift+k');
+      expect(getKeyStroke(keyEvent('ArrowUp', { altKey: true }))).toBe('alt+arrowup');
+    });
+
+    it('should not add shift to symbols typed with shift', () => {
+      expect(getKeyStroke(keyEvent('?', { shiftKey: true }))).toBe('?');
+    });
+
+    it('should ignore modifier keys on their own', () => {
+      expect(getKeyStroke(keyEvent('Shift', { shiftKey: true }))).toBeUndefined();
+    });
+  });
+
+  describe('normalizeShortcut', () => {
+    it('should accept aliases and sequences', () => {
+      expect(normalizeShortcut('Shift+Ctrl+K')).toBe('mod+shift+k');
+      expect(normalizeShortcut(' G  H ')).toBe('g h');
+      expect(normalizeShortcut('cmd++')).toBe('mod++');
+    });
+
+    it('should reject unknown modifiers and empty input', () => {
+      expect(normalizeShortcut('hyper+k')).toBeUndefined();
+      expect(normalizeShortcut('ctrl+')).toBeUndefined();
+      expect(normalizeShortcut('  ')).toBeUndefined();
+    });
+  });
+
+  describe('resolveShortcuts', () => {
+    it('should override defaults with valid stored bindings', () => {
+      const bindings = resolveShortcuts({ newTask: 'Ctrl+N', goHome: 'bad+h', unknown: 'u' });
+
+      expect(bindings).toEqual({ ...DEFAULT_SHORTCUTS, newTask: 'mod+n' });
+    });
+
+    it('should fall back to defaults', () => {
+      expect(resolveShortcuts(undefined)).toEqual(DEFAULT_SHORTCUTS);
+    });
+  });
+
+  describe('findShortcutConflict', () => {
+    it('should find equal bindings and prefixes of sequences', () => {
+      expect(findShortcutConflict(DEFAULT_SHORTCUTS, 'newTask', 'x')).toBe('completeTask');
+      expect(findShortcutConflict(DEFAULT_SHORTCUTS, 'newTask', 'g')).toBe('goHome');
+      expect(findShortcutConflict(DEFAULT_SHORTCUTS, 'newTask', 'g h x')).toBe('goHome');
+      expect(findShortcutConflict(DEFAULT_SHORTCUTS, 'goHome', 'g h')).toBeUndefined();
+      expect(findShortcutConflict(DEFAULT_SHORTCUTS, 'newTask', 'mod+n')).toBeUndefined();
+    });
+  });
+
+  describe('matchShortcut', () => {
+    it('should match single strokes and sequences', () => {
+      expect(matchShortcut(DEFAULT_SHORTCUTS, ['mod+k'])).toBe('commandPalette');
+      expect(matchShortcut(DEFAULT_SHORTCUTS, ['g'])).toBe('partial');
+      expect(matchShortcut(DEFAULT_SHORTCUTS, ['g', 's'])).toBe('goSettings');
+      expect(matchShortcut(DEFAULT_SHORTCUTS, ['g', 'z'])).toBeUndefined();
+    });
+  });
+
+  describe('formatShortcut', () => {
+    it('should use platform key names', () => {
+      expect(formatShortcut('mod+shift+k')).toEqual([['Ctrl', 'Shift', 'K']]);
+      expect(formatShortcut('mod+k', true)).toEqual([['⌘', 'K']]);
+      expect(formatShortcut('g h')).toEqual([['G'], ['H']]);
+      expect(formatShortcut('escape')).toEqual([['Escape']]);
+    });
+  });
+});
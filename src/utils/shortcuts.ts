@@ -0,0 +1,246 @@
+export type ShortcutAction =
+  | 'newTask'
+  | 'commandPalette'
+  | 'showShortcuts'
+  | 'undo'
+  | 'redo'
+  | 'goHome'
+  | 'goAllTasks'
+  | 'goCategories'
+  | 'goHabits'
+  | 'goSettings'
+  | 'goTrash'
+  | 'nextTask'
+  | 'previousTask'
+  | 'completeTask'
+  | 'archiveTask'
+  | 'changeCategory';
+
+// 操作ごとのキー割り当て
+// 1打鍵は "mod+k" のように修飾キーを + でつなぎ、連続した打鍵は "g h" のように空白で区切る
+// mod は Windows などでは Ctrl、macOS では ⌘ を表す
+export type ShortcutBindings = Record<ShortcutAction, string>;
+
+export const DEFAULT_SHORTCUTS: ShortcutBindings = {
+  newTask: 'n',
+  commandPalette: 'mod+k',
+  showShortcuts: '?',
+  undo: 'mod+z',
+  redo: 'mod+shift+z',
+  goHome: 'g h',
+  goAllTasks: 'g a',
+  goCategories: 'g c',
+  goHabits: 'g r',
+  goSettings: 'g s',
+  goTrash: 'g t',
+  nextTask: 'j',
+  previousTask: 'k',
+  completeTask: 'x',
+  archiveTask: 'e',
+  changeCategory: 'c',
+};
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  group: '全般' | '移動' | 'タスク';
+}
+
+// 一覧・設定画面での表示順
+export const SHORTCUT_DEFINITIONS: ShortcutDefinition[] = [
+  { action: 'newTask', label: '新しいタスク', group: '全般' },
+  { action: 'commandPalette', label: 'コマンドパレット', group: '全般' },
+  { action: 'showShortcuts', label: 'ショートカット一覧', group: '全般' },
+  { action: 'undo', label: '元に戻す', group: '全般' },
+  { action: 'redo', label: 'やり直す', group: '全般' },
+  { action: 'goHome', label: 'ホームに移動', group: '移動' },
+  { action: 'goAllTasks', label: '全タスクに移動', group: '移動' },
+  { action: 'goCategories', label: 'カテゴリーに移動', group: '移動' },
+  { action: 'goHabits', label: '習慣に移動', group: '移動' },
+  { action: 'goSettings', label: '設定に移動', group: '移動' },
+  { action: 'goTrash', label: 'ゴミ箱に移動', group: '移動' },
+  { action: 'nextTask', label: '次のタスクを選択', group: 'タスク' },
+  { action: 'previousTask', label: '前のタスクを選択', group: 'タスク' },
+  { action: 'completeTask', label: '選択中のタスクを完了', group: 'タスク' },
+  { action: 'archiveTask', label: '選択中のタスクをアーカイブ', group: 'タスク' },
+  { action: 'changeCategory', label: '選択中のタスクのカテゴリーを変更', group: 'タスク' },
+];
+
+// ショートカット・コマンドパレットからホーム画面に渡す指示 (location.state)
+export interface ShortcutNavigationState {
+  // 新規作成フォームを開く
+  newTask?: boolean;
+  // このタスクの編集フォームを開く
+  focusTaskId?: string;
+}
+
+// 連続した打鍵を待つ時間 (ミリ秒)
+export const SHORTCUT_SEQUENCE_TIMEOUT = 1000;
+
+const MODIFIERS = ['mod', 'alt', 'shift'] as const;
+
+const MODIFIER_ALIASES: Record<string, (typeof MODIFIERS)[number]> = {
+  mod: 'mod',
+  ctrl: 'mod',
+  control: 'mod',
+  cmd: 'mod',
+  command: 'mod',
+  meta: 'mod',
+  alt: 'alt',
+  option: 'alt',
+  shift: 'shift',
+};
+
+const MODIFIER_KEYS = ['Control', 'Meta', 'Alt', 'Shift', 'CapsLock'];
+
+// "mod++" のように + キー自体も割り当てられるようにする
+function splitStroke(stroke: string): string[] {
+  return stroke.endsWith('++') ? [...stroke.slice(0, -2).split('+'), '+'] : stroke.split('+');
+}
+
+/**
+ * キー入力を割り当ての1打鍵の表記にする
+ * @param event キーボードイベント
+ * @returns 1打鍵の表記 (修飾キーのみの入力は undefined)
+ */
+export function getKeyStroke(
+  event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>
+): string | undefined {
+  if (!event.key || MODIFIER_KEYS.includes(event.key)) return undefined;
+
+  const key = event.key === ' ' ? 'space' : event.key.toLowerCase();
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('mod');
+  if (event.altKey) parts.push('alt');
+  // 記号は Shift を押して入力するため、英字と名前の付いたキーのみ Shift を区別する
+  if (event.shiftKey && (/^[a-z]$/.test(key) || key.length > 1)) parts.push('shift');
+  parts.push(key);
+  return parts.join('+');
+}
+
+/**
+ * 入力された割り当てを正規化する ("Ctrl+K" → "mod+k")
+ * @param binding 割り当て
+ * @returns 正規化した割り当て (不正な場合は undefined)
+ */
+export function normalizeShortcut(binding: string): string | undefined {
+  const strokes = binding.trim().toLowerCase().split(/\s+/);
+  const normalized: string[] = [];
+
+  for (const stroke of strokes) {
+    const parts = splitStroke(stroke);
+    const key = parts.pop();
+    if (!key) return undefined;
+
+    const modifiers = new Set<string>();
+    for (const part of parts) {
+      const modifier = MODIFIER_ALIASES[part];
+      if (!modifier) return undefined;
+      modifiers.add(modifier);
+    }
+    normalized.push([...MODIFIERS.filter((m) => modifiers.has(m)), key].join('+'));
+  }
+
+  return normalized.join(' ') || undefined;
+}
+
+/**
+ * 保存された割り当てを既定の割り当てに重ねる
+ * @param value 設定に保存された値
+ * @returns すべての操作の割り当て
+ */
+export function resolveShortcuts(value: unknown): ShortcutBindings {
+  const bindings = { ...DEFAULT_SHORTCUTS };
+  if (!value || typeof value !== 'object') return bindings;
+
+  for (const [action, binding] of Object.entries(value)) {
+    if (!(action in bindings) || typeof binding !== 'string') continue;
+    const normalized = normalizeShortcut(binding);
+    if (normalized) {
+      bindings[action as ShortcutAction] = normalized;
+    }
+  }
+  return bindings;
+}
+
+/**
+ * 割り当てが他の操作と重なるかどうか
+ * 同じ割り当てのほか、一方が他方の打鍵の途中になる場合 ("g" と "g h") も重なりとする
+ * @param bindings 現在の割り当て
+ * @param action 割り当てを変更する操作
+ * @param binding 新しい割り当て (正規化済み)
+ * @returns 重なる操作
+ */
+export function findShortcutConflict(
+  bindings: ShortcutBindings,
+  action: ShortcutAction,
+  binding: string
+): ShortcutAction | undefined {
+  return (Object.keys(bindings) as ShortcutAction[]).find((other) => {
+    if (other === action) return false;
+    const current = bindings[other];
+    return (
+      current === binding || current.startsWith(`${binding} `) || binding.startsWith(`${current} `)
+    );
+  });
+}
+
+/**
+ * 打鍵の並びに対応する操作を探す
+ * @param bindings 割り当て
+ * @param strokes これまでの打鍵
+ * @returns 対応する操作。続きの打鍵を待つ場合は 'partial'
+ */
+export function matchShortcut(
+  bindings: ShortcutBindings,
+  strokes: string[]
+): ShortcutAction | 'partial' | undefined {
+  const sequence = strokes.join(' ');
+  const entries = Object.entries(bindings) as [ShortcutAction, string][];
+
+  const action = entries.find(([, binding]) => binding === sequence)?.[0];
+  if (action) return action;
+  return entries.some(([, binding]) => binding.startsWith(`${sequence} `)) ? 'partial' : undefined;
+}
+
+/**
+ * 割り当てを表示用のキー名に分ける
+ * @param binding 割り当て
+ * @param isMac macOS の表記にするかどうか
+ * @returns 打鍵ごとのキー名
+ */
+export function formatShortcut(binding: string, isMac = false): string[][] {
+  const names: Record<string, string> = {
+    mod: isMac ? '⌘' : 'Ctrl',
+    alt: isMac ? '⌥' : 'Alt',
+    shift: 'Shift',
+    space: 'Space',
+    arrowup: '↑',
+    arrowdown: '↓',
+    arrowleft: '←',
+    arrowright: '→',
+  };
+
+  return binding
+    .split(' ')
+    .map((stroke) =>
+      splitStroke(stroke).map((part) => names[part] ?? part[0].toUpperCase() + part.slice(1))
+    );
+}
+
+// 文字入力中はブラウザの文字の取り消し・やり直しを優先する操作
+export const TEXT_EDITING_ACTIONS: ShortcutAction[] = ['undo', 'redo'];
+
+/**
+ * 文字入力中の要素かどうか (修飾キーのないショートカットを無効にする)
+ * @param target イベントの対象
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    // ダイアログ内ではダイアログ自体のキー操作を優先する
+    !!target.closest('[role="dialog"]')
+  );
+}
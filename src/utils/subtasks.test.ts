@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checklistItemToSubtask,
+  getDescendants,
+  getOpenSubtasks,
+  getSubtaskProgress,
+  getSubtasks,
+  getTopLevelTasks,
+} from './subtasks';
+import { createTask } from '@/test/factories';
+
+describe('subtasks', () => {
+  const tasks = [
+    createTask({ id: 'parent' }),
+    createTask({ id: 'child-b', parentId: 'parent', dueAt: 200 }),
+    createTask({ id: 'child-a', parentId: 'parent', dueAt: 100, status: 'done' }),
+    createTask({ id: 'grandchild', parentId: 'child-b' }),
+    createTask({ id: 'archived', parentId: 'parent', status: 'archived' }),
+    createTask({ id: 'other' }),
+  ];
+
+  it('should list direct subtasks by due date', () => {
+    expect(getSubtasks('parent', tasks).map((task) => task.id)).toEqual([
+      'child-a',
+      'child-b',
+      'archived',
+    ]);
+  });
+
+  it('should collect all descendants', () => {
+    expect(getDescendants('parent', tasks).map((task) => task.id)).toEqual([
+      'child-b',
+      'child-a',
+      'archived',
+      'grandchild',
+    ]);
+    expect(getOpenSubtasks('parent', tasks).map((task) => task.id)).toEqual([
+      'child-b',
+      'grandchild',
+    ]);
+  });
+
+  it('should stop at circular links', () => {
+    const circular = [
+      createTask({ id: 'a', parentId: 'b' }),
+      createTask({ id: 'b', parentId: 'a' }),
+    ];
+
+    expect(getDescendants('a', circular).map((task) => task.id)).toEqual(['b']);
+    expect(getTopLevelTasks(circular, circular)).toEqual([]);
+  });
+
+  it('should roll up the progress without archived subtasks', () => {
+    expect(getSubtaskProgress('parent', tasks)).toEqual({ done: 1, total: 3 });
+    expect(getSubtaskProgress('other', tasks)).toEqual({ done: 0, total: 0 });
+  });
+
+  it('should hide tasks whose ancestor is in the list', () => {
+    const visible = tasks.filter((task) => ['parent', 'grandchild', 'other'].includes(task.id!));
+    expect(getTopLevelTasks(visible, tasks).map((task) => task.id)).toEqual(['parent', 'other']);
+
+    const withoutParent = tasks.filter((task) => task.id !== 'parent');
+    expect(getTopLevelTasks(withoutParent, tasks).map((task) => task.id)).toEqual([
+      'child-b',
+      'child-a',
+      'archived',
+      'other',
+    ]);
+  });
+
+  it('should build a subtask from a checklist item', () => {
+    const parent = createTask({ id: 'parent', categoryId: 'cat-1' });
+
+    expect(checklistItemToSubtask(parent, { id: 'item', text: ' 発注 ', checked: true })).toEqual({
+      title: '発注',
+      status: 'done',
+      parentId: 'parent',
+      categoryId: 'cat-1',
+    });
+  });
+});
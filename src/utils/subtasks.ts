@@ -0,0 +1,104 @@
+import type { ChecklistItem, Task } from '@/db';
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * 直下のサブタスクを取得する (期日・作成日時順)
+ * @param parentId 親タスクのID
+ * @param tasks 全タスク
+ */
+export function getSubtasks(parentId: string, tasks: Task[]): Task[] {
+  return tasks
+    .filter((task) => task.parentId === parentId)
+    .sort(
+      (a, b) =>
+        (a.dueAt ?? Number.MAX_SAFE_INTEGER) - (b.dueAt ?? Number.MAX_SAFE_INTEGER) ||
+        a.createdAt - b.createdAt
+    );
+}
+
+/**
+ * 子孫のサブタスクをすべて取得する (孫以下も含む)
+ * @param taskId タスクID
+ * @param tasks 全タスク
+ */
+export function getDescendants(taskId: string, tasks: Task[]): Task[] {
+  const result: Task[] = [];
+  const visited = new Set([taskId]);
+  const queue = [taskId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift()!;
+    for (const task of tasks) {
+      // 循環した親子関係があっても止まるようにする
+      if (task.parentId === parentId && !visited.has(task.id!)) {
+        visited.add(task.id!);
+        result.push(task);
+        queue.push(task.id!);
+      }
+    }
+  }
+  return result;
+}
+
+/**
+ * 未完了のサブタスク (孫以下も含む) を取得する
+ * @param taskId タスクID
+ * @param tasks 全タスク
+ */
+export function getOpenSubtasks(taskId: string, tasks: Task[]): Task[] {
+  return getDescendants(taskId, tasks).filter((task) => task.status === 'pending');
+}
+
+/**
+ * サブタスクの進捗を集計する (孫以下も含む。アーカイブ済みは数えない)
+ * @param taskId タスクID
+ * @param tasks 全タスク
+ */
+export function getSubtaskProgress(taskId: string, tasks: Task[]): SubtaskProgress {
+  const subtasks = getDescendants(taskId, tasks).filter((task) => task.status !== 'archived');
+  return {
+    done: subtasks.filter((task) => task.status === 'done').length,
+    total: subtasks.length,
+  };
+}
+
+/**
+ * 一覧に親 (祖先) が含まれるタスクを除く
+ * 除いたタスクは親の下にサブタスクとして表示する
+ * @param visibleTasks 一覧に表示するタスク
+ * @param tasks 全タスク
+ */
+export function getTopLevelTasks(visibleTasks: Task[], tasks: Task[]): Task[] {
+  const visibleIds = new Set(visibleTasks.map((task) => task.id));
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+
+  return visibleTasks.filter((task) => {
+    const seen = new Set<string>();
+    let parentId = task.parentId;
+    while (parentId && !seen.has(parentId)) {
+      if (visibleIds.has(parentId)) return false;
+      seen.add(parentId);
+      parentId = byId.get(parentId)?.parentId;
+    }
+    return true;
+  });
+}
+
+/**
+ * チェックリストの項目をサブタスクにする
+ * @param parent 親タスク
+ * @param item チェックリストの項目
+ * @returns 作成するサブタスクのドラフト (カテゴリーは親から引き継ぐ)
+ */
+export function checklistItemToSubtask(parent: Task, item: ChecklistItem): Partial<Task> {
+  return {
+    title: item.text.trim(),
+    status: item.checked ? 'done' : 'pending',
+    parentId: parent.id,
+    categoryId: parent.categoryId,
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LEADER_LOCK_NAME, isTabMessage, requestLeadership } from './tabs';
+
+// 名前ごとに1つの保持者だけを許す Web Locks API の簡易版
+function createLockManager() {
+  const queues = new Map<string, Array<() => void>>();
+
+  const request = vi.fn(
+    (name: string, options: { signal?: AbortSignal }, callback: () => Promise<void>) =>
+      new Promise<void>((resolve, reject) => {
+        const queue = queues.get(name) ?? [];
+        queues.set(name, queue);
+
+        const grant = () => {
+          callback().then(() => {
+            queue.shift();
+            queue[0]?.();
+            resolve();
+          });
+        };
+        options.signal?.addEventListener('abort', () => {
+          const index = queue.indexOf(grant);
+          if (index > 0) {
+            queue.splice(index, 1);
+            reject(new DOMException('Aborted', 'AbortError'));
+          }
+        });
+
+        queue.push(grant);
+        if (queue.length === 1) grant();
+      })
+  );
+
+  return { request };
+}
+
+describe('tabs', () => {
+  afterEach(() => {
+    delete (navigator as { locks?: LockManager }).locks;
+  });
+
+  it('should become the leader at once without the Web Locks API', () => {
+    const onLeader = vi.fn();
+
+    requestLeadership(onLeader)();
+
+    expect(onLeader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should hand over the leadership when the leader resigns', async () => {
+    const locks = createLockManager();
+    Object.defineProperty(navigator, 'locks', { configurable: true, value: locks });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const resignFirst = requestLeadership(first);
+    const resignSecond = requestLeadership(second);
+    await Promise.resolve();
+
+    expect(locks.request).toHaveBeenCalledWith(
+      LEADER_LOCK_NAME,
+      expect.anything(),
+      expect.any(Function)
+    );
+    expect(first).toHaveBeenCalledTimes(1);
+    expect(second).not.toHaveBeenCalled();
+
+    resignFirst();
+    await vi.waitFor(() => expect(second).toHaveBeenCalledTimes(1));
+    resignSecond();
+  });
+
+  it('should stop waiting for the leadership when resigning before being elected', async () => {
+    Object.defineProperty(navigator, 'locks', { configurable: true, value: createLockManager() });
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const resignFirst = requestLeadership(first);
+    requestLeadership(second)();
+    resignFirst();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('should recognize task change messages', () => {
+    expect(isTabMessage({ type: 'tasksChanged', taskIds: ['1'] })).toBe(true);
+    expect(isTabMessage({ type: 'TASKS_CHANGED' })).toBe(false);
+    expect(isTabMessage(null)).toBe(false);
+  });
+});
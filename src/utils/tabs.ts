@@ -0,0 +1,60 @@
+// タブ・Service Worker の間で変更を知らせるチャンネル
+export const TAB_CHANNEL_NAME = 'todo-claude:tabs';
+
+// 代表のタブ (リーダー) が保持し続けるロック
+export const LEADER_LOCK_NAME = 'todo-claude:leader';
+
+// チャンネルで送るメッセージ
+export type TabMessage = { type: 'tasksChanged'; taskIds: string[] };
+
+/**
+ * タブ間のチャンネルを開く
+ * @returns BroadcastChannel を使えない環境では null
+ */
+export function createTabChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === 'undefined') return null;
+  return new BroadcastChannel(TAB_CHANNEL_NAME);
+}
+
+/**
+ * タブ間のメッセージかどうか
+ * @param data 受け取ったデータ
+ */
+export function isTabMessage(data: unknown): data is TabMessage {
+  const message = data as TabMessage | null;
+  return message?.type === 'tasksChanged' && Array.isArray(message.taskIds);
+}
+
+/**
+ * 代表のタブの選出に参加する
+ * 代表のタブが閉じるとロックが解放され、待っていたタブの1つが次の代表になる
+ * Web Locks API を使えない環境では、すぐに代表になる
+ * @param onLeader 代表になったときに呼ばれる
+ * @returns 選出への参加をやめる (代表の場合は他のタブに譲る) 関数
+ */
+export function requestLeadership(onLeader: () => void): () => void {
+  if (typeof navigator === 'undefined' || !navigator.locks) {
+    onLeader();
+    return () => {};
+  }
+
+  const controller = new AbortController();
+  let resign = () => {};
+
+  navigator.locks
+    .request(LEADER_LOCK_NAME, { signal: controller.signal }, () => {
+      onLeader();
+      // 参加をやめるまでロックを保持する
+      return new Promise<void>((resolve) => {
+        resign = resolve;
+      });
+    })
+    .catch(() => {
+      // 代表になる前に参加をやめた場合は AbortError になる
+    });
+
+  return () => {
+    controller.abort();
+    resign();
+  };
+}
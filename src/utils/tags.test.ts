@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getTagCounts,
+  matchesTagFilter,
+  normalizeTag,
+  normalizeTags,
+  renameTagInList,
+  suggestTags,
+} from './tags';
+import { createTask } from '@/test/factories';
+
+describe('tags', () => {
+  it('should normalize tag names', () => {
+    expect(normalizeTag('#Waiting')).toBe('waiting');
+    expect(normalizeTag('  ＣＡＬＬ  ')).toBe('call');
+    expect(normalizeTag('follow up')).toBe('follow-up');
+    expect(normalizeTag('連絡待ち')).toBe('連絡待ち');
+    expect(normalizeTag(' # ')).toBe('');
+  });
+
+  it('should drop duplicated and empty tags', () => {
+    expect(normalizeTags(['Call', '#call', '', 'errand'])).toEqual(['call', 'errand']);
+  });
+
+  it('should count tags in order of use', () => {
+    const tasks = [
+      createTask({ id: 'a', tags: ['call', 'waiting'] }),
+      createTask({ id: 'b', tags: ['waiting'] }),
+      createTask({ id: 'c', tags: ['errand'] }),
+      createTask({ id: 'd' }),
+    ];
+
+    expect(getTagCounts(tasks)).toEqual([
+      { tag: 'waiting', count: 2 },
+      { tag: 'call', count: 1 },
+      { tag: 'errand', count: 1 },
+    ]);
+  });
+
+  it('should suggest tags matching the prefix first', () => {
+    const tags = ['home', 'phone', 'photo', 'work'];
+
+    expect(suggestTags('ph', tags)).toEqual(['phone', 'photo']);
+    expect(suggestTags('o', tags)).toEqual(['home', 'phone', 'photo', 'work']);
+    expect(suggestTags('#Pho', tags, ['phone'])).toEqual(['photo']);
+    expect(suggestTags('', tags, ['work'])).toEqual(['home', 'phone', 'photo']);
+  });
+
+  it('should match tasks with all tags or any tag', () => {
+    const task = createTask({ id: 'a', tags: ['call', 'waiting'] });
+
+    expect(matchesTagFilter(task, [], 'and')).toBe(true);
+    expect(matchesTagFilter(task, ['call', 'waiting'], 'and')).toBe(true);
+    expect(matchesTagFilter(task, ['call', 'errand'], 'and')).toBe(false);
+    expect(matchesTagFilter(task, ['call', 'errand'], 'or')).toBe(true);
+    expect(matchesTagFilter(createTask({ id: 'b' }), ['call'], 'or')).toBe(false);
+  });
+
+  it('should rename and merge tags in a list', () => {
+    expect(renameTagInList(['call', 'work'], 'call', 'phone')).toEqual(['phone', 'work']);
+    expect(renameTagInList(['wait', 'waiting'], 'wait', 'waiting')).toEqual(['waiting']);
+  });
+});
@@ -0,0 +1,99 @@
+import type { Task } from '@/db';
+
+// タグの絞り込み条件 (and: すべてのタグを含む / or: いずれかのタグを含む)
+export type TagMatchMode = 'and' | 'or';
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// 入力候補として表示する最大件数
+const MAX_TAG_SUGGESTIONS = 8;
+
+/**
+ * タグ名を正規化する
+ * 先頭の # を除き、全角英数字は半角・英字は小文字にし、空白は - でつなぐ
+ * @param input 入力されたタグ名
+ * @returns 正規化したタグ名 (空の場合は空文字)
+ */
+export function normalizeTag(input: string): string {
+  return input
+    .normalize('NFKC')
+    .trim()
+    .replace(/^#+/, '')
+    .replace(/[\s,]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+/**
+ * タグの一覧を正規化し、重複と空のタグを取り除く
+ * @param tags タグ名の配列
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * 使われているタグと件数を集計する (件数の多い順)
+ * @param tasks 全タスク
+ */
+export function getTagCounts(tasks: Task[]): TagCount[] {
+  const counts = new Map<string, number>();
+  for (const task of tasks) {
+    for (const tag of task.tags ?? []) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * 入力中の文字列に合うタグの候補 (前方一致を優先し、設定済みのタグは除く)
+ * @param query 入力中の文字列
+ * @param tags 候補のタグ (よく使う順)
+ * @param selected 設定済みのタグ
+ */
+export function suggestTags(query: string, tags: string[], selected: string[] = []): string[] {
+  const normalized = normalizeTag(query);
+  const available = tags.filter((tag) => !selected.includes(tag));
+  if (!normalized) return available.slice(0, MAX_TAG_SUGGESTIONS);
+
+  const prefixed = available.filter((tag) => tag.startsWith(normalized));
+  const contained = available.filter(
+    (tag) => !tag.startsWith(normalized) && tag.includes(normalized)
+  );
+  return [...prefixed, ...contained].slice(0, MAX_TAG_SUGGESTIONS);
+}
+
+/**
+ * タスクがタグの絞り込み条件に合うかどうか
+ * @param task タスク
+ * @param tags 絞り込むタグ (空の場合はすべてのタスクが合う)
+ * @param mode and: すべてのタグを含む / or: いずれかのタグを含む
+ */
+export function matchesTagFilter(
+  task: Pick<Task, 'tags'>,
+  tags: string[],
+  mode: TagMatchMode
+): boolean {
+  if (tags.length === 0) return true;
+  const taskTags = task.tags ?? [];
+  return mode === 'and'
+    ? tags.every((tag) => taskTags.includes(tag))
+    : tags.some((tag) => taskTags.includes(tag));
+}
+
+/**
+ * タグの一覧の中でタグ名を変更する
+ * 変更後のタグがすでにある場合は1つにまとめる (統合)
+ * @param tags タグの一覧
+ * @param from 変更前のタグ
+ * @param to 変更後のタグ
+ */
+export function renameTagInList(tags: string[], from: string, to: string): string[] {
+  return [...new Set(tags.map((tag) => (tag === from ? to : tag)))];
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import {
+  layoutTimeline,
+  moveTimelineBlock,
+  positionToMinutes,
+  resizeTimelineBlock,
+  snapMinutes,
+} from './timeline';
+
+describe('timeline', () => {
+  it('should snap minutes to the step', () => {
+    expect(snapMinutes(547, 5)).toBe(545);
+    expect(snapMinutes(548, 15)).toBe(555);
+  });
+
+  it('should convert positions to minutes within the day', () => {
+    expect(positionToMinutes(360, 720)).toBe(720);
+    expect(positionToMinutes(-10, 720)).toBe(0);
+    expect(positionToMinutes(800, 720)).toBe(24 * 60);
+    expect(positionToMinutes(100, 0)).toBe(0);
+  });
+
+  describe('moveTimelineBlock', () => {
+    it('should move and snap the start time', () => {
+      expect(moveTimelineBlock(540, 30, 55, 15)).toBe(600);
+      expect(moveTimelineBlock(540, 30, 52, 5)).toBe(590);
+    });
+
+    it('should keep the block within the day', () => {
+      expect(moveTimelineBlock(60, 30, -120, 15)).toBe(0);
+      expect(moveTimelineBlock(1380, 90, 120, 15)).toBe(24 * 60 - 90);
+    });
+  });
+
+  describe('resizeTimelineBlock', () => {
+    it('should resize and snap the duration', () => {
+      expect(resizeTimelineBlock(540, 30, 22, 15)).toBe(45);
+      expect(resizeTimelineBlock(540, 30, -28, 5)).toBe(5);
+    });
+
+    it('should keep the duration between the step and the end of the day', () => {
+      expect(resizeTimelineBlock(540, 30, -60, 15)).toBe(15);
+      expect(resizeTimelineBlock(1380, 30, 120, 15)).toBe(60);
+    });
+  });
+
+  describe('layoutTimeline', () => {
+    const item = (id: string, startMin: number, durationMin: number) => ({
+      id,
+      startMin,
+      durationMin,
+    });
+    const lanes = (layout: ReturnType<typeof layoutTimeline>) =>
+      Object.fromEntries(layout.placements.map((p) => [p.id, p.lane]));
+
+    it('should keep tasks that do not overlap in a single lane', () => {
+      const layout = layoutTimeline([item('a', 540, 60), item('b', 600, 30), item('c', 720, 30)]);
+
+      expect(layout.laneCount).toBe(1);
+      expect(layout.placements.every((p) => p.lane === 0 && !p.conflict)).toBe(true);
+    });
+
+    it('should stack overlapping tasks into lanes', () => {
+      const layout = layoutTimeline([
+        item('a', 540, 120),
+        item('b', 570, 30),
+        item('c', 600, 60),
+        item('d', 610, 10),
+        item('e', 700, 30),
+      ]);
+
+      expect(layout.laneCount).toBe(3);
+      expect(lanes(layout)).toEqual({ a: 0, b: 1, c: 1, d: 2, e: 0 });
+    });
+
+    it('should reuse the highest free lane', () => {
+      expect(
+        lanes(layoutTimeline([item('a', 0, 60), item('b', 30, 60), item('c', 60, 30)]))
+      ).toEqual({
+        a: 0,
+        b: 1,
+        c: 0,
+      });
+    });
+
+    it('should place longer tasks first when they start together', () => {
+      expect(lanes(layoutTimeline([item('short', 540, 15), item('long', 540, 90)]))).toEqual({
+        long: 0,
+        short: 1,
+      });
+    });
+
+    it('should flag tasks whose duration runs over the next task or the day', () => {
+      const layout = layoutTimeline([
+        item('a', 540, 90),
+        item('b', 600, 30),
+        item('c', 700, 30),
+        item('d', 1410, 60),
+      ]);
+      const conflicts = layout.placements.filter((p) => p.conflict).map((p) => p.id);
+
+      expect(conflicts).toEqual(['a', 'b', 'd']);
+    });
+
+    it('should handle an empty day', () => {
+      expect(layoutTimeline([])).toEqual({ placements: [], laneCount: 1 });
+    });
+  });
+});
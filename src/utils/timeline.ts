@@ -0,0 +1,126 @@
+export const MINUTES_PER_DAY = 24 * 60;
+
+// タイムラインでドラッグ・キー操作したときに揃える間隔 (分)
+export const TIMELINE_SNAP_STEPS = [5, 15] as const;
+export type TimelineSnapStep = (typeof TIMELINE_SNAP_STEPS)[number];
+
+// durationMin が未設定のタスクの表示上の長さ (分)
+export const DEFAULT_TIMELINE_DURATION = 30;
+
+/**
+ * 分を指定した間隔に丸める
+ * @param minutes 分
+ * @param step 間隔 (分)
+ * @returns 丸めた分
+ */
+export function snapMinutes(minutes: number, step: number): number {
+  return Math.round(minutes / step) * step;
+}
+
+/**
+ * タイムライン上の横位置を0時からの分に変換する
+ * @param offsetX タイムラインの左端からの位置 (px)
+ * @param width タイムラインの幅 (px)
+ * @returns 0時からの分 (0〜1440)
+ */
+export function positionToMinutes(offsetX: number, width: number): number {
+  if (width <= 0) return 0;
+  return Math.min(Math.max((offsetX / width) * MINUTES_PER_DAY, 0), MINUTES_PER_DAY);
+}
+
+/**
+ * 開始時刻をずらした結果を、その日の中に収まるように算出する
+ * @param startMin 元の開始時刻 (0時からの分)
+ * @param durationMin 長さ (分)
+ * @param deltaMin ずらす分
+ * @param step 揃える間隔 (分)
+ * @returns 新しい開始時刻 (0時からの分)
+ */
+export function moveTimelineBlock(
+  startMin: number,
+  durationMin: number,
+  deltaMin: number,
+  step: number
+): number {
+  const moved = snapMinutes(startMin + deltaMin, step);
+  return Math.min(Math.max(moved, 0), Math.max(MINUTES_PER_DAY - durationMin, 0));
+}
+
+/**
+ * 長さを変えた結果を、その日の中に収まるように算出する
+ * @param startMin 開始時刻 (0時からの分)
+ * @param durationMin 元の長さ (分)
+ * @param deltaMin 伸ばす分 (負の値で縮める)
+ * @param step 揃える間隔 (分)。長さの最小値にもなる
+ * @returns 新しい長さ (分)
+ */
+export function resizeTimelineBlock(
+  startMin: number,
+  durationMin: number,
+  deltaMin: number,
+  step: number
+): number {
+  const resized = snapMinutes(durationMin + deltaMin, step);
+  return Math.min(Math.max(resized, step), MINUTES_PER_DAY - startMin);
+}
+
+export interface TimelineItem {
+  id: string;
+  startMin: number;
+  durationMin: number;
+}
+
+export interface TimelinePlacement extends TimelineItem {
+  lane: number;
+  // 次の予定の開始や日付の終わりまでに予定の長さが収まらない
+  conflict: boolean;
+}
+
+export interface TimelineLayout {
+  placements: TimelinePlacement[];
+  laneCount: number;
+}
+
+/**
+ * 時間が重なる予定を別の段 (レーン) に振り分ける
+ * 開始の早い順に、空いている一番上のレーンに配置する
+ * @param items 予定 (開始時刻は0時からの分)
+ * @returns 各予定のレーンと時間超過の有無、レーン数
+ */
+export function layoutTimeline(items: TimelineItem[]): TimelineLayout {
+  const sorted = [...items].sort(
+    (a, b) => a.startMin - b.startMin || b.durationMin - a.durationMin
+  );
+  const laneEnds: number[] = [];
+  const conflicts = new Set<string>();
+
+  const placements = sorted.map((item, index) => {
+    const endMin = item.startMin + item.durationMin;
+
+    if (endMin > MINUTES_PER_DAY) {
+      conflicts.add(item.id);
+    }
+    // 開始順に並べているので、この予定の終了前に始まる後続の予定を確認すればよい
+    for (const other of sorted.slice(index + 1)) {
+      if (other.startMin >= endMin) break;
+      conflicts.add(item.id);
+      conflicts.add(other.id);
+    }
+
+    let lane = laneEnds.findIndex((laneEnd) => laneEnd <= item.startMin);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = endMin;
+
+    return { ...item, lane };
+  });
+
+  return {
+    placements: placements.map((placement) => ({
+      ...placement,
+      conflict: conflicts.has(placement.id),
+    })),
+    laneCount: Math.max(laneEnds.length, 1),
+  };
+}
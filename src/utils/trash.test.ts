@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  excludeTrashed,
+  getDaysUntilPurge,
+  getTrashPurgeCutoff,
+  isTrashed,
+  resolveTrashRetentionDays,
+} from './trash';
+
+describe('trash', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const now = new Date('2024-03-10T12:00:00Z').getTime();
+
+  it('should tell trashed rows apart', () => {
+    const rows = [{ id: 'a' }, { id: 'b', deletedAt: now }];
+
+    expect(isTrashed(rows[1])).toBe(true);
+    expect(excludeTrashed(rows)).toEqual([{ id: 'a' }]);
+  });
+
+  it('should keep the retention period within range', () => {
+    expect(resolveTrashRetentionDays(7)).toBe(7);
+    expect(resolveTrashRetentionDays(0)).toBe(1);
+    expect(resolveTrashRetentionDays(1000)).toBe(365);
+    expect(resolveTrashRetentionDays(undefined)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+    expect(resolveTrashRetentionDays(NaN)).toBe(DEFAULT_TRASH_RETENTION_DAYS);
+  });
+
+  it('should compute the purge cutoff and the remaining days', () => {
+    expect(getTrashPurgeCutoff(30, now)).toBe(now - 30 * DAY_MS);
+    expect(getDaysUntilPurge(now, 30, now)).toBe(30);
+    expect(getDaysUntilPurge(now - 29.5 * DAY_MS, 30, now)).toBe(1);
+    expect(getDaysUntilPurge(now - 31 * DAY_MS, 30, now)).toBe(0);
+  });
+});
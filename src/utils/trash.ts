@@ -0,0 +1,57 @@
+// ゴミ箱に入れたタスク・カテゴリーを完全に削除するまでの日数 (既定値)
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// 設定できる保存期間の範囲 (日)
+export const MIN_TRASH_RETENTION_DAYS = 1;
+export const MAX_TRASH_RETENTION_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ゴミ箱に入っているかどうか
+ * @param row タスクまたはカテゴリー
+ */
+export function isTrashed(row: { deletedAt?: number }): boolean {
+  return row.deletedAt !== undefined;
+}
+
+/**
+ * ゴミ箱に入っていないものだけを残す
+ * @param rows タスクまたはカテゴリーの配列
+ */
+export function excludeTrashed<T extends { deletedAt?: number }>(rows: T[]): T[] {
+  return rows.filter((row) => !isTrashed(row));
+}
+
+/**
+ * 保存期間の設定値を範囲内の日数にする
+ * @param days 設定値
+ * @returns 日数 (不正な値の場合は既定値)
+ */
+export function resolveTrashRetentionDays(days: unknown): number {
+  if (typeof days !== 'number' || !Number.isFinite(days)) return DEFAULT_TRASH_RETENTION_DAYS;
+  return Math.min(Math.max(Math.round(days), MIN_TRASH_RETENTION_DAYS), MAX_TRASH_RETENTION_DAYS);
+}
+
+/**
+ * この日時以前にゴミ箱に入れたものは保存期間を過ぎている
+ * @param retentionDays 保存期間 (日)
+ * @param now 現在時刻
+ */
+export function getTrashPurgeCutoff(retentionDays: number, now: number = Date.now()): number {
+  return now - retentionDays * DAY_MS;
+}
+
+/**
+ * 完全に削除されるまでの残り日数 (切り上げ)
+ * @param deletedAt ゴミ箱に入れた日時
+ * @param retentionDays 保存期間 (日)
+ * @param now 現在時刻
+ */
+export function getDaysUntilPurge(
+  deletedAt: number,
+  retentionDays: number,
+  now: number = Date.now()
+): number {
+  return Math.max(Math.ceil((deletedAt + retentionDays * DAY_MS - now) / DAY_MS), 0);
+}